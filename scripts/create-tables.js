@@ -7,12 +7,29 @@ const pool = new Pool({
   connectionString: process.env.POSTGRES_URL
 });
 
+// Full-text search document for meetings; matches meetings.searchVector in src/lib/schema.ts
+const MEETING_SEARCH_VECTOR = `
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(transcript, '')), 'C')
+`;
+
 async function createTables() {
   console.log('Connecting to database...');
   const client = await pool.connect();
   try {
     console.log('Creating tables...');
 
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_series (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
     await client.query(`
       CREATE TABLE IF NOT EXISTS meetings (
         id SERIAL PRIMARY KEY,
@@ -21,6 +38,16 @@ async function createTables() {
         ended_at TIMESTAMP,
         transcript TEXT,
         summary TEXT,
+        series_id INTEGER REFERENCES meeting_series(id) ON DELETE SET NULL,
+        project VARCHAR(255),
+        tags TEXT[] NOT NULL DEFAULT '{}',
+        attendees TEXT[] NOT NULL DEFAULT '{}',
+        live_summary TEXT,
+        live_summary_segment_id INTEGER,
+        live_summary_through_ms INTEGER,
+        live_summary_at TIMESTAMP,
+        indexed_at TIMESTAMP,
+        search_vector TSVECTOR GENERATED ALWAYS AS (${MEETING_SEARCH_VECTOR}) STORED,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
@@ -34,6 +61,143 @@ async function createTables() {
         task TEXT NOT NULL,
         due_date TIMESTAMP,
         completed BOOLEAN NOT NULL DEFAULT FALSE,
+        ai_suggested BOOLEAN NOT NULL DEFAULT FALSE,
+        confirmed_at TIMESTAMP,
+        transcript_quote TEXT,
+        transcript_start_ms INTEGER,
+        transcript_end_ms INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS decisions (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        decision TEXT NOT NULL,
+        rationale TEXT,
+        ai_suggested BOOLEAN NOT NULL DEFAULT FALSE,
+        confirmed_at TIMESTAMP,
+        transcript_quote TEXT,
+        transcript_start_ms INTEGER,
+        transcript_end_ms INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS transcript_segments (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        start_ms INTEGER NOT NULL,
+        end_ms INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        confidence REAL,
+        language VARCHAR(10),
+        speaker VARCHAR(255),
+        edited_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS segment_revisions (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        segment_id INTEGER NOT NULL,
+        action VARCHAR(20) NOT NULL DEFAULT 'edit',
+        previous_text TEXT NOT NULL,
+        text TEXT NOT NULL,
+        previous_speaker VARCHAR(255),
+        speaker VARCHAR(255),
+        start_ms INTEGER,
+        end_ms INTEGER,
+        confidence REAL,
+        language VARCHAR(10),
+        edited_by VARCHAR(255),
+        reverted_revision_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_speakers (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        label VARCHAR(255) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_chapters (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        gist TEXT,
+        start_ms INTEGER NOT NULL,
+        end_ms INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS agenda_items (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        topic VARCHAR(255) NOT NULL,
+        duration_minutes INTEGER NOT NULL,
+        started_at TIMESTAMP,
+        ended_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_highlights (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        at_ms INTEGER NOT NULL,
+        start_ms INTEGER NOT NULL,
+        quote TEXT NOT NULL,
+        note TEXT,
+        source VARCHAR(20) NOT NULL DEFAULT 'button',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_audio_clips (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        start_ms INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        pathname TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS meeting_imports (
+        id SERIAL PRIMARY KEY,
+        meeting_id INTEGER NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        file_name VARCHAR(255) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+        total_chunks INTEGER NOT NULL,
+        uploaded_chunks INTEGER NOT NULL DEFAULT 0,
+        processed_chunks INTEGER NOT NULL DEFAULT 0,
+        chunk_duration_ms INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        error TEXT,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
@@ -57,15 +221,97 @@ async function createTables() {
         chromadb_collection_id VARCHAR(255),
         uploaded_at TIMESTAMP NOT NULL DEFAULT NOW(),
         processed_at TIMESTAMP,
-        chunk_count INTEGER
+        chunk_count INTEGER,
+        storage_url TEXT,
+        storage_pathname TEXT,
+        error TEXT
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS document_jobs (
+        id SERIAL PRIMARY KEY,
+        document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        status VARCHAR(20) NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        total_chunks INTEGER,
+        embedded_chunks INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
     `);
 
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS retention_runs (
+        id SERIAL PRIMARY KEY,
+        retention_days INTEGER NOT NULL,
+        cutoff TIMESTAMP NOT NULL,
+        trigger VARCHAR(20) NOT NULL,
+        meetings_deleted INTEGER NOT NULL DEFAULT 0,
+        action_items_deleted INTEGER NOT NULL DEFAULT 0,
+        documents_deleted INTEGER NOT NULL DEFAULT 0,
+        audio_clips_deleted INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP
+      )
+    `);
+
+    // Add columns introduced after the initial release
+    await client.query(`
+      ALTER TABLE action_items
+        ADD COLUMN IF NOT EXISTS ai_suggested BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS transcript_quote TEXT,
+        ADD COLUMN IF NOT EXISTS transcript_start_ms INTEGER,
+        ADD COLUMN IF NOT EXISTS transcript_end_ms INTEGER
+    `);
+
+    await client.query(`
+      ALTER TABLE meetings
+        ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS series_id INTEGER REFERENCES meeting_series(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS project VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS attendees TEXT[] NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS live_summary TEXT,
+        ADD COLUMN IF NOT EXISTS live_summary_segment_id INTEGER,
+        ADD COLUMN IF NOT EXISTS live_summary_through_ms INTEGER,
+        ADD COLUMN IF NOT EXISTS live_summary_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (${MEETING_SEARCH_VECTOR}) STORED
+    `);
+
+    await client.query(`
+      ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS storage_url TEXT,
+        ADD COLUMN IF NOT EXISTS storage_pathname TEXT,
+        ADD COLUMN IF NOT EXISTS error TEXT
+    `);
+
     // Create indexes
     await client.query(`CREATE INDEX IF NOT EXISTS meetings_started_at_idx ON meetings(started_at)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meetings_series_id_idx ON meetings(series_id, started_at)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meetings_project_idx ON meetings(project)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meetings_tags_idx ON meetings USING GIN (tags)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meetings_search_vector_idx ON meetings USING GIN (search_vector)`);
     await client.query(`CREATE INDEX IF NOT EXISTS action_items_meeting_id_idx ON action_items(meeting_id)`);
     await client.query(`CREATE INDEX IF NOT EXISTS action_items_completed_idx ON action_items(completed)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS decisions_meeting_id_idx ON decisions(meeting_id)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS transcript_segments_meeting_id_start_ms_idx ON transcript_segments(meeting_id, start_ms)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS segment_revisions_meeting_id_idx ON segment_revisions(meeting_id, created_at)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS segment_revisions_segment_id_idx ON segment_revisions(segment_id)`);
+    await client.query(`CREATE UNIQUE INDEX IF NOT EXISTS meeting_speakers_meeting_id_label_idx ON meeting_speakers(meeting_id, label)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meeting_chapters_meeting_id_idx ON meeting_chapters(meeting_id, position)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS agenda_items_meeting_id_idx ON agenda_items(meeting_id, position)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meeting_highlights_meeting_id_idx ON meeting_highlights(meeting_id, at_ms)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meeting_audio_clips_meeting_id_idx ON meeting_audio_clips(meeting_id, start_ms)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meeting_imports_meeting_id_idx ON meeting_imports(meeting_id)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS meeting_imports_status_idx ON meeting_imports(status)`);
     await client.query(`CREATE INDEX IF NOT EXISTS documents_uploaded_at_idx ON documents(uploaded_at)`);
+    await client.query(`CREATE UNIQUE INDEX IF NOT EXISTS document_jobs_document_id_idx ON document_jobs(document_id)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS document_jobs_status_idx ON document_jobs(status)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS retention_runs_started_at_idx ON retention_runs(started_at)`);
 
     console.log('Tables created successfully!');
   } finally {
@@ -0,0 +1,155 @@
+"""
+Speaker Diarization
+
+Optional pyannote.audio stage that labels transcription segments with
+"Speaker 1", "Speaker 2", ... Labels stay consistent across the short clips
+of a live meeting by matching each clip's speaker embeddings against the
+speakers already heard in the same session.
+"""
+
+from collections import OrderedDict
+from typing import Optional
+import logging
+import os
+
+logger = logging.getLogger(__name__)
+
+DIARIZATION_ENABLED = os.getenv("DIARIZATION_ENABLED", "false").lower() == "true"
+DIARIZATION_MODEL = os.getenv("DIARIZATION_MODEL", "pyannote/speaker-diarization-3.1")
+HF_TOKEN = os.getenv("HF_TOKEN")
+
+# Minimum cosine similarity for a voice to count as an already known speaker
+SIMILARITY_THRESHOLD = float(os.getenv("DIARIZATION_SIMILARITY_THRESHOLD", "0.5"))
+
+# Number of meeting sessions whose speakers are remembered
+MAX_SESSIONS = 100
+
+# Lazy load pipeline - it is large and only needed when diarization is requested
+_pipeline = None
+
+
+def is_available() -> bool:
+    """Whether diarization is enabled and pyannote.audio is installed."""
+    if not DIARIZATION_ENABLED:
+        return False
+    try:
+        import pyannote.audio  # noqa: F401
+        return True
+    except ImportError:
+        return False
+
+
+def get_pipeline():
+    """Lazy load the pyannote diarization pipeline."""
+    global _pipeline
+    if _pipeline is None:
+        from pyannote.audio import Pipeline
+        logger.info(f"Loading diarization pipeline: {DIARIZATION_MODEL}")
+        _pipeline = Pipeline.from_pretrained(DIARIZATION_MODEL, use_auth_token=HF_TOKEN)
+        if os.getenv("WHISPER_DEVICE", "cpu") == "cuda":
+            import torch
+            _pipeline.to(torch.device("cuda"))
+        logger.info("Diarization pipeline loaded successfully")
+    return _pipeline
+
+
+class SpeakerRegistry:
+    """Remembers the voices heard in each session so labels stay stable."""
+
+    def __init__(self, max_sessions: int = MAX_SESSIONS):
+        self.max_sessions = max_sessions
+        # session id -> list of (centroid embedding, number of clips averaged)
+        self.sessions: "OrderedDict[str, list]" = OrderedDict()
+
+    def assign(self, session_id: Optional[str], embeddings) -> list[Optional[str]]:
+        """
+        Map the speakers of one clip to session-wide labels.
+
+        Args:
+            session_id: Meeting session the clip belongs to (None for a one-off clip)
+            embeddings: One embedding per local speaker, in diarization label order
+
+        Returns:
+            "Speaker N" label for each local speaker (None if the voice could not be matched)
+        """
+        import numpy as np
+
+        if session_id is None:
+            return [f"Speaker {i + 1}" for i in range(len(embeddings))]
+
+        known = self.sessions.pop(session_id, [])
+        self.sessions[session_id] = known
+        while len(self.sessions) > self.max_sessions:
+            self.sessions.popitem(last=False)
+
+        labels: list[Optional[str]] = []
+        used: set[int] = set()
+
+        for embedding in embeddings:
+            embedding = np.asarray(embedding, dtype=float)
+            if not np.all(np.isfinite(embedding)):
+                # pyannote returns NaN embeddings for speakers with too little audio
+                labels.append(None)
+                continue
+
+            best_index, best_score = None, SIMILARITY_THRESHOLD
+            for index, (centroid, _) in enumerate(known):
+                if index in used:
+                    continue
+                score = float(
+                    np.dot(centroid, embedding)
+                    / (np.linalg.norm(centroid) * np.linalg.norm(embedding) + 1e-9)
+                )
+                if score > best_score:
+                    best_index, best_score = index, score
+
+            if best_index is None:
+                known.append((embedding, 1))
+                best_index = len(known) - 1
+            else:
+                # Running average keeps the centroid representative of the voice
+                centroid, count = known[best_index]
+                known[best_index] = ((centroid * count + embedding) / (count + 1), count + 1)
+
+            used.add(best_index)
+            labels.append(f"Speaker {best_index + 1}")
+
+        return labels
+
+
+registry = SpeakerRegistry()
+
+
+def diarize(audio_path: str, session_id: Optional[str] = None) -> list[tuple[float, float, Optional[str]]]:
+    """
+    Find who spoke when in an audio file.
+
+    Returns:
+        List of (start, end, label) speaker turns in seconds
+    """
+    pipeline = get_pipeline()
+    annotation, embeddings = pipeline(audio_path, return_embeddings=True)
+
+    local_labels = annotation.labels()
+    session_labels = registry.assign(session_id, embeddings[: len(local_labels)])
+    mapping = dict(zip(local_labels, session_labels))
+
+    return [
+        (turn.start, turn.end, mapping[speaker])
+        for turn, _, speaker in annotation.itertracks(yield_label=True)
+    ]
+
+
+def speaker_for_span(
+    turns: list[tuple[float, float, Optional[str]]], start: float, end: float
+) -> Optional[str]:
+    """Pick the speaker who talks the most during a segment."""
+    overlap: dict[str, float] = {}
+    for turn_start, turn_end, label in turns:
+        duration = min(end, turn_end) - max(start, turn_start)
+        if label is not None and duration > 0:
+            overlap[label] = overlap.get(label, 0.0) + duration
+
+    if not overlap:
+        return None
+    return max(overlap, key=lambda label: overlap[label])
@@ -5,16 +5,19 @@ A FastAPI server that provides transcription endpoints using faster-whisper.
 Supports both batch and streaming transcription modes.
 """
 
-from fastapi import FastAPI, UploadFile, File, HTTPException
+from fastapi import FastAPI, UploadFile, File, Form, HTTPException
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.responses import StreamingResponse
 from pydantic import BaseModel
 from typing import Optional, AsyncGenerator
 import io
+import math
 import os
 import tempfile
 import logging
 
+import diarization
+
 # Configure logging
 logging.basicConfig(level=logging.INFO)
 logger = logging.getLogger(__name__)
@@ -76,6 +79,8 @@ class TranscriptionSegment(BaseModel):
     start: float
     end: float
     text: str
+    confidence: Optional[float] = None
+    speaker: Optional[str] = None
     words: Optional[list] = None
 
 
@@ -95,7 +100,8 @@ async def health_check():
         "status": "healthy",
         "model_size": MODEL_SIZE,
         "device": DEVICE,
-        "compute_type": COMPUTE_TYPE
+        "compute_type": COMPUTE_TYPE,
+        "diarization": diarization.is_available()
     }
 
 
@@ -226,12 +232,16 @@ async def transcribe_detailed(
     audio: UploadFile = File(...),
     language: Optional[str] = None,
     task: Optional[str] = "transcribe",
-    word_timestamps: bool = False
+    word_timestamps: bool = False,
+    diarize: bool = Form(False),
+    session_id: Optional[str] = Form(None)
 ):
     """
     Transcribe audio with detailed segment information.
 
     Returns segments with timing information, useful for subtitles or synchronized display.
+    With diarize=true each segment is labelled "Speaker N"; clips sent with the
+    same session_id share speaker labels.
     """
     try:
         model = get_model()
@@ -277,7 +287,9 @@ async def transcribe_detailed(
                     id=i,
                     start=segment.start,
                     end=segment.end,
-                    text=segment.text.strip()
+                    text=segment.text.strip(),
+                    # Average token probability for the segment (0-1)
+                    confidence=math.exp(segment.avg_logprob)
                 )
 
                 if word_timestamps and segment.words:
@@ -288,6 +300,17 @@ async def transcribe_detailed(
 
                 segments.append(seg_data)
 
+            if diarize and segments and diarization.is_available():
+                try:
+                    turns = diarization.diarize(tmp_path, session_id)
+                    for seg_data in segments:
+                        seg_data.speaker = diarization.speaker_for_span(
+                            turns, seg_data.start, seg_data.end
+                        )
+                except Exception as e:
+                    # Speaker labels are a bonus - never fail the transcription over them
+                    logger.error(f"Diarization error: {e}")
+
             # Handle case where VAD removes all audio (no speech detected)
             if not segments:
                 return DetailedTranscriptionResponse(
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ListTodo, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { ActionItemList } from '@/components/action-item-list';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useActionItems } from '@/hooks/use-action-items';
+import type { ActionItemStatus, UpdateActionItemInput } from '@/lib/action-items';
+
+export default function ActionItemsPage() {
+  const [assigneeQuery, setAssigneeQuery] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [status, setStatus] = useState<ActionItemStatus>('open');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+
+  const { items, isLoading, error, updateItem, deleteItem } = useActionItems({
+    filters: { assignee, status, overdue: overdueOnly },
+  });
+
+  // Debounce assignee search
+  useEffect(() => {
+    const timer = setTimeout(() => setAssignee(assigneeQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [assigneeQuery]);
+
+  const handleUpdate = async (id: number, input: UpdateActionItemInput) => {
+    const updated = await updateItem(id, input);
+    if (!updated) toast.error('Failed to update action item');
+  };
+
+  const handleDelete = async (id: number) => {
+    const deleted = await deleteItem(id);
+    if (deleted) {
+      toast.success('Action item deleted');
+    } else {
+      toast.error('Failed to delete action item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/meetings">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-slate-100">Action Items</h1>
+            <p className="text-sm text-slate-400">
+              Track follow-ups across all meetings
+            </p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col gap-3 mb-6 sm:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder="Filter by assignee..."
+              value={assigneeQuery}
+              onChange={(e) => setAssigneeQuery(e.target.value)}
+              className="pl-10 bg-slate-800 border-slate-700"
+            />
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value) => setStatus(value as ActionItemStatus)}
+          >
+            <SelectTrigger className="sm:w-40 bg-slate-800 border-slate-700" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant={overdueOnly ? 'destructive' : 'outline'}
+            onClick={() => setOverdueOnly((prev) => !prev)}
+            aria-pressed={overdueOnly}
+          >
+            Overdue only
+          </Button>
+        </div>
+
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ListTodo className="h-4 w-4 text-orange-400" />
+              {status === 'open'
+                ? 'Open Items'
+                : status === 'completed'
+                  ? 'Completed Items'
+                  : 'All Items'}
+            </CardTitle>
+            <CardDescription>
+              {items.length} item{items.length !== 1 ? 's' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && items.length === 0 ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <p className="text-red-400 text-sm">{error}</p>
+            ) : (
+              <ActionItemList
+                items={items}
+                showMeeting
+                emptyMessage="No action items match these filters."
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import {
   RotateCcw,
   Shield,
   HelpCircle,
+  Trash2,
+  Eye,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -35,11 +37,35 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { resetTour } from "@/lib/tour-storage";
 
+interface RetentionPreviewData {
+  enabled: boolean;
+  retentionDays: number;
+  cutoff: string | null;
+  meetings: Array<{ id: number; title: string | null; startedAt: string }>;
+  actionItemCount: number;
+  audioClipCount: number;
+  documents: Array<{ id: number; originalName: string | null; uploadedAt: string }>;
+}
+
+interface RetentionRunData {
+  id: number;
+  trigger: string;
+  meetingsDeleted: number;
+  actionItemsDeleted: number;
+  documentsDeleted: number;
+  audioClipsDeleted: number;
+  error: string | null;
+  startedAt: string;
+}
+
 interface SettingsData {
   responseLength: string;
   voiceSpeed: string;
   wakeWord: string;
   retentionDays: string;
+  liveSummaryMinutes: string;
+  highlightSeconds: string;
+  storeAudio: string;
   ttsEnabled: string;
   autoTranscribe: string;
 }
@@ -49,6 +75,9 @@ const DEFAULT_SETTINGS: SettingsData = {
   voiceSpeed: "normal",
   wakeWord: "hey assistant",
   retentionDays: "90",
+  liveSummaryMinutes: "5",
+  highlightSeconds: "30",
+  storeAudio: "false",
   ttsEnabled: "true",
   autoTranscribe: "true",
 };
@@ -63,6 +92,9 @@ export default function AdminPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [originalSettings, setOriginalSettings] = useState<SettingsData>(DEFAULT_SETTINGS);
+  const [retentionPreview, setRetentionPreview] = useState<RetentionPreviewData | null>(null);
+  const [retentionRuns, setRetentionRuns] = useState<RetentionRunData[]>([]);
+  const [isPurging, setIsPurging] = useState(false);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -99,6 +131,41 @@ export default function AdminPage() {
     }
   };
 
+  const loadRetention = async () => {
+    try {
+      const response = await fetch("/api/retention");
+      if (response.ok) {
+        const data = await response.json();
+        setRetentionPreview(data.preview);
+        setRetentionRuns(data.runs);
+      }
+    } catch (error) {
+      console.error("Failed to load retention preview:", error);
+      toast.error("Failed to load retention preview");
+    }
+  };
+
+  const handlePurge = async () => {
+    setIsPurging(true);
+    try {
+      const response = await fetch("/api/retention", { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Purge failed");
+      }
+
+      toast.success(
+        `Purged ${data.meetingsDeleted} meetings, ${data.audioClipsDeleted} audio clips and ${data.documentsDeleted} documents`
+      );
+      await loadRetention();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Purge failed");
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
   const handlePinSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setPinError("");
@@ -158,6 +225,9 @@ export default function AdminPage() {
         setOriginalSettings(settings);
         setHasChanges(false);
         toast.success("Settings saved successfully");
+        if (retentionPreview) {
+          await loadRetention();
+        }
       } else {
         throw new Error("Failed to save");
       }
@@ -310,6 +380,39 @@ export default function AdminPage() {
                 </p>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="liveSummaryMinutes">Live Summary Interval (Minutes)</Label>
+              <Input
+                id="liveSummaryMinutes"
+                type="number"
+                min="0"
+                max="60"
+                value={settings.liveSummaryMinutes}
+                onChange={(e) => updateSetting("liveSummaryMinutes", e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Refresh the catch-up summary in the meeting room after this many
+                minutes of new conversation. Set to 0 to only update it when
+                someone asks to be caught up.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="highlightSeconds">Highlight Length (Seconds)</Label>
+              <Input
+                id="highlightSeconds"
+                type="number"
+                min="5"
+                max="600"
+                value={settings.highlightSeconds}
+                onChange={(e) => updateSetting("highlightSeconds", e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                How much of the conversation before a bookmark is saved with it
+                when someone says &quot;bookmark that&quot; or presses Bookmark.
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -404,7 +507,7 @@ export default function AdminPage() {
               <Input
                 id="retentionDays"
                 type="number"
-                min="1"
+                min="0"
                 max="365"
                 value={settings.retentionDays}
                 onChange={(e) => updateSetting("retentionDays", e.target.value)}
@@ -414,6 +517,97 @@ export default function AdminPage() {
                 days. Set to 0 for indefinite retention.
               </p>
             </div>
+
+            <div className="space-y-2 mt-6">
+              <Label htmlFor="storeAudio">Store Meeting Audio</Label>
+              <Select
+                value={settings.storeAudio}
+                onValueChange={(value) => updateSetting("storeAudio", value)}
+              >
+                <SelectTrigger id="storeAudio">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">Enabled</SelectItem>
+                  <SelectItem value="false">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Keep recorded audio so meetings can be played back alongside
+                the transcript. Stored audio is deleted with its meeting.
+              </p>
+            </div>
+
+            <Separator className="my-6" />
+
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button variant="outline" onClick={loadRetention}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  Preview Purge
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handlePurge}
+                  disabled={isPurging || !retentionPreview?.enabled}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {isPurging ? "Purging..." : "Purge Now"}
+                </Button>
+              </div>
+
+              {retentionPreview && (
+                <div className="rounded-md border p-4 text-sm space-y-2">
+                  {retentionPreview.enabled && retentionPreview.cutoff ? (
+                    <>
+                      <p>
+                        Data older than{" "}
+                        <span className="font-medium">
+                          {new Date(retentionPreview.cutoff).toLocaleString()}
+                        </span>{" "}
+                        will be deleted:
+                      </p>
+                      <ul className="list-disc pl-5 text-muted-foreground">
+                        <li>
+                          {retentionPreview.meetings.length} meeting
+                          {retentionPreview.meetings.length !== 1 ? "s" : ""} (
+                          {retentionPreview.actionItemCount} action item
+                          {retentionPreview.actionItemCount !== 1 ? "s" : ""},{" "}
+                          {retentionPreview.audioClipCount} audio clip
+                          {retentionPreview.audioClipCount !== 1 ? "s" : ""})
+                        </li>
+                        <li>
+                          {retentionPreview.documents.length} document
+                          {retentionPreview.documents.length !== 1 ? "s" : ""}
+                        </li>
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      Retention is set to 0 days. Data is kept forever.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {retentionRuns.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Purge Log</Label>
+                  <ul className="text-xs text-muted-foreground space-y-1">
+                    {retentionRuns.map((run) => (
+                      <li key={run.id}>
+                        {new Date(run.startedAt).toLocaleString()} ({run.trigger}):{" "}
+                        {run.meetingsDeleted} meetings, {run.actionItemsDeleted} action
+                        items, {run.audioClipsDeleted} audio clips, {run.documentsDeleted} documents
+                        {run.error && (
+                          <span className="text-destructive"> - {run.error}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
           </CardContent>
         </Card>
 
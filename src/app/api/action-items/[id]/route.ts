@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getConfirmedAt, toDueDate, updateActionItemSchema } from "@/lib/action-items";
+import { db } from "@/lib/db";
+import { actionItems } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Get a single action item
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const itemId = parseInt(id);
+
+    if (isNaN(itemId)) {
+      return NextResponse.json({ error: "Invalid action item ID" }, { status: 400 });
+    }
+
+    const [item] = await db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.id, itemId));
+
+    if (!item) {
+      return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error("Error fetching action item:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch action item" },
+      { status: 500 }
+    );
+  }
+}
+
+// Update an action item (check off, reassign, set due date, confirm)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const itemId = parseInt(id);
+
+    if (isNaN(itemId)) {
+      return NextResponse.json({ error: "Invalid action item ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateActionItemSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { task, assignee, dueDate, completed, confirmed } = parsed.data;
+    const updateData: Partial<typeof actionItems.$inferInsert> = {};
+
+    if (task !== undefined) {
+      updateData.task = task;
+    }
+
+    if (assignee !== undefined) {
+      updateData.assignee = assignee || null;
+    }
+
+    const parsedDueDate = toDueDate(dueDate);
+    if (parsedDueDate !== undefined) {
+      updateData.dueDate = parsedDueDate;
+    }
+
+    if (completed !== undefined) {
+      updateData.completed = completed;
+    }
+
+    const confirmedAt = getConfirmedAt(updateData, confirmed);
+    if (confirmedAt) {
+      updateData.confirmedAt = confirmedAt;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const [updatedItem] = await db
+      .update(actionItems)
+      .set(updateData)
+      .where(eq(actionItems.id, itemId))
+      .returning();
+
+    if (!updatedItem) {
+      return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedItem);
+  } catch (error) {
+    console.error("Error updating action item:", error);
+    return NextResponse.json(
+      { error: "Failed to update action item" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete an action item
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const itemId = parseInt(id);
+
+    if (isNaN(itemId)) {
+      return NextResponse.json({ error: "Invalid action item ID" }, { status: 400 });
+    }
+
+    const [deletedItem] = await db
+      .delete(actionItems)
+      .where(eq(actionItems.id, itemId))
+      .returning();
+
+    if (!deletedItem) {
+      return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, id: itemId });
+  } catch (error) {
+    console.error("Error deleting action item:", error);
+    return NextResponse.json(
+      { error: "Failed to delete action item" },
+      { status: 500 }
+    );
+  }
+}
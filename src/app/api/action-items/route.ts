@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, desc, eq, ilike, isNotNull, lt, sql, type SQL } from "drizzle-orm";
+import { parseActionItemStatus } from "@/lib/action-items";
+import { db } from "@/lib/db";
+import { actionItems, meetings } from "@/lib/schema";
+
+/**
+ * GET /api/action-items - List action items across all meetings
+ *
+ * Query parameters:
+ * - assignee: case-insensitive partial match on the assignee name
+ * - status: "open", "completed" or "all" (default)
+ * - overdue: "true" to only return open items whose due date has passed
+ * - meetingId: restrict to a single meeting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+    const assignee = searchParams.get("assignee")?.trim();
+    const status = parseActionItemStatus(searchParams.get("status"));
+    const overdue = searchParams.get("overdue") === "true";
+    const meetingId = parseInt(searchParams.get("meetingId") || "");
+
+    const conditions: SQL[] = [];
+
+    if (assignee) {
+      conditions.push(ilike(actionItems.assignee, `%${assignee}%`));
+    }
+
+    if (status === "open") {
+      conditions.push(eq(actionItems.completed, false));
+    } else if (status === "completed") {
+      conditions.push(eq(actionItems.completed, true));
+    }
+
+    if (overdue) {
+      conditions.push(eq(actionItems.completed, false));
+      conditions.push(isNotNull(actionItems.dueDate));
+      conditions.push(lt(actionItems.dueDate, new Date()));
+    }
+
+    if (!isNaN(meetingId)) {
+      conditions.push(eq(actionItems.meetingId, meetingId));
+    }
+
+    const items = await db
+      .select({
+        id: actionItems.id,
+        meetingId: actionItems.meetingId,
+        assignee: actionItems.assignee,
+        task: actionItems.task,
+        dueDate: actionItems.dueDate,
+        completed: actionItems.completed,
+        aiSuggested: actionItems.aiSuggested,
+        confirmedAt: actionItems.confirmedAt,
+        transcriptQuote: actionItems.transcriptQuote,
+        transcriptStartMs: actionItems.transcriptStartMs,
+        transcriptEndMs: actionItems.transcriptEndMs,
+        createdAt: actionItems.createdAt,
+        updatedAt: actionItems.updatedAt,
+        meetingTitle: meetings.title,
+      })
+      .from(actionItems)
+      .leftJoin(meetings, eq(actionItems.meetingId, meetings.id))
+      .where(and(...conditions))
+      // Open items first, then soonest due date, undated items last
+      .orderBy(
+        asc(actionItems.completed),
+        sql`${actionItems.dueDate} ASC NULLS LAST`,
+        desc(actionItems.createdAt)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error fetching action items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch action items" },
+      { status: 500 }
+    );
+  }
+}
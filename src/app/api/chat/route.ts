@@ -1,8 +1,16 @@
 import { streamText, UIMessage, convertToModelMessages } from "ai";
 import { z } from "zod";
-import { queryDocuments, checkChromaDBHealth } from "@/lib/chromadb";
+import {
+  queryDocuments,
+  queryMeetings,
+  checkChromaDBHealth,
+  type MeetingQueryResult,
+  type QueryResult,
+} from "@/lib/chromadb";
 import { chatModel } from "@/lib/ollama";
+import { formatCarryOverPrompt, getSeriesCarryOver } from "@/lib/series-context";
 import { getSetting, getResponseLengthPrompt } from "@/lib/settings";
+import { formatOffset } from "@/lib/transcript-segments";
 
 // Zod schema for message validation
 const messagePartSchema = z.object({
@@ -20,8 +28,34 @@ const messageSchema = z.object({
 const chatRequestSchema = z.object({
   messages: z.array(messageSchema).max(100, "Too many messages"),
   useRAG: z.boolean().optional().default(true),
+  // Meeting the question was asked in, for context carried over from its series
+  meetingId: z.number().int().positive().optional(),
 });
 
+/**
+ * Describe where a meeting chunk came from: title, date and, for
+ * transcript chunks, the timestamp within the meeting
+ */
+function formatMeetingSource(result: MeetingQueryResult): string {
+  const date = result.startedAt
+    ? new Date(result.startedAt).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "unknown date";
+  const part =
+    result.kind === "summary"
+      ? "summary"
+      : result.kind === "decision"
+        ? "decision log"
+        : result.startMs !== null
+          ? `at ${formatOffset(result.startMs)}`
+          : "transcript";
+
+  return `"${result.title}", ${date}, ${part}`;
+}
+
 export async function POST(req: Request) {
   // Parse and validate request body
   let body: unknown;
@@ -48,8 +82,11 @@ export async function POST(req: Request) {
     );
   }
 
-  const { messages, useRAG }: { messages: UIMessage[]; useRAG: boolean } =
-    parsed.data as { messages: UIMessage[]; useRAG: boolean };
+  const { messages, useRAG, meetingId } = parsed.data as {
+    messages: UIMessage[];
+    useRAG: boolean;
+    meetingId?: number;
+  };
 
   // Convert UI messages to model messages (async in AI SDK v6)
   const modelMessages = await convertToModelMessages(messages);
@@ -64,32 +101,51 @@ export async function POST(req: Request) {
       .map((p) => p.text)
       .join(" ") || "";
 
-  // Parallelize RAG query and settings fetch for better performance
-  const [ragResults, responseLength] = await Promise.all([
-    // RAG query (if enabled)
-    useRAG && queryText
-      ? (async () => {
-          try {
-            const isChromaAvailable = await checkChromaDBHealth();
-            if (!isChromaAvailable) return [];
-            return await queryDocuments(queryText, 3);
-          } catch (error) {
-            console.error("RAG query failed:", error);
-            return [];
-          }
-        })()
-      : Promise.resolve([]),
-    // Settings fetch
-    getSetting("responseLength"),
-  ]);
+  // Parallelize RAG queries and settings fetch for better performance
+  const [{ documents: documentResults, meetings: meetingResults }, responseLength, carryOver] =
+    await Promise.all([
+      // RAG query over uploaded documents and past meetings (if enabled)
+      useRAG && queryText
+        ? (async () => {
+            try {
+              const isChromaAvailable = await checkChromaDBHealth();
+              if (!isChromaAvailable) return { documents: [], meetings: [] };
+              // Either source failing shouldn't hide results from the other
+              const [documents, meetings] = await Promise.all([
+                queryDocuments(queryText, 3).catch((error) => {
+                  console.error("Document RAG query failed:", error);
+                  return [] as QueryResult[];
+                }),
+                queryMeetings(queryText, 3).catch((error) => {
+                  console.error("Meeting RAG query failed:", error);
+                  return [] as MeetingQueryResult[];
+                }),
+              ]);
+              return { documents, meetings };
+            } catch (error) {
+              console.error("RAG query failed:", error);
+              return { documents: [], meetings: [] };
+            }
+          })()
+        : Promise.resolve({ documents: [], meetings: [] }),
+      // Settings fetch
+      getSetting("responseLength"),
+      // The previous meeting of a recurring series
+      meetingId !== undefined
+        ? getSeriesCarryOver(meetingId).catch((error) => {
+            console.error("Series context lookup failed:", error);
+            return null;
+          })
+        : Promise.resolve(null),
+    ]);
 
   // Build RAG context from results
-  const ragContext =
-    ragResults.length > 0
+  const documentContext =
+    documentResults.length > 0
       ? `
 
 RELEVANT DOCUMENT CONTEXT:
-${ragResults
+${documentResults
   .map(
     (r) =>
       `[Source: ${r.source}]
@@ -100,6 +156,25 @@ ${r.text}`
 Use this context to help answer the user's question when relevant. Cite sources when using information from documents.`
       : "";
 
+  const meetingContext =
+    meetingResults.length > 0
+      ? `
+
+RELEVANT PAST MEETINGS:
+${meetingResults
+  .map(
+    (r) =>
+      `[Meeting: ${formatMeetingSource(r)}]
+${r.text}`
+  )
+  .join("\n\n---\n\n")}
+
+Use these excerpts to answer questions about past discussions and decisions. Decision log entries say when a decision was made and who was present. When you do, cite the meeting title, date and timestamp, e.g. ("Weekly sync", Jan 15, 2024, at 12:34).`
+      : "";
+
+  const ragContext = documentContext + meetingContext;
+  const seriesContext = carryOver ? formatCarryOverPrompt(carryOver) : "";
+
   const responseLengthPrompt = getResponseLengthPrompt(responseLength);
 
   const systemPrompt = `You are a helpful AI meeting assistant. You help teams during meetings by:
@@ -108,7 +183,7 @@ Use this context to help answer the user's question when relevant. Cite sources
 - Helping track action items and decisions
 - Being conversational yet professional
 
-${responseLengthPrompt}${ragContext}`;
+${responseLengthPrompt}${seriesContext}${ragContext}`;
 
   const result = streamText({
     model: chatModel,
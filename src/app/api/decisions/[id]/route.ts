@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getConfirmedAt } from "@/lib/action-items";
+import { db } from "@/lib/db";
+import { updateDecisionSchema } from "@/lib/decisions";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { decisions } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Get a single decision
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const decisionId = parseInt(id);
+
+    if (isNaN(decisionId)) {
+      return NextResponse.json({ error: "Invalid decision ID" }, { status: 400 });
+    }
+
+    const [decision] = await db
+      .select()
+      .from(decisions)
+      .where(eq(decisions.id, decisionId));
+
+    if (!decision) {
+      return NextResponse.json({ error: "Decision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(decision);
+  } catch (error) {
+    console.error("Error fetching decision:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch decision" },
+      { status: 500 }
+    );
+  }
+}
+
+// Update a decision (reword, add rationale, confirm)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const decisionId = parseInt(id);
+
+    if (isNaN(decisionId)) {
+      return NextResponse.json({ error: "Invalid decision ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateDecisionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { decision, rationale, confirmed } = parsed.data;
+    const updateData: Partial<typeof decisions.$inferInsert> = {};
+
+    if (decision !== undefined) {
+      updateData.decision = decision;
+    }
+
+    if (rationale !== undefined) {
+      updateData.rationale = rationale || null;
+    }
+
+    const confirmedAt = getConfirmedAt(updateData, confirmed);
+    if (confirmedAt) {
+      updateData.confirmedAt = confirmedAt;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const [updatedDecision] = await db
+      .update(decisions)
+      .set(updateData)
+      .where(eq(decisions.id, decisionId))
+      .returning();
+
+    if (!updatedDecision) {
+      return NextResponse.json({ error: "Decision not found" }, { status: 404 });
+    }
+
+    // Chat answers questions about decisions from the meeting index
+    reindexMeeting(updatedDecision.meetingId);
+
+    return NextResponse.json(updatedDecision);
+  } catch (error) {
+    console.error("Error updating decision:", error);
+    return NextResponse.json(
+      { error: "Failed to update decision" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a decision
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const decisionId = parseInt(id);
+
+    if (isNaN(decisionId)) {
+      return NextResponse.json({ error: "Invalid decision ID" }, { status: 400 });
+    }
+
+    const [deletedDecision] = await db
+      .delete(decisions)
+      .where(eq(decisions.id, decisionId))
+      .returning();
+
+    if (!deletedDecision) {
+      return NextResponse.json({ error: "Decision not found" }, { status: 404 });
+    }
+
+    reindexMeeting(deletedDecision.meetingId);
+
+    return NextResponse.json({ success: true, id: decisionId });
+  } catch (error) {
+    console.error("Error deleting decision:", error);
+    return NextResponse.json(
+      { error: "Failed to delete decision" },
+      { status: 500 }
+    );
+  }
+}
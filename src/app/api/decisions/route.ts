@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, desc, eq, ilike, or, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { DecisionWithMeeting } from "@/lib/decisions";
+import { getMeetingParticipants } from "@/lib/meeting-transcript";
+import { decisions, meetings } from "@/lib/schema";
+
+/**
+ * GET /api/decisions - Search the decision log across all meetings
+ *
+ * Query parameters:
+ * - q: case-insensitive match on the decision, its rationale or the meeting title
+ * - meetingId: restrict to a single meeting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+    const query = searchParams.get("q")?.trim();
+    const meetingId = parseInt(searchParams.get("meetingId") || "");
+
+    const conditions: SQL[] = [];
+
+    if (query) {
+      const pattern = `%${query}%`;
+      conditions.push(
+        or(
+          ilike(decisions.decision, pattern),
+          ilike(decisions.rationale, pattern),
+          ilike(meetings.title, pattern)
+        )!
+      );
+    }
+
+    if (!isNaN(meetingId)) {
+      conditions.push(eq(decisions.meetingId, meetingId));
+    }
+
+    const rows = await db
+      .select({
+        id: decisions.id,
+        meetingId: decisions.meetingId,
+        decision: decisions.decision,
+        rationale: decisions.rationale,
+        aiSuggested: decisions.aiSuggested,
+        confirmedAt: decisions.confirmedAt,
+        transcriptQuote: decisions.transcriptQuote,
+        transcriptStartMs: decisions.transcriptStartMs,
+        transcriptEndMs: decisions.transcriptEndMs,
+        createdAt: decisions.createdAt,
+        updatedAt: decisions.updatedAt,
+        meetingTitle: meetings.title,
+        meetingStartedAt: meetings.startedAt,
+      })
+      .from(decisions)
+      .innerJoin(meetings, eq(decisions.meetingId, meetings.id))
+      .where(and(...conditions))
+      // Most recent meetings first, decisions in the order they were made
+      .orderBy(desc(meetings.startedAt), asc(decisions.transcriptStartMs), asc(decisions.id))
+      .limit(limit)
+      .offset(offset);
+
+    const participants = await getMeetingParticipants([
+      ...new Set(rows.map((row) => row.meetingId)),
+    ]);
+    const items: DecisionWithMeeting[] = rows.map((row) => ({
+      ...row,
+      participants: participants.get(row.meetingId) ?? [],
+    }));
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error fetching decisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch decisions" },
+      { status: 500 }
+    );
+  }
+}
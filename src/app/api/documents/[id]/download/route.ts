@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getDocumentFile } from "@/lib/document-files";
+import { documents } from "@/lib/schema";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Content-Disposition for a download, with a UTF-8 name for browsers that
+ * support it and an ASCII fallback for those that don't (RFC 6266)
+ */
+function getContentDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+/**
+ * GET /api/documents/[id]/download - Download the original uploaded file
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const documentId = parseInt(id, 10);
+
+    if (isNaN(documentId)) {
+      return NextResponse.json(
+        { error: "Invalid document ID" },
+        { status: 400 }
+      );
+    }
+
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const file = await getDocumentFile(doc);
+    if (!file) {
+      return NextResponse.json(
+        { error: "The original file of this document was not kept" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": doc.mimeType || "application/octet-stream",
+        "Content-Length": String(file.length),
+        "Content-Disposition": getContentDisposition(doc.originalName || doc.filename),
+        // Never let the browser render an uploaded file as something else
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to download document:", error);
+    return NextResponse.json(
+      { error: "Failed to download document" },
+      { status: 500 }
+    );
+  }
+}
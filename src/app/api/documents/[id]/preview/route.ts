@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getDocumentPreview } from "@/lib/document-files";
+import { documents } from "@/lib/schema";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/documents/[id]/preview - Text extracted from the original file
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const documentId = parseInt(id, 10);
+
+    if (isNaN(documentId)) {
+      return NextResponse.json(
+        { error: "Invalid document ID" },
+        { status: 400 }
+      );
+    }
+
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const preview = await getDocumentPreview(doc);
+    if (!preview) {
+      return NextResponse.json(
+        { error: "The original file of this document was not kept" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error("Failed to preview document:", error);
+    return NextResponse.json(
+      { error: "Failed to preview document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { retryDocumentJob } from "@/lib/document-jobs";
+import { documents } from "@/lib/schema";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/documents/[id]/retry - Re-run ingestion of a failed document
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const documentId = parseInt(id, 10);
+
+    if (isNaN(documentId)) {
+      return NextResponse.json(
+        { error: "Invalid document ID" },
+        { status: 400 }
+      );
+    }
+
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!doc.storageUrl) {
+      return NextResponse.json(
+        { error: "The original file of this document was not kept" },
+        { status: 409 }
+      );
+    }
+
+    const job = await retryDocumentJob(documentId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Only failed documents can be re-run" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Failed to retry document:", error);
+    return NextResponse.json(
+      { error: "Failed to retry document" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { eq } from "drizzle-orm";
 import { deleteDocument } from "@/lib/chromadb";
 import { db } from "@/lib/db";
+import { removeDocumentFile } from "@/lib/document-files";
 import { documents } from "@/lib/schema";
 
 type RouteContext = {
@@ -86,6 +87,9 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
     // Delete from database
     await db.delete(documents).where(eq(documents.id, documentId));
 
+    // Delete the stored original last; a leftover file is only logged
+    await removeDocumentFile(doc);
+
     return NextResponse.json({
       message: "Document deleted successfully",
       id: documentId,
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { desc, eq } from "drizzle-orm";
-import {
-  processAndStoreDocument,
-  checkChromaDBHealth,
-} from "@/lib/chromadb";
+import { checkChromaDBHealth } from "@/lib/chromadb";
 import { db } from "@/lib/db";
-import { documents } from "@/lib/schema";
+import { removeDocumentFile, saveDocumentFile } from "@/lib/document-files";
+import type { DocumentListItem } from "@/lib/document-ingestion";
+import { createDocumentJob } from "@/lib/document-jobs";
+import { documentJobs, documents } from "@/lib/schema";
+import type { StorageResult } from "@/lib/storage";
 
 // Allowed MIME types for upload
 const ALLOWED_MIME_TYPES = [
@@ -13,22 +14,59 @@ const ALLOWED_MIME_TYPES = [
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
   "text/plain",
   "text/markdown",
+  "text/html",
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/rtf",
+  "text/rtf",
+  "application/epub+zip",
 ];
 
+// Browsers report some of these types inconsistently (Markdown often has no
+// type, CSV can arrive as an Excel type), so known extensions decide
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".csv": "text/csv",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".rtf": "application/rtf",
+  ".epub": "application/epub+zip",
+};
+
+function getMimeType(file: File): string {
+  const dot = file.name.lastIndexOf(".");
+  const extension = dot === -1 ? "" : file.name.slice(dot).toLowerCase();
+  return MIME_TYPES_BY_EXTENSION[extension] ?? file.type;
+}
+
 // Max file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
 /**
- * GET /api/documents - List all documents
+ * GET /api/documents - List all documents with their ingestion progress
  */
 export async function GET() {
   try {
-    const allDocuments = await db
-      .select()
+    const rows = await db
+      .select({ document: documents, job: documentJobs })
       .from(documents)
+      .leftJoin(documentJobs, eq(documentJobs.documentId, documents.id))
       .orderBy(desc(documents.uploadedAt))
       .limit(100);
 
+    const allDocuments: DocumentListItem[] = rows.map((row) => ({
+      ...row.document,
+      job: row.job,
+    }));
+
     return NextResponse.json(allDocuments);
   } catch (error) {
     console.error("Failed to list documents:", error);
@@ -40,7 +78,8 @@ export async function GET() {
 }
 
 /**
- * POST /api/documents - Upload a new document
+ * POST /api/documents - Upload a new document. The file is kept and queued
+ * for extraction and embedding in the background.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -65,10 +104,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+    const mimeType = getMimeType(file);
+    if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
       return NextResponse.json(
         {
-          error: `Unsupported file type: ${file.type}. Allowed types: PDF, DOCX, TXT, MD`,
+          error: `Unsupported file type: ${mimeType || "unknown"}. Allowed types: PDF, DOCX, TXT, MD, HTML, CSV, XLSX, PPTX, ODT, RTF, EPUB`,
         },
         { status: 400 }
       );
@@ -93,7 +133,7 @@ export async function POST(request: NextRequest) {
       .values({
         filename,
         originalName: file.name,
-        mimeType: file.type,
+        mimeType,
         fileSize: file.size,
         chromadbCollectionId: "documents",
       })
@@ -111,43 +151,41 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    // Process and store in ChromaDB
+    // Keep the original for the ingestion job to read
+    let stored: StorageResult | null = null;
     try {
-      const chunkCount = await processAndStoreDocument(
-        doc.id.toString(),
-        file.name,
-        buffer,
-        file.type
-      );
-
-      // Update document with processing info
+      stored = await saveDocumentFile(filename, buffer, MAX_FILE_SIZE);
       await db
         .update(documents)
-        .set({
-          processedAt: new Date(),
-          chunkCount,
-        })
+        .set({ storageUrl: stored.url, storagePathname: stored.pathname })
         .where(eq(documents.id, doc.id));
-
-      return NextResponse.json({
-        id: doc.id,
-        filename: doc.filename,
-        originalName: file.name,
-        chunkCount,
-        message: "Document uploaded and processed successfully",
-      });
-    } catch (processingError) {
-      // If ChromaDB processing fails, delete the database record
+    } catch (storageError) {
+      if (stored) {
+        await removeDocumentFile({ storageUrl: stored.url });
+      }
       await db
         .delete(documents)
         .where(eq(documents.id, doc.id));
 
-      console.error("Failed to process document:", processingError);
+      console.error("Failed to store document:", storageError);
       return NextResponse.json(
-        { error: "Failed to process document content" },
+        { error: "Failed to store document" },
         { status: 500 }
       );
     }
+
+    const job = await createDocumentJob(doc.id);
+
+    return NextResponse.json(
+      {
+        id: doc.id,
+        filename: doc.filename,
+        originalName: file.name,
+        job,
+        message: "Document uploaded and queued for processing",
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Document upload failed:", error);
     return NextResponse.json(
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { createActionItemSchema, toDueDate } from "@/lib/action-items";
+import { db } from "@/lib/db";
+import { actionItems, meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List action items for a meeting
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const items = await db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.meetingId, meetingId))
+      .orderBy(asc(actionItems.createdAt));
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error fetching action items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch action items" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add an action item to a meeting
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = createActionItemSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const { task, assignee, dueDate } = parsed.data;
+
+    const [item] = await db
+      .insert(actionItems)
+      .values({
+        meetingId,
+        task,
+        assignee: assignee || null,
+        dueDate: toDueDate(dueDate) ?? null,
+      })
+      .returning();
+
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error("Error creating action item:", error);
+    return NextResponse.json(
+      { error: "Failed to create action item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { updateAgendaSchema } from "@/lib/agenda";
+import { getAgenda, replaceAgenda } from "@/lib/agenda-tracker";
+import { db } from "@/lib/db";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List a meeting's agenda in order
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const agenda = await getAgenda(meetingId);
+
+    return NextResponse.json(agenda);
+  } catch (error) {
+    console.error("Error fetching agenda:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch agenda" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace a meeting's agenda
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateAgendaSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ endedAt: meetings.endedAt })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const agenda = await replaceAgenda(
+      meetingId,
+      parsed.data.items,
+      meeting.endedAt ? null : new Date()
+    );
+
+    return NextResponse.json(agenda);
+  } catch (error) {
+    console.error("Error updating agenda:", error);
+    return NextResponse.json(
+      { error: "Failed to update agenda" },
+      { status: 500 }
+    );
+  }
+}
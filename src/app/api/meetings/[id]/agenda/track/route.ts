@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { trackAgendaSchema } from "@/lib/agenda";
+import { moveToAgendaItem, trackAgenda } from "@/lib/agenda-tracker";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Detect a move to another agenda topic, or move to one given by the user
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    // The body is optional
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = trackAgendaSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { itemId } = parsed.data;
+    const agenda =
+      itemId !== undefined
+        ? await moveToAgendaItem(meetingId, itemId)
+        : await trackAgenda(meetingId);
+
+    if (!agenda) {
+      return NextResponse.json(
+        { error: itemId !== undefined ? "Agenda item not found" : "Meeting not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(agenda);
+  } catch (error) {
+    console.error("Error tracking agenda:", error);
+    return NextResponse.json(
+      { error: "Failed to track agenda" },
+      { status: 500 }
+    );
+  }
+}
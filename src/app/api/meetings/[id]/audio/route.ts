@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  getAudioClips,
+  isAudioStorageEnabled,
+  MAX_AUDIO_CLIP_SIZE,
+  saveAudioClip,
+} from "@/lib/meeting-audio";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List a meeting's stored audio, and whether new recordings are kept
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const [enabled, clips] = await Promise.all([
+      isAudioStorageEnabled(),
+      getAudioClips(meetingId),
+    ]);
+
+    return NextResponse.json({ enabled, clips });
+  } catch (error) {
+    console.error("Error fetching meeting audio:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch meeting audio" },
+      { status: 500 }
+    );
+  }
+}
+
+// Store one recording as multipart form data (audio, recordedAt)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    if (!(await isAudioStorageEnabled())) {
+      return NextResponse.json({ error: "Audio storage is turned off" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get("audio");
+    const recordedAt = formData.get("recordedAt");
+
+    if (!audio || !(audio instanceof Blob)) {
+      return NextResponse.json({ error: "No audio provided" }, { status: 400 });
+    }
+
+    if (audio.size > MAX_AUDIO_CLIP_SIZE) {
+      return NextResponse.json({ error: "Audio too large" }, { status: 413 });
+    }
+
+    if (typeof recordedAt !== "string" || isNaN(Date.parse(recordedAt))) {
+      return NextResponse.json({ error: "Invalid recordedAt timestamp" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id, startedAt: meetings.startedAt })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const clip = await saveAudioClip(
+      meeting,
+      Buffer.from(await audio.arrayBuffer()),
+      Date.parse(recordedAt) - meeting.startedAt.getTime()
+    );
+
+    if (!clip) {
+      return NextResponse.json({ error: "Audio must be a WAV file" }, { status: 415 });
+    }
+
+    return NextResponse.json(clip, { status: 201 });
+  } catch (error) {
+    console.error("Error storing meeting audio:", error);
+    return NextResponse.json(
+      { error: "Failed to store meeting audio" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { generateChapters, getChapters } from "@/lib/meeting-analysis";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List a meeting's chapters in order
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const chapters = await getChapters(meetingId);
+
+    return NextResponse.json(chapters);
+  } catch (error) {
+    console.error("Error fetching chapters:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chapters" },
+      { status: 500 }
+    );
+  }
+}
+
+// Regenerate a meeting's chapters from its transcript segments
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const chapters = await generateChapters(meetingId);
+
+    return NextResponse.json(chapters);
+  } catch (error) {
+    console.error("Error generating chapters:", error);
+    return NextResponse.json(
+      { error: "Failed to generate chapters" },
+      { status: 500 }
+    );
+  }
+}
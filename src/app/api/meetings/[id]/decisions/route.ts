@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { createDecisionSchema } from "@/lib/decisions";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { decisions, meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List decisions made in a meeting
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const items = await db
+      .select()
+      .from(decisions)
+      .where(eq(decisions.meetingId, meetingId))
+      .orderBy(asc(decisions.createdAt), asc(decisions.id));
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error fetching decisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch decisions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Record a decision for a meeting
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = createDecisionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const { decision, rationale } = parsed.data;
+
+    const [item] = await db
+      .insert(decisions)
+      .values({
+        meetingId,
+        decision,
+        rationale: rationale || null,
+      })
+      .returning();
+
+    reindexMeeting(meetingId);
+
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error("Error creating decision:", error);
+    return NextResponse.json(
+      { error: "Failed to create decision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getExportFilename,
+  isSubtitleFormat,
+  loadMeetingExport,
+  parseExportFormat,
+  renderMeetingExport,
+} from "@/lib/meeting-export";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Download a meeting as md, docx, pdf, json, srt or vtt
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = parseExportFormat(searchParams.get("format"));
+
+    if (!format) {
+      return NextResponse.json({ error: "Unsupported export format" }, { status: 400 });
+    }
+
+    const data = await loadMeetingExport(meetingId);
+
+    if (!data) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    if (isSubtitleFormat(format) && data.segments.length === 0) {
+      return NextResponse.json(
+        { error: "This meeting has no timed transcript segments" },
+        { status: 422 }
+      );
+    }
+
+    const { body, contentType } = await renderMeetingExport(data, format);
+
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${getExportFilename(data.meeting, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting meeting:", error);
+    return NextResponse.json(
+      { error: "Failed to export meeting" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { generateFollowUpSchema } from "@/lib/follow-up";
+import { extractOpenQuestions, writeFollowUp } from "@/lib/meeting-ai";
+import { actionItems, decisions, meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Draft the recap email sent after a meeting
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    // The body is optional
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = generateFollowUpSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select()
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    if (!meeting.summary && !meeting.transcript) {
+      return NextResponse.json(
+        { error: "Meeting has no transcript or summary to recap" },
+        { status: 400 }
+      );
+    }
+
+    const [meetingDecisions, meetingActionItems, openQuestions] = await Promise.all([
+      db
+        .select()
+        .from(decisions)
+        .where(eq(decisions.meetingId, meetingId))
+        .orderBy(asc(decisions.createdAt)),
+      db
+        .select()
+        .from(actionItems)
+        .where(eq(actionItems.meetingId, meetingId))
+        .orderBy(asc(actionItems.createdAt)),
+      meeting.transcript ? extractOpenQuestions(meeting.transcript) : Promise.resolve([]),
+    ]);
+
+    const draft = await writeFollowUp(
+      {
+        title: meeting.title || "Untitled Meeting",
+        startedAt: meeting.startedAt,
+        summary: meeting.summary,
+        decisions: meetingDecisions,
+        actionItems: meetingActionItems.filter((item) => !item.completed),
+        openQuestions,
+      },
+      parsed.data
+    );
+
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error("Error generating follow-up:", error);
+    return NextResponse.json(
+      { error: "Failed to generate follow-up" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { updateHighlightSchema } from "@/lib/highlights";
+import { meetingHighlights } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string; highlightId: string }> };
+
+// Change the note on a highlight
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, highlightId } = await params;
+    const meetingId = parseInt(id);
+    const highlightIdNum = parseInt(highlightId);
+
+    if (isNaN(meetingId) || isNaN(highlightIdNum)) {
+      return NextResponse.json({ error: "Invalid highlight ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateHighlightSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [highlight] = await db
+      .update(meetingHighlights)
+      .set({ note: parsed.data.note || null })
+      .where(
+        and(
+          eq(meetingHighlights.id, highlightIdNum),
+          eq(meetingHighlights.meetingId, meetingId)
+        )
+      )
+      .returning();
+
+    if (!highlight) {
+      return NextResponse.json({ error: "Highlight not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(highlight);
+  } catch (error) {
+    console.error("Error updating highlight:", error);
+    return NextResponse.json(
+      { error: "Failed to update highlight" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a highlight
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, highlightId } = await params;
+    const meetingId = parseInt(id);
+    const highlightIdNum = parseInt(highlightId);
+
+    if (isNaN(meetingId) || isNaN(highlightIdNum)) {
+      return NextResponse.json({ error: "Invalid highlight ID" }, { status: 400 });
+    }
+
+    const [deleted] = await db
+      .delete(meetingHighlights)
+      .where(
+        and(
+          eq(meetingHighlights.id, highlightIdNum),
+          eq(meetingHighlights.meetingId, meetingId)
+        )
+      )
+      .returning({ id: meetingHighlights.id });
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Highlight not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, id: highlightIdNum });
+  } catch (error) {
+    console.error("Error deleting highlight:", error);
+    return NextResponse.json(
+      { error: "Failed to delete highlight" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { createHighlightSchema } from "@/lib/highlights";
+import { createHighlight, getHighlights } from "@/lib/meeting-highlights";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List the moments bookmarked in a meeting
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getHighlights(meetingId));
+  } catch (error) {
+    console.error("Error fetching highlights:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch highlights" },
+      { status: 500 }
+    );
+  }
+}
+
+// Bookmark a moment with the transcript leading up to it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    // The body is optional
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = createHighlightSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id, startedAt: meetings.startedAt })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const { at, note, source } = parsed.data;
+    const highlight = await createHighlight(meeting, {
+      ...(at && { at: new Date(at) }),
+      ...(note !== undefined && { note }),
+      ...(source && { source }),
+    });
+
+    return NextResponse.json(highlight, { status: 201 });
+  } catch (error) {
+    console.error("Error creating highlight:", error);
+    return NextResponse.json(
+      { error: "Failed to create highlight" },
+      { status: 500 }
+    );
+  }
+}
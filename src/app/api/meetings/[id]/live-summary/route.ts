@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getLiveSummary, refreshLiveSummary } from "@/lib/live-summary";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const refreshSchema = z.object({
+  force: z.boolean().optional(),
+});
+
+// Get the rolling summary of a running meeting
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const liveSummary = await getLiveSummary(meetingId);
+
+    if (!liveSummary) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(liveSummary);
+  } catch (error) {
+    console.error("Error fetching live summary:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch live summary" },
+      { status: 500 }
+    );
+  }
+}
+
+// Refresh the rolling summary when enough has been said, or right away with force
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    // The body is optional
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = refreshSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const liveSummary = await refreshLiveSummary(meetingId, {
+      force: parsed.data.force ?? false,
+    });
+
+    if (!liveSummary) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(liveSummary);
+  } catch (error) {
+    console.error("Error refreshing live summary:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh live summary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { revertSegmentRevision } from "@/lib/meeting-transcript";
+import { revertRevisionSchema } from "@/lib/segment-revisions";
+
+type RouteParams = { params: Promise<{ id: string; revisionId: string }> };
+
+// Put a segment back the way it was before a correction
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, revisionId } = await params;
+    const meetingId = parseInt(id);
+    const revisionIdNum = parseInt(revisionId);
+
+    if (isNaN(meetingId) || isNaN(revisionIdNum)) {
+      return NextResponse.json({ error: "Invalid revision ID" }, { status: 400 });
+    }
+
+    // The body is optional; it only names who reverted
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = revertRevisionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const reverted = await revertSegmentRevision(
+      meetingId,
+      revisionIdNum,
+      parsed.data.editedBy || null
+    );
+
+    if (!reverted) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    if (reverted.revision) reindexMeeting(meetingId);
+
+    return NextResponse.json(reverted);
+  } catch (error) {
+    console.error("Error reverting segment revision:", error);
+    return NextResponse.json(
+      { error: "Failed to revert segment revision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getSegmentRevisions } from "@/lib/meeting-transcript";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List corrections made to a meeting's transcript, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const segmentParam = request.nextUrl.searchParams.get("segmentId");
+    const segmentId = segmentParam ? parseInt(segmentParam) : undefined;
+    if (segmentId !== undefined && isNaN(segmentId)) {
+      return NextResponse.json({ error: "Invalid segment ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getSegmentRevisions(meetingId, segmentId));
+  } catch (error) {
+    console.error("Error fetching segment revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch segment revisions" },
+      { status: 500 }
+    );
+  }
+}
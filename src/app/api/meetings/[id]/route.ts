@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
 import { eq } from "drizzle-orm";
+import { deleteMeetingChunks } from "@/lib/chromadb";
 import { db } from "@/lib/db";
-import { fastModel } from "@/lib/ollama";
-import { meetings } from "@/lib/schema";
+import { analyzeMeeting } from "@/lib/meeting-analysis";
+import { getAudioClips, removeAudioFiles } from "@/lib/meeting-audio";
+import { meetingDetailsSchema } from "@/lib/meeting-details";
+import { removeImportFiles } from "@/lib/meeting-import";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { meetingListColumns } from "@/lib/meeting-search";
+import { appendSegments } from "@/lib/meeting-transcript";
+import { meetingImports, meetings, meetingSeries } from "@/lib/schema";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -18,7 +24,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     }
 
     const [meeting] = await db
-      .select()
+      .select(meetingListColumns)
       .from(meetings)
       .where(eq(meetings.id, meetingId));
 
@@ -36,7 +42,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// Update a meeting (e.g., add transcript, end meeting)
+// Update a meeting (e.g., add transcript, edit details, end meeting)
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
@@ -47,7 +53,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { title, transcript, endMeeting, appendTranscript } = body;
+    const { title, endMeeting, appendTranscript } = body;
+
+    // Segments are the source of truth; a replaced transcript would be lost
+    // the next time it is rebuilt from them
+    if (body.transcript !== undefined) {
+      return NextResponse.json(
+        { error: "The transcript can't be replaced; edit its segments instead" },
+        { status: 400 }
+      );
+    }
+
+    const details = meetingDetailsSchema.safeParse(body);
+    if (!details.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: details.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
 
     // Fetch current meeting to potentially append transcript
     const [currentMeeting] = await db
@@ -65,32 +88,83 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.title = title;
     }
 
+    const { seriesId, project, tags, attendees } = details.data;
+    if (seriesId !== undefined) {
+      if (seriesId !== null) {
+        const [series] = await db
+          .select({ id: meetingSeries.id })
+          .from(meetingSeries)
+          .where(eq(meetingSeries.id, seriesId));
+
+        if (!series) {
+          return NextResponse.json({ error: "Series not found" }, { status: 404 });
+        }
+      }
+      updateData.seriesId = seriesId;
+    }
+    if (project !== undefined) {
+      updateData.project = project || null;
+    }
+    if (tags !== undefined) {
+      updateData.tags = tags;
+    }
+    if (attendees !== undefined) {
+      updateData.attendees = attendees;
+    }
+
     // Handle transcript updates
-    if (transcript) {
-      updateData.transcript = transcript;
-    } else if (appendTranscript) {
-      // Append new transcription to existing
-      updateData.transcript = currentMeeting.transcript
-        ? `${currentMeeting.transcript}\n${appendTranscript}`
-        : appendTranscript;
+    if (typeof appendTranscript === "string" && appendTranscript.trim()) {
+      // Store each appended line as a segment timed at the moment it arrived
+      await appendSegments(
+        currentMeeting,
+        appendTranscript
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean)
+          .map((line) => ({ text: line }))
+      );
+      const [appended] = await db
+        .select({ transcript: meetings.transcript })
+        .from(meetings)
+        .where(eq(meetings.id, meetingId));
+      currentMeeting.transcript = appended?.transcript ?? currentMeeting.transcript;
     }
 
-    // End meeting and generate summary
-    if (endMeeting) {
+    // End meeting and generate summary. Ending it again changes nothing;
+    // regenerating the summary has its own route
+    if (endMeeting && !currentMeeting.endedAt) {
       updateData.endedAt = new Date();
 
-      // Generate summary if we have a transcript
-      const finalTranscript = updateData.transcript || currentMeeting.transcript;
-      if (finalTranscript) {
-        updateData.summary = await generateMeetingSummary(finalTranscript);
+      // Generate summary and action items if we have a transcript
+      if (currentMeeting.transcript) {
+        const { summary } = await analyzeMeeting(
+          meetingId,
+          currentMeeting.transcript,
+          currentMeeting.startedAt
+        );
+        updateData.summary = summary;
       }
     }
 
+    // Appending segments alone has already updated the transcript
+    if (Object.keys(updateData).length === 0) {
+      const [unchangedMeeting] = await db
+        .select(meetingListColumns)
+        .from(meetings)
+        .where(eq(meetings.id, meetingId));
+      return NextResponse.json(unchangedMeeting);
+    }
+
     const [updatedMeeting] = await db
       .update(meetings)
       .set(updateData)
       .where(eq(meetings.id, meetingId))
-      .returning();
+      .returning(meetingListColumns);
+
+    // Keep past-meeting search in sync with the ended meeting
+    if (updatedMeeting?.endedAt) {
+      reindexMeeting(meetingId);
+    }
 
     return NextResponse.json(updatedMeeting);
   } catch (error) {
@@ -112,6 +186,12 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
     }
 
+    const deletedImports = await db
+      .select({ id: meetingImports.id })
+      .from(meetingImports)
+      .where(eq(meetingImports.meetingId, meetingId));
+    const audioClips = await getAudioClips(meetingId);
+
     const [deletedMeeting] = await db
       .delete(meetings)
       .where(eq(meetings.id, meetingId))
@@ -121,6 +201,18 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
     }
 
+    try {
+      await deleteMeetingChunks(meetingId);
+    } catch (chromaError) {
+      console.error(`Failed to delete search chunks for meeting ${meetingId}:`, chromaError);
+    }
+
+    // Import rows are removed by the cascade; their uploaded audio is not
+    for (const meetingImport of deletedImports) {
+      await removeImportFiles(meetingImport.id);
+    }
+    await removeAudioFiles(audioClips);
+
     return NextResponse.json({ success: true, id: meetingId });
   } catch (error) {
     console.error("Error deleting meeting:", error);
@@ -130,29 +222,3 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     );
   }
 }
-
-// Generate summary for a meeting transcript
-async function generateMeetingSummary(transcript: string): Promise<string> {
-  try {
-    const { text } = await generateText({
-      model: fastModel,
-      prompt: `Summarize this meeting transcript in 3-5 bullet points, focusing on:
-- Key decisions made
-- Action items assigned
-- Important topics discussed
-- Any deadlines or next steps mentioned
-
-Be concise and actionable.
-
-TRANSCRIPT:
-${transcript}
-
-SUMMARY:`,
-    });
-
-    return text.trim();
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    return "Summary generation failed.";
-  }
-}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { deleteSegment, editSegment } from "@/lib/meeting-transcript";
+import { deleteSegmentSchema, updateSegmentSchema } from "@/lib/transcript-segments";
+
+type RouteParams = { params: Promise<{ id: string; segmentId: string }> };
+
+// Correct the text or speaker of a transcript segment
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, segmentId } = await params;
+    const meetingId = parseInt(id);
+    const segmentIdNum = parseInt(segmentId);
+
+    if (isNaN(meetingId) || isNaN(segmentIdNum)) {
+      return NextResponse.json({ error: "Invalid segment ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateSegmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { text, speaker, editedBy } = parsed.data;
+    if (text === undefined && speaker === undefined) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    // The previous version is kept in the revision history
+    const edited = await editSegment(
+      meetingId,
+      segmentIdNum,
+      { ...(text !== undefined && { text }), ...(speaker !== undefined && { speaker }) },
+      editedBy || null
+    );
+
+    if (!edited) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    if (edited.revision) reindexMeeting(meetingId);
+
+    return NextResponse.json(edited.segment);
+  } catch (error) {
+    console.error("Error updating transcript segment:", error);
+    return NextResponse.json(
+      { error: "Failed to update transcript segment" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a transcript segment; the deletion is kept in the revision history
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, segmentId } = await params;
+    const meetingId = parseInt(id);
+    const segmentIdNum = parseInt(segmentId);
+
+    if (isNaN(meetingId) || isNaN(segmentIdNum)) {
+      return NextResponse.json({ error: "Invalid segment ID" }, { status: 400 });
+    }
+
+    // The body is optional; it only names who deleted the segment
+    let body: unknown = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+      }
+    }
+
+    const parsed = deleteSegmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteSegment(meetingId, segmentIdNum, parsed.data.editedBy || null);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    reindexMeeting(meetingId);
+
+    return NextResponse.json({ success: true, id: segmentIdNum, revision: deleted.revision });
+  } catch (error) {
+    console.error("Error deleting transcript segment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete transcript segment" },
+      { status: 500 }
+    );
+  }
+}
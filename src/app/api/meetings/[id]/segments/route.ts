@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { count, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { appendSegments, getSegments } from "@/lib/meeting-transcript";
+import { meetings, transcriptSegments } from "@/lib/schema";
+import { appendSegmentsSchema } from "@/lib/transcript-segments";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Largest page of segments returned in one request
+const MAX_SEGMENT_PAGE_SIZE = 1000;
+
+// List transcript segments for a meeting, a page at a time
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "200") || 200, 1),
+      MAX_SEGMENT_PAGE_SIZE
+    );
+    const offset = Math.max(parseInt(searchParams.get("offset") || "0") || 0, 0);
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const [segments, [total]] = await Promise.all([
+      getSegments(meetingId, { limit, offset }),
+      db
+        .select({ value: count() })
+        .from(transcriptSegments)
+        .where(eq(transcriptSegments.meetingId, meetingId)),
+    ]);
+
+    return NextResponse.json({
+      segments,
+      total: total?.value ?? 0,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error("Error fetching transcript segments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch transcript segments" },
+      { status: 500 }
+    );
+  }
+}
+
+// Append captured segments to a meeting transcript
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = appendSegmentsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id, startedAt: meetings.startedAt })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const segments = await appendSegments(meeting, parsed.data.segments);
+
+    return NextResponse.json({ segments }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving transcript segments:", error);
+    return NextResponse.json(
+      { error: "Failed to save transcript segments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { getMeetingSpeakers, renameSpeakers } from "@/lib/meeting-transcript";
+import { meetings } from "@/lib/schema";
+import { updateSpeakersSchema } from "@/lib/transcript-segments";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List the speakers heard in a meeting and their display names
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const speakers = await getMeetingSpeakers(meetingId);
+
+    return NextResponse.json(speakers);
+  } catch (error) {
+    console.error("Error fetching speakers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch speakers" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename speakers to attendee names
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateSpeakersSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [meeting] = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const speakers = await renameSpeakers(meetingId, parsed.data.speakers);
+    reindexMeeting(meetingId);
+
+    return NextResponse.json(speakers);
+  } catch (error) {
+    console.error("Error renaming speakers:", error);
+    return NextResponse.json(
+      { error: "Failed to rename speakers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { analyzeMeeting, getSummaryProgress } from "@/lib/meeting-analysis";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { meetingListColumns } from "@/lib/meeting-search";
+import { meetings } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Report how far summary generation has got for a meeting that is ending
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const meetingId = parseInt(id);
+
+  if (isNaN(meetingId)) {
+    return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+  }
+
+  return NextResponse.json({ progress: getSummaryProgress(meetingId) });
+}
+
+// Regenerate the summary of an ended meeting, e.g. after correcting its transcript
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const meetingId = parseInt(id);
+
+    if (isNaN(meetingId)) {
+      return NextResponse.json({ error: "Invalid meeting ID" }, { status: 400 });
+    }
+
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+
+    if (!meeting) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    if (!meeting.endedAt) {
+      return NextResponse.json(
+        { error: "The summary is generated when the meeting ends" },
+        { status: 400 }
+      );
+    }
+
+    if (!meeting.transcript) {
+      return NextResponse.json({ error: "Meeting has no transcript" }, { status: 400 });
+    }
+
+    const { summary } = await analyzeMeeting(meetingId, meeting.transcript, meeting.startedAt);
+
+    const [updatedMeeting] = await db
+      .update(meetings)
+      .set({ summary })
+      .where(eq(meetings.id, meetingId))
+      .returning(meetingListColumns);
+
+    reindexMeeting(meetingId);
+
+    return NextResponse.json(updatedMeeting);
+  } catch (error) {
+    console.error("Error regenerating summary:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate summary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, gte, lt, type SQL } from "drizzle-orm";
+import JSZip from "jszip";
+import { db } from "@/lib/db";
+import { parseDateParam, parseMeetingFilters } from "@/lib/meeting-details";
+import {
+  getExportFilename,
+  isSubtitleFormat,
+  loadMeetingExport,
+  parseExportFormat,
+  renderMeetingExport,
+} from "@/lib/meeting-export";
+import { getMeetingFilterConditions } from "@/lib/meeting-filters";
+import { meetings } from "@/lib/schema";
+
+// Upper bound on meetings in one archive
+const MAX_BULK_EXPORT_MEETINGS = 500;
+
+// Upper bound on the rendered files in one archive, which is built in memory
+const MAX_BULK_EXPORT_BYTES = 200 * 1024 * 1024;
+
+/**
+ * GET /api/meetings/export - Download every meeting in a date range as a zip
+ *
+ * Query parameters:
+ * - from: start of the range (inclusive), ISO date or timestamp
+ * - to: end of the range (date-only values include the whole day)
+ * - format: md, docx, pdf, json (default), srt or vtt
+ * - project, tag, attendee: only export matching meetings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = parseExportFormat(searchParams.get("format"), "json");
+    const from = parseDateParam(searchParams.get("from"), false);
+    const to = parseDateParam(searchParams.get("to"), true);
+
+    if (!format) {
+      return NextResponse.json({ error: "Unsupported export format" }, { status: 400 });
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const conditions: SQL[] = getMeetingFilterConditions(parseMeetingFilters(searchParams));
+    if (from) conditions.push(gte(meetings.startedAt, from));
+    if (to) conditions.push(lt(meetings.startedAt, to));
+
+    const matches = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(and(...conditions))
+      .orderBy(asc(meetings.startedAt))
+      .limit(MAX_BULK_EXPORT_MEETINGS + 1);
+
+    if (matches.length === 0) {
+      return NextResponse.json({ error: "No meetings match these filters" }, { status: 404 });
+    }
+
+    if (matches.length > MAX_BULK_EXPORT_MEETINGS) {
+      return NextResponse.json(
+        { error: `Too many meetings - narrow the range to at most ${MAX_BULK_EXPORT_MEETINGS}` },
+        { status: 400 }
+      );
+    }
+
+    const zip = new JSZip();
+    const skipped: number[] = [];
+    let totalBytes = 0;
+
+    // Meetings are rendered one at a time, but the archive holds every
+    // rendered file until it is generated, so its total size is capped
+    for (const { id } of matches) {
+      const data = await loadMeetingExport(id);
+      if (!data) continue;
+
+      if (isSubtitleFormat(format) && data.segments.length === 0) {
+        skipped.push(id);
+        continue;
+      }
+
+      const { body } = await renderMeetingExport(data, format);
+      totalBytes += typeof body === "string" ? Buffer.byteLength(body) : body.byteLength;
+      if (totalBytes > MAX_BULK_EXPORT_BYTES) {
+        return NextResponse.json(
+          {
+            error: `Export too large - narrow the range to stay under ${MAX_BULK_EXPORT_BYTES / 1024 / 1024}MB`,
+          },
+          { status: 400 }
+        );
+      }
+      zip.file(getExportFilename(data.meeting, format), body);
+    }
+
+    if (skipped.length > 0) {
+      zip.file(
+        "SKIPPED.txt",
+        `These meetings have no timed transcript segments and were not exported as ${format}:\n${skipped.join("\n")}\n`
+      );
+    }
+
+    const archive = await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+    const rangeName = [from, to && new Date(to.getTime() - 1)]
+      .map((date) => (date ? date.toISOString().slice(0, 10) : "all"))
+      .join("_to_");
+
+    return new NextResponse(archive as BodyInit, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="meetings-${rangeName}-${format}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting meetings:", error);
+    return NextResponse.json(
+      { error: "Failed to export meetings" },
+      { status: 500 }
+    );
+  }
+}
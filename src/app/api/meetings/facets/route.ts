@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getMeetingFacets } from "@/lib/meeting-filters";
+
+/**
+ * GET /api/meetings/facets - Projects, tags and attendees in use, for filters
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getMeetingFacets());
+  } catch (error) {
+    console.error("Error fetching meeting facets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch meeting facets" },
+      { status: 500 }
+    );
+  }
+}
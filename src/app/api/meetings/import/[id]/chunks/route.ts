@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { saveImportChunk } from "@/lib/meeting-import";
+import { meetingImports } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Largest chunk accepted (a 5 minute 16 kHz mono WAV is under 10MB)
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// Upload one chunk of a recording as multipart form data (index, audio)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const importId = parseInt(id);
+
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get("audio");
+    const index = parseInt((formData.get("index") as string | null) ?? "");
+
+    if (!audio || !(audio instanceof Blob)) {
+      return NextResponse.json({ error: "No audio chunk provided" }, { status: 400 });
+    }
+
+    if (audio.size > MAX_CHUNK_SIZE) {
+      return NextResponse.json({ error: "Audio chunk too large" }, { status: 413 });
+    }
+
+    const [meetingImport] = await db
+      .select()
+      .from(meetingImports)
+      .where(eq(meetingImports.id, importId));
+
+    if (!meetingImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    if (isNaN(index) || index < 0 || index >= meetingImport.totalChunks) {
+      return NextResponse.json({ error: "Invalid chunk index" }, { status: 400 });
+    }
+
+    if (meetingImport.status !== "uploading") {
+      return NextResponse.json(
+        { error: "Import is no longer accepting uploads" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await saveImportChunk(
+      meetingImport,
+      index,
+      Buffer.from(await audio.arrayBuffer())
+    );
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error uploading import chunk:", error);
+    return NextResponse.json({ error: "Failed to upload chunk" }, { status: 500 });
+  }
+}
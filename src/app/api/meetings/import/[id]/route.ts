@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { cancelImport } from "@/lib/meeting-import";
+import { meetingImports } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Get the progress of a recording import
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const importId = parseInt(id);
+
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 });
+    }
+
+    const [meetingImport] = await db
+      .select()
+      .from(meetingImports)
+      .where(eq(meetingImports.id, importId));
+
+    if (!meetingImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(meetingImport);
+  } catch (error) {
+    console.error("Error fetching meeting import:", error);
+    return NextResponse.json({ error: "Failed to fetch import" }, { status: 500 });
+  }
+}
+
+// Cancel a recording import that hasn't finished
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const importId = parseInt(id);
+
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid import ID" }, { status: 400 });
+    }
+
+    const cancelled = await cancelImport(importId);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: "Import not found or already finished" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(cancelled);
+  } catch (error) {
+    console.error("Error cancelling meeting import:", error);
+    return NextResponse.json({ error: "Failed to cancel import" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getSummaryProgress } from "@/lib/meeting-analysis";
+import { createImportSchema } from "@/lib/recording-import";
+import { meetingImports, meetings } from "@/lib/schema";
+
+/** GET /api/meetings/import - List recent recording imports */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1), 100);
+
+    const imports = await db
+      .select({
+        import: meetingImports,
+        meetingTitle: meetings.title,
+      })
+      .from(meetingImports)
+      .innerJoin(meetings, eq(meetingImports.meetingId, meetings.id))
+      .orderBy(desc(meetingImports.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({
+      imports: imports.map((row) => ({
+        ...row.import,
+        meetingTitle: row.meetingTitle,
+        summaryProgress:
+          row.import.status === "summarizing" ? getSummaryProgress(row.import.meetingId) : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching meeting imports:", error);
+    return NextResponse.json({ error: "Failed to fetch imports" }, { status: 500 });
+  }
+}
+
+/** POST /api/meetings/import - Create a meeting for an uploaded recording */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = createImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { title, fileName, startedAt, durationMs, chunkDurationMs, totalChunks } = parsed.data;
+    const startDate = new Date(startedAt);
+
+    const [meeting] = await db
+      .insert(meetings)
+      .values({
+        title: title || fileName.replace(/\.[^.]+$/, "") || `Meeting ${startDate.toLocaleDateString()}`,
+        startedAt: startDate,
+      })
+      .returning();
+
+    if (!meeting) {
+      throw new Error("Meeting was not created");
+    }
+
+    const [meetingImport] = await db
+      .insert(meetingImports)
+      .values({
+        meetingId: meeting.id,
+        fileName,
+        totalChunks,
+        chunkDurationMs,
+        durationMs,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { ...meetingImport, meetingTitle: meeting.title },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating meeting import:", error);
+    return NextResponse.json({ error: "Failed to create import" }, { status: 500 });
+  }
+}
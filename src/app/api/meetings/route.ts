@@ -1,39 +1,58 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { desc, sql } from "drizzle-orm";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import { agendaSchema } from "@/lib/agenda";
+import { replaceAgenda } from "@/lib/agenda-tracker";
 import { db } from "@/lib/db";
-import { fastModel } from "@/lib/ollama";
-import { meetings } from "@/lib/schema";
+import { meetingDetailsSchema, parseDateParam, parseMeetingFilters } from "@/lib/meeting-details";
+import { getMeetingFilterConditions } from "@/lib/meeting-filters";
+import { meetingListColumns } from "@/lib/meeting-search";
+import { meetings, meetingSeries } from "@/lib/schema";
 
-// List all meetings
+const startMeetingSchema = meetingDetailsSchema.pick({ seriesId: true }).extend({
+  agenda: agendaSchema.optional(),
+});
+
+/**
+ * GET /api/meetings - List meetings, most recent first
+ *
+ * Query parameters:
+ * - search: full-text match on the title, transcript and summary (use
+ *   /api/meetings/search for ranked results with snippets)
+ * - from, to: start date range (date-only `to` values include the whole day)
+ * - project, tag, attendee: see parseMeetingFilters()
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get("limit") || "50");
     const offset = parseInt(searchParams.get("offset") || "0");
     const search = searchParams.get("search");
+    const from = parseDateParam(searchParams.get("from"), false);
+    const to = parseDateParam(searchParams.get("to"), true);
 
-    const query = db
-      .select()
-      .from(meetings)
-      .orderBy(desc(meetings.startedAt))
-      .limit(limit)
-      .offset(offset);
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const conditions = getMeetingFilterConditions(parseMeetingFilters(searchParams));
+    if (from) conditions.push(gte(meetings.startedAt, from));
+    if (to) conditions.push(lt(meetings.startedAt, to));
 
     // Add full-text search if provided
     if (search) {
-      const searchResults = await db.execute(sql`
-        SELECT * FROM meetings
-        WHERE to_tsvector('english', COALESCE(transcript, '') || ' ' || COALESCE(summary, '') || ' ' || COALESCE(title, ''))
-        @@ plainto_tsquery('english', ${search})
-        ORDER BY started_at DESC
-        LIMIT ${limit}
-        OFFSET ${offset}
-      `);
-      return NextResponse.json(searchResults);
+      conditions.push(
+        sql`${meetings.searchVector} @@ websearch_to_tsquery('english', ${search})`
+      );
     }
 
-    const allMeetings = await query;
+    const allMeetings = await db
+      .select(meetingListColumns)
+      .from(meetings)
+      .where(and(...conditions))
+      .orderBy(desc(meetings.startedAt))
+      .limit(limit)
+      .offset(offset);
+
     return NextResponse.json(allMeetings);
   } catch (error) {
     console.error("Error fetching meetings:", error);
@@ -44,19 +63,46 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Start a new meeting
+// Start a new meeting, optionally as the next one in a series or with an agenda
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { title } = body;
 
+    const parsed = startMeetingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { agenda = [], seriesId = null } = parsed.data;
+
+    let seriesName: string | null = null;
+    if (seriesId !== null) {
+      const [series] = await db
+        .select({ name: meetingSeries.name })
+        .from(meetingSeries)
+        .where(eq(meetingSeries.id, seriesId));
+
+      if (!series) {
+        return NextResponse.json({ error: "Series not found" }, { status: 404 });
+      }
+      seriesName = series.name;
+    }
+
     const [meeting] = await db
       .insert(meetings)
       .values({
-        title: title || `Meeting ${new Date().toLocaleDateString()}`,
+        title: title || `${seriesName ?? "Meeting"} ${new Date().toLocaleDateString()}`,
         startedAt: new Date(),
+        seriesId,
       })
-      .returning();
+      .returning(meetingListColumns);
+
+    if (meeting && agenda.length > 0) {
+      await replaceAgenda(meeting.id, agenda, meeting.startedAt);
+    }
 
     return NextResponse.json(meeting, { status: 201 });
   } catch (error) {
@@ -67,23 +113,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Generate summary for a meeting transcript
-export async function summarizeMeeting(transcript: string): Promise<string> {
-  try {
-    const { text } = await generateText({
-      model: fastModel,
-      prompt: `Summarize this meeting transcript in 3-5 bullet points, focusing on key decisions made, action items assigned, and important topics discussed. Be concise and actionable.
-
-TRANSCRIPT:
-${transcript}
-
-SUMMARY:`,
-    });
-
-    return text.trim();
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    return "Summary generation failed.";
-  }
-}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MEETING_SEARCH_MODES,
+  parseDateParam,
+  parseMeetingFilters,
+  type MeetingSearchMode,
+} from "@/lib/meeting-details";
+import { searchMeetings } from "@/lib/meeting-search";
+
+// Largest page of search results
+const MAX_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * GET /api/meetings/search - Ranked full-text search across meetings
+ *
+ * Query parameters:
+ * - q: search terms; supports "quoted phrases", OR and -exclusions
+ * - mode: keyword (default) or hybrid, which also matches by meaning
+ * - from: only meetings that started on or after this date
+ * - to: only meetings that started before this date (date-only values include the whole day)
+ * - project, tag, attendee: see parseMeetingFilters()
+ * - limit, offset: paging (default 20 results, at most 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get("q")?.trim();
+    const mode = searchParams.get("mode") || "keyword";
+    const from = parseDateParam(searchParams.get("from"), false);
+    const to = parseDateParam(searchParams.get("to"), true);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1),
+      MAX_SEARCH_PAGE_SIZE
+    );
+    const offset = Math.max(parseInt(searchParams.get("offset") || "0") || 0, 0);
+
+    if (!query) {
+      return NextResponse.json({ error: "Search query is required" }, { status: 400 });
+    }
+
+    if (!MEETING_SEARCH_MODES.includes(mode as MeetingSearchMode)) {
+      return NextResponse.json({ error: "Invalid search mode" }, { status: 400 });
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const results = await searchMeetings(query, parseMeetingFilters(searchParams), {
+      mode: mode as MeetingSearchMode,
+      from,
+      to,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error("Error searching meetings:", error);
+    return NextResponse.json(
+      { error: "Failed to search meetings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/admin-auth";
+import { getRetentionRuns, previewRetention, runRetentionPurge } from "@/lib/retention";
+
+/**
+ * GET /api/retention - Dry-run preview of the next purge plus the purge log
+ */
+export async function GET() {
+  try {
+    const authenticated = await isAuthenticated();
+
+    if (!authenticated) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const [preview, runs] = await Promise.all([previewRetention(), getRetentionRuns()]);
+
+    return NextResponse.json({ preview, runs });
+  } catch (error) {
+    console.error("Failed to preview retention:", error);
+    return NextResponse.json(
+      { error: "Failed to preview retention" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/retention - Run the retention purge now
+ */
+export async function POST() {
+  try {
+    const authenticated = await isAuthenticated();
+
+    if (!authenticated) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const run = await runRetentionPurge("manual");
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Retention is disabled or a purge is already running" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error("Failed to run retention purge:", error);
+    return NextResponse.json(
+      { error: "Failed to run retention purge" },
+      { status: 500 }
+    );
+  }
+}
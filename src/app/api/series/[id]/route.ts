@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { updateSeriesSchema, type SeriesTimeline } from "@/lib/meeting-series";
+import { actionItems, meetings, meetingSeries } from "@/lib/schema";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Get a series with the timeline of its meetings
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const seriesId = parseInt(id);
+
+    if (isNaN(seriesId)) {
+      return NextResponse.json({ error: "Invalid series ID" }, { status: 400 });
+    }
+
+    const [series] = await db
+      .select()
+      .from(meetingSeries)
+      .where(eq(meetingSeries.id, seriesId));
+
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    const timeline = await db
+      .select({
+        id: meetings.id,
+        title: meetings.title,
+        startedAt: meetings.startedAt,
+        endedAt: meetings.endedAt,
+        summary: meetings.summary,
+        openActionItems: sql<number>`COUNT(${actionItems.id})::int`,
+      })
+      .from(meetings)
+      .leftJoin(
+        actionItems,
+        and(eq(actionItems.meetingId, meetings.id), eq(actionItems.completed, false))
+      )
+      .where(eq(meetings.seriesId, seriesId))
+      .groupBy(meetings.id)
+      .orderBy(desc(meetings.startedAt));
+
+    const response: SeriesTimeline = { series, meetings: timeline };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch series" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a series or change its description
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const seriesId = parseInt(id);
+
+    if (isNaN(seriesId)) {
+      return NextResponse.json({ error: "Invalid series ID" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateSeriesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { name, description } = parsed.data;
+    const updateData: Partial<typeof meetingSeries.$inferInsert> = {};
+
+    if (name !== undefined) {
+      updateData.name = name;
+    }
+
+    if (description !== undefined) {
+      updateData.description = description || null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const [updatedSeries] = await db
+      .update(meetingSeries)
+      .set(updateData)
+      .where(eq(meetingSeries.id, seriesId))
+      .returning();
+
+    if (!updatedSeries) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedSeries);
+  } catch (error) {
+    console.error("Error updating series:", error);
+    return NextResponse.json(
+      { error: "Failed to update series" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a series; its meetings are kept
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const seriesId = parseInt(id);
+
+    if (isNaN(seriesId)) {
+      return NextResponse.json({ error: "Invalid series ID" }, { status: 400 });
+    }
+
+    const [deletedSeries] = await db
+      .delete(meetingSeries)
+      .where(eq(meetingSeries.id, seriesId))
+      .returning();
+
+    if (!deletedSeries) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, id: seriesId });
+  } catch (error) {
+    console.error("Error deleting series:", error);
+    return NextResponse.json(
+      { error: "Failed to delete series" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { count, desc, eq, max, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { createSeriesSchema } from "@/lib/meeting-series";
+import { meetings, meetingSeries } from "@/lib/schema";
+
+/**
+ * GET /api/series - List meeting series, most recently active first
+ */
+export async function GET() {
+  try {
+    const series = await db
+      .select({
+        id: meetingSeries.id,
+        name: meetingSeries.name,
+        description: meetingSeries.description,
+        createdAt: meetingSeries.createdAt,
+        updatedAt: meetingSeries.updatedAt,
+        meetingCount: count(meetings.id),
+        lastMeetingAt: max(meetings.startedAt),
+      })
+      .from(meetingSeries)
+      .leftJoin(meetings, eq(meetings.seriesId, meetingSeries.id))
+      .groupBy(meetingSeries.id)
+      .orderBy(
+        sql`MAX(${meetings.startedAt}) DESC NULLS LAST`,
+        desc(meetingSeries.createdAt)
+      );
+
+    return NextResponse.json(series);
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch series" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/series - Create a meeting series
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = createSeriesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const [series] = await db
+      .insert(meetingSeries)
+      .values({
+        name: parsed.data.name,
+        description: parsed.data.description || null,
+      })
+      .returning();
+
+    return NextResponse.json(series, { status: 201 });
+  } catch (error) {
+    console.error("Error creating series:", error);
+    return NextResponse.json(
+      { error: "Failed to create series" },
+      { status: 500 }
+    );
+  }
+}
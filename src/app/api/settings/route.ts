@@ -11,6 +11,9 @@ const DEFAULT_SETTINGS: Record<string, string> = {
   voiceSpeed: "normal",
   wakeWord: "hey assistant",
   retentionDays: "90",
+  liveSummaryMinutes: "5",
+  highlightSeconds: "30",
+  storeAudio: "false",
   ttsEnabled: "true",
   autoTranscribe: "true",
 };
@@ -15,6 +15,8 @@ interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
+  confidence?: number;
+  speaker?: string | null;
   words?: Array<{
     word: string;
     start: number;
@@ -49,6 +51,8 @@ export async function POST(request: NextRequest) {
     const language = formData.get("language") as string | null;
     const task = formData.get("task") as string | null;
     const detailed = formData.get("detailed") === "true";
+    const diarize = formData.get("diarize") === "true";
+    const sessionId = formData.get("sessionId") as string | null;
 
     // Build form data for Whisper service
     const whisperFormData = new FormData();
@@ -62,6 +66,14 @@ export async function POST(request: NextRequest) {
       whisperFormData.append("task", task);
     }
 
+    // Speaker labels are only available with segment-level output
+    if (detailed && diarize) {
+      whisperFormData.append("diarize", "true");
+      if (sessionId) {
+        whisperFormData.append("session_id", sessionId);
+      }
+    }
+
     // Choose endpoint based on detail level
     const endpoint = detailed ? "/transcribe/detailed" : "/transcribe";
 
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Gavel, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { DecisionList } from '@/components/decision-list';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDecisions } from '@/hooks/use-decisions';
+import type { UpdateDecisionInput } from '@/lib/decisions';
+
+export default function DecisionsPage() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [query, setQuery] = useState('');
+
+  const { decisions, isLoading, error, updateDecision, deleteDecision } = useDecisions({
+    query,
+  });
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const handleUpdate = async (id: number, input: UpdateDecisionInput) => {
+    const updated = await updateDecision(id, input);
+    if (!updated) toast.error('Failed to update decision');
+  };
+
+  const handleDelete = async (id: number) => {
+    const deleted = await deleteDecision(id);
+    if (deleted) {
+      toast.success('Decision deleted');
+    } else {
+      toast.error('Failed to delete decision');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/meetings">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-slate-100">Decision Log</h1>
+            <p className="text-sm text-slate-400">
+              What was decided, when, and who was there
+            </p>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+          <Input
+            placeholder="Search decisions, rationale or meetings..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10 bg-slate-800 border-slate-700"
+          />
+        </div>
+
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Gavel className="h-4 w-4 text-amber-400" />
+              Decisions
+            </CardTitle>
+            <CardDescription>
+              {decisions.length} decision{decisions.length !== 1 ? 's' : ''}, most recent
+              meetings first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && decisions.length === 0 ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <p className="text-red-400 text-sm">{error}</p>
+            ) : (
+              <DecisionList
+                decisions={decisions}
+                showMeeting
+                emptyMessage={
+                  query ? 'No decisions match this search.' : 'No decisions recorded yet.'
+                }
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
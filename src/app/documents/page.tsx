@@ -10,11 +10,15 @@ import {
   Loader2,
   AlertCircle,
   CheckCircle2,
+  Download,
+  Eye,
   FileUp,
+  RotateCw,
   Search,
   X,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { DocumentPreviewDialog } from '@/components/document-preview-dialog';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -24,6 +28,32 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import {
+  getDocumentJobProgress,
+  isDocumentJobActive,
+  type DocumentJobStatus,
+} from '@/lib/document-ingestion';
+
+// How often documents being processed are polled for progress
+const POLL_INTERVAL_MS = 2000;
+
+const JOB_STATUS_LABELS: Record<DocumentJobStatus, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  chunking: 'Splitting into chunks',
+  embedding: 'Embedding',
+  done: 'Ready',
+  failed: 'Failed',
+};
+
+// Background ingestion of a document
+interface DocumentJob {
+  status: DocumentJobStatus;
+  attempts: number;
+  totalChunks: number | null;
+  embeddedChunks: number;
+  error: string | null;
+}
 
 // Document type from schema
 interface Document {
@@ -35,6 +65,12 @@ interface Document {
   uploadedAt: string;
   processedAt: string | null;
   chunkCount: number | null;
+  /** Null for documents uploaded before originals were kept */
+  storageUrl: string | null;
+  /** Why the last ingestion failed */
+  error: string | null;
+  /** Null for documents uploaded before ingestion ran in the background */
+  job: DocumentJob | null;
 }
 
 // Query result type
@@ -52,6 +88,19 @@ function formatFileSize(bytes: number | null): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+/**
+ * Progress line for a document that is being processed
+ */
+function getJobDetail(job: DocumentJob): string {
+  const label = JOB_STATUS_LABELS[job.status] ?? job.status;
+  const chunks =
+    job.status === 'embedding' && job.totalChunks
+      ? ` ${job.embeddedChunks} of ${job.totalChunks} chunks`
+      : '';
+  const attempt = job.attempts > 1 ? ` (attempt ${job.attempts})` : '';
+  return `${label}${chunks}${attempt}`;
+}
+
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString(undefined, {
     year: 'numeric',
@@ -67,10 +116,14 @@ export default function DocumentsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [retryingId, setRetryingId] = useState<number | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<QueryResult[] | null>(null);
+  const [previewDocument, setPreviewDocument] = useState<{ id: number; name: string } | null>(
+    null
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch documents on mount
@@ -92,6 +145,14 @@ export default function DocumentsPage() {
     fetchDocuments();
   }, [fetchDocuments]);
 
+  // Poll while any document is still being processed
+  const hasActive = documents.some((doc) => doc.job && isDocumentJobActive(doc.job.status));
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(fetchDocuments, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, fetchDocuments]);
+
   // Handle file upload
   const handleUpload = useCallback(
     async (files: FileList | File[]) => {
@@ -129,7 +190,7 @@ export default function DocumentsPage() {
 
       if (successCount > 0) {
         toast.success(
-          `Successfully uploaded ${successCount} document${successCount > 1 ? 's' : ''}`
+          `Uploaded ${successCount} document${successCount > 1 ? 's' : ''}; processing continues in the background`
         );
         await fetchDocuments();
       }
@@ -201,6 +262,33 @@ export default function DocumentsPage() {
     [fetchDocuments]
   );
 
+  // Re-run ingestion of a failed document
+  const handleRetry = useCallback(
+    async (id: number) => {
+      setRetryingId(id);
+      try {
+        const response = await fetch(`/api/documents/${id}/retry`, {
+          method: 'POST',
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || 'Retry failed');
+        }
+
+        await fetchDocuments();
+      } catch (error) {
+        console.error('Failed to retry document:', error);
+        toast.error(
+          `Failed to retry: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      } finally {
+        setRetryingId(null);
+      }
+    },
+    [fetchDocuments]
+  );
+
   // Handle search
   const handleSearch = useCallback(async () => {
     if (!searchQuery.trim()) {
@@ -347,7 +435,7 @@ export default function DocumentsPage() {
               {isUploading ? (
                 <>
                   <Loader2 className="h-12 w-12 text-blue-500 animate-spin mb-4" />
-                  <p className="text-slate-300">Processing documents...</p>
+                  <p className="text-slate-300">Uploading documents...</p>
                 </>
               ) : (
                 <>
@@ -356,7 +444,8 @@ export default function DocumentsPage() {
                     Drag and drop files here, or click to browse
                   </p>
                   <p className="text-sm text-slate-500 mb-4">
-                    Supports PDF, DOCX, TXT, and Markdown files (max 10MB)
+                    Supports PDF, Word, Excel, PowerPoint, OpenDocument text, RTF, EPUB, HTML,
+                    CSV, TXT and Markdown files (max 10MB)
                   </p>
                   <Button
                     onClick={() => fileInputRef.current?.click()}
@@ -369,7 +458,7 @@ export default function DocumentsPage() {
                     ref={fileInputRef}
                     type="file"
                     multiple
-                    accept=".pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/markdown"
+                    accept=".pdf,.docx,.txt,.md,.html,.htm,.csv,.xlsx,.pptx,.odt,.rtf,.epub"
                     className="hidden"
                     onChange={handleFileInputChange}
                   />
@@ -403,61 +492,145 @@ export default function DocumentsPage() {
               </div>
             ) : (
               <div className="space-y-3">
-                {documents.map((doc) => (
-                  <motion.div
-                    key={doc.id}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="flex items-center justify-between p-4 rounded-lg bg-slate-800/50 border border-slate-700"
-                  >
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center">
-                        <FileText className="h-5 w-5 text-slate-400" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-slate-200">
-                          {doc.originalName || doc.filename}
-                        </p>
-                        <div className="flex items-center gap-2 text-sm text-slate-500">
-                          <span>{formatFileSize(doc.fileSize)}</span>
-                          <span>•</span>
-                          <span>{formatDate(doc.uploadedAt)}</span>
-                          {doc.chunkCount && (
-                            <>
+                {documents.map((doc) => {
+                  const active = doc.job !== null && isDocumentJobActive(doc.job.status);
+                  const failed = doc.job?.status === 'failed';
+
+                  return (
+                    <motion.div
+                      key={doc.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="p-4 rounded-lg bg-slate-800/50 border border-slate-700"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          <div className="w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center">
+                            <FileText className="h-5 w-5 text-slate-400" />
+                          </div>
+                          <div>
+                            <p className="font-medium text-slate-200">
+                              {doc.originalName || doc.filename}
+                            </p>
+                            <div className="flex items-center gap-2 text-sm text-slate-500">
+                              <span>{formatFileSize(doc.fileSize)}</span>
                               <span>•</span>
-                              <span>{doc.chunkCount} chunks</span>
+                              <span>{formatDate(doc.uploadedAt)}</span>
+                              {doc.chunkCount && (
+                                <>
+                                  <span>•</span>
+                                  <span>{doc.chunkCount} chunks</span>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {active ? (
+                            <Loader2 className="h-5 w-5 text-blue-400 animate-spin" />
+                          ) : failed ? (
+                            <>
+                              <AlertCircle className="h-5 w-5 text-red-500" />
+                              {doc.storageUrl && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleRetry(doc.id)}
+                                  disabled={retryingId === doc.id}
+                                  className="text-slate-400 hover:text-white"
+                                  aria-label="Retry processing"
+                                >
+                                  {retryingId === doc.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <RotateCw className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              )}
                             </>
+                          ) : doc.processedAt ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-500" />
+                          ) : (
+                            <AlertCircle className="h-5 w-5 text-yellow-500" />
                           )}
+                          {doc.storageUrl && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() =>
+                                  setPreviewDocument({
+                                    id: doc.id,
+                                    name: doc.originalName || doc.filename,
+                                  })
+                                }
+                                className="text-slate-400 hover:text-white"
+                                aria-label="Preview"
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              <a href={`/api/documents/${doc.id}/download`} download>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-slate-400 hover:text-white"
+                                  aria-label="Download"
+                                >
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                              </a>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(doc.id)}
+                            disabled={deletingId === doc.id}
+                            className="text-slate-400 hover:text-red-400"
+                          >
+                            {deletingId === doc.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
                         </div>
                       </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      {doc.processedAt ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-500" />
-                      ) : (
-                        <AlertCircle className="h-5 w-5 text-yellow-500" />
+                      {doc.job && active && (
+                        <div className="mt-3 space-y-1">
+                          <div
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={getDocumentJobProgress(doc.job)}
+                            className="h-2 w-full overflow-hidden rounded-full bg-slate-700"
+                          >
+                            <div
+                              className="h-full rounded-full bg-blue-500 transition-all"
+                              style={{ width: `${getDocumentJobProgress(doc.job)}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-slate-500">{getJobDetail(doc.job)}</p>
+                        </div>
                       )}
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDelete(doc.id)}
-                        disabled={deletingId === doc.id}
-                        className="text-slate-400 hover:text-red-400"
-                      >
-                        {deletingId === doc.id ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </motion.div>
-                ))}
+                      {failed && (
+                        <p className="mt-3 text-xs text-red-400">
+                          Processing failed{doc.error ? `: ${doc.error}` : ''}
+                        </p>
+                      )}
+                    </motion.div>
+                  );
+                })}
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <DocumentPreviewDialog
+        document={previewDocument}
+        onClose={() => setPreviewDocument(null)}
+      />
     </div>
   );
 }
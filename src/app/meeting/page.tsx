@@ -1,10 +1,23 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { Mic, MicOff, Volume2, VolumeX, Settings, Loader2 } from 'lucide-react';
+import {
+  BookmarkPlus,
+  Mic,
+  MicOff,
+  Volume2,
+  VolumeX,
+  Settings,
+  Loader2,
+  Square,
+  ScrollText,
+} from 'lucide-react';
+import { AgendaTracker } from '@/components/agenda';
 import { BreathingOrb, getOrbState, type OrbState } from '@/components/breathing-orb';
 import {
+  InsightCard,
   InsightFeed,
   createInsight,
   type InsightCardData,
@@ -18,14 +31,24 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { useAgenda } from '@/hooks/use-agenda';
 import { useBargeIn } from '@/hooks/use-barge-in';
+import { useLiveSummary } from '@/hooks/use-live-summary';
+import { useMeetingAudio } from '@/hooks/use-meeting-audio';
+import { useMeetingHighlights } from '@/hooks/use-meeting-highlights';
+import { useMeetingSession } from '@/hooks/use-meeting-session';
 import { useTranscription } from '@/hooks/use-transcription';
 import { useAIResponseTTS } from '@/hooks/use-tts';
 import { useWakeWord, BUILTIN_KEYWORDS, BuiltInKeyword } from '@/hooks/use-wake-word';
+import type { HighlightSource } from '@/lib/highlights';
 import { meetingTourSteps } from '@/lib/tour-definitions';
 import { shouldShowTour } from '@/lib/tour-storage';
+import { formatOffset } from '@/lib/transcript-segments';
+import { parseVoiceCommand } from '@/lib/voice-commands';
 
 export default function MeetingPage() {
+  const router = useRouter();
+
   // UI State
   const [isMuted, setIsMuted] = useState(false);
   const [insights, setInsights] = useState<InsightCardData[]>([]);
@@ -38,6 +61,27 @@ export default function MeetingPage() {
   // Track last processed transcription to avoid duplicates
   const lastTranscriptionRef = useRef<string | null>(null);
 
+  // Meeting session - persists everything said in the room as a meeting record
+  const {
+    meetingId,
+    state: sessionState,
+    isRecovered,
+    pendingCount,
+    startMeeting,
+    appendTranscript,
+    appendAssistantResponse,
+    flushTranscript,
+    endMeeting,
+    summaryProgress,
+  } = useMeetingSession({
+    onError: (error) => {
+      setInsights((prev) => [
+        createInsight('info', `Meeting Error: ${error.message}`),
+        ...prev,
+      ]);
+    },
+  });
+
   // TTS hook for speaking AI responses
   const {
     isSpeaking,
@@ -70,19 +114,54 @@ export default function MeetingPage() {
     },
   });
 
+  // Rolling "catch me up" summary, refreshed every few minutes of conversation
+  const { liveSummary, isUpdating: isUpdatingSummary, catchUp } = useLiveSummary(meetingId, {
+    enabled: sessionState === 'active',
+  });
+
+  // Agenda topics, moved on as the conversation changes topic
+  const {
+    items: agendaItems,
+    progress: agendaProgress,
+    goTo: goToAgendaItem,
+  } = useAgenda(meetingId, { enabled: sessionState === 'active' });
+  const announcedTopicRef = useRef<number | null>(null);
+  const warnedTopicsRef = useRef(new Set<number>());
+
+  // Moments bookmarked with "bookmark that" or the Bookmark button
+  const { addHighlight } = useMeetingHighlights(meetingId);
+  const [isBookmarking, setIsBookmarking] = useState(false);
+
+  // Keep each recording for playback when the admin turned audio storage on
+  const { enabled: storeAudio, uploadClip } = useMeetingAudio(meetingId);
+  const handleRecorded = useCallback(
+    (audio: Blob, startedAt: Date) => {
+      if (storeAudio) {
+        void uploadClip(audio, startedAt);
+      }
+    },
+    [storeAudio, uploadClip]
+  );
+
   // Transcription hook
   const {
     state: transcriptionState,
     audioLevel,
     transcription,
+    recordingStartedAt,
     fullText,
     error: transcriptionError,
     serviceAvailable,
     startRecording,
     stopRecording,
   } = useTranscription({
+    detailed: true,
+    // Keep speaker labels consistent across the clips of this meeting
+    diarize: true,
+    sessionId: meetingId !== null ? `meeting-${meetingId}` : undefined,
     keepHistory: true,
     maxHistoryEntries: 100,
+    onRecorded: handleRecorded,
   });
 
   // Wake word callback - start recording when detected
@@ -143,6 +222,8 @@ export default function MeetingPage() {
                 content: userText,
               },
             ],
+            // Lets the assistant recall the previous meeting of a series
+            ...(meetingId !== null && { meetingId }),
           }),
         });
 
@@ -188,6 +269,9 @@ export default function MeetingPage() {
             ...prev,
           ]);
 
+          // Store the answer in the meeting transcript
+          appendAssistantResponse(fullResponse);
+
           // Speak the response
           await speakResponse(fullResponse);
         }
@@ -204,9 +288,77 @@ export default function MeetingPage() {
         setIsProcessingAI(false);
       }
     },
-    [speakResponse]
+    [speakResponse, appendAssistantResponse, meetingId]
+  );
+
+  // Bring the live summary up to date and read it out. Queued segments are
+  // saved first so the summary covers what was just said.
+  const handleCatchUp = useCallback(async () => {
+    await flushTranscript();
+    const summary = await catchUp();
+    if (summary) {
+      await speakResponse(summary);
+    } else {
+      setInsights((prev) => [
+        createInsight('info', 'Nothing to catch up on yet.'),
+        ...prev,
+      ]);
+    }
+  }, [flushTranscript, catchUp, speakResponse]);
+
+  // Save the moment with the transcript leading up to it. Queued segments
+  // are saved first so the highlight includes what was just said.
+  const handleBookmark = useCallback(
+    async (source: HighlightSource, at: Date = new Date(), note: string | null = null) => {
+      setIsBookmarking(true);
+      try {
+        await flushTranscript();
+        const highlight = await addHighlight({ at: at.toISOString(), note, source });
+        setInsights((prev) => [
+          highlight
+            ? createInsight(
+                'info',
+                `Bookmarked ${formatOffset(highlight.atMs)}${note ? `: ${note}` : ''}.`,
+                { title: 'Highlight' }
+              )
+            : createInsight('info', 'Failed to save bookmark.'),
+          ...prev,
+        ]);
+      } finally {
+        setIsBookmarking(false);
+      }
+    },
+    [flushTranscript, addHighlight]
   );
 
+  // Announce topic changes and warn once when a topic runs over its time box
+  useEffect(() => {
+    const current = agendaProgress.current;
+    if (!current) return;
+
+    if (announcedTopicRef.current !== current.id) {
+      const isFirstTopic = announcedTopicRef.current === null;
+      announcedTopicRef.current = current.id;
+      if (!isFirstTopic) {
+        queueMicrotask(() => {
+          setInsights((prev) => [
+            createInsight('info', `Moving on to "${current.topic}".`, { title: 'Agenda' }),
+            ...prev,
+          ]);
+        });
+      }
+    }
+
+    if (agendaProgress.overrun && !warnedTopicsRef.current.has(current.id)) {
+      warnedTopicsRef.current.add(current.id);
+      const warning = `"${current.topic}" has run over its ${current.durationMinutes} minute time box.`;
+      queueMicrotask(() => {
+        setInsights((prev) => [createInsight('suggestion', warning, { title: 'Agenda' }), ...prev]);
+      });
+      void speakResponse(warning);
+    }
+  }, [agendaProgress, speakResponse]);
+
   // When transcription completes, add it as an insight and optionally process with AI
   useEffect(() => {
     const text = transcription?.text?.trim();
@@ -220,11 +372,86 @@ export default function MeetingPage() {
           ...prev,
         ]);
 
-        // Process transcription with AI
-        processWithAI(text);
+        // Store the utterance in the meeting transcript with its timing
+        appendTranscript(text, {
+          recordedAt: recordingStartedAt ?? new Date(),
+          segments: transcription?.segments,
+          duration: transcription?.duration,
+          language: transcription?.language,
+        });
+
+        // Voice commands are handled here; everything else goes to the AI
+        const command = parseVoiceCommand(text);
+        if (command?.type === 'catch-up') {
+          handleCatchUp();
+        } else if (command?.type === 'bookmark') {
+          // Mark the moment the command was spoken, not when it was transcribed
+          handleBookmark('voice', recordingStartedAt ?? new Date(), command.note);
+        } else {
+          processWithAI(text);
+        }
+      });
+    }
+  }, [
+    transcription,
+    recordingStartedAt,
+    processWithAI,
+    handleCatchUp,
+    handleBookmark,
+    appendTranscript,
+  ]);
+
+  // Start the meeting record as soon as the room goes live
+  useEffect(() => {
+    if (transcriptionState === 'recording' && sessionState === 'idle') {
+      startMeeting();
+    }
+  }, [transcriptionState, sessionState, startMeeting]);
+
+  // Let the user know when an interrupted session was resumed
+  useEffect(() => {
+    if (isRecovered && meetingId !== null) {
+      queueMicrotask(() => {
+        setInsights((prev) => [
+          createInsight('info', `Resumed meeting #${meetingId} after reload.`),
+          ...prev,
+        ]);
       });
     }
-  }, [transcription, processWithAI]);
+  }, [isRecovered, meetingId]);
+
+  // End the meeting, generate its summary and open the meeting record
+  const handleEndMeeting = useCallback(async () => {
+    if (transcriptionState === 'recording') {
+      const result = await stopRecording();
+      const text = result?.text?.trim();
+      // Queue the last utterance now so it is saved before the meeting ends;
+      // marking it as seen keeps it from being sent to the assistant
+      if (result && text) {
+        lastTranscriptionRef.current = text;
+        appendTranscript(text, {
+          recordedAt: recordingStartedAt ?? new Date(),
+          segments: result.segments,
+          duration: result.duration,
+          language: result.language,
+        });
+      }
+    }
+    stopSpeaking();
+
+    const meeting = await endMeeting();
+    if (meeting) {
+      router.push(`/meetings/${meeting.id}`);
+    }
+  }, [
+    transcriptionState,
+    stopRecording,
+    recordingStartedAt,
+    appendTranscript,
+    stopSpeaking,
+    endMeeting,
+    router,
+  ]);
 
   // Handle mute toggle
   const toggleMute = useCallback(async () => {
@@ -375,6 +602,42 @@ export default function MeetingPage() {
                   : 'Piper Offline'}
               </span>
             </div>
+
+            {/* Meeting session status */}
+            <div className="flex items-center gap-2 text-sm">
+              <div
+                className={`w-2 h-2 rounded-full ${
+                  sessionState === 'active'
+                    ? pendingCount > 0
+                      ? 'bg-yellow-500 animate-pulse'
+                      : 'bg-green-500'
+                    : sessionState === 'error'
+                      ? 'bg-red-500'
+                      : 'bg-slate-500'
+                }`}
+                role="img"
+                aria-label={
+                  sessionState === 'active'
+                    ? pendingCount > 0
+                      ? 'Saving meeting transcript'
+                      : 'Meeting is being recorded'
+                    : sessionState === 'error'
+                      ? 'Meeting could not be saved'
+                      : 'No meeting in progress'
+                }
+              />
+              <span className="text-muted-foreground">
+                {sessionState === 'active'
+                  ? `Meeting #${meetingId}${pendingCount > 0 ? ' (saving...)' : ''}`
+                  : sessionState === 'starting'
+                    ? 'Starting meeting...'
+                    : sessionState === 'ending'
+                      ? 'Summarizing...'
+                      : sessionState === 'error'
+                        ? 'Meeting not saved'
+                        : 'No meeting'}
+              </span>
+            </div>
           </div>
 
           {/* Settings toggle */}
@@ -593,6 +856,52 @@ export default function MeetingPage() {
               <Volume2 className="h-6 w-6" aria-hidden="true" />
             )}
           </Button>
+
+          {/* Bookmark the moment */}
+          {meetingId !== null && sessionState === 'active' && (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => handleBookmark('button')}
+              disabled={isBookmarking}
+              className="rounded-full px-6 gap-2"
+              aria-label="Bookmark this moment"
+              aria-busy={isBookmarking}
+            >
+              {isBookmarking ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <BookmarkPlus className="h-4 w-4" aria-hidden="true" />
+              )}
+              Bookmark
+            </Button>
+          )}
+
+          {/* End meeting */}
+          {meetingId !== null && (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={handleEndMeeting}
+              disabled={sessionState === 'ending'}
+              className="rounded-full px-6 gap-2"
+              aria-label="End meeting and generate summary"
+              aria-busy={sessionState === 'ending'}
+            >
+              {sessionState === 'ending' ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Square className="h-4 w-4" aria-hidden="true" />
+              )}
+              {sessionState !== 'ending'
+                ? 'End Meeting'
+                : summaryProgress?.stage === 'map'
+                  ? `Summarizing ${summaryProgress.completed}/${summaryProgress.total}...`
+                  : summaryProgress?.stage === 'reduce'
+                    ? 'Merging summary...'
+                    : 'Ending...'}
+            </Button>
+          )}
         </nav>
       </main>
 
@@ -605,12 +914,49 @@ export default function MeetingPage() {
         className="w-96 bg-slate-900/80 border-l border-slate-800 p-4 flex flex-col"
         aria-label="Insights and conversation history"
       >
-        <h2
-          id="insights-heading"
-          className="text-lg font-semibold text-slate-200 mb-4"
-        >
-          Insights
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="insights-heading" className="text-lg font-semibold text-slate-200">
+            Insights
+          </h2>
+          {meetingId !== null && sessionState === 'active' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCatchUp}
+              disabled={isUpdatingSummary}
+              className="gap-2 text-slate-400"
+              aria-label="Catch me up on the meeting so far"
+            >
+              {isUpdatingSummary ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <ScrollText className="h-4 w-4" aria-hidden="true" />
+              )}
+              Catch me up
+            </Button>
+          )}
+        </div>
+        {agendaItems.length > 0 && (
+          <AgendaTracker
+            items={agendaItems}
+            progress={agendaProgress}
+            onGoTo={goToAgendaItem}
+            className="mb-3"
+          />
+        )}
+        {liveSummary?.summary && (
+          <InsightCard
+            id="live-summary"
+            type="summary"
+            content={liveSummary.summary}
+            {...(liveSummary.throughMs !== null && {
+              source: `transcript to ${formatOffset(liveSummary.throughMs)}`,
+            })}
+            timestamp={new Date(liveSummary.updatedAt ?? Date.now())}
+            pinned
+            className="mb-3"
+          />
+        )}
         <InsightFeed
           cards={insights}
           className="flex-1"
@@ -6,15 +6,39 @@ import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import {
   ArrowLeft,
+  Bookmark,
   Calendar,
   Clock,
   FileText,
+  Gavel,
+  History,
   Sparkles,
   Trash2,
   Edit2,
   Check,
   X,
+  ListOrdered,
+  ListTodo,
+  ListTree,
+  Mail,
+  RefreshCw,
+  Repeat,
+  Tag,
+  Users,
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ActionItemForm, ActionItemList } from '@/components/action-item-list';
+import { AgendaCoverage } from '@/components/agenda';
+import { ChapterList } from '@/components/chapter-list';
+import { DecisionForm, DecisionList } from '@/components/decision-list';
+import { FollowUpDialog } from '@/components/follow-up-dialog';
+import { HighlightList } from '@/components/highlight-list';
+import { MeetingAudioPlayer } from '@/components/meeting-audio-player';
+import { MeetingDetailsEditor, MeetingLabels } from '@/components/meeting-details-editor';
+import { MeetingExportMenu } from '@/components/meeting-export-menu';
+import { RevisionHistory } from '@/components/revision-history';
+import { SpeakerEditor } from '@/components/speaker-editor';
+import { TranscriptView } from '@/components/transcript-view';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -34,7 +58,19 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { Meeting } from '@/lib/schema';
+import { useActionItems } from '@/hooks/use-action-items';
+import { useAgenda } from '@/hooks/use-agenda';
+import { useDecisions } from '@/hooks/use-decisions';
+import { useMeetingAudio } from '@/hooks/use-meeting-audio';
+import { useMeetingChapters } from '@/hooks/use-meeting-chapters';
+import { useMeetingFacets } from '@/hooks/use-meeting-facets';
+import { useMeetingHighlights } from '@/hooks/use-meeting-highlights';
+import { useMeetingSpeakers } from '@/hooks/use-meeting-speakers';
+import { useSegmentRevisions } from '@/hooks/use-segment-revisions';
+import { useSeries } from '@/hooks/use-series';
+import { useTranscriptSegments } from '@/hooks/use-transcript-segments';
+import type { MeetingDetailsInput } from '@/lib/meeting-details';
+import type { Meeting, TranscriptSegment } from '@/lib/schema';
 
 type PageProps = {
   params: Promise<{ id: string }>;
@@ -50,6 +86,120 @@ export default function MeetingDetailPage({ params }: PageProps) {
   const [editTitle, setEditTitle] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [followUpOpen, setFollowUpOpen] = useState(false);
+  const [isRegeneratingSummary, setIsRegeneratingSummary] = useState(false);
+  // Set once the transcript is corrected after the summary was written
+  const [summaryOutdated, setSummaryOutdated] = useState(false);
+  const {
+    items: actionItems,
+    refresh: refreshActionItems,
+    createItem: createActionItem,
+    updateItem: updateActionItem,
+    deleteItem: deleteActionItem,
+  } = useActionItems({ meetingId: id });
+  const {
+    decisions,
+    refresh: refreshDecisions,
+    createDecision,
+    updateDecision,
+    deleteDecision,
+  } = useDecisions({ meetingId: id });
+  const {
+    segments,
+    total: segmentTotal,
+    hasMore: hasMoreSegments,
+    isLoading: isLoadingSegments,
+    loadMore: loadMoreSegments,
+    loadThrough: loadSegmentsThrough,
+    replaceSegment,
+  } = useTranscriptSegments(id);
+  const { speakers, names: speakerNames, renameSpeakers } = useMeetingSpeakers(id);
+  const {
+    chapters,
+    isGenerating: isGeneratingChapters,
+    regenerate: regenerateChapters,
+  } = useMeetingChapters(id);
+  const { facets, refresh: refreshFacets } = useMeetingFacets();
+  const { series } = useSeries();
+  const { items: agendaItems } = useAgenda(Number(id), { enabled: false });
+  const {
+    highlights,
+    updateNote: updateHighlightNote,
+    deleteHighlight,
+  } = useMeetingHighlights(id);
+  const {
+    revisions,
+    editorName,
+    setEditorName,
+    editSegment,
+    revert: revertRevision,
+  } = useSegmentRevisions(id);
+  const [transcriptFocus, setTranscriptFocus] = useState<{ ms: number } | null>(null);
+  const { clips: audioClips } = useMeetingAudio(id);
+  const [audioSeek, setAudioSeek] = useState<{ ms: number } | null>(null);
+  const [playingMs, setPlayingMs] = useState<number | null>(null);
+
+  // Chapters, highlights and edits can point beyond the loaded page of the transcript
+  const handleSelectMoment = async (ms: number) => {
+    await loadSegmentsThrough(ms);
+    setTranscriptFocus({ ms });
+  };
+
+  const handleRegenerateChapters = async () => {
+    const generated = await regenerateChapters();
+    if (!generated) toast.error('Failed to generate chapters');
+  };
+
+  const handleEditSegment = async (
+    segment: TranscriptSegment,
+    text: string
+  ): Promise<boolean> => {
+    const updated = await editSegment(segment.id, text);
+    if (!updated) {
+      toast.error('Failed to save correction');
+      return false;
+    }
+    replaceSegment(updated);
+    setSummaryOutdated(true);
+    return true;
+  };
+
+  const handleRevertRevision = async (revisionId: number) => {
+    const restored = await revertRevision(revisionId);
+    if (!restored) {
+      toast.error('Failed to revert edit');
+      return;
+    }
+    replaceSegment(restored);
+    setSummaryOutdated(true);
+  };
+
+  // Regenerating also refreshes the suggested action items and decisions
+  const handleRegenerateSummary = async () => {
+    try {
+      setIsRegeneratingSummary(true);
+      const response = await fetch(`/api/meetings/${id}/summary`, { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to regenerate summary');
+      setMeeting(await response.json());
+      setSummaryOutdated(false);
+      await Promise.all([refreshActionItems(), refreshDecisions()]);
+      toast.success('Summary regenerated');
+    } catch (err) {
+      console.error('Error regenerating summary:', err);
+      toast.error('Failed to regenerate summary');
+    } finally {
+      setIsRegeneratingSummary(false);
+    }
+  };
+
+  // Renaming speakers also reassigns action items owned by the old name
+  const handleRenameSpeakers = async (
+    updates: Parameters<typeof renameSpeakers>[0]
+  ): Promise<boolean> => {
+    const renamed = await renameSpeakers(updates);
+    if (renamed) await refreshActionItems();
+    return renamed;
+  };
 
   // Fetch meeting details
   useEffect(() => {
@@ -97,6 +247,26 @@ export default function MeetingDetailPage({ params }: PageProps) {
     }
   };
 
+  // Update series, project, tags and attendees
+  const handleSaveDetails = async (details: MeetingDetailsInput): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/meetings/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(details),
+      });
+      if (!response.ok) throw new Error('Failed to update meeting details');
+      const updated = await response.json();
+      setMeeting(updated);
+      refreshFacets();
+      return true;
+    } catch (err) {
+      console.error('Error updating meeting details:', err);
+      toast.error('Failed to save meeting details');
+      return false;
+    }
+  };
+
   // Delete meeting
   const handleDelete = async () => {
     try {
@@ -189,6 +359,8 @@ export default function MeetingDetailPage({ params }: PageProps) {
     );
   }
 
+  const meetingSeries = series.find((option) => option.id === meeting.seriesId);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
       <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -200,13 +372,26 @@ export default function MeetingDetailPage({ params }: PageProps) {
               Back
             </Button>
           </Link>
-          <Button
-            variant="ghost"
-            className="text-slate-400 hover:text-red-400"
-            onClick={() => setDeleteDialogOpen(true)}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {meeting.endedAt && (
+              <Button
+                variant="ghost"
+                className="gap-2 text-slate-400"
+                onClick={() => setFollowUpOpen(true)}
+              >
+                <Mail className="h-4 w-4" />
+                Generate follow-up
+              </Button>
+            )}
+            <MeetingExportMenu meetingId={id} hasSegments={segments.length > 0} />
+            <Button
+              variant="ghost"
+              className="text-slate-400 hover:text-red-400"
+              onClick={() => setDeleteDialogOpen(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Title */}
@@ -279,26 +464,275 @@ export default function MeetingDetailPage({ params }: PageProps) {
               </span>
             )}
           </div>
+          {meetingSeries && (
+            <Link
+              href={`/series/${meetingSeries.id}`}
+              className="mt-3 inline-flex items-center gap-1 text-sm text-blue-400 hover:underline"
+            >
+              <Repeat className="h-4 w-4" />
+              {meetingSeries.name}
+            </Link>
+          )}
+          <MeetingLabels meeting={meeting} className="mt-3" />
         </motion.div>
 
         {/* Summary */}
-        {meeting.summary && (
+        {(meeting.summary || (meeting.endedAt && meeting.transcript)) && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.1 }}
+          >
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Sparkles className="h-4 w-4 text-purple-400" />
+                    AI Summary
+                  </CardTitle>
+                  {meeting.endedAt && meeting.transcript && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2 text-slate-400"
+                      onClick={handleRegenerateSummary}
+                      disabled={isRegeneratingSummary}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 ${isRegeneratingSummary ? 'animate-spin' : ''}`}
+                      />
+                      {meeting.summary ? 'Regenerate' : 'Generate'}
+                    </Button>
+                  )}
+                </div>
+                {summaryOutdated && (
+                  <CardDescription>
+                    The transcript was corrected since this summary was written
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {meeting.summary && (
+                <CardContent>
+                  <p className="text-slate-300 whitespace-pre-wrap">
+                    {meeting.summary}
+                  </p>
+                </CardContent>
+              )}
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Agenda */}
+        {agendaItems.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.11 }}
           >
             <Card className="bg-slate-800/50 border-slate-700 mb-6">
               <CardHeader className="pb-2">
                 <CardTitle className="flex items-center gap-2 text-base">
-                  <Sparkles className="h-4 w-4 text-purple-400" />
-                  AI Summary
+                  <ListOrdered className="h-4 w-4 text-blue-400" />
+                  Agenda
                 </CardTitle>
+                <CardDescription>
+                  {agendaItems.filter((item) => item.startedAt).length} of {agendaItems.length}{' '}
+                  topics covered, with the time each took
+                </CardDescription>
               </CardHeader>
               <CardContent>
-                <p className="text-slate-300 whitespace-pre-wrap">
-                  {meeting.summary}
-                </p>
+                <AgendaCoverage items={agendaItems} />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Chapters */}
+        {(chapters.length > 0 || (meeting.endedAt && segments.length > 0)) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.12 }}
+          >
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <ListTree className="h-4 w-4 text-cyan-400" />
+                    Chapters
+                  </CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 text-slate-400"
+                    onClick={handleRegenerateChapters}
+                    disabled={isGeneratingChapters}
+                  >
+                    <RefreshCw
+                      className={`h-4 w-4 ${isGeneratingChapters ? 'animate-spin' : ''}`}
+                    />
+                    {chapters.length > 0 ? 'Regenerate' : 'Generate'}
+                  </Button>
+                </div>
+                <CardDescription>
+                  {chapters.length > 0
+                    ? 'Jump to a topic in the transcript'
+                    : 'Split the transcript into topics to navigate it'}
+                </CardDescription>
+              </CardHeader>
+              {chapters.length > 0 && (
+                <CardContent>
+                  <ChapterList chapters={chapters} onSelect={handleSelectMoment} />
+                </CardContent>
+              )}
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Highlights */}
+        {highlights.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.13 }}
+          >
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Bookmark className="h-4 w-4 text-yellow-400" />
+                  Highlights
+                </CardTitle>
+                <CardDescription>
+                  {highlights.length} moment{highlights.length !== 1 ? 's' : ''} bookmarked
+                  during the meeting
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HighlightList
+                  highlights={highlights}
+                  onSelect={handleSelectMoment}
+                  onUpdateNote={async (highlightId, note) => {
+                    const updated = await updateHighlightNote(highlightId, note);
+                    if (!updated) toast.error('Failed to save note');
+                  }}
+                  onDelete={async (highlightId) => {
+                    const deleted = await deleteHighlight(highlightId);
+                    if (!deleted) toast.error('Failed to delete highlight');
+                  }}
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Action Items */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+        >
+          <Card className="bg-slate-800/50 border-slate-700 mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <ListTodo className="h-4 w-4 text-orange-400" />
+                Action Items
+              </CardTitle>
+              <CardDescription>
+                {actionItems.filter((item) => !item.completed).length} open of{' '}
+                {actionItems.length}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ActionItemList
+                items={actionItems}
+                emptyMessage="No action items for this meeting yet."
+                onUpdate={updateActionItem}
+                onDelete={deleteActionItem}
+              />
+              <ActionItemForm onCreate={createActionItem} />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Decisions */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.16 }}
+        >
+          <Card className="bg-slate-800/50 border-slate-700 mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Gavel className="h-4 w-4 text-amber-400" />
+                Decisions
+              </CardTitle>
+              <CardDescription>
+                {decisions.length} decision{decisions.length !== 1 ? 's' : ''} recorded
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DecisionList
+                decisions={decisions}
+                emptyMessage="No decisions recorded for this meeting yet."
+                onUpdate={updateDecision}
+                onDelete={deleteDecision}
+              />
+              <DecisionForm onCreate={createDecision} />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Details */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.17 }}
+        >
+          <Card className="bg-slate-800/50 border-slate-700 mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Tag className="h-4 w-4 text-cyan-400" />
+                Details
+              </CardTitle>
+              <CardDescription>
+                Group the meeting by series, project and tags, and list who attended
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MeetingDetailsEditor
+                key={String(meeting.updatedAt)}
+                meeting={meeting}
+                facets={facets}
+                series={series}
+                onSave={handleSaveDetails}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Speakers */}
+        {speakers.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.18 }}
+          >
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Users className="h-4 w-4 text-green-400" />
+                  Speakers
+                </CardTitle>
+                <CardDescription>
+                  Name the speakers to use attendee names in the transcript, summary and action items
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SpeakerEditor
+                  key={speakers.map((s) => `${s.label}:${s.name ?? ''}`).join('|')}
+                  speakers={speakers}
+                  onSave={handleRenameSpeakers}
+                />
               </CardContent>
             </Card>
           </motion.div>
@@ -317,11 +751,49 @@ export default function MeetingDetailPage({ params }: PageProps) {
                 Transcript
               </CardTitle>
               <CardDescription>
-                Full meeting transcript
+                {segments.length > 0
+                  ? `${segmentTotal} segment${segmentTotal !== 1 ? 's' : ''} - click a timestamp to link to that moment${audioClips.length > 0 ? ' and play it' : ''}, or the pencil to correct a segment`
+                  : 'Full meeting transcript'}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {meeting.transcript ? (
+              {audioClips.length > 0 && (
+                <MeetingAudioPlayer
+                  clips={audioClips}
+                  seek={audioSeek}
+                  onTimeUpdate={setPlayingMs}
+                  className="mb-4"
+                />
+              )}
+              {segments.length > 0 ? (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm text-slate-400">
+                    <label htmlFor="editor-name" className="shrink-0">
+                      Editing as
+                    </label>
+                    <Input
+                      id="editor-name"
+                      value={editorName}
+                      onChange={(e) => setEditorName(e.target.value)}
+                      placeholder="Your name"
+                      maxLength={255}
+                      className="h-8 max-w-48 bg-slate-900 border-slate-700"
+                    />
+                  </div>
+                  <TranscriptView
+                    segments={segments}
+                    speakerNames={speakerNames}
+                    hasMore={hasMoreSegments}
+                    isLoading={isLoadingSegments}
+                    onLoadMore={loadMoreSegments}
+                    focus={transcriptFocus}
+                    onSeek={(ms) => setAudioSeek({ ms })}
+                    playingMs={playingMs}
+                    onEdit={handleEditSegment}
+                  />
+                </div>
+              ) : meeting.transcript ? (
+                // Meetings recorded before segments were stored only have the text
                 <div className="prose prose-invert prose-sm max-w-none">
                   <p className="text-slate-300 whitespace-pre-wrap leading-relaxed">
                     {meeting.transcript}
@@ -335,6 +807,36 @@ export default function MeetingDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
         </motion.div>
+
+        {/* Edit History */}
+        {revisions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.22 }}
+          >
+            <Card className="bg-slate-800/50 border-slate-700 mt-6">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <History className="h-4 w-4 text-slate-400" />
+                  Edit History
+                </CardTitle>
+                <CardDescription>
+                  Reverting an edit restores the segment as it was before it, undoing later edits
+                  to that segment too
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RevisionHistory
+                  revisions={revisions}
+                  speakerNames={speakerNames}
+                  onSelect={handleSelectMoment}
+                  onRevert={(revision) => handleRevertRevision(revision.id)}
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
       </div>
 
       {/* Delete Dialog */}
@@ -365,6 +867,9 @@ export default function MeetingDetailPage({ params }: PageProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Follow-up Dialog */}
+      <FollowUpDialog meetingId={id} open={followUpOpen} onOpenChange={setFollowUpOpen} />
     </div>
   );
 }
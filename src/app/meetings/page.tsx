@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
@@ -12,7 +12,15 @@ import {
   Trash2,
   Plus,
   ArrowLeft,
+  Download,
+  Repeat,
+  Upload,
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { MeetingLabels } from '@/components/meeting-details-editor';
+import { BulkExportDialog } from '@/components/meeting-export-menu';
+import { ImportRecordingDialog, MeetingImportList } from '@/components/meeting-import';
+import { StartMeetingDialog } from '@/components/start-meeting-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -31,38 +39,150 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { Meeting } from '@/lib/schema';
+import { useMeetingFacets } from '@/hooks/use-meeting-facets';
+import { useMeetingImports } from '@/hooks/use-meeting-imports';
+import type { AgendaItemInput } from '@/lib/agenda';
+import {
+  setMeetingFilterParams,
+  type MeetingFilters,
+  type MeetingListItem,
+  type MeetingSearchHit,
+  type MeetingSearchMode,
+  type MeetingSearchResponse,
+} from '@/lib/meeting-details';
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+// Search results loaded per page
+const SEARCH_PAGE_SIZE = 20;
+
+interface DateRange {
+  from: string;
+  to: string;
+}
 
 export default function MeetingsPage() {
   const router = useRouter();
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [meetings, setMeetings] = useState<(MeetingListItem | MeetingSearchHit)[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  // Number of search matches, or null when listing without a search
+  const [total, setTotal] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchMode, setSearchMode] = useState<MeetingSearchMode>('keyword');
+  // Set when hybrid search fell back to keyword results
+  const [semanticUnavailable, setSemanticUnavailable] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState<{
     open: boolean;
-    meeting: Meeting | null;
+    meeting: MeetingListItem | null;
   }>({ open: false, meeting: null });
   const [isDeleting, setIsDeleting] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [startDialogOpen, setStartDialogOpen] = useState(false);
+  const [project, setProject] = useState(ANY);
+  const [tag, setTag] = useState(ANY);
+  const [attendeeQuery, setAttendeeQuery] = useState('');
+  const [attendee, setAttendee] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const { facets } = useMeetingFacets();
 
-  // Fetch meetings
-  const fetchMeetings = useCallback(async (search?: string) => {
-    try {
-      setIsLoading(true);
-      const params = new URLSearchParams();
-      if (search) {
-        params.set('search', search);
+  const filters = useMemo<MeetingFilters>(
+    () => ({
+      project: project === ANY ? undefined : project,
+      tag: tag === ANY ? undefined : tag,
+      attendee: attendee || undefined,
+    }),
+    [project, tag, attendee]
+  );
+  const dateRange = useMemo<DateRange>(() => ({ from, to }), [from, to]);
+  const hasFilters = Boolean(
+    filters.project || filters.tag || filters.attendee || dateRange.from || dateRange.to
+  );
+
+  // Fetch meetings, ranked by relevance when searching
+  const fetchMeetings = useCallback(
+    async (
+      search?: string,
+      meetingFilters: MeetingFilters = {},
+      range?: DateRange,
+      mode: MeetingSearchMode = 'keyword'
+    ) => {
+      try {
+        setIsLoading(true);
+        const params = new URLSearchParams();
+        if (range?.from) params.set('from', range.from);
+        if (range?.to) params.set('to', range.to);
+        setMeetingFilterParams(params, meetingFilters);
+
+        if (search) {
+          params.set('q', search);
+          params.set('mode', mode);
+          params.set('limit', String(SEARCH_PAGE_SIZE));
+          const response = await fetch(`/api/meetings/search?${params.toString()}`);
+          if (!response.ok) throw new Error('Failed to search meetings');
+          const data: MeetingSearchResponse = await response.json();
+          setMeetings(data.results);
+          setTotal(data.total);
+          setSemanticUnavailable(data.mode !== mode);
+        } else {
+          const response = await fetch(`/api/meetings?${params.toString()}`);
+          if (!response.ok) throw new Error('Failed to fetch meetings');
+          const data: MeetingListItem[] = await response.json();
+          setMeetings(data);
+          setTotal(null);
+          setSemanticUnavailable(false);
+        }
+      } catch (error) {
+        console.error('Error fetching meetings:', error);
+      } finally {
+        setIsLoading(false);
       }
-      const response = await fetch(`/api/meetings?${params.toString()}`);
-      if (!response.ok) throw new Error('Failed to fetch meetings');
-      const data = await response.json();
-      setMeetings(data);
+    },
+    []
+  );
+
+  // Load the next page of search results
+  const handleLoadMore = async () => {
+    try {
+      setIsLoadingMore(true);
+      const params = new URLSearchParams({
+        q: searchQuery.trim(),
+        mode: searchMode,
+        limit: String(SEARCH_PAGE_SIZE),
+        offset: String(meetings.length),
+      });
+      if (dateRange.from) params.set('from', dateRange.from);
+      if (dateRange.to) params.set('to', dateRange.to);
+      setMeetingFilterParams(params, filters);
+      const response = await fetch(`/api/meetings/search?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to search meetings');
+      const data: MeetingSearchResponse = await response.json();
+      setMeetings((prev) => [...prev, ...data.results]);
+      setTotal(data.total);
     } catch (error) {
-      console.error('Error fetching meetings:', error);
+      console.error('Error loading more results:', error);
+      toast.error('Failed to load more results');
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, []);
+  };
+
+  // Show imported meetings once they have been transcribed
+  const { imports, importRecording, cancelImport } = useMeetingImports({
+    onCompleted: () =>
+      fetchMeetings(searchQuery.trim() || undefined, filters, dateRange, searchMode),
+  });
 
   // Initial fetch
   useEffect(() => {
@@ -72,24 +192,31 @@ export default function MeetingsPage() {
   // Search with debounce
   useEffect(() => {
     const timer = setTimeout(() => {
-      fetchMeetings(searchQuery || undefined);
+      fetchMeetings(searchQuery.trim() || undefined, filters, dateRange, searchMode);
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchQuery, fetchMeetings]);
+  }, [searchQuery, filters, dateRange, searchMode, fetchMeetings]);
+
+  // Debounce attendee filter
+  useEffect(() => {
+    const timer = setTimeout(() => setAttendee(attendeeQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [attendeeQuery]);
 
-  // Start a new meeting
-  const handleStartMeeting = async () => {
+  // Start a new meeting with its agenda
+  const handleStartMeeting = async (title: string, agenda: AgendaItemInput[]) => {
     try {
       const response = await fetch('/api/meetings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title: '' }),
+        body: JSON.stringify({ title, agenda }),
       });
       if (!response.ok) throw new Error('Failed to start meeting');
       const meeting = await response.json();
       router.push(`/meeting?id=${meeting.id}`);
     } catch (error) {
       console.error('Error starting meeting:', error);
+      toast.error('Failed to start meeting');
     }
   };
 
@@ -108,6 +235,7 @@ export default function MeetingsPage() {
       setMeetings((prev) =>
         prev.filter((m) => m.id !== deleteDialog.meeting?.id)
       );
+      setTotal((prev) => (prev !== null ? prev - 1 : prev));
       setDeleteDialog({ open: false, meeting: null });
     } catch (error) {
       console.error('Error deleting meeting:', error);
@@ -173,23 +301,137 @@ export default function MeetingsPage() {
               </p>
             </div>
           </div>
-          <Button onClick={handleStartMeeting} className="gap-2">
-            <Plus className="h-4 w-4" />
-            New Meeting
-          </Button>
+          <div className="flex items-center gap-2">
+            <Link href="/series">
+              <Button variant="outline" className="gap-2">
+                <Repeat className="h-4 w-4" />
+                Series
+              </Button>
+            </Link>
+            <Button
+              variant="outline"
+              onClick={() => setExportDialogOpen(true)}
+              className="gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setImportDialogOpen(true)}
+              className="gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={() => setStartDialogOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Meeting
+            </Button>
+          </div>
         </div>
 
         {/* Search */}
-        <div className="relative mb-6">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+        <div className="flex gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder='Search meetings by topic, transcript, or summary (use "quotes" for phrases)...'
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 bg-slate-800 border-slate-700"
+            />
+          </div>
+          <Select
+            value={searchMode}
+            onValueChange={(value) => setSearchMode(value as MeetingSearchMode)}
+          >
+            <SelectTrigger
+              className="w-44 bg-slate-800 border-slate-700"
+              aria-label="Search mode"
+              title="Hybrid search also finds meetings that say the same thing in other words"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="keyword">Keyword</SelectItem>
+              <SelectItem value="hybrid">Keyword + meaning</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col gap-3 mb-6 sm:flex-row">
+          <Select value={project} onValueChange={setProject}>
+            <SelectTrigger className="sm:w-48 bg-slate-800 border-slate-700" aria-label="Project">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All projects</SelectItem>
+              {facets.projects.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={tag} onValueChange={setTag}>
+            <SelectTrigger className="sm:w-40 bg-slate-800 border-slate-700" aria-label="Tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All tags</SelectItem>
+              {facets.tags.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Filter by attendee..."
+            value={attendeeQuery}
+            onChange={(e) => setAttendeeQuery(e.target.value)}
+            list="meeting-attendee-options"
+            className="flex-1 bg-slate-800 border-slate-700"
+            aria-label="Attendee"
+          />
+          <datalist id="meeting-attendee-options">
+            {facets.attendees.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="sm:w-40 bg-slate-800 border-slate-700"
+            aria-label="From date"
+          />
           <Input
-            placeholder="Search meetings by topic, transcript, or summary..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 bg-slate-800 border-slate-700"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="sm:w-40 bg-slate-800 border-slate-700"
+            aria-label="To date"
           />
         </div>
 
+        {total !== null && !isLoading && (
+          <p className="mb-4 text-sm text-slate-400">
+            {total} meeting{total !== 1 ? 's' : ''} match{total === 1 ? 'es' : ''} your search
+            {semanticUnavailable &&
+              ' - semantic search is unavailable, so only keyword matches are shown'}
+          </p>
+        )}
+
+        {/* Imports */}
+        {imports.length > 0 && (
+          <div className="mb-6">
+            <MeetingImportList imports={imports} onCancel={cancelImport} />
+          </div>
+        )}
+
         {/* Meetings List */}
         <div className="space-y-4">
           {isLoading ? (
@@ -210,13 +452,13 @@ export default function MeetingsPage() {
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <Calendar className="h-12 w-12 text-slate-500 mb-4" />
                 <p className="text-slate-400 text-center">
-                  {searchQuery
+                  {searchQuery || hasFilters
                     ? 'No meetings found matching your search'
                     : 'No meetings yet. Start your first meeting!'}
                 </p>
-                {!searchQuery && (
+                {!searchQuery && !hasFilters && (
                   <Button
-                    onClick={handleStartMeeting}
+                    onClick={() => setStartDialogOpen(true)}
                     className="mt-4 gap-2"
                     variant="outline"
                   >
@@ -250,6 +492,15 @@ export default function MeetingsPage() {
                               In Progress
                             </Badge>
                           )}
+                          {'matchedBy' in meeting && !meeting.matchedBy.includes('keyword') && (
+                            <Badge
+                              variant="outline"
+                              className="border-purple-500 text-purple-300"
+                              title="Found by meaning rather than matching words"
+                            >
+                              Similar meaning
+                            </Badge>
+                          )}
                         </div>
                         <CardDescription className="flex items-center gap-4 text-slate-400">
                           <span className="flex items-center gap-1">
@@ -267,6 +518,7 @@ export default function MeetingsPage() {
                             </span>
                           )}
                         </CardDescription>
+                        <MeetingLabels meeting={meeting} className="mt-2" />
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -288,18 +540,36 @@ export default function MeetingsPage() {
                       </div>
                     </div>
                   </CardHeader>
-                  {meeting.summary && (
+                  {'headline' in meeting ? (
                     <CardContent>
-                      <p className="text-sm text-slate-300 line-clamp-3">
-                        {meeting.summary}
-                      </p>
+                      {/* The server escapes the snippet except for its <mark> tags */}
+                      <p
+                        className="text-sm text-slate-300 line-clamp-3 [&_mark]:rounded-sm [&_mark]:bg-yellow-400/30 [&_mark]:text-slate-100"
+                        dangerouslySetInnerHTML={{ __html: meeting.headline }}
+                      />
                     </CardContent>
+                  ) : (
+                    meeting.summary && (
+                      <CardContent>
+                        <p className="text-sm text-slate-300 line-clamp-3">
+                          {meeting.summary}
+                        </p>
+                      </CardContent>
+                    )
                   )}
                 </Card>
               </motion.div>
             ))
           )}
         </div>
+
+        {total !== null && !isLoading && meetings.length < total && (
+          <div className="mt-6 flex justify-center">
+            <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? 'Loading...' : 'Load more results'}
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -336,6 +606,22 @@ export default function MeetingsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <BulkExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        filters={filters}
+      />
+      <ImportRecordingDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImport={importRecording}
+      />
+      <StartMeetingDialog
+        open={startDialogOpen}
+        onOpenChange={setStartDialogOpen}
+        onStart={handleStartMeeting}
+      />
     </div>
   );
 }
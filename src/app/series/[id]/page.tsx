@@ -0,0 +1,303 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  Calendar,
+  Check,
+  Edit2,
+  ListTodo,
+  Play,
+  Repeat,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useSeriesTimeline } from '@/hooks/use-series-timeline';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default function SeriesDetailPage({ params }: PageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { timeline, isLoading, error, updateSeries, deleteSeries } = useSeriesTimeline(id);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Start the next meeting in the series
+  const handleStartMeeting = async () => {
+    try {
+      setIsStarting(true);
+      const response = await fetch('/api/meetings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seriesId: Number(id) }),
+      });
+      if (!response.ok) throw new Error('Failed to start meeting');
+      const meeting = await response.json();
+      router.push(`/meeting?id=${meeting.id}`);
+    } catch (err) {
+      console.error('Error starting meeting:', err);
+      toast.error('Failed to start meeting');
+      setIsStarting(false);
+    }
+  };
+
+  const handleSaveName = async () => {
+    if (!editName.trim()) return;
+    const updated = await updateSeries({ name: editName.trim() });
+    if (updated) {
+      setIsEditing(false);
+    } else {
+      toast.error('Failed to rename series');
+    }
+  };
+
+  // Deleting a series keeps its meetings
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const deleted = await deleteSeries();
+    if (deleted) {
+      router.push('/series');
+    } else {
+      toast.error('Failed to delete series');
+      setIsDeleting(false);
+    }
+  };
+
+  // Format date for display
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return 'Unknown';
+    return new Date(date).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  if (isLoading && !timeline) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <Skeleton className="h-8 w-48 mb-4" />
+          <Skeleton className="h-6 w-32 mb-8" />
+          <Skeleton className="h-40 w-full mb-4" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !timeline) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <Link href="/series">
+            <Button variant="ghost" className="gap-2 mb-8">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Series
+            </Button>
+          </Link>
+          <Card className="bg-slate-800/50 border-slate-700">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-slate-400">{error || 'Series not found'}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { series, meetings } = timeline;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Link href="/series">
+            <Button variant="ghost" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              className="text-slate-400 hover:text-red-400"
+              onClick={() => setDeleteDialogOpen(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button onClick={handleStartMeeting} disabled={isStarting} className="gap-2">
+              <Play className="h-4 w-4" />
+              {isStarting ? 'Starting...' : 'Start Next Meeting'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Title */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <Repeat className="h-6 w-6 text-blue-400" />
+            {isEditing ? (
+              <div className="flex items-center gap-2 flex-1">
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="text-2xl font-bold bg-slate-800 border-slate-700"
+                  placeholder="Series name..."
+                  autoFocus
+                />
+                <Button size="icon" onClick={handleSaveName}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setIsEditing(false)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <h1 className="text-2xl font-bold text-slate-100">{series.name}</h1>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-slate-400"
+                  onClick={() => {
+                    setEditName(series.name);
+                    setIsEditing(true);
+                  }}
+                >
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+          {series.description && <p className="text-sm text-slate-400">{series.description}</p>}
+        </motion.div>
+
+        {/* Timeline */}
+        <div className="space-y-4">
+          {meetings.length === 0 ? (
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <Calendar className="h-12 w-12 text-slate-500 mb-4" />
+                <p className="text-slate-400 text-center">
+                  No meetings in this series yet. Start the first one above.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            meetings.map((meeting, index) => (
+              <motion.div
+                key={meeting.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Card className="bg-slate-800/50 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="space-y-1">
+                        <CardTitle className="text-lg">
+                          <Link
+                            href={`/meetings/${meeting.id}`}
+                            className="text-slate-100 hover:underline"
+                          >
+                            {meeting.title || 'Untitled Meeting'}
+                          </Link>
+                        </CardTitle>
+                        <CardDescription className="flex items-center gap-1">
+                          <Calendar className="h-3.5 w-3.5" />
+                          {formatDate(meeting.startedAt)}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {!meeting.endedAt && (
+                          <Badge variant="outline" className="border-green-500 text-green-400">
+                            In Progress
+                          </Badge>
+                        )}
+                        {meeting.openActionItems > 0 && (
+                          <Badge variant="secondary" className="gap-1">
+                            <ListTodo className="h-3 w-3" aria-hidden="true" />
+                            {meeting.openActionItems} open
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {meeting.summary ? (
+                      <p className="text-sm text-slate-300 whitespace-pre-wrap line-clamp-6">
+                        {meeting.summary}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-slate-500">No summary yet.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))
+          )}
+        </div>
+
+        {/* Delete Confirmation Dialog */}
+        <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+          <DialogContent className="bg-slate-800 border-slate-700">
+            <DialogHeader>
+              <DialogTitle>Delete Series</DialogTitle>
+              <DialogDescription>
+                Delete &quot;{series.name}&quot;? Its meetings are kept but no longer grouped.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setDeleteDialogOpen(false)}
+                disabled={isDeleting}
+              >
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+                {isDeleting ? 'Deleting...' : 'Delete'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ChevronRight, Plus, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useSeries } from '@/hooks/use-series';
+
+export default function SeriesPage() {
+  const { series, isLoading, error, createSeries } = useSeries();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const created = await createSeries({
+        name: name.trim(),
+        description: description.trim() || null,
+      });
+      if (created) {
+        setName('');
+        setDescription('');
+      } else {
+        toast.error('Failed to create series');
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Format date for display
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return 'No meetings yet';
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/meetings">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-slate-100">Meeting Series</h1>
+            <p className="text-sm text-slate-400">
+              Recurring meetings that pick up where the last one left off
+            </p>
+          </div>
+        </div>
+
+        {/* Create */}
+        <Card className="bg-slate-800/50 border-slate-700 mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Plus className="h-4 w-4 text-blue-400" />
+              New Series
+            </CardTitle>
+            <CardDescription>
+              Meetings in a series see the previous summary and open action items
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label htmlFor="series-name">Name</Label>
+                  <Input
+                    id="series-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Weekly sync"
+                    className="bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="series-description">Description</Label>
+                  <Input
+                    id="series-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Optional"
+                    className="bg-slate-800 border-slate-700"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" disabled={!name.trim() || isCreating}>
+                  {isCreating ? 'Creating...' : 'Create Series'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Series List */}
+        <div className="space-y-4">
+          {isLoading && series.length === 0 ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))
+          ) : error ? (
+            <p className="text-red-400 text-sm">{error}</p>
+          ) : series.length === 0 ? (
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <Repeat className="h-12 w-12 text-slate-500 mb-4" />
+                <p className="text-slate-400 text-center">No series yet.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            series.map((item, index) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Link href={`/series/${item.id}`}>
+                  <Card className="bg-slate-800/50 border-slate-700 hover:bg-slate-800 transition-colors">
+                    <CardHeader className="flex flex-row items-center justify-between">
+                      <div className="space-y-1">
+                        <CardTitle className="text-lg text-slate-100">{item.name}</CardTitle>
+                        <CardDescription>
+                          {item.meetingCount} meeting{item.meetingCount !== 1 ? 's' : ''} ·{' '}
+                          {item.lastMeetingAt
+                            ? `Last met ${formatDate(item.lastMeetingAt)}`
+                            : formatDate(null)}
+                        </CardDescription>
+                        {item.description && (
+                          <p className="text-sm text-slate-400">{item.description}</p>
+                        )}
+                      </div>
+                      <ChevronRight className="h-5 w-5 text-slate-500" />
+                    </CardHeader>
+                  </Card>
+                </Link>
+              </motion.div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { memo, useState } from 'react';
+import Link from 'next/link';
+import { Check, CheckSquare, Plus, Sparkles, Square, Trash2, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  isOverdue,
+  isPendingSuggestion,
+  type ActionItemWithMeeting,
+  type CreateActionItemInput,
+  type UpdateActionItemInput,
+} from '@/lib/action-items';
+import { cn } from '@/lib/utils';
+
+/**
+ * Format a due date as the YYYY-MM-DD value used by date inputs
+ */
+function toDateInputValue(date: Date | string | null): string {
+  if (!date) return '';
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+interface ActionItemRowProps {
+  item: ActionItemWithMeeting;
+  showMeeting: boolean;
+  onUpdate: (id: number, input: UpdateActionItemInput) => void;
+  onDelete: (id: number) => void;
+}
+
+function ActionItemRowComponent({
+  item,
+  showMeeting,
+  onUpdate,
+  onDelete,
+}: ActionItemRowProps) {
+  const [assignee, setAssignee] = useState(item.assignee ?? '');
+  const overdue = isOverdue(item);
+  const suggested = isPendingSuggestion(item);
+
+  // Save the assignee only when it actually changed
+  const commitAssignee = () => {
+    const trimmed = assignee.trim();
+    if (trimmed !== (item.assignee ?? '')) {
+      onUpdate(item.id, { assignee: trimmed || null });
+    }
+  };
+
+  return (
+    <li className="flex flex-col gap-2 p-3 rounded-lg bg-slate-800/50 border border-slate-700 sm:flex-row sm:items-center">
+      <div className="flex items-start gap-3 flex-1 min-w-0">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="shrink-0 h-8 w-8"
+          onClick={() => onUpdate(item.id, { completed: !item.completed })}
+          aria-label={item.completed ? 'Mark as open' : 'Mark as done'}
+          aria-pressed={item.completed}
+        >
+          {item.completed ? (
+            <CheckSquare className="h-4 w-4 text-green-400" aria-hidden="true" />
+          ) : (
+            <Square className="h-4 w-4 text-slate-400" aria-hidden="true" />
+          )}
+        </Button>
+        <div className="min-w-0 pt-1">
+          <p
+            className={cn(
+              'text-sm text-slate-200',
+              item.completed && 'line-through text-slate-500'
+            )}
+          >
+            {item.task}
+          </p>
+          {item.transcriptQuote && (
+            <p className="text-xs text-slate-500 italic line-clamp-2">
+              &ldquo;{item.transcriptQuote}&rdquo;
+            </p>
+          )}
+          {showMeeting && item.meetingId !== null && (
+            <Link
+              href={`/meetings/${item.meetingId}`}
+              className="text-xs text-slate-500 hover:text-slate-300"
+            >
+              {item.meetingTitle || 'Untitled Meeting'}
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 sm:shrink-0">
+        <div className="relative">
+          <User className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-slate-500" />
+          <Input
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            onBlur={commitAssignee}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="Unassigned"
+            className="h-8 w-36 pl-7 text-xs bg-slate-800 border-slate-700"
+            aria-label="Assignee"
+          />
+        </div>
+        <Input
+          type="date"
+          value={toDateInputValue(item.dueDate)}
+          onChange={(e) => onUpdate(item.id, { dueDate: e.target.value || null })}
+          className="h-8 w-36 text-xs bg-slate-800 border-slate-700"
+          aria-label="Due date"
+        />
+        {suggested && (
+          <>
+            <Badge
+              variant="outline"
+              className="gap-1 border-purple-500 text-purple-400"
+              title="Extracted by the assistant - confirm to keep it"
+            >
+              <Sparkles className="h-3 w-3" aria-hidden="true" />
+              AI-suggested
+            </Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-slate-400 hover:text-green-400"
+              onClick={() => onUpdate(item.id, { confirmed: true })}
+              aria-label="Confirm action item"
+            >
+              <Check className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </>
+        )}
+        {overdue && (
+          <Badge variant="outline" className="border-red-500 text-red-400">
+            Overdue
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-slate-400 hover:text-red-400"
+          onClick={() => onDelete(item.id)}
+          aria-label="Delete action item"
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+const ActionItemRow = memo(ActionItemRowComponent);
+
+interface ActionItemListProps {
+  items: ActionItemWithMeeting[];
+  /** Show a link to the meeting each item came from */
+  showMeeting?: boolean;
+  emptyMessage?: string;
+  className?: string;
+  onUpdate: (id: number, input: UpdateActionItemInput) => void;
+  onDelete: (id: number) => void;
+}
+
+/**
+ * Editable list of action items. Items can be checked off, reassigned,
+ * given a due date or deleted inline.
+ */
+function ActionItemListComponent({
+  items,
+  showMeeting = false,
+  emptyMessage = 'No action items yet.',
+  className,
+  onUpdate,
+  onDelete,
+}: ActionItemListProps) {
+  if (items.length === 0) {
+    return <p className="text-slate-500 italic text-sm">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className={cn('space-y-2', className)} aria-label="Action items">
+      {items.map((item) => (
+        // Key on updatedAt so the inline assignee field resets after saves
+        <ActionItemRow
+          key={`${item.id}-${String(item.updatedAt)}`}
+          item={item}
+          showMeeting={showMeeting}
+          onUpdate={onUpdate}
+          onDelete={onDelete}
+        />
+      ))}
+    </ul>
+  );
+}
+
+export const ActionItemList = memo(ActionItemListComponent);
+
+interface ActionItemFormProps {
+  onCreate: (input: CreateActionItemInput) => Promise<unknown>;
+}
+
+/**
+ * Inline form for adding a new action item
+ */
+export function ActionItemForm({ onCreate }: ActionItemFormProps) {
+  const [task, setTask] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onCreate({
+        task: task.trim(),
+        assignee: assignee.trim() || null,
+        dueDate: dueDate || null,
+      });
+      setTask('');
+      setAssignee('');
+      setDueDate('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row">
+      <Input
+        value={task}
+        onChange={(e) => setTask(e.target.value)}
+        placeholder="New action item..."
+        className="flex-1 bg-slate-800 border-slate-700"
+        aria-label="Task"
+      />
+      <Input
+        value={assignee}
+        onChange={(e) => setAssignee(e.target.value)}
+        placeholder="Assignee"
+        className="sm:w-36 bg-slate-800 border-slate-700"
+        aria-label="Assignee"
+      />
+      <Input
+        type="date"
+        value={dueDate}
+        onChange={(e) => setDueDate(e.target.value)}
+        className="sm:w-40 bg-slate-800 border-slate-700"
+        aria-label="Due date"
+      />
+      <Button type="submit" disabled={!task.trim() || isSaving} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Add
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { Check, ChevronRight, Clock, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getTopicElapsedMs, type AgendaProgress } from '@/lib/agenda';
+import type { AgendaItem } from '@/lib/schema';
+import { formatOffset } from '@/lib/transcript-segments';
+import { cn } from '@/lib/utils';
+
+/** An agenda topic being written, before it is saved */
+export interface AgendaDraftItem {
+  topic: string;
+  minutes: string;
+}
+
+interface AgendaEditorProps {
+  items: AgendaDraftItem[];
+  onChange: (items: AgendaDraftItem[]) => void;
+}
+
+/**
+ * Rows of topics with time boxes, in the order they will be discussed
+ */
+export function AgendaEditor({ items, onChange }: AgendaEditorProps) {
+  const update = (index: number, patch: Partial<AgendaDraftItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-5 text-right text-xs text-slate-500">{index + 1}.</span>
+          <Input
+            value={item.topic}
+            onChange={(e) => update(index, { topic: e.target.value })}
+            placeholder="Topic"
+            aria-label={`Topic ${index + 1}`}
+            className="flex-1 bg-slate-900 border-slate-700"
+          />
+          <Input
+            type="number"
+            min={1}
+            max={480}
+            value={item.minutes}
+            onChange={(e) => update(index, { minutes: e.target.value })}
+            aria-label={`Minutes for topic ${index + 1}`}
+            className="w-20 bg-slate-900 border-slate-700"
+          />
+          <span className="text-xs text-slate-500">min</span>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="text-slate-400 hover:text-red-400"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            aria-label={`Remove topic ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => onChange([...items, { topic: '', minutes: '10' }])}
+      >
+        <Plus className="h-4 w-4" />
+        Add Topic
+      </Button>
+    </div>
+  );
+}
+
+interface AgendaTrackerProps {
+  items: AgendaItem[];
+  progress: AgendaProgress;
+  /** Move on to a topic by hand */
+  onGoTo: (itemId: number) => void;
+  className?: string;
+}
+
+/**
+ * Live agenda for a running meeting: the current topic with its time
+ * remaining, and the topics done and still to come
+ */
+export function AgendaTracker({ items, progress, onGoTo, className }: AgendaTrackerProps) {
+  const { current, index, remainingMs, overrun } = progress;
+  const next = items.slice(index + 1).find((item) => !item.startedAt);
+
+  return (
+    <div
+      className={cn('rounded-lg border border-slate-700 bg-slate-800/50 p-3', className)}
+      role="region"
+      aria-label="Agenda"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wide text-slate-500">
+            {current ? `Topic ${index + 1} of ${items.length}` : 'Agenda'}
+          </p>
+          <p className="truncate font-medium text-slate-200">
+            {current?.topic ?? 'Not started'}
+          </p>
+        </div>
+        {current && (
+          <span
+            className={cn(
+              'flex shrink-0 items-center gap-1 font-mono text-sm',
+              overrun ? 'text-red-400' : remainingMs < 60000 ? 'text-yellow-400' : 'text-slate-300'
+            )}
+            role="timer"
+            aria-label={overrun ? 'Time over' : 'Time remaining'}
+          >
+            <Clock className="h-3.5 w-3.5" aria-hidden="true" />
+            {overrun ? `+${formatOffset(-remainingMs)}` : formatOffset(remainingMs)}
+          </span>
+        )}
+      </div>
+
+      <ol className="mt-2 space-y-0.5">
+        {items.map((item, i) => (
+          <li
+            key={item.id}
+            className={cn(
+              'flex items-center gap-2 text-xs',
+              item.endedAt ? 'text-slate-500 line-through' : 'text-slate-400',
+              i === index && 'text-slate-200'
+            )}
+          >
+            {item.endedAt ? (
+              <Check className="h-3 w-3 shrink-0" aria-hidden="true" />
+            ) : (
+              <span className="w-3 shrink-0 text-center">{i + 1}</span>
+            )}
+            <span className="flex-1 truncate">{item.topic}</span>
+            <span className="shrink-0">{item.durationMinutes}m</span>
+          </li>
+        ))}
+      </ol>
+
+      {next && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 w-full justify-between text-slate-400"
+          onClick={() => onGoTo(next.id)}
+        >
+          Next: {next.topic}
+          <ChevronRight className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface AgendaCoverageProps {
+  items: AgendaItem[];
+}
+
+/**
+ * How long each agenda topic took against its time box
+ */
+export function AgendaCoverage({ items }: AgendaCoverageProps) {
+  return (
+    <ol aria-label="Agenda" className="space-y-1">
+      {items.map((item) => {
+        const spentMs = getTopicElapsedMs(item);
+        const over = spentMs > item.durationMinutes * 60 * 1000;
+
+        return (
+          <li key={item.id} className="flex items-center gap-3 px-2 py-1 text-sm">
+            <span className="min-w-0 flex-1 text-slate-200">{item.topic}</span>
+            <span className="shrink-0 text-xs text-slate-500">
+              {item.durationMinutes} min planned
+            </span>
+            <span
+              className={cn(
+                'shrink-0 w-24 text-right text-xs',
+                !item.startedAt ? 'text-slate-500' : over ? 'text-red-400' : 'text-green-400'
+              )}
+            >
+              {item.startedAt ? formatOffset(spentMs) : 'Not covered'}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
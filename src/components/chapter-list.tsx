@@ -0,0 +1,43 @@
+'use client';
+
+import type { MeetingChapter } from '@/lib/schema';
+import { formatOffset } from '@/lib/transcript-segments';
+
+interface ChapterListProps {
+  chapters: MeetingChapter[];
+  /** Called with the chapter's offset from the meeting start */
+  onSelect: (ms: number) => void;
+}
+
+/**
+ * Table of contents for a meeting transcript. Selecting a chapter jumps to
+ * where it starts in the transcript.
+ */
+export function ChapterList({ chapters, onSelect }: ChapterListProps) {
+  return (
+    <ol aria-label="Chapters" className="space-y-1">
+      {chapters.map((chapter) => (
+        <li key={chapter.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(chapter.startMs)}
+            className="flex w-full gap-3 rounded-md px-2 py-1.5 text-left transition-colors hover:bg-slate-700/50"
+          >
+            <span className="shrink-0 w-14 pt-0.5 font-mono text-xs text-blue-400">
+              {formatOffset(chapter.startMs)}
+            </span>
+            <span className="min-w-0 flex-1">
+              <span className="block text-sm font-medium text-slate-200">{chapter.title}</span>
+              {chapter.gist && (
+                <span className="block text-xs text-slate-400">{chapter.gist}</span>
+              )}
+            </span>
+            <span className="shrink-0 pt-0.5 text-xs text-slate-500">
+              {formatOffset(chapter.endMs - chapter.startMs)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { memo, useState } from 'react';
+import Link from 'next/link';
+import { Check, Pencil, Plus, Sparkles, Trash2, Users, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { isPendingSuggestion } from '@/lib/action-items';
+import type {
+  CreateDecisionInput,
+  DecisionWithMeeting,
+  UpdateDecisionInput,
+} from '@/lib/decisions';
+import { cn } from '@/lib/utils';
+
+/**
+ * Format a meeting date for the decision log
+ */
+function formatMeetingDate(date: Date | string | null): string {
+  if (!date) return '';
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+interface DecisionRowProps {
+  decision: DecisionWithMeeting;
+  showMeeting: boolean;
+  onUpdate: (id: number, input: UpdateDecisionInput) => Promise<unknown>;
+  onDelete: (id: number) => void;
+}
+
+function DecisionRowComponent({ decision, showMeeting, onUpdate, onDelete }: DecisionRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(decision.decision);
+  const [rationale, setRationale] = useState(decision.rationale ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const suggested = isPendingSuggestion(decision);
+
+  const handleSave = async () => {
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onUpdate(decision.id, {
+        decision: text.trim(),
+        rationale: rationale.trim() || null,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setText(decision.decision);
+    setRationale(decision.rationale ?? '');
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="space-y-2 p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="bg-slate-800 border-slate-700"
+          aria-label="Decision"
+          autoFocus
+        />
+        <Textarea
+          value={rationale}
+          onChange={(e) => setRationale(e.target.value)}
+          placeholder="Why was this decided? (optional)"
+          className="bg-slate-800 border-slate-700 text-sm"
+          aria-label="Rationale"
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={handleCancel} disabled={isSaving}>
+            <X className="h-4 w-4" />
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!text.trim() || isSaving}>
+            <Check className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex flex-col gap-2 p-3 rounded-lg bg-slate-800/50 border border-slate-700 sm:flex-row sm:items-start">
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <p className="text-sm text-slate-200">{decision.decision}</p>
+        {decision.rationale && <p className="text-xs text-slate-400">{decision.rationale}</p>}
+        {decision.transcriptQuote && (
+          <p className="text-xs text-slate-500 italic line-clamp-2">
+            &ldquo;{decision.transcriptQuote}&rdquo;
+          </p>
+        )}
+        {showMeeting && (
+          <div className="flex flex-wrap items-center gap-x-3 text-xs text-slate-500">
+            <Link href={`/meetings/${decision.meetingId}`} className="hover:text-slate-300">
+              {decision.meetingTitle || 'Untitled Meeting'}
+              {decision.meetingStartedAt && `, ${formatMeetingDate(decision.meetingStartedAt)}`}
+            </Link>
+            {decision.participants.length > 0 && (
+              <span className="flex items-center gap-1" title="Who was there">
+                <Users className="h-3 w-3" aria-hidden="true" />
+                {decision.participants.join(', ')}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 sm:shrink-0">
+        {suggested && (
+          <>
+            <Badge
+              variant="outline"
+              className="gap-1 border-purple-500 text-purple-400"
+              title="Extracted by the assistant - confirm to keep it"
+            >
+              <Sparkles className="h-3 w-3" aria-hidden="true" />
+              AI-suggested
+            </Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-slate-400 hover:text-green-400"
+              onClick={() => onUpdate(decision.id, { confirmed: true })}
+              aria-label="Confirm decision"
+            >
+              <Check className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-slate-400"
+          onClick={() => setIsEditing(true)}
+          aria-label="Edit decision"
+        >
+          <Pencil className="h-4 w-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-slate-400 hover:text-red-400"
+          onClick={() => onDelete(decision.id)}
+          aria-label="Delete decision"
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+const DecisionRow = memo(DecisionRowComponent);
+
+interface DecisionListProps {
+  decisions: DecisionWithMeeting[];
+  /** Show the meeting each decision was made in and who was there */
+  showMeeting?: boolean;
+  emptyMessage?: string;
+  className?: string;
+  onUpdate: (id: number, input: UpdateDecisionInput) => Promise<unknown>;
+  onDelete: (id: number) => void;
+}
+
+/**
+ * Editable list of decisions. Decisions can be reworded, given a
+ * rationale, confirmed or deleted inline.
+ */
+function DecisionListComponent({
+  decisions,
+  showMeeting = false,
+  emptyMessage = 'No decisions recorded yet.',
+  className,
+  onUpdate,
+  onDelete,
+}: DecisionListProps) {
+  if (decisions.length === 0) {
+    return <p className="text-slate-500 italic text-sm">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className={cn('space-y-2', className)} aria-label="Decisions">
+      {decisions.map((decision) => (
+        // Key on updatedAt so the row leaves edit mode after saves
+        <DecisionRow
+          key={`${decision.id}-${String(decision.updatedAt)}`}
+          decision={decision}
+          showMeeting={showMeeting}
+          onUpdate={onUpdate}
+          onDelete={onDelete}
+        />
+      ))}
+    </ul>
+  );
+}
+
+export const DecisionList = memo(DecisionListComponent);
+
+interface DecisionFormProps {
+  onCreate: (input: CreateDecisionInput) => Promise<unknown>;
+}
+
+/**
+ * Inline form for recording a decision
+ */
+export function DecisionForm({ onCreate }: DecisionFormProps) {
+  const [decision, setDecision] = useState('');
+  const [rationale, setRationale] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!decision.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onCreate({
+        decision: decision.trim(),
+        rationale: rationale.trim() || null,
+      });
+      setDecision('');
+      setRationale('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row">
+      <Input
+        value={decision}
+        onChange={(e) => setDecision(e.target.value)}
+        placeholder="New decision..."
+        className="flex-1 bg-slate-800 border-slate-700"
+        aria-label="Decision"
+      />
+      <Input
+        value={rationale}
+        onChange={(e) => setRationale(e.target.value)}
+        placeholder="Rationale (optional)"
+        className="sm:w-56 bg-slate-800 border-slate-700"
+        aria-label="Rationale"
+      />
+      <Button type="submit" disabled={!decision.trim() || isSaving} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Add
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DocumentPreview {
+  text: string;
+  truncated: boolean;
+}
+
+interface DocumentPreviewDialogProps {
+  /** Document to preview; the dialog is open while set */
+  document: { id: number; name: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Dialog showing the text extracted from an uploaded document's original file
+ */
+export function DocumentPreviewDialog({ document, onClose }: DocumentPreviewDialogProps) {
+  const [preview, setPreview] = useState<DocumentPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const documentId = document?.id ?? null;
+
+  // Load the preview whenever a different document is opened
+  useEffect(() => {
+    if (documentId === null) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setPreview(null);
+      setError(null);
+      try {
+        const response = await fetch(`/api/documents/${documentId}/preview`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load preview');
+        if (!cancelled) setPreview(data);
+      } catch (err) {
+        console.error('Error loading document preview:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load preview');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  return (
+    <Dialog open={document !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{document?.name}</DialogTitle>
+          <DialogDescription>
+            {preview?.truncated
+              ? 'Showing the beginning of the text. Download the file to read all of it.'
+              : 'Text extracted from the uploaded file.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : preview ? (
+          <pre className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap rounded-md bg-slate-900 p-4 text-sm text-slate-300">
+            {preview.text || 'This document has no text.'}
+          </pre>
+        ) : (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-500" />
+          </div>
+        )}
+
+        <DialogFooter>
+          {document && (
+            <a href={`/api/documents/${document.id}/download`} download>
+              <Button variant="outline" className="gap-2">
+                <Download className="h-4 w-4" />
+                Download
+              </Button>
+            </a>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Download, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  buildEml,
+  FOLLOW_UP_LENGTHS,
+  FOLLOW_UP_TONES,
+  type FollowUpDraft,
+  type FollowUpLength,
+  type FollowUpTone,
+} from '@/lib/follow-up';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+interface FollowUpDialogProps {
+  meetingId: number | string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for generating, editing and downloading the recap email of a meeting
+ */
+export function FollowUpDialog({ meetingId, open, onOpenChange }: FollowUpDialogProps) {
+  const [tone, setTone] = useState<FollowUpTone>('neutral');
+  const [length, setLength] = useState<FollowUpLength>('standard');
+  const [draft, setDraft] = useState<FollowUpDraft | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/follow-up`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tone, length }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to generate follow-up');
+      }
+      setDraft(await response.json());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate follow-up');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!draft) return;
+    try {
+      await navigator.clipboard.writeText(draft.body);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  // Save as an unsent message the mail client opens as a draft
+  const handleDownload = () => {
+    if (!draft) return;
+    const url = URL.createObjectURL(new Blob([buildEml(draft)], { type: 'message/rfc822' }));
+    const name = draft.subject.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name || 'follow-up'}.eml`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isGenerating && onOpenChange(next)}>
+      <DialogContent className="bg-slate-800 border-slate-700 sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Follow-up Email</DialogTitle>
+          <DialogDescription>
+            A recap with the summary, decisions, open action items and open questions. Edit it
+            before sending.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="space-y-1.5 sm:w-40">
+            <Label htmlFor="follow-up-tone">Tone</Label>
+            <Select value={tone} onValueChange={(value) => setTone(value as FollowUpTone)}>
+              <SelectTrigger id="follow-up-tone" className="bg-slate-900 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FOLLOW_UP_TONES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {capitalize(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:w-40">
+            <Label htmlFor="follow-up-length">Length</Label>
+            <Select value={length} onValueChange={(value) => setLength(value as FollowUpLength)}>
+              <SelectTrigger id="follow-up-length" className="bg-slate-900 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FOLLOW_UP_LENGTHS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {capitalize(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleGenerate} disabled={isGenerating} className="gap-2">
+            <Sparkles className="h-4 w-4" />
+            {isGenerating ? 'Writing...' : draft ? 'Regenerate' : 'Generate'}
+          </Button>
+        </div>
+
+        {draft && (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="follow-up-subject">Subject</Label>
+              <Input
+                id="follow-up-subject"
+                value={draft.subject}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                className="bg-slate-900 border-slate-700"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="follow-up-body">Message</Label>
+              <Textarea
+                id="follow-up-body"
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                rows={14}
+                className="bg-slate-900 border-slate-700 font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy} disabled={!draft} className="gap-2">
+            <Copy className="h-4 w-4" />
+            Copy
+          </Button>
+          <Button onClick={handleDownload} disabled={!draft} className="gap-2">
+            <Download className="h-4 w-4" />
+            Download .eml
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
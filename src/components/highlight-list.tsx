@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Mic, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { MeetingHighlight } from '@/lib/schema';
+import { formatOffset } from '@/lib/transcript-segments';
+
+interface HighlightRowProps {
+  highlight: MeetingHighlight;
+  onSelect?: (ms: number) => void;
+  onUpdateNote?: (id: number, note: string | null) => Promise<unknown>;
+  onDelete?: (id: number) => void;
+}
+
+function HighlightRow({ highlight, onSelect, onUpdateNote, onDelete }: HighlightRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [note, setNote] = useState(highlight.note ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!onUpdateNote) return;
+    setIsSaving(true);
+    try {
+      await onUpdateNote(highlight.id, note.trim() || null);
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setNote(highlight.note ?? '');
+    setIsEditing(false);
+  };
+
+  return (
+    <li className="rounded-md border border-slate-700 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onSelect?.(highlight.startMs)}
+            className="shrink-0 font-mono text-xs text-blue-400 hover:text-blue-300 hover:underline"
+            aria-label={`Jump to ${formatOffset(highlight.atMs)}`}
+          >
+            {formatOffset(highlight.atMs)}
+          </button>
+          {highlight.source === 'voice' && (
+            <Mic className="h-3 w-3 shrink-0 text-slate-500" aria-label="Bookmarked by voice" />
+          )}
+          {!isEditing && highlight.note && (
+            <span className="truncate text-sm font-medium text-slate-200">{highlight.note}</span>
+          )}
+        </div>
+        {!isEditing && (
+          <div className="flex shrink-0 items-center">
+            {onUpdateNote && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-slate-400"
+                onClick={() => setIsEditing(true)}
+                aria-label="Edit note"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            {onDelete && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-slate-400 hover:text-red-400"
+                onClick={() => onDelete(highlight.id)}
+                aria-label="Delete highlight"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+      {isEditing && (
+        <div className="mt-2 flex items-center gap-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') handleCancel();
+            }}
+            placeholder="What made this moment matter?"
+            maxLength={2000}
+            autoFocus
+            className="h-8 bg-slate-900 border-slate-700"
+          />
+          <Button
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleSave}
+            disabled={isSaving}
+            aria-label="Save note"
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={handleCancel}
+            disabled={isSaving}
+            aria-label="Cancel"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <p className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-slate-400">
+        {highlight.quote || 'Nothing was said before this bookmark.'}
+      </p>
+    </li>
+  );
+}
+
+interface HighlightListProps {
+  highlights: MeetingHighlight[];
+  /** Called with the offset where the highlighted transcript starts */
+  onSelect?: (ms: number) => void;
+  onUpdateNote?: (id: number, note: string | null) => Promise<unknown>;
+  onDelete?: (id: number) => void;
+}
+
+/**
+ * Moments bookmarked during a meeting, each with the transcript leading up to it
+ */
+export function HighlightList({ highlights, onSelect, onUpdateNote, onDelete }: HighlightListProps) {
+  return (
+    <ol aria-label="Highlights" className="space-y-3">
+      {highlights.map((highlight) => (
+        <HighlightRow
+          key={highlight.id}
+          highlight={highlight}
+          {...(onSelect && { onSelect })}
+          {...(onUpdateNote && { onUpdateNote })}
+          {...(onDelete && { onDelete })}
+        />
+      ))}
+    </ol>
+  );
+}
@@ -2,11 +2,11 @@
 
 import { memo, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Bot, CheckSquare, Info, Sparkles } from 'lucide-react';
+import { Bot, CheckSquare, Info, Pin, ScrollText, Sparkles } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
 
-export type InsightType = 'response' | 'action' | 'info' | 'suggestion';
+export type InsightType = 'response' | 'action' | 'info' | 'suggestion' | 'summary';
 
 export interface InsightCardData {
   id: string;
@@ -24,6 +24,8 @@ interface InsightCardProps extends InsightCardData {
   index?: number;
   /** Optional click handler for keyboard navigation */
   onClick?: () => void;
+  /** Show the card as pinned above the feed */
+  pinned?: boolean;
 }
 
 // ARIA role mapping for insight types
@@ -32,6 +34,7 @@ const typeAriaRoles: Record<InsightType, string> = {
   action: 'listitem',
   info: 'note',
   suggestion: 'note',
+  summary: 'region',
 };
 
 const typeConfig = {
@@ -63,6 +66,13 @@ const typeConfig = {
     iconColor: 'text-purple-500',
     defaultTitle: 'Suggestion',
   },
+  summary: {
+    borderColor: 'border-l-teal-500',
+    bgColor: 'bg-teal-500/5',
+    icon: ScrollText,
+    iconColor: 'text-teal-500',
+    defaultTitle: 'Summary So Far',
+  },
 };
 
 /**
@@ -78,6 +88,7 @@ function InsightCardComponent({
   className,
   index = 0,
   onClick,
+  pinned = false,
 }: InsightCardProps) {
   const config = typeConfig[type];
   const Icon = config.icon;
@@ -126,10 +137,23 @@ function InsightCardComponent({
               aria-hidden="true"
             />
             <span>{displayTitle}</span>
+            {pinned && (
+              <Pin
+                className="ml-auto h-3.5 w-3.5 text-muted-foreground"
+                aria-label="Pinned"
+              />
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent className="pb-3 px-4">
-          <p className="text-sm leading-relaxed">{content}</p>
+          <p
+            className={cn(
+              'text-sm leading-relaxed',
+              type === 'summary' && 'whitespace-pre-line'
+            )}
+          >
+            {content}
+          </p>
 
           <div className="flex items-center justify-between mt-3 pt-2 border-t border-border/50">
             {source && (
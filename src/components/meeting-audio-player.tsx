@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { MeetingAudioClip } from '@/lib/schema';
+import { formatOffset } from '@/lib/transcript-segments';
+import { cn } from '@/lib/utils';
+
+/**
+ * The clip playing at a moment, or the next one after it
+ */
+function findClipIndex(clips: MeetingAudioClip[], ms: number): number {
+  const index = clips.findIndex((clip) => clip.startMs <= ms && ms < clip.startMs + clip.durationMs);
+  return index !== -1 ? index : clips.findIndex((clip) => clip.startMs >= ms);
+}
+
+interface MeetingAudioPlayerProps {
+  clips: MeetingAudioClip[];
+  /** Moment to play from; pass a new object to seek again */
+  seek?: { ms: number } | null;
+  /** Called as playback moves, with the offset from the meeting start (null once it ends) */
+  onTimeUpdate?: (ms: number | null) => void;
+  className?: string;
+}
+
+/**
+ * Plays a meeting's stored recordings back to back on the meeting timeline,
+ * so positions line up with transcript timestamps
+ */
+export function MeetingAudioPlayer({
+  clips,
+  seek = null,
+  onTimeUpdate,
+  className,
+}: MeetingAudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [clipIndex, setClipIndex] = useState(0);
+  const [positionMs, setPositionMs] = useState(clips[0]?.startMs ?? 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Where to start in the next clip once it has loaded, and whether to play it
+  const pendingOffsetRef = useRef<number | null>(null);
+  const resumeRef = useRef(false);
+  const handledSeekRef = useRef<{ ms: number } | null>(null);
+
+  const clip = clips[clipIndex];
+  const startMs = clips[0]?.startMs ?? 0;
+  const endMs = clips.reduce((max, item) => Math.max(max, item.startMs + item.durationMs), 0);
+
+  const goTo = useCallback(
+    (ms: number, play: boolean) => {
+      const index = findClipIndex(clips, ms);
+      const target = clips[index];
+      if (!target) return;
+
+      const offsetMs = Math.max(0, ms - target.startMs);
+      const audio = audioRef.current;
+      resumeRef.current = play;
+      setPositionMs(target.startMs + offsetMs);
+
+      if (index === clipIndex && audio) {
+        audio.currentTime = offsetMs / 1000;
+        if (play) audio.play().catch((err) => console.error('Error playing audio:', err));
+      } else {
+        pendingOffsetRef.current = offsetMs;
+        setClipIndex(index);
+      }
+    },
+    [clips, clipIndex]
+  );
+
+  // Play from a requested moment once
+  useEffect(() => {
+    if (!seek || handledSeekRef.current === seek) return;
+    handledSeekRef.current = seek;
+    queueMicrotask(() => goTo(seek.ms, true));
+  }, [seek, goTo]);
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (pendingOffsetRef.current !== null) {
+      audio.currentTime = pendingOffsetRef.current / 1000;
+      pendingOffsetRef.current = null;
+    }
+    if (resumeRef.current) {
+      audio.play().catch((err) => console.error('Error playing audio:', err));
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio || !clip) return;
+
+    const ms = clip.startMs + Math.round(audio.currentTime * 1000);
+    setPositionMs(ms);
+    onTimeUpdate?.(ms);
+  };
+
+  // Carry on with the next recording, skipping the gap between them
+  const handleEnded = () => {
+    const next = clips[clipIndex + 1];
+    if (next) {
+      resumeRef.current = true;
+      pendingOffsetRef.current = 0;
+      setClipIndex(clipIndex + 1);
+    } else {
+      setIsPlaying(false);
+      onTimeUpdate?.(null);
+    }
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying) {
+      resumeRef.current = false;
+      audio.pause();
+    } else {
+      resumeRef.current = true;
+      audio.play().catch((err) => console.error('Error playing audio:', err));
+    }
+  };
+
+  if (!clip) return null;
+
+  return (
+    <div className={cn('flex items-center gap-3', className)}>
+      <audio
+        ref={audioRef}
+        src={clip.url}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={handleEnded}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={togglePlayback}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <input
+        type="range"
+        min={startMs}
+        max={endMs}
+        step={1000}
+        value={positionMs}
+        onChange={(e) => goTo(Number(e.target.value), isPlaying)}
+        aria-label="Playback position"
+        className="flex-1 accent-blue-500"
+      />
+      <span className="shrink-0 font-mono text-xs text-slate-400">
+        {formatOffset(positionMs)} / {formatOffset(endMs)}
+      </span>
+    </div>
+  );
+}
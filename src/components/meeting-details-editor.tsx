@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { FolderOpen, Save, Tag } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  splitList,
+  type MeetingDetailsInput,
+  type MeetingFacets,
+} from '@/lib/meeting-details';
+import type { Meeting, MeetingSeries } from '@/lib/schema';
+import { cn } from '@/lib/utils';
+
+type MeetingDetails = Pick<Meeting, 'seriesId' | 'project' | 'tags' | 'attendees'>;
+
+// Select items can't have an empty value
+const NO_SERIES = 'none';
+
+interface MeetingLabelsProps {
+  meeting: Pick<Meeting, 'project' | 'tags'>;
+  className?: string;
+}
+
+/**
+ * Project and tag badges for a meeting
+ */
+export function MeetingLabels({ meeting, className }: MeetingLabelsProps) {
+  if (!meeting.project && meeting.tags.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+      {meeting.project && (
+        <Badge variant="outline" className="gap-1 border-cyan-600 text-cyan-400">
+          <FolderOpen className="h-3 w-3" aria-hidden="true" />
+          {meeting.project}
+        </Badge>
+      )}
+      {meeting.tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          <Tag className="h-3 w-3" aria-hidden="true" />
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface MeetingDetailsEditorProps {
+  meeting: MeetingDetails;
+  /** Existing values offered as suggestions */
+  facets: MeetingFacets;
+  /** Series the meeting can belong to */
+  series?: Pick<MeetingSeries, 'id' | 'name'>[];
+  onSave: (details: MeetingDetailsInput) => Promise<boolean>;
+}
+
+/**
+ * Form for a meeting's series, project, tags and attendees. Tags and
+ * attendees are entered as comma-separated lists.
+ */
+export function MeetingDetailsEditor({
+  meeting,
+  facets,
+  series = [],
+  onSave,
+}: MeetingDetailsEditorProps) {
+  const [seriesId, setSeriesId] = useState(
+    meeting.seriesId !== null ? String(meeting.seriesId) : NO_SERIES
+  );
+  const [project, setProject] = useState(meeting.project ?? '');
+  const [tags, setTags] = useState(meeting.tags.join(', '));
+  const [attendees, setAttendees] = useState(meeting.attendees.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changed =
+    seriesId !== (meeting.seriesId !== null ? String(meeting.seriesId) : NO_SERIES) ||
+    project.trim() !== (meeting.project ?? '') ||
+    splitList(tags).join(',') !== meeting.tags.join(',') ||
+    splitList(attendees).join(',') !== meeting.attendees.join(',');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changed) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        seriesId: seriesId === NO_SERIES ? null : Number(seriesId),
+        project: project.trim() || null,
+        tags: splitList(tags),
+        attendees: splitList(attendees),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {series.length > 0 && (
+        <div className="space-y-1.5">
+          <Label htmlFor="meeting-series">Series</Label>
+          <Select value={seriesId} onValueChange={setSeriesId}>
+            <SelectTrigger id="meeting-series" className="bg-slate-800 border-slate-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SERIES}>Not part of a series</SelectItem>
+              {series.map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="meeting-project">Project</Label>
+          <Input
+            id="meeting-project"
+            value={project}
+            onChange={(e) => setProject(e.target.value)}
+            placeholder="No project"
+            list="meeting-project-options"
+            className="bg-slate-800 border-slate-700"
+          />
+          <datalist id="meeting-project-options">
+            {facets.projects.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="meeting-tags">Tags</Label>
+          <Input
+            id="meeting-tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="planning, budget"
+            className="bg-slate-800 border-slate-700"
+          />
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="meeting-attendees">Attendees</Label>
+        <Input
+          id="meeting-attendees"
+          value={attendees}
+          onChange={(e) => setAttendees(e.target.value)}
+          placeholder="Alex, Sam"
+          className="bg-slate-800 border-slate-700"
+        />
+        {facets.attendees.length > 0 && (
+          <p className="text-xs text-slate-500">
+            Known attendees: {facets.attendees.slice(0, 10).join(', ')}
+            {facets.attendees.length > 10 && ', ...'}
+          </p>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" disabled={!changed || isSaving} className="gap-2">
+          <Save className="h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save Details'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { setMeetingFilterParams, type MeetingFilters } from '@/lib/meeting-details';
+
+const DOCUMENT_FORMATS = [
+  { value: 'md', label: 'Markdown (.md)' },
+  { value: 'docx', label: 'Word (.docx)' },
+  { value: 'pdf', label: 'PDF (.pdf)' },
+  { value: 'json', label: 'JSON archive (.json)' },
+] as const;
+
+const SUBTITLE_FORMATS = [
+  { value: 'srt', label: 'Subtitles (.srt)' },
+  { value: 'vtt', label: 'WebVTT (.vtt)' },
+] as const;
+
+interface MeetingExportMenuProps {
+  meetingId: number | string;
+  /** Subtitle formats need timed transcript segments */
+  hasSegments: boolean;
+}
+
+/**
+ * Download menu for a single meeting
+ */
+export function MeetingExportMenu({ meetingId, hasSegments }: MeetingExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="gap-2 text-slate-400">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Document</DropdownMenuLabel>
+        {DOCUMENT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.value} asChild>
+            <a href={`/api/meetings/${meetingId}/export?format=${format.value}`} download>
+              {format.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Timed transcript</DropdownMenuLabel>
+        {SUBTITLE_FORMATS.map((format) =>
+          hasSegments ? (
+            <DropdownMenuItem key={format.value} asChild>
+              <a href={`/api/meetings/${meetingId}/export?format=${format.value}`} download>
+                {format.label}
+              </a>
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem key={format.value} disabled>
+              {format.label}
+            </DropdownMenuItem>
+          )
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface BulkExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Only export meetings matching these list filters */
+  filters?: MeetingFilters;
+}
+
+/**
+ * Dialog for downloading every meeting in a date range as a zip
+ */
+export function BulkExportDialog({ open, onOpenChange, filters = {} }: BulkExportDialogProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [format, setFormat] = useState('json');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({ format });
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      setMeetingFilterParams(params, filters);
+
+      const response = await fetch(`/api/meetings/export?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      // Save the archive under the name the server chose
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'meetings.zip';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle>Export Meetings</DialogTitle>
+          <DialogDescription>
+            Download every meeting in a date range as a zip. Leave a date empty for no limit.
+            {(filters.project || filters.tag || filters.attendee) &&
+              ' Only meetings matching the current filters are included.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="export-from">From</Label>
+            <Input
+              id="export-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-to">To</Label>
+            <Input
+              id="export-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={format} onValueChange={setFormat}>
+              <SelectTrigger id="export-format" className="bg-slate-900 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...DOCUMENT_FORMATS, ...SUBTITLE_FORMATS].map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting} className="gap-2">
+            <Download className="h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Download Zip'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FileAudio, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ImportRecordingOptions } from '@/hooks/use-meeting-imports';
+import {
+  IMPORT_FILE_ACCEPT,
+  getImportProgress,
+  isImportActive,
+  type MeetingImportSummary,
+} from '@/lib/recording-import';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<string, string> = {
+  uploading: 'Uploading',
+  queued: 'Queued',
+  transcribing: 'Transcribing',
+  summarizing: 'Summarizing',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+/**
+ * Format a date for a datetime-local input, in local time
+ */
+function toDateTimeLocal(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * One line describing where an import has got to
+ */
+function getImportDetail(item: MeetingImportSummary): string | null {
+  if (item.status === 'transcribing') {
+    return `Chunk ${item.processedChunks} of ${item.totalChunks}`;
+  }
+  if (item.summaryProgress?.stage === 'map') {
+    return `Summarizing part ${item.summaryProgress.completed} of ${item.summaryProgress.total}`;
+  }
+  if (item.status === 'failed') return item.error;
+  return item.fileName;
+}
+
+function ProgressBar({ value, className }: { value: number; className?: string }) {
+  return (
+    <div
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(value)}
+      className={cn('h-2 w-full overflow-hidden rounded-full bg-slate-700', className)}
+    >
+      <div
+        className="h-full rounded-full bg-blue-500 transition-all"
+        style={{ width: `${Math.min(100, Math.max(0, value))}%` }}
+      />
+    </div>
+  );
+}
+
+interface ImportRecordingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (file: File, options: ImportRecordingOptions) => Promise<unknown>;
+}
+
+/**
+ * Dialog for uploading a past recording to be transcribed and summarized
+ */
+export function ImportRecordingDialog({ open, onOpenChange, onImport }: ImportRecordingDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [stage, setStage] = useState<'decoding' | 'uploading' | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const isImporting = stage !== null;
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (selected) {
+      // The file's modification time is the best guess for when it was recorded
+      setStartedAt(toDateTimeLocal(new Date(selected.lastModified)));
+      if (!title) setTitle(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    try {
+      await onImport(file, {
+        title: title.trim() || undefined,
+        startedAt: startedAt ? new Date(startedAt) : new Date(file.lastModified),
+        onProgress: (nextStage, value) => {
+          setStage(nextStage);
+          setProgress(value * 100);
+        },
+      });
+      toast.success('Recording uploaded. Transcription has started.');
+      setFile(null);
+      setTitle('');
+      setStartedAt('');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setStage(null);
+      setProgress(0);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle>Import Recording</DialogTitle>
+          <DialogDescription>
+            Upload a WAV, MP3 or WebM recording. It is transcribed in the background and gets a
+            summary and action items like a live meeting.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Recording</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept={IMPORT_FILE_ACCEPT}
+              disabled={isImporting}
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-title">Title</Label>
+            <Input
+              id="import-title"
+              value={title}
+              disabled={isImporting}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Meeting title"
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-started-at">Recorded at</Label>
+            <Input
+              id="import-started-at"
+              type="datetime-local"
+              value={startedAt}
+              disabled={isImporting}
+              onChange={(e) => setStartedAt(e.target.value)}
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          {isImporting && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-400">
+                {stage === 'decoding'
+                  ? `Reading audio... ${Math.round(progress)}%`
+                  : `Uploading... ${Math.round(progress)}%`}
+              </p>
+              <ProgressBar value={progress} />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || isImporting} className="gap-2">
+            <Upload className="h-4 w-4" />
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MeetingImportListProps {
+  imports: MeetingImportSummary[];
+  onCancel: (id: number) => void;
+}
+
+/**
+ * Progress of recent recording imports
+ */
+export function MeetingImportList({ imports, onCancel }: MeetingImportListProps) {
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base text-slate-100">
+          <FileAudio className="h-4 w-4 text-blue-400" />
+          Imported Recordings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {imports.map((item) => {
+          const active = isImportActive(item.status);
+          return (
+            <div key={item.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  {item.status === 'completed' ? (
+                    <Link
+                      href={`/meetings/${item.meetingId}`}
+                      className="block truncate text-sm font-medium text-slate-200 hover:underline"
+                    >
+                      {item.meetingTitle || item.fileName}
+                    </Link>
+                  ) : (
+                    <p className="truncate text-sm font-medium text-slate-200">
+                      {item.meetingTitle || item.fileName}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    {getImportDetail(item)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      item.status === 'completed' && 'text-green-400 border-green-400/50',
+                      item.status === 'failed' && 'text-red-400 border-red-400/50',
+                      active && 'text-blue-400 border-blue-400/50'
+                    )}
+                  >
+                    {STATUS_LABELS[item.status] ?? item.status}
+                  </Badge>
+                  {active && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-slate-400 hover:text-red-400"
+                      onClick={() => onCancel(item.id)}
+                      aria-label="Cancel import"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {active && <ProgressBar value={getImportProgress(item)} />}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { diffWords, type SegmentRevisionEntry } from '@/lib/segment-revisions';
+import { formatOffset, resolveSpeaker, type SpeakerNames } from '@/lib/transcript-segments';
+import { cn } from '@/lib/utils';
+
+function formatEditedAt(date: Date | string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function getActionLabel(revision: SegmentRevisionEntry): string {
+  if (revision.action === 'delete') return 'Deleted';
+  if (revision.action === 'restore') return 'Restored';
+  return revision.revertedRevisionId ? 'Reverted' : 'Edited';
+}
+
+interface RevisionHistoryProps {
+  revisions: SegmentRevisionEntry[];
+  /** Display names for diarized speaker labels */
+  speakerNames?: SpeakerNames;
+  /** Called with the edited segment's offset from the meeting start */
+  onSelect?: (ms: number) => void;
+  /** Put the segment back the way it was before a revision */
+  onRevert: (revision: SegmentRevisionEntry) => Promise<unknown>;
+}
+
+/**
+ * Corrections made to a transcript, newest first, each with who made it,
+ * when, a word diff and a way to undo it.
+ */
+export function RevisionHistory({
+  revisions,
+  speakerNames,
+  onSelect,
+  onRevert,
+}: RevisionHistoryProps) {
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const handleRevert = async (revision: SegmentRevisionEntry) => {
+    setRevertingId(revision.id);
+    try {
+      await onRevert(revision);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <ol aria-label="Edit history" className="space-y-3">
+      {revisions.map((revision) => {
+        const previousSpeaker = resolveSpeaker(revision.previousSpeaker, speakerNames);
+        const speaker = resolveSpeaker(revision.speaker, speakerNames);
+
+        return (
+          <li key={revision.id} className="rounded-md border border-slate-700 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(revision.segmentStartMs)}
+                  className="font-mono text-blue-400 hover:text-blue-300 hover:underline"
+                  aria-label={`Jump to ${formatOffset(revision.segmentStartMs)}`}
+                >
+                  {formatOffset(revision.segmentStartMs)}
+                </button>
+                <span>
+                  {getActionLabel(revision)} by{' '}
+                  <span className="text-slate-200">{revision.editedBy || 'Someone'}</span>
+                </span>
+                <span>{formatEditedAt(revision.createdAt)}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1 text-slate-400"
+                onClick={() => handleRevert(revision)}
+                disabled={revertingId !== null}
+              >
+                <Undo2 className="h-3.5 w-3.5" />
+                {revertingId === revision.id ? 'Reverting...' : 'Revert'}
+              </Button>
+            </div>
+            {previousSpeaker !== speaker && (
+              <p className="mt-2 text-xs text-slate-400">
+                Speaker: {previousSpeaker || 'none'} → {speaker || 'none'}
+              </p>
+            )}
+            {revision.previousText !== revision.text && (
+              <p className="mt-2 text-sm leading-relaxed text-slate-300">
+                {diffWords(revision.previousText, revision.text).map((part, index) => (
+                  <span
+                    key={index}
+                    className={cn(
+                      part.type === 'removed' && 'bg-red-500/10 text-red-400 line-through',
+                      part.type === 'added' && 'bg-green-500/10 text-green-400'
+                    )}
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { Mic, Radio, FileText, History, Settings } from "lucide-react";
+import { Mic, Radio, FileText, History, Settings, ListTodo, Gavel } from "lucide-react";
 import { Button } from "./ui/button";
 import { ModeToggle } from "./ui/mode-toggle";
 
@@ -16,6 +16,18 @@ const navLinks = [
     icon: History,
     description: "Past meetings",
   },
+  {
+    href: "/action-items",
+    label: "Action Items",
+    icon: ListTodo,
+    description: "Action items across all meetings",
+  },
+  {
+    href: "/decisions",
+    label: "Decisions",
+    icon: Gavel,
+    description: "Decision log across all meetings",
+  },
   {
     href: "/documents",
     label: "Documents",
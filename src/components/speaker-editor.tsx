@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { MeetingSpeakerSummary, UpdateSpeakersInput } from '@/lib/transcript-segments';
+
+interface SpeakerEditorProps {
+  speakers: MeetingSpeakerSummary[];
+  onSave: (speakers: UpdateSpeakersInput['speakers']) => Promise<boolean>;
+}
+
+/**
+ * Form for giving diarized speakers ("Speaker 1") attendee names.
+ * Leaving a name empty restores the original label.
+ */
+export function SpeakerEditor({ speakers, onSave }: SpeakerEditorProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(speakers.map((speaker) => [speaker.label, speaker.name ?? '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changed = speakers.filter(
+    (speaker) => (drafts[speaker.label] ?? '').trim() !== (speaker.name ?? '')
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changed.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(
+        changed.map((speaker) => ({
+          label: speaker.label,
+          name: (drafts[speaker.label] ?? '').trim() || null,
+        }))
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <ul className="space-y-2" aria-label="Speakers">
+        {speakers.map((speaker) => (
+          <li key={speaker.label} className="flex items-center gap-3">
+            <span className="w-28 shrink-0 text-sm text-slate-400 truncate" title={speaker.label}>
+              {speaker.label}
+            </span>
+            <Input
+              value={drafts[speaker.label] ?? ''}
+              onChange={(e) =>
+                setDrafts((prev) => ({ ...prev, [speaker.label]: e.target.value }))
+              }
+              placeholder="Attendee name"
+              className="h-8 flex-1 text-sm bg-slate-800 border-slate-700"
+              aria-label={`Name for ${speaker.label}`}
+            />
+            <span className="w-24 shrink-0 text-right text-xs text-slate-500">
+              {speaker.segmentCount} segment{speaker.segmentCount !== 1 ? 's' : ''}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" disabled={changed.length === 0 || isSaving} className="gap-2">
+          <Save className="h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save Names'}
+        </Button>
+      </div>
+    </form>
+  );
+}
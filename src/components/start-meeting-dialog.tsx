@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Play } from 'lucide-react';
+import { AgendaEditor, type AgendaDraftItem } from '@/components/agenda';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AgendaItemInput } from '@/lib/agenda';
+
+interface StartMeetingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStart: (title: string, agenda: AgendaItemInput[]) => Promise<void>;
+}
+
+/**
+ * Dialog for naming a new meeting and setting its agenda before it starts
+ */
+export function StartMeetingDialog({ open, onOpenChange, onStart }: StartMeetingDialogProps) {
+  const [title, setTitle] = useState('');
+  const [agenda, setAgenda] = useState<AgendaDraftItem[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Topics without a name are left out; time boxes default to 10 minutes
+  const items: AgendaItemInput[] = agenda
+    .filter((item) => item.topic.trim())
+    .map((item) => ({
+      topic: item.topic.trim(),
+      durationMinutes: Math.min(480, Math.max(1, parseInt(item.minutes) || 10)),
+    }));
+  const totalMinutes = items.reduce((sum, item) => sum + item.durationMinutes, 0);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    try {
+      await onStart(title.trim(), items);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isStarting && onOpenChange(next)}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <form onSubmit={handleStart} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>New Meeting</DialogTitle>
+            <DialogDescription>
+              Add an agenda to have the assistant track the current topic and warn when one
+              runs over its time box.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-title">Title</Label>
+            <Input
+              id="meeting-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Optional"
+              className="bg-slate-900 border-slate-700"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Agenda</Label>
+            <AgendaEditor items={agenda} onChange={setAgenda} />
+            {items.length > 0 && (
+              <p className="text-xs text-slate-500">
+                {items.length} topic{items.length !== 1 ? 's' : ''}, {totalMinutes} min in total
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isStarting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isStarting} className="gap-2">
+              <Play className="h-4 w-4" />
+              {isStarting ? 'Starting...' : 'Start Meeting'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { TranscriptSegment } from '@/lib/schema';
+import { formatOffset, resolveSpeaker, type SpeakerNames } from '@/lib/transcript-segments';
+import { cn } from '@/lib/utils';
+
+// Segments below this confidence are shown dimmed
+const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+/**
+ * Read the segment offset (in seconds) from a `#t=` URL hash
+ */
+function getHashOffsetMs(): number | null {
+  if (typeof window === 'undefined') return null;
+  const match = /^#t=(\d+(?:\.\d+)?)$/.exec(window.location.hash);
+  return match?.[1] ? parseFloat(match[1]) * 1000 : null;
+}
+
+/**
+ * The segment spoken at a moment, or the next one after it
+ */
+function findSegmentAt(segments: TranscriptSegment[], ms: number): TranscriptSegment | undefined {
+  return (
+    segments.find((segment) => segment.startMs <= ms && ms <= segment.endMs) ??
+    segments.find((segment) => segment.startMs >= ms)
+  );
+}
+
+function scrollToSegment(id: number) {
+  document.getElementById(`segment-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  /** Display names for diarized speaker labels */
+  speakerNames?: SpeakerNames;
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  /** Called when a timestamp is clicked, with the offset from the meeting start */
+  onSeek?: (ms: number) => void;
+  /** Moment to highlight and scroll to; pass a new object to jump again */
+  focus?: { ms: number } | null;
+  /** Audio playback position; the segment being played is highlighted */
+  playingMs?: number | null;
+  /** Save a corrected segment text; segments are read-only without it */
+  onEdit?: (segment: TranscriptSegment, text: string) => Promise<boolean>;
+  className?: string;
+}
+
+/**
+ * Timestamped meeting transcript. Clicking a timestamp highlights the
+ * segment and updates the URL (#t=seconds) so the moment can be shared.
+ * With `onEdit`, segments can be corrected in place.
+ */
+function TranscriptViewComponent({
+  segments,
+  speakerNames,
+  hasMore = false,
+  isLoading = false,
+  onLoadMore,
+  onSeek,
+  focus = null,
+  playingMs = null,
+  onEdit,
+  className,
+}: TranscriptViewProps) {
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const handledFocusRef = useRef<{ ms: number } | null>(null);
+
+  // Highlight the segment linked from the URL once it has loaded
+  useEffect(() => {
+    const offsetMs = getHashOffsetMs();
+    if (offsetMs === null || activeId !== null) return;
+
+    const target = findSegmentAt(segments, offsetMs);
+    if (!target) return;
+
+    queueMicrotask(() => {
+      setActiveId(target.id);
+      scrollToSegment(target.id);
+    });
+  }, [segments, activeId]);
+
+  // Jump to a requested moment once, even as more segments load afterwards
+  useEffect(() => {
+    if (!focus || handledFocusRef.current === focus) return;
+
+    const target = findSegmentAt(segments, focus.ms);
+    if (!target) return;
+    handledFocusRef.current = focus;
+
+    queueMicrotask(() => {
+      setActiveId(target.id);
+      window.history.replaceState(null, '', `#t=${Math.floor(target.startMs / 1000)}`);
+      scrollToSegment(target.id);
+    });
+  }, [segments, focus]);
+
+  const handleSelect = (segment: TranscriptSegment) => {
+    setActiveId(segment.id);
+    window.history.replaceState(null, '', `#t=${Math.floor(segment.startMs / 1000)}`);
+    onSeek?.(segment.startMs);
+  };
+
+  const startEditing = (segment: TranscriptSegment) => {
+    setEditingId(segment.id);
+    setDraft(segment.text);
+  };
+
+  const handleSave = async (segment: TranscriptSegment) => {
+    const text = draft.trim();
+    if (!onEdit || !text) return;
+    if (text === segment.text) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onEdit(segment, text);
+    setIsSaving(false);
+    if (saved) setEditingId(null);
+  };
+
+  const playingId =
+    playingMs !== null
+      ? segments.find((segment) => segment.startMs <= playingMs && playingMs < segment.endMs)?.id
+      : undefined;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <ol aria-label="Transcript">
+        {segments.map((segment) => {
+          const speaker = resolveSpeaker(segment.speaker, speakerNames);
+          const lowConfidence =
+            segment.confidence !== null && segment.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+          return (
+            <li
+              key={segment.id}
+              id={`segment-${segment.id}`}
+              className={cn(
+                'group flex gap-3 rounded-md px-2 py-1 transition-colors',
+                playingId === segment.id && 'bg-emerald-500/10',
+                activeId === segment.id && 'bg-blue-500/10 ring-1 ring-blue-500/40'
+              )}
+              aria-current={playingId === segment.id ? 'true' : undefined}
+            >
+              <button
+                type="button"
+                onClick={() => handleSelect(segment)}
+                className="shrink-0 w-14 pt-0.5 text-left font-mono text-xs text-blue-400 hover:text-blue-300 hover:underline"
+                aria-label={`Jump to ${formatOffset(segment.startMs)}`}
+              >
+                {formatOffset(segment.startMs)}
+              </button>
+              {editingId === segment.id ? (
+                <div className="flex-1 space-y-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setEditingId(null);
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave(segment);
+                    }}
+                    rows={3}
+                    autoFocus
+                    aria-label={`Edit segment at ${formatOffset(segment.startMs)}`}
+                    className="bg-slate-900 border-slate-700 text-sm"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingId(null)}
+                      disabled={isSaving}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(segment)}
+                      disabled={isSaving || !draft.trim()}
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p
+                    className={cn(
+                      'flex-1 text-sm text-slate-300 leading-relaxed',
+                      lowConfidence && 'text-slate-500'
+                    )}
+                    title={
+                      segment.confidence !== null
+                        ? `Confidence: ${Math.round(segment.confidence * 100)}%`
+                        : undefined
+                    }
+                  >
+                    {speaker && (
+                      <span className="font-medium text-slate-200">{speaker}: </span>
+                    )}
+                    {segment.text}
+                    {segment.editedAt && (
+                      <span className="ml-1.5 text-xs text-slate-500">(edited)</span>
+                    )}
+                  </p>
+                  {onEdit && (
+                    <button
+                      type="button"
+                      onClick={() => startEditing(segment)}
+                      className="shrink-0 self-start rounded p-1 text-slate-500 opacity-0 transition-opacity hover:text-slate-200 focus:opacity-100 group-hover:opacity-100"
+                      aria-label={`Edit segment at ${formatOffset(segment.startMs)}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pt-2">
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const TranscriptView = memo(TranscriptViewComponent);
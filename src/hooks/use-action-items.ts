@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  ActionItemStatus,
+  ActionItemWithMeeting,
+  CreateActionItemInput,
+  UpdateActionItemInput,
+} from '@/lib/action-items';
+import type { ActionItem } from '@/lib/schema';
+
+export interface ActionItemFilters {
+  /** Partial, case-insensitive assignee match */
+  assignee?: string;
+  /** Completion status filter */
+  status?: ActionItemStatus;
+  /** Only return open items past their due date */
+  overdue?: boolean;
+}
+
+export interface UseActionItemsOptions {
+  /** Load items for a single meeting instead of across all meetings */
+  meetingId?: number | string;
+  /** Filters for the cross-meeting list */
+  filters?: ActionItemFilters;
+}
+
+export interface UseActionItemsReturn {
+  /** Loaded action items */
+  items: ActionItemWithMeeting[];
+  /** Whether items are being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload items from the server */
+  refresh: () => Promise<void>;
+  /** Add an action item to the meeting (requires meetingId) */
+  createItem: (input: CreateActionItemInput) => Promise<ActionItem | null>;
+  /** Update an action item */
+  updateItem: (id: number, input: UpdateActionItemInput) => Promise<ActionItem | null>;
+  /** Delete an action item */
+  deleteItem: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Hook for loading and editing action items, either for one meeting or
+ * across all meetings with optional filters.
+ */
+export function useActionItems(
+  options: UseActionItemsOptions = {}
+): UseActionItemsReturn {
+  const { meetingId, filters } = options;
+  const assignee = filters?.assignee;
+  const status = filters?.status;
+  const overdue = filters?.overdue;
+
+  const [items, setItems] = useState<ActionItemWithMeeting[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      let url: string;
+      if (meetingId !== undefined) {
+        url = `/api/meetings/${meetingId}/action-items`;
+      } else {
+        const params = new URLSearchParams();
+        if (assignee) params.set('assignee', assignee);
+        if (status) params.set('status', status);
+        if (overdue) params.set('overdue', 'true');
+        url = `/api/action-items?${params.toString()}`;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) throw new Error('Failed to fetch action items');
+      const data: ActionItemWithMeeting[] = await response.json();
+      setItems(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching action items:', err);
+      setError('Failed to load action items');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId, assignee, status, overdue]);
+
+  const createItem = useCallback(
+    async (input: CreateActionItemInput): Promise<ActionItem | null> => {
+      if (meetingId === undefined) return null;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/action-items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to create action item');
+        const item: ActionItem = await response.json();
+        setItems((prev) => [...prev, { ...item, meetingTitle: null }]);
+        return item;
+      } catch (err) {
+        console.error('Error creating action item:', err);
+        return null;
+      }
+    },
+    [meetingId]
+  );
+
+  const updateItem = useCallback(
+    async (id: number, input: UpdateActionItemInput): Promise<ActionItem | null> => {
+      try {
+        const response = await fetch(`/api/action-items/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to update action item');
+        const item: ActionItem = await response.json();
+        setItems((prev) =>
+          prev.map((existing) =>
+            existing.id === id ? { ...item, meetingTitle: existing.meetingTitle } : existing
+          )
+        );
+        return item;
+      } catch (err) {
+        console.error('Error updating action item:', err);
+        return null;
+      }
+    },
+    []
+  );
+
+  const deleteItem = useCallback(async (id: number): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/action-items/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete action item');
+      setItems((prev) => prev.filter((item) => item.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Error deleting action item:', err);
+      return false;
+    }
+  }, []);
+
+  // Load items on mount and whenever the filters change
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    refresh,
+    createItem,
+    updateItem,
+    deleteItem,
+  };
+}
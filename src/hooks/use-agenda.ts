@@ -0,0 +1,110 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getAgendaProgress, type AgendaProgress } from '@/lib/agenda';
+import type { AgendaItem } from '@/lib/schema';
+
+// How often the server checks the transcript for a move to another topic
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000;
+
+// How often the time remaining is recalculated
+const CLOCK_INTERVAL_MS = 1000;
+
+export interface UseAgendaOptions {
+  /** Track topics and run the clock only while the meeting is running */
+  enabled?: boolean;
+  /** How often to check for a topic change (default: 60000) */
+  checkIntervalMs?: number;
+}
+
+export interface UseAgendaReturn {
+  /** Agenda topics in order */
+  items: AgendaItem[];
+  /** Current topic and time remaining, updated every second */
+  progress: AgendaProgress;
+  /** Move on to a topic by hand */
+  goTo: (itemId: number) => Promise<boolean>;
+}
+
+/**
+ * Hook for the agenda of a running meeting. The server detects topic
+ * changes from the transcript; the time remaining is counted down locally.
+ */
+export function useAgenda(
+  meetingId: number | null,
+  options: UseAgendaOptions = {}
+): UseAgendaReturn {
+  const { enabled = true, checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS } = options;
+  const [items, setItems] = useState<AgendaItem[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  const track = useCallback(
+    async (itemId?: number): Promise<boolean> => {
+      if (meetingId === null) return false;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/agenda/track`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(itemId !== undefined ? { itemId } : {}),
+        });
+        if (!response.ok) throw new Error('Failed to track agenda');
+        const data: AgendaItem[] = await response.json();
+        setItems(data);
+        return true;
+      } catch (err) {
+        console.error('Error tracking agenda:', err);
+        return false;
+      }
+    },
+    [meetingId]
+  );
+
+  const goTo = useCallback((itemId: number) => track(itemId), [track]);
+
+  // Load the agenda when a meeting starts or is resumed
+  useEffect(() => {
+    if (meetingId === null) return;
+
+    let cancelled = false;
+    fetch(`/api/meetings/${meetingId}/agenda`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: AgendaItem[] | null) => {
+        if (!cancelled && data) setItems(data);
+      })
+      .catch((err) => console.error('Error fetching agenda:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId]);
+
+  const hasAgenda = items.length > 0;
+
+  // Let the server check for topic changes as the conversation goes on
+  useEffect(() => {
+    if (!enabled || !hasAgenda) return;
+
+    const interval = setInterval(() => {
+      void track();
+    }, checkIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [enabled, hasAgenda, checkIntervalMs, track]);
+
+  // Count down the current topic's time box
+  useEffect(() => {
+    if (!enabled || !hasAgenda) return;
+
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, hasAgenda]);
+
+  const progress = useMemo(() => getAgendaProgress(items, now), [items, now]);
+
+  return {
+    items,
+    progress,
+    goTo,
+  };
+}
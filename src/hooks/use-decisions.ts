@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  CreateDecisionInput,
+  DecisionWithMeeting,
+  UpdateDecisionInput,
+} from '@/lib/decisions';
+import type { Decision } from '@/lib/schema';
+
+export interface UseDecisionsOptions {
+  /** Load decisions for a single meeting instead of the whole log */
+  meetingId?: number | string;
+  /** Search text for the decision log */
+  query?: string;
+}
+
+export interface UseDecisionsReturn {
+  /** Loaded decisions */
+  decisions: DecisionWithMeeting[];
+  /** Whether decisions are being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload decisions from the server */
+  refresh: () => Promise<void>;
+  /** Record a decision for the meeting (requires meetingId) */
+  createDecision: (input: CreateDecisionInput) => Promise<Decision | null>;
+  /** Update a decision */
+  updateDecision: (id: number, input: UpdateDecisionInput) => Promise<Decision | null>;
+  /** Delete a decision */
+  deleteDecision: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Hook for loading and editing decisions, either for one meeting or
+ * across the whole decision log with an optional search.
+ */
+export function useDecisions(options: UseDecisionsOptions = {}): UseDecisionsReturn {
+  const { meetingId, query } = options;
+
+  const [decisions, setDecisions] = useState<DecisionWithMeeting[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      let url: string;
+      if (meetingId !== undefined) {
+        url = `/api/meetings/${meetingId}/decisions`;
+      } else {
+        const params = new URLSearchParams();
+        if (query) params.set('q', query);
+        url = `/api/decisions?${params.toString()}`;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) throw new Error('Failed to fetch decisions');
+      const data: DecisionWithMeeting[] = await response.json();
+      setDecisions(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching decisions:', err);
+      setError('Failed to load decisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId, query]);
+
+  const createDecision = useCallback(
+    async (input: CreateDecisionInput): Promise<Decision | null> => {
+      if (meetingId === undefined) return null;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/decisions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to create decision');
+        const decision: Decision = await response.json();
+        setDecisions((prev) => [
+          ...prev,
+          { ...decision, meetingTitle: null, meetingStartedAt: null, participants: [] },
+        ]);
+        return decision;
+      } catch (err) {
+        console.error('Error creating decision:', err);
+        return null;
+      }
+    },
+    [meetingId]
+  );
+
+  const updateDecision = useCallback(
+    async (id: number, input: UpdateDecisionInput): Promise<Decision | null> => {
+      try {
+        const response = await fetch(`/api/decisions/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to update decision');
+        const decision: Decision = await response.json();
+        setDecisions((prev) =>
+          prev.map((existing) => (existing.id === id ? { ...existing, ...decision } : existing))
+        );
+        return decision;
+      } catch (err) {
+        console.error('Error updating decision:', err);
+        return null;
+      }
+    },
+    []
+  );
+
+  const deleteDecision = useCallback(async (id: number): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/decisions/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete decision');
+      setDecisions((prev) => prev.filter((decision) => decision.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Error deleting decision:', err);
+      return false;
+    }
+  }, []);
+
+  // Load decisions on mount and whenever the search changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    decisions,
+    isLoading,
+    error,
+    refresh,
+    createDecision,
+    updateDecision,
+    deleteDecision,
+  };
+}
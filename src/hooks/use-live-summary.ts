@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// How often the server is asked whether the summary is due for a refresh
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface LiveSummaryData {
+  summary: string | null;
+  updatedAt: string | null;
+  /** Offset from the meeting start that the summary covers up to */
+  throughMs: number | null;
+}
+
+export interface UseLiveSummaryOptions {
+  /** Check for refreshes only while the meeting is running */
+  enabled?: boolean;
+  /** How often to check whether enough new transcript has arrived (default: 60000) */
+  checkIntervalMs?: number;
+}
+
+export interface UseLiveSummaryReturn {
+  /** The latest rolling summary, if one has been generated */
+  liveSummary: LiveSummaryData | null;
+  /** Whether a refresh is in progress */
+  isUpdating: boolean;
+  /** Refresh the summary right away; resolves to its text, or null if there is none */
+  catchUp: () => Promise<string | null>;
+}
+
+/**
+ * Hook for the rolling "catch me up" summary of a running meeting. The
+ * server refreshes it every few minutes of new transcript; catchUp()
+ * forces a refresh on demand.
+ */
+export function useLiveSummary(
+  meetingId: number | null,
+  options: UseLiveSummaryOptions = {}
+): UseLiveSummaryReturn {
+  const { enabled = true, checkIntervalMs = DEFAULT_CHECK_INTERVAL_MS } = options;
+  const [liveSummary, setLiveSummary] = useState<LiveSummaryData | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const requestRefresh = useCallback(
+    async (force: boolean): Promise<LiveSummaryData | null> => {
+      if (meetingId === null) return null;
+
+      try {
+        if (force) setIsUpdating(true);
+        const response = await fetch(`/api/meetings/${meetingId}/live-summary`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ force }),
+        });
+        if (!response.ok) throw new Error('Failed to refresh live summary');
+        const data: LiveSummaryData = await response.json();
+        setLiveSummary(data);
+        return data;
+      } catch (err) {
+        console.error('Error refreshing live summary:', err);
+        return null;
+      } finally {
+        if (force) setIsUpdating(false);
+      }
+    },
+    [meetingId]
+  );
+
+  const catchUp = useCallback(async () => {
+    const data = await requestRefresh(true);
+    return data?.summary ?? null;
+  }, [requestRefresh]);
+
+  // Load the existing summary when a meeting is resumed
+  useEffect(() => {
+    if (meetingId === null) return;
+
+    let cancelled = false;
+    fetch(`/api/meetings/${meetingId}/live-summary`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: LiveSummaryData | null) => {
+        if (!cancelled && data) setLiveSummary(data);
+      })
+      .catch((err) => console.error('Error fetching live summary:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId]);
+
+  // Let the server refresh the summary once enough has been said
+  useEffect(() => {
+    if (!enabled || meetingId === null) return;
+
+    const interval = setInterval(() => {
+      void requestRefresh(false);
+    }, checkIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [enabled, meetingId, checkIntervalMs, requestRefresh]);
+
+  return {
+    liveSummary,
+    isUpdating,
+    catchUp,
+  };
+}
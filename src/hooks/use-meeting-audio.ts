@@ -0,0 +1,90 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { MeetingAudioClip } from '@/lib/schema';
+
+export interface UseMeetingAudioReturn {
+  /** Whether new recordings are stored (admin setting) */
+  enabled: boolean;
+  /** Stored recordings, in the order they were made */
+  clips: MeetingAudioClip[];
+  /** Whether audio is being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload stored audio from the server */
+  refresh: () => Promise<void>;
+  /** Store a recording; returns the saved clip */
+  uploadClip: (audio: Blob, recordedAt: Date) => Promise<MeetingAudioClip | null>;
+}
+
+/**
+ * Hook for the stored audio of a meeting. Does nothing until the meeting
+ * exists.
+ */
+export function useMeetingAudio(meetingId: number | string | null): UseMeetingAudioReturn {
+  const [enabled, setEnabled] = useState(false);
+  const [clips, setClips] = useState<MeetingAudioClip[]>([]);
+  const [isLoading, setIsLoading] = useState(meetingId !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (meetingId === null) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/meetings/${meetingId}/audio`);
+      if (!response.ok) throw new Error('Failed to fetch audio');
+      const data: { enabled: boolean; clips: MeetingAudioClip[] } = await response.json();
+      setEnabled(data.enabled);
+      setClips(data.clips);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching audio:', err);
+      setError('Failed to load audio');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId]);
+
+  const uploadClip = useCallback(
+    async (audio: Blob, recordedAt: Date): Promise<MeetingAudioClip | null> => {
+      if (meetingId === null) return null;
+
+      try {
+        const formData = new FormData();
+        formData.append('audio', audio, 'recording.wav');
+        formData.append('recordedAt', recordedAt.toISOString());
+
+        const response = await fetch(`/api/meetings/${meetingId}/audio`, {
+          method: 'POST',
+          body: formData,
+        });
+        if (!response.ok) throw new Error('Failed to store audio');
+        const clip: MeetingAudioClip = await response.json();
+        setClips((prev) =>
+          [...prev, clip].sort((a, b) => a.startMs - b.startMs || a.id - b.id)
+        );
+        return clip;
+      } catch (err) {
+        console.error('Error storing audio:', err);
+        return null;
+      }
+    },
+    [meetingId]
+  );
+
+  // Load stored audio on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    enabled,
+    clips,
+    isLoading,
+    error,
+    refresh,
+    uploadClip,
+  };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { MeetingChapter } from '@/lib/schema';
+
+export interface UseMeetingChaptersReturn {
+  /** Chapters of the meeting, in order */
+  chapters: MeetingChapter[];
+  /** Whether chapters are being loaded */
+  isLoading: boolean;
+  /** Whether chapters are being regenerated */
+  isGenerating: boolean;
+  /** Reload chapters from the server */
+  refresh: () => Promise<void>;
+  /** Split the transcript into chapters again; returns false if the request failed */
+  regenerate: () => Promise<boolean>;
+}
+
+/**
+ * Hook for loading the chapters of a meeting transcript.
+ */
+export function useMeetingChapters(meetingId: number | string): UseMeetingChaptersReturn {
+  const [chapters, setChapters] = useState<MeetingChapter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/meetings/${meetingId}/chapters`);
+      if (!response.ok) throw new Error('Failed to fetch chapters');
+      const data: MeetingChapter[] = await response.json();
+      setChapters(data);
+    } catch (err) {
+      console.error('Error fetching chapters:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId]);
+
+  const regenerate = useCallback(async (): Promise<boolean> => {
+    try {
+      setIsGenerating(true);
+      const response = await fetch(`/api/meetings/${meetingId}/chapters`, { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to generate chapters');
+      const data: MeetingChapter[] = await response.json();
+      setChapters(data);
+      return true;
+    } catch (err) {
+      console.error('Error generating chapters:', err);
+      return false;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [meetingId]);
+
+  // Load chapters on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    chapters,
+    isLoading,
+    isGenerating,
+    refresh,
+    regenerate,
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { MeetingFacets } from '@/lib/meeting-details';
+
+const EMPTY_FACETS: MeetingFacets = { projects: [], tags: [], attendees: [] };
+
+export interface UseMeetingFacetsReturn {
+  /** Projects, tags and attendees used across all meetings */
+  facets: MeetingFacets;
+  /** Reload facets from the server */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for the projects, tags and attendees in use, to offer as filters
+ * and suggestions.
+ */
+export function useMeetingFacets(): UseMeetingFacetsReturn {
+  const [facets, setFacets] = useState<MeetingFacets>(EMPTY_FACETS);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/meetings/facets');
+      if (!response.ok) throw new Error('Failed to fetch meeting facets');
+      const data: MeetingFacets = await response.json();
+      setFacets(data);
+    } catch (err) {
+      console.error('Error fetching meeting facets:', err);
+    }
+  }, []);
+
+  // Load facets on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { facets, refresh };
+}
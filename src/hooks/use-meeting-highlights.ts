@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CreateHighlightInput } from '@/lib/highlights';
+import type { MeetingHighlight } from '@/lib/schema';
+
+export interface UseMeetingHighlightsReturn {
+  /** Bookmarked moments, in the order they happened */
+  highlights: MeetingHighlight[];
+  /** Whether highlights are being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload highlights from the server */
+  refresh: () => Promise<void>;
+  /** Bookmark a moment; returns the saved highlight */
+  addHighlight: (input?: CreateHighlightInput) => Promise<MeetingHighlight | null>;
+  /** Change the note on a highlight */
+  updateNote: (id: number, note: string | null) => Promise<MeetingHighlight | null>;
+  /** Remove a highlight */
+  deleteHighlight: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Hook for the moments bookmarked in a meeting. Does nothing until the
+ * meeting exists.
+ */
+export function useMeetingHighlights(
+  meetingId: number | string | null
+): UseMeetingHighlightsReturn {
+  const [highlights, setHighlights] = useState<MeetingHighlight[]>([]);
+  const [isLoading, setIsLoading] = useState(meetingId !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (meetingId === null) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/meetings/${meetingId}/highlights`);
+      if (!response.ok) throw new Error('Failed to fetch highlights');
+      const data: MeetingHighlight[] = await response.json();
+      setHighlights(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching highlights:', err);
+      setError('Failed to load highlights');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId]);
+
+  const addHighlight = useCallback(
+    async (input: CreateHighlightInput = {}): Promise<MeetingHighlight | null> => {
+      if (meetingId === null) return null;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/highlights`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to create highlight');
+        const highlight: MeetingHighlight = await response.json();
+        setHighlights((prev) =>
+          [...prev, highlight].sort((a, b) => a.atMs - b.atMs || a.id - b.id)
+        );
+        return highlight;
+      } catch (err) {
+        console.error('Error creating highlight:', err);
+        return null;
+      }
+    },
+    [meetingId]
+  );
+
+  const updateNote = useCallback(
+    async (id: number, note: string | null): Promise<MeetingHighlight | null> => {
+      if (meetingId === null) return null;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/highlights/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ note }),
+        });
+        if (!response.ok) throw new Error('Failed to update highlight');
+        const highlight: MeetingHighlight = await response.json();
+        setHighlights((prev) =>
+          prev.map((existing) => (existing.id === id ? highlight : existing))
+        );
+        return highlight;
+      } catch (err) {
+        console.error('Error updating highlight:', err);
+        return null;
+      }
+    },
+    [meetingId]
+  );
+
+  const deleteHighlight = useCallback(
+    async (id: number): Promise<boolean> => {
+      if (meetingId === null) return false;
+
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/highlights/${id}`, {
+          method: 'DELETE',
+        });
+        if (!response.ok) throw new Error('Failed to delete highlight');
+        setHighlights((prev) => prev.filter((highlight) => highlight.id !== id));
+        return true;
+      } catch (err) {
+        console.error('Error deleting highlight:', err);
+        return false;
+      }
+    },
+    [meetingId]
+  );
+
+  // Load highlights on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    highlights,
+    isLoading,
+    error,
+    refresh,
+    addHighlight,
+    updateNote,
+    deleteHighlight,
+  };
+}
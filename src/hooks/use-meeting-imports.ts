@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AudioFileTooLargeError,
+  float32ArrayToWav,
+  openChunkedAudioFile,
+  type ChunkedAudioFile,
+} from '@/lib/audio';
+import {
+  IMPORT_CHUNK_MS,
+  MAX_IMPORT_DURATION_MS,
+  isImportActive,
+  type MeetingImportSummary,
+} from '@/lib/recording-import';
+
+// Whisper expects 16kHz mono audio
+const SAMPLE_RATE = 16000;
+
+// How often active imports are polled for progress
+const POLL_INTERVAL_MS = 3000;
+
+export interface ImportRecordingOptions {
+  title?: string | undefined;
+  /** When the recording started; segment times are anchored to it */
+  startedAt: Date;
+  /** Called as the file is measured and uploaded */
+  onProgress?: (stage: 'decoding' | 'uploading', progress: number) => void;
+}
+
+export interface UseMeetingImportsOptions {
+  /** Called when an import finishes transcribing and summarizing */
+  onCompleted?: (meetingImport: MeetingImportSummary) => void;
+}
+
+export interface UseMeetingImportsReturn {
+  /** Recent imports, newest first */
+  imports: MeetingImportSummary[];
+  /** Whether imports are being loaded */
+  isLoading: boolean;
+  /** Reload imports from the server */
+  refresh: () => Promise<void>;
+  /** Chunk and upload a recording; resolves once every chunk is uploaded */
+  importRecording: (file: File, options: ImportRecordingOptions) => Promise<MeetingImportSummary>;
+  /** Cancel an import that hasn't finished */
+  cancelImport: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Hook for importing past recordings. The file is read and split into
+ * chunks in the browser, a chunk at a time so long recordings fit in
+ * memory, uploaded, then transcribed in the background while progress
+ * is polled.
+ */
+export function useMeetingImports(
+  options: UseMeetingImportsOptions = {}
+): UseMeetingImportsReturn {
+  const [imports, setImports] = useState<MeetingImportSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Keep the callback fresh without restarting the poll
+  const onCompletedRef = useRef(options.onCompleted);
+  useEffect(() => {
+    onCompletedRef.current = options.onCompleted;
+  }, [options.onCompleted]);
+
+  // Last loaded list, to spot imports that have just finished
+  const importsRef = useRef<MeetingImportSummary[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/meetings/import');
+      if (!response.ok) throw new Error('Failed to fetch imports');
+      const data: { imports: MeetingImportSummary[] } = await response.json();
+
+      const previous = importsRef.current;
+      importsRef.current = data.imports;
+      setImports(data.imports);
+
+      for (const item of data.imports) {
+        const before = previous.find((p) => p.id === item.id);
+        if (before && isImportActive(before.status) && item.status === 'completed') {
+          onCompletedRef.current?.(item);
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching imports:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const importRecording = useCallback(
+    async (file: File, { title, startedAt, onProgress }: ImportRecordingOptions) => {
+      onProgress?.('decoding', 0);
+      let audio: ChunkedAudioFile;
+      try {
+        audio = await openChunkedAudioFile(file, IMPORT_CHUNK_MS, SAMPLE_RATE, (progress) =>
+          onProgress?.('decoding', progress)
+        );
+      } catch (err) {
+        if (err instanceof AudioFileTooLargeError) throw err;
+        throw new Error('Could not decode this audio file');
+      }
+
+      const { durationMs, totalChunks } = audio;
+      if (durationMs === 0) throw new Error('The recording is empty');
+      if (durationMs > MAX_IMPORT_DURATION_MS) throw new Error('The recording is too long');
+
+      onProgress?.('uploading', 0);
+
+      const response = await fetch('/api/meetings/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title || undefined,
+          fileName: file.name,
+          startedAt: startedAt.toISOString(),
+          durationMs,
+          chunkDurationMs: IMPORT_CHUNK_MS,
+          totalChunks,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start import');
+      }
+      const created: MeetingImportSummary = await response.json();
+      await refresh();
+
+      // Read and upload one chunk at a time to keep memory and bandwidth in check
+      let uploadError: string | null = null;
+      let index = 0;
+      try {
+        for await (const chunk of audio.chunks()) {
+          const formData = new FormData();
+          formData.append('index', index.toString());
+          formData.append('audio', float32ArrayToWav(chunk, SAMPLE_RATE), `${index}.wav`);
+
+          const upload = await fetch(`/api/meetings/import/${created.id}/chunks`, {
+            method: 'POST',
+            body: formData,
+          });
+          if (!upload.ok) {
+            const data = await upload.json().catch(() => ({}));
+            uploadError = data.error || `Failed to upload chunk ${index + 1}`;
+            break;
+          }
+          index++;
+          onProgress?.('uploading', index / totalChunks);
+        }
+      } catch (err) {
+        uploadError = err instanceof Error ? err.message : `Failed to read chunk ${index + 1}`;
+      }
+
+      if (uploadError) {
+        // Don't leave a half-uploaded import behind
+        await fetch(`/api/meetings/import/${created.id}`, { method: 'DELETE' }).catch(() => {});
+        await refresh();
+        throw new Error(uploadError);
+      }
+
+      await refresh();
+      return created;
+    },
+    [refresh]
+  );
+
+  const cancelImport = useCallback(
+    async (id: number): Promise<boolean> => {
+      try {
+        const response = await fetch(`/api/meetings/import/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error('Failed to cancel import');
+        await refresh();
+        return true;
+      } catch (err) {
+        console.error('Error cancelling import:', err);
+        return false;
+      }
+    },
+    [refresh]
+  );
+
+  // Load imports on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Poll while the server is processing; uploads report their own progress
+  const hasActive = imports.some(
+    (item) => isImportActive(item.status) && item.status !== 'uploading'
+  );
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, refresh]);
+
+  return {
+    imports,
+    isLoading,
+    refresh,
+    importRecording,
+    cancelImport,
+  };
+}
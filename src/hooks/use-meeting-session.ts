@@ -0,0 +1,440 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SummaryProgress } from '@/lib/meeting-ai';
+import {
+  clearActiveMeeting,
+  getActiveMeetingId,
+  getPendingTranscript,
+  setActiveMeetingId,
+  setPendingTranscript,
+} from '@/lib/meeting-session-storage';
+import type { Meeting } from '@/lib/schema';
+import {
+  MAX_SEGMENTS_PER_REQUEST,
+  segmentInputSchema,
+  type SegmentInput,
+} from '@/lib/transcript-segments';
+import type { TranscriptionSegment } from '@/lib/whisper';
+
+export type MeetingSessionState =
+  | 'idle'
+  | 'starting'
+  | 'active'
+  | 'ending'
+  | 'ended'
+  | 'error';
+
+// How often summary progress is polled while a meeting is ending
+const SUMMARY_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Whether a failed append will fail the same way if it is sent again.
+ * Timeouts and rate limits are worth retrying; other client errors aren't.
+ */
+function isRejected(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/** Speaker label used for assistant answers stored in the transcript */
+export const ASSISTANT_SPEAKER_LABEL = 'Assistant';
+
+/** Timing details for an utterance, used to place it on the meeting timeline */
+export interface UtteranceTiming {
+  /** When the recording containing the utterance started */
+  recordedAt: Date;
+  /** Timed segments from a detailed transcription, relative to recordedAt */
+  segments?: TranscriptionSegment[] | undefined;
+  /** Length of the recording in seconds */
+  duration?: number | undefined;
+  /** Detected language */
+  language?: string | undefined;
+}
+
+export interface UseMeetingSessionOptions {
+  /** Title used when a new meeting record is created */
+  title?: string;
+  /** Interval for retrying transcript segments that failed to save (default: 10000) */
+  retryIntervalMs?: number;
+  /** Callback when a request to the meetings API fails */
+  onError?: (error: Error) => void;
+}
+
+export interface UseMeetingSessionReturn {
+  /** ID of the meeting record backing this session */
+  meetingId: number | null;
+  /** Current session state */
+  state: MeetingSessionState;
+  /** Whether the session was resumed after a reload or crash */
+  isRecovered: boolean;
+  /** Number of transcript segments waiting to be saved */
+  pendingCount: number;
+  /** Progress of the summary while a long meeting is ending */
+  summaryProgress: SummaryProgress | null;
+  /** Create the meeting record if one does not exist yet */
+  startMeeting: () => Promise<number | null>;
+  /** Queue a spoken utterance to be appended to the transcript */
+  appendTranscript: (text: string, timing?: UtteranceTiming) => void;
+  /** Queue an assistant answer to be appended to the transcript */
+  appendAssistantResponse: (text: string) => void;
+  /** Save queued segments now, e.g. before reading the transcript back */
+  flushTranscript: () => Promise<void>;
+  /** Save pending segments, end the meeting and generate its summary */
+  endMeeting: () => Promise<Meeting | null>;
+}
+
+/**
+ * Hook that persists a live meeting session as a meeting record.
+ *
+ * Transcript segments are queued locally and appended to the meeting one
+ * request at a time, so concurrent utterances never overwrite each other.
+ * The active meeting ID and unsaved segments survive a page reload.
+ *
+ * @example
+ * ```tsx
+ * const { appendTranscript, endMeeting } = useMeetingSession();
+ *
+ * useEffect(() => {
+ *   if (transcription?.text) appendTranscript(transcription.text, { recordedAt });
+ * }, [transcription, appendTranscript]);
+ * ```
+ */
+export function useMeetingSession(
+  options: UseMeetingSessionOptions = {}
+): UseMeetingSessionReturn {
+  const { title, retryIntervalMs = 10000, onError } = options;
+
+  const [meetingId, setMeetingId] = useState<number | null>(null);
+  const [state, setState] = useState<MeetingSessionState>('idle');
+  const [isRecovered, setIsRecovered] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+
+  // Refs so queued work always sees the latest values
+  const meetingIdRef = useRef<number | null>(null);
+  const pendingRef = useRef<SegmentInput[]>([]);
+  const startPromiseRef = useRef<Promise<number | null> | null>(null);
+  const flushPromiseRef = useRef<Promise<void> | null>(null);
+  // Set once ending starts; no new meeting may be created after that
+  const endingRef = useRef(false);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  const reportError = useCallback((error: unknown) => {
+    const err =
+      error instanceof Error ? error : new Error('Meeting session error');
+    console.error('Meeting session error:', err);
+    onErrorRef.current?.(err);
+  }, []);
+
+  const updatePending = useCallback((segments: SegmentInput[]) => {
+    pendingRef.current = segments;
+    setPendingTranscript(segments);
+    setPendingCount(segments.length);
+  }, []);
+
+  const activate = useCallback((id: number) => {
+    meetingIdRef.current = id;
+    setActiveMeetingId(id);
+    setMeetingId(id);
+    setState('active');
+  }, []);
+
+  /**
+   * Create the meeting record, reusing an in-flight request if there is one
+   */
+  const startMeeting = useCallback(async (): Promise<number | null> => {
+    if (meetingIdRef.current !== null) return meetingIdRef.current;
+    if (startPromiseRef.current) return startPromiseRef.current;
+    if (endingRef.current) return null;
+
+    startPromiseRef.current = (async () => {
+      setState('starting');
+      try {
+        const response = await fetch('/api/meetings', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title: title ?? '' }),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to start meeting: ${response.status}`);
+        }
+        const meeting: Meeting = await response.json();
+        activate(meeting.id);
+        return meeting.id;
+      } catch (error) {
+        setState('error');
+        reportError(error);
+        return null;
+      } finally {
+        startPromiseRef.current = null;
+      }
+    })();
+
+    return startPromiseRef.current;
+  }, [title, activate, reportError]);
+
+  /**
+   * Append pending segments to the meeting, at most MAX_SEGMENTS_PER_REQUEST
+   * per request. Segments stay queued if a request fails and are retried
+   * later; segments the server rejects are dropped and reported, so one bad
+   * batch can't hold up the rest of the transcript.
+   */
+  const flushPending = useCallback(async (): Promise<void> => {
+    if (flushPromiseRef.current) return flushPromiseRef.current;
+    if (pendingRef.current.length === 0) return;
+
+    flushPromiseRef.current = (async () => {
+      try {
+        const id = meetingIdRef.current ?? (await startMeeting());
+        if (id === null) return;
+
+        while (pendingRef.current.length > 0) {
+          const batch = pendingRef.current.slice(0, MAX_SEGMENTS_PER_REQUEST);
+
+          // Segments the server would reject are dropped before sending
+          const valid = batch.filter((segment) => segmentInputSchema.safeParse(segment).success);
+          if (valid.length < batch.length) {
+            reportError(
+              new Error(
+                `${batch.length - valid.length} transcript segment(s) were invalid and could not be saved`
+              )
+            );
+          }
+
+          if (valid.length > 0) {
+            const response = await fetch(`/api/meetings/${id}/segments`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ segments: valid }),
+            });
+            if (isRejected(response.status)) {
+              reportError(
+                new Error(
+                  `${valid.length} transcript segment(s) were rejected (${response.status}) and could not be saved`
+                )
+              );
+            } else if (!response.ok) {
+              throw new Error(`Failed to save transcript: ${response.status}`);
+            }
+          }
+
+          // Segments may have been queued while the request was in flight
+          updatePending(pendingRef.current.slice(batch.length));
+        }
+      } catch (error) {
+        reportError(error);
+      } finally {
+        flushPromiseRef.current = null;
+      }
+    })();
+
+    await flushPromiseRef.current;
+
+    // Pick up anything queued during the previous flush
+    if (pendingRef.current.length > 0 && meetingIdRef.current !== null) {
+      void flushPending();
+    }
+  }, [startMeeting, updatePending, reportError]);
+
+  const enqueue = useCallback(
+    (segments: SegmentInput[]) => {
+      // Speech or answers arriving after the meeting ended belong to no meeting
+      if (endingRef.current && meetingIdRef.current === null) return;
+      updatePending([...pendingRef.current, ...segments]);
+      void flushPending();
+    },
+    [updatePending, flushPending]
+  );
+
+  const appendTranscript = useCallback(
+    (text: string, timing?: UtteranceTiming) => {
+      const trimmed = text.trim();
+      if (!trimmed) return;
+
+      const recordedAt = (timing?.recordedAt ?? new Date()).toISOString();
+      const language = timing?.language ?? null;
+      const timed = (timing?.segments ?? []).filter((segment) => segment.text.trim());
+
+      if (timed.length > 0) {
+        enqueue(
+          timed.map((segment) => ({
+            text: segment.text.trim(),
+            recordedAt,
+            start: segment.start,
+            end: segment.end,
+            confidence: segment.confidence ?? null,
+            language,
+            speaker: segment.speaker ?? null,
+          }))
+        );
+      } else {
+        // No segment timing - store the whole utterance as one segment
+        enqueue([
+          {
+            text: trimmed,
+            recordedAt,
+            start: 0,
+            end: timing?.duration ?? 0,
+            language,
+          },
+        ]);
+      }
+    },
+    [enqueue]
+  );
+
+  const appendAssistantResponse = useCallback(
+    (text: string) => {
+      const trimmed = text.trim();
+      if (trimmed) {
+        enqueue([
+          {
+            text: trimmed,
+            recordedAt: new Date().toISOString(),
+            speaker: ASSISTANT_SPEAKER_LABEL,
+          },
+        ]);
+      }
+    },
+    [enqueue]
+  );
+
+  /**
+   * End the meeting once every pending segment has been saved
+   */
+  const endMeeting = useCallback(async (): Promise<Meeting | null> => {
+    const id = meetingIdRef.current;
+    if (id === null) return null;
+
+    endingRef.current = true;
+    setState('ending');
+    try {
+      // A flush may already be in flight, so give queued segments a few passes
+      for (let attempt = 0; attempt < 3 && pendingRef.current.length > 0; attempt++) {
+        await flushPending();
+      }
+      if (pendingRef.current.length > 0) {
+        throw new Error('Some transcript segments could not be saved');
+      }
+
+      const response = await fetch(`/api/meetings/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endMeeting: true }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to end meeting: ${response.status}`);
+      }
+      const meeting: Meeting = await response.json();
+
+      clearActiveMeeting();
+      meetingIdRef.current = null;
+      setPendingCount(0);
+      setState('ended');
+      return meeting;
+    } catch (error) {
+      endingRef.current = false;
+      setState('active');
+      reportError(error);
+      return null;
+    }
+  }, [flushPending, reportError]);
+
+  // Resume a meeting from the URL (?id=) or from a previous session
+  useEffect(() => {
+    let cancelled = false;
+
+    async function recover() {
+      const params = new URLSearchParams(window.location.search);
+      const requestedId = parseInt(params.get('id') ?? '', 10);
+      const storedId = getActiveMeetingId();
+      const candidateId = !isNaN(requestedId) ? requestedId : storedId;
+
+      // Segments from a different meeting must not leak into this one
+      if (candidateId !== storedId) {
+        clearActiveMeeting();
+      }
+      if (candidateId === null) return;
+
+      try {
+        const response = await fetch(`/api/meetings/${candidateId}`);
+        if (cancelled) return;
+        if (!response.ok) {
+          clearActiveMeeting();
+          return;
+        }
+
+        const meeting: Meeting = await response.json();
+        if (cancelled) return;
+        if (meeting.endedAt) {
+          clearActiveMeeting();
+          return;
+        }
+
+        activate(meeting.id);
+        setIsRecovered(candidateId === storedId);
+        updatePending(getPendingTranscript());
+        void flushPending();
+      } catch (error) {
+        reportError(error);
+      }
+    }
+
+    recover();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activate, updatePending, flushPending, reportError]);
+
+  // Periodically retry segments that failed to save
+  useEffect(() => {
+    if (state !== 'active') return;
+
+    const interval = setInterval(() => {
+      if (pendingRef.current.length > 0) {
+        void flushPending();
+      }
+    }, retryIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [state, retryIntervalMs, flushPending]);
+
+  // Follow summary generation while the meeting is ending
+  useEffect(() => {
+    if (state !== 'ending' || meetingId === null) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/summary`);
+        if (!response.ok) return;
+        const data: { progress: SummaryProgress | null } = await response.json();
+        setSummaryProgress(data.progress);
+      } catch {
+        // Progress is informational; the end request reports real failures
+      }
+    }, SUMMARY_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      setSummaryProgress(null);
+    };
+  }, [state, meetingId]);
+
+  return {
+    meetingId,
+    state,
+    isRecovered,
+    pendingCount,
+    summaryProgress,
+    startMeeting,
+    appendTranscript,
+    appendAssistantResponse,
+    flushTranscript: flushPending,
+    endMeeting,
+  };
+}
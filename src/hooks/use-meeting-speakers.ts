@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type {
+  MeetingSpeakerSummary,
+  SpeakerNames,
+  UpdateSpeakersInput,
+} from '@/lib/transcript-segments';
+
+export interface UseMeetingSpeakersReturn {
+  /** Speakers heard in the meeting, in order of first appearance */
+  speakers: MeetingSpeakerSummary[];
+  /** Speaker label -> display name */
+  names: SpeakerNames;
+  /** Whether speakers are being loaded */
+  isLoading: boolean;
+  /** Reload speakers from the server */
+  refresh: () => Promise<void>;
+  /** Rename speakers; returns false if the request failed */
+  renameSpeakers: (speakers: UpdateSpeakersInput['speakers']) => Promise<boolean>;
+}
+
+/**
+ * Hook for loading a meeting's diarized speakers and renaming them.
+ */
+export function useMeetingSpeakers(meetingId: number | string): UseMeetingSpeakersReturn {
+  const [speakers, setSpeakers] = useState<MeetingSpeakerSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/meetings/${meetingId}/speakers`);
+      if (!response.ok) throw new Error('Failed to fetch speakers');
+      const data: MeetingSpeakerSummary[] = await response.json();
+      setSpeakers(data);
+    } catch (err) {
+      console.error('Error fetching speakers:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId]);
+
+  const renameSpeakers = useCallback(
+    async (updates: UpdateSpeakersInput['speakers']): Promise<boolean> => {
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/speakers`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ speakers: updates }),
+        });
+        if (!response.ok) throw new Error('Failed to rename speakers');
+        const data: MeetingSpeakerSummary[] = await response.json();
+        setSpeakers(data);
+        return true;
+      } catch (err) {
+        console.error('Error renaming speakers:', err);
+        return false;
+      }
+    },
+    [meetingId]
+  );
+
+  const names = useMemo(
+    () =>
+      Object.fromEntries(
+        speakers.flatMap((speaker) => (speaker.name ? [[speaker.label, speaker.name]] : []))
+      ) as SpeakerNames,
+    [speakers]
+  );
+
+  // Load speakers on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    speakers,
+    names,
+    isLoading,
+    refresh,
+    renameSpeakers,
+  };
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TranscriptSegment } from '@/lib/schema';
+import {
+  getEditorName,
+  saveEditorName,
+  type SegmentRevisionEntry,
+} from '@/lib/segment-revisions';
+
+export interface UseSegmentRevisionsReturn {
+  /** Corrections made to the transcript, newest first */
+  revisions: SegmentRevisionEntry[];
+  /** Whether revisions are being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Name new corrections are recorded under, remembered in this browser */
+  editorName: string;
+  /** Change the name new corrections are recorded under */
+  setEditorName: (name: string) => void;
+  /** Reload revisions from the server */
+  refresh: () => Promise<void>;
+  /** Correct the text of a segment; returns the updated segment */
+  editSegment: (segmentId: number, text: string) => Promise<TranscriptSegment | null>;
+  /** Undo a correction; returns the restored segment */
+  revert: (revisionId: number) => Promise<TranscriptSegment | null>;
+}
+
+/**
+ * Hook for correcting a meeting's transcript and browsing its revision history.
+ */
+export function useSegmentRevisions(meetingId: number | string): UseSegmentRevisionsReturn {
+  const [revisions, setRevisions] = useState<SegmentRevisionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editorName, setEditorNameState] = useState('');
+
+  const setEditorName = useCallback((name: string) => {
+    setEditorNameState(name);
+    saveEditorName(name);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/meetings/${meetingId}/revisions`);
+      if (!response.ok) throw new Error('Failed to fetch revisions');
+      const data: SegmentRevisionEntry[] = await response.json();
+      setRevisions(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching revisions:', err);
+      setError('Failed to load edit history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [meetingId]);
+
+  const editSegment = useCallback(
+    async (segmentId: number, text: string): Promise<TranscriptSegment | null> => {
+      try {
+        const response = await fetch(`/api/meetings/${meetingId}/segments/${segmentId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text, editedBy: editorName || null }),
+        });
+        if (!response.ok) throw new Error('Failed to update segment');
+        const segment: TranscriptSegment = await response.json();
+        await refresh();
+        return segment;
+      } catch (err) {
+        console.error('Error updating segment:', err);
+        return null;
+      }
+    },
+    [meetingId, editorName, refresh]
+  );
+
+  const revert = useCallback(
+    async (revisionId: number): Promise<TranscriptSegment | null> => {
+      try {
+        const response = await fetch(
+          `/api/meetings/${meetingId}/revisions/${revisionId}/revert`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ editedBy: editorName || null }),
+          }
+        );
+        if (!response.ok) throw new Error('Failed to revert revision');
+        const { segment }: { segment: TranscriptSegment } = await response.json();
+        await refresh();
+        return segment;
+      } catch (err) {
+        console.error('Error reverting revision:', err);
+        return null;
+      }
+    },
+    [meetingId, editorName, refresh]
+  );
+
+  // Restore the remembered name after mount; localStorage isn't available while rendering
+  useEffect(() => {
+    setEditorNameState(getEditorName());
+  }, []);
+
+  // Load revisions on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    revisions,
+    isLoading,
+    error,
+    editorName,
+    setEditorName,
+    refresh,
+    editSegment,
+    revert,
+  };
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SeriesTimeline, UpdateSeriesInput } from '@/lib/meeting-series';
+import type { MeetingSeries } from '@/lib/schema';
+
+export interface UseSeriesTimelineReturn {
+  /** The series and its meetings, or null until loaded */
+  timeline: SeriesTimeline | null;
+  /** Whether the timeline is being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload the timeline from the server */
+  refresh: () => Promise<void>;
+  /** Rename the series or change its description */
+  updateSeries: (input: UpdateSeriesInput) => Promise<MeetingSeries | null>;
+  /** Delete the series; its meetings are kept */
+  deleteSeries: () => Promise<boolean>;
+}
+
+/**
+ * Hook for a meeting series and the timeline of its meetings.
+ */
+export function useSeriesTimeline(seriesId: number | string): UseSeriesTimelineReturn {
+  const [timeline, setTimeline] = useState<SeriesTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/series/${seriesId}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Series not found' : 'Failed to load series');
+      }
+      const data: SeriesTimeline = await response.json();
+      setTimeline(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching series:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load series');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [seriesId]);
+
+  const updateSeries = useCallback(
+    async (input: UpdateSeriesInput): Promise<MeetingSeries | null> => {
+      try {
+        const response = await fetch(`/api/series/${seriesId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to update series');
+        const updated: MeetingSeries = await response.json();
+        setTimeline((prev) => (prev ? { ...prev, series: updated } : prev));
+        return updated;
+      } catch (err) {
+        console.error('Error updating series:', err);
+        return null;
+      }
+    },
+    [seriesId]
+  );
+
+  const deleteSeries = useCallback(async (): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/series/${seriesId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete series');
+      return true;
+    } catch (err) {
+      console.error('Error deleting series:', err);
+      return false;
+    }
+  }, [seriesId]);
+
+  // Load the timeline on mount and when the series changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    timeline,
+    isLoading,
+    error,
+    refresh,
+    updateSeries,
+    deleteSeries,
+  };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CreateSeriesInput, SeriesSummary } from '@/lib/meeting-series';
+import type { MeetingSeries } from '@/lib/schema';
+
+export interface UseSeriesReturn {
+  /** Every meeting series, most recently active first */
+  series: SeriesSummary[];
+  /** Whether series are being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Reload series from the server */
+  refresh: () => Promise<void>;
+  /** Create a series */
+  createSeries: (input: CreateSeriesInput) => Promise<MeetingSeries | null>;
+}
+
+/**
+ * Hook for listing and creating recurring meeting series.
+ */
+export function useSeries(): UseSeriesReturn {
+  const [series, setSeries] = useState<SeriesSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/series');
+      if (!response.ok) throw new Error('Failed to fetch series');
+      const data: SeriesSummary[] = await response.json();
+      setSeries(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching series:', err);
+      setError('Failed to load series');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createSeries = useCallback(
+    async (input: CreateSeriesInput): Promise<MeetingSeries | null> => {
+      try {
+        const response = await fetch('/api/series', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error('Failed to create series');
+        const created: MeetingSeries = await response.json();
+        setSeries((prev) => [{ ...created, meetingCount: 0, lastMeetingAt: null }, ...prev]);
+        return created;
+      } catch (err) {
+        console.error('Error creating series:', err);
+        return null;
+      }
+    },
+    []
+  );
+
+  // Load series on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    series,
+    isLoading,
+    error,
+    refresh,
+    createSeries,
+  };
+}
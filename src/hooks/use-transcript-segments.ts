@@ -0,0 +1,133 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TranscriptSegment } from '@/lib/schema';
+
+export interface UseTranscriptSegmentsOptions {
+  /** Number of segments loaded per page (default: 200) */
+  pageSize?: number;
+}
+
+export interface UseTranscriptSegmentsReturn {
+  /** Segments loaded so far, in spoken order */
+  segments: TranscriptSegment[];
+  /** Total number of segments stored for the meeting */
+  total: number;
+  /** Whether more segments can be loaded */
+  hasMore: boolean;
+  /** Whether a page is being loaded */
+  isLoading: boolean;
+  /** Error message if loading failed */
+  error: string | null;
+  /** Load the next page of segments */
+  loadMore: () => Promise<void>;
+  /** Load pages until the segment spoken at `ms` (offset from the meeting start) is loaded */
+  loadThrough: (ms: number) => Promise<void>;
+  /** Reload segments from the first page */
+  refresh: () => Promise<void>;
+  /** Swap in a segment updated elsewhere, e.g. after a correction */
+  replaceSegment: (segment: TranscriptSegment) => void;
+}
+
+interface SegmentPage {
+  segments: TranscriptSegment[];
+  total: number;
+}
+
+/**
+ * Hook for paging through the timestamped transcript of a meeting.
+ */
+export function useTranscriptSegments(
+  meetingId: number | string,
+  options: UseTranscriptSegmentsOptions = {}
+): UseTranscriptSegmentsReturn {
+  const { pageSize = 200 } = options;
+
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    async (offset: number): Promise<SegmentPage | null> => {
+      try {
+        setIsLoading(true);
+        const params = new URLSearchParams({
+          limit: String(pageSize),
+          offset: String(offset),
+        });
+        const response = await fetch(`/api/meetings/${meetingId}/segments?${params}`);
+        if (!response.ok) throw new Error('Failed to fetch transcript segments');
+        const page: SegmentPage = await response.json();
+        setError(null);
+        return page;
+      } catch (err) {
+        console.error('Error fetching transcript segments:', err);
+        setError('Failed to load transcript');
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [meetingId, pageSize]
+  );
+
+  const refresh = useCallback(async () => {
+    const page = await fetchPage(0);
+    if (page) {
+      setSegments(page.segments);
+      setTotal(page.total);
+    }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    const page = await fetchPage(segments.length);
+    if (page) {
+      setSegments((prev) => [...prev, ...page.segments]);
+      setTotal(page.total);
+    }
+  }, [fetchPage, segments.length]);
+
+  const loadThrough = useCallback(
+    async (ms: number) => {
+      let loaded = segments;
+      let loadedTotal = total;
+
+      while (loaded.length < loadedTotal && (loaded.at(-1)?.endMs ?? -1) < ms) {
+        const page = await fetchPage(loaded.length);
+        if (!page || page.segments.length === 0) break;
+        loaded = [...loaded, ...page.segments];
+        loadedTotal = page.total;
+      }
+
+      if (loaded !== segments) {
+        setSegments(loaded);
+        setTotal(loadedTotal);
+      }
+    },
+    [fetchPage, segments, total]
+  );
+
+  const replaceSegment = useCallback((segment: TranscriptSegment) => {
+    setSegments((prev) =>
+      prev.map((existing) => (existing.id === segment.id ? segment : existing))
+    );
+  }, []);
+
+  // Load the first page on mount and when the meeting changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    segments,
+    total,
+    hasMore: segments.length < total,
+    isLoading,
+    error,
+    loadMore,
+    loadThrough,
+    refresh,
+    replaceSegment,
+  };
+}
@@ -29,10 +29,18 @@ export interface UseTranscriptionOptions extends UseAudioOptions {
   autoTranscribe?: boolean;
   /** Language hint for transcription (optional) */
   language?: string;
+  /** Request timed segments along with the text */
+  detailed?: boolean;
+  /** Label segments by speaker (only applies to detailed transcriptions) */
+  diarize?: boolean;
+  /** Clips with the same session ID keep the same speaker labels */
+  sessionId?: string | undefined;
   /** Keep history of transcriptions */
   keepHistory?: boolean;
   /** Maximum history entries to keep */
   maxHistoryEntries?: number;
+  /** Called with each finished recording and when it started */
+  onRecorded?: ((audio: Blob, startedAt: Date) => void) | undefined;
 }
 
 export interface UseTranscriptionReturn {
@@ -44,6 +52,8 @@ export interface UseTranscriptionReturn {
   audioLevel: number;
   /** Most recent transcription result */
   transcription: TranscriptionResult | null;
+  /** When the recording behind the most recent result started */
+  recordingStartedAt: Date | null;
   /** Full transcription text (concatenated history) */
   fullText: string;
   /** Transcription history */
@@ -95,8 +105,12 @@ export function useTranscription(
   const {
     autoTranscribe = true,
     language,
+    detailed = false,
+    diarize = false,
+    sessionId,
     keepHistory = true,
     maxHistoryEntries = 100,
+    onRecorded,
     ...audioOptions
   } = options;
 
@@ -108,6 +122,7 @@ export function useTranscription(
     useState<TranscriptionState>('idle');
   const [transcription, setTranscription] =
     useState<TranscriptionResult | null>(null);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<Date | null>(null);
   const [history, setHistory] = useState<TranscriptionEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [serviceAvailable, setServiceAvailable] = useState(true);
@@ -144,6 +159,9 @@ export function useTranscription(
         const result = await transcribeAudio(audioBlob, {
           language,
           task: 'transcribe',
+          detailed,
+          diarize,
+          sessionId,
         });
 
         setTranscription(result);
@@ -190,7 +208,7 @@ export function useTranscription(
         isTranscribingRef.current = false;
       }
     },
-    [language, keepHistory, maxHistoryEntries]
+    [language, detailed, diarize, sessionId, keepHistory, maxHistoryEntries]
   );
 
   /**
@@ -199,6 +217,7 @@ export function useTranscription(
   const startRecording = useCallback(async () => {
     setError(null);
     setTranscriptionState('recording');
+    setRecordingStartedAt(new Date());
     await audio.startRecording();
   }, [audio]);
 
@@ -213,13 +232,17 @@ export function useTranscription(
       return null;
     }
 
+    if (onRecorded) {
+      onRecorded(audioBlob, recordingStartedAt ?? new Date());
+    }
+
     if (autoTranscribe) {
       return transcribe(audioBlob);
     } else {
       setTranscriptionState('ready');
       return null;
     }
-  }, [audio, autoTranscribe, transcribe]);
+  }, [audio, autoTranscribe, transcribe, onRecorded, recordingStartedAt]);
 
   /**
    * Cancel recording without transcribing
@@ -271,6 +294,7 @@ export function useTranscription(
     audioState: audio.state,
     audioLevel: audio.audioLevel,
     transcription,
+    recordingStartedAt,
     fullText,
     history,
     error: error || audio.error,
@@ -0,0 +1,26 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ * Used to start background jobs that run inside the Node.js server.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startRetentionScheduler } = await import("@/lib/retention");
+    startRetentionScheduler();
+
+    // Pick up recording imports interrupted by a restart
+    const { resumeMeetingImports } = await import("@/lib/meeting-import");
+    resumeMeetingImports().catch((error) =>
+      console.error("Failed to resume meeting imports:", error)
+    );
+
+    // Pick up document ingestion interrupted by a restart
+    const { resumeDocumentJobs } = await import("@/lib/document-jobs");
+    resumeDocumentJobs().catch((error) =>
+      console.error("Failed to resume document jobs:", error)
+    );
+
+    // Make meetings that ended before search existed (or failed to index) searchable
+    const { startMeetingIndexScheduler } = await import("@/lib/meeting-index");
+    startMeetingIndexScheduler();
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * A stand-in for the Drizzle client in unit tests. Every query chain
+ * (db.select()..., db.update()..., and the same inside a transaction)
+ * resolves to the next queued result, in the order the queries are awaited.
+ * The methods called on the chains are recorded so tests can check what
+ * was written.
+ */
+
+export interface FakeDbCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface FakeDb {
+  /** Pass as the `db` export of a mocked "@/lib/db" */
+  db: unknown;
+  /** Every chain method called, in order */
+  calls: FakeDbCall[];
+  /** Queue more results */
+  queue: (...results: unknown[]) => void;
+  /** Forget the recorded calls and start over with these results */
+  reset: (...results: unknown[]) => void;
+  /** Arguments of each call to one method, e.g. "set" or "values" */
+  argsOf: (method: string) => unknown[][];
+}
+
+export function createFakeDb(...results: unknown[]): FakeDb {
+  const pending = [...results];
+  const calls: FakeDbCall[] = [];
+
+  const chain = (): unknown =>
+    new Proxy(
+      {},
+      {
+        get(_target, prop) {
+          if (prop === "then") {
+            if (pending.length === 0) throw new Error("Unexpected query: no result queued");
+            const result = pending.shift();
+            return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+              Promise.resolve(result).then(resolve, reject);
+          }
+          return (...args: unknown[]) => {
+            calls.push({ method: String(prop), args });
+            return chain();
+          };
+        },
+      }
+    );
+
+  const db: unknown = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === "then") return undefined;
+        if (prop === "transaction") {
+          return (run: (tx: unknown) => Promise<unknown>) => run(db);
+        }
+        return (...args: unknown[]) => {
+          calls.push({ method: String(prop), args });
+          return chain();
+        };
+      },
+    }
+  );
+
+  return {
+    db,
+    calls,
+    queue: (...more) => pending.push(...more),
+    reset: (...next) => {
+      pending.splice(0, pending.length, ...next);
+      calls.length = 0;
+    },
+    argsOf: (method) => calls.filter((call) => call.method === method).map((call) => call.args),
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  getConfirmedAt,
+  isOverdue,
+  isPendingSuggestion,
+  parseActionItemStatus,
+  toDueDate,
+  updateActionItemSchema,
+} from "@/lib/action-items";
+
+const now = new Date("2024-03-01T12:00:00Z");
+
+describe("getConfirmedAt", () => {
+  it("confirms a suggestion that was edited, so re-analysis keeps it", () => {
+    const confirmedAt = getConfirmedAt({ task: "Send the final deck" }, undefined, now);
+    const item = { aiSuggested: true, confirmedAt: confirmedAt ?? null };
+
+    expect(confirmedAt).toEqual(now);
+    expect(isPendingSuggestion(item)).toBe(false);
+  });
+
+  it("confirms a suggestion that was checked off or reassigned", () => {
+    expect(getConfirmedAt({ completed: true }, undefined, now)).toEqual(now);
+    expect(getConfirmedAt({ assignee: null }, undefined, now)).toEqual(now);
+  });
+
+  it("confirms when asked to, without other changes", () => {
+    expect(getConfirmedAt({}, true, now)).toEqual(now);
+  });
+
+  it("leaves the confirmation alone when nothing changes", () => {
+    expect(getConfirmedAt({}, undefined, now)).toBeUndefined();
+  });
+});
+
+describe("isPendingSuggestion", () => {
+  it("is pending only for unconfirmed suggestions", () => {
+    expect(isPendingSuggestion({ aiSuggested: true, confirmedAt: null })).toBe(true);
+    expect(isPendingSuggestion({ aiSuggested: true, confirmedAt: now.toISOString() })).toBe(false);
+    expect(isPendingSuggestion({ aiSuggested: false, confirmedAt: null })).toBe(false);
+  });
+});
+
+describe("updateActionItemSchema", () => {
+  it("only accepts true for confirmed", () => {
+    expect(updateActionItemSchema.safeParse({ confirmed: true }).success).toBe(true);
+    expect(updateActionItemSchema.safeParse({ confirmed: false }).success).toBe(false);
+  });
+});
+
+describe("toDueDate", () => {
+  it("keeps undefined, clears with null or an empty string, and parses dates", () => {
+    expect(toDueDate(undefined)).toBeUndefined();
+    expect(toDueDate(null)).toBeNull();
+    expect(toDueDate("")).toBeNull();
+    expect(toDueDate("2024-03-08")).toEqual(new Date("2024-03-08"));
+  });
+});
+
+describe("parseActionItemStatus", () => {
+  it("defaults to all items", () => {
+    expect(parseActionItemStatus("open")).toBe("open");
+    expect(parseActionItemStatus("completed")).toBe("completed");
+    expect(parseActionItemStatus("done")).toBe("all");
+    expect(parseActionItemStatus(null)).toBe("all");
+  });
+});
+
+describe("isOverdue", () => {
+  it("is overdue only when open and past its due date", () => {
+    expect(isOverdue({ completed: false, dueDate: "2024-02-28" }, now)).toBe(true);
+    expect(isOverdue({ completed: true, dueDate: "2024-02-28" }, now)).toBe(false);
+    expect(isOverdue({ completed: false, dueDate: "2024-03-08" }, now)).toBe(false);
+    expect(isOverdue({ completed: false, dueDate: null }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import type { ActionItem } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+// Due dates arrive as ISO strings ("2024-01-31" or a full timestamp) or null to clear
+const dueDateSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid due date")
+  .nullable();
+
+export const createActionItemSchema = z.object({
+  task: z.string().trim().min(1, "Task is required").max(2000, "Task too long"),
+  assignee: z.string().trim().max(255, "Assignee too long").nullable().optional(),
+  dueDate: dueDateSchema.optional(),
+});
+
+export const updateActionItemSchema = z.object({
+  task: z.string().trim().min(1, "Task is required").max(2000, "Task too long").optional(),
+  assignee: z.string().trim().max(255, "Assignee too long").nullable().optional(),
+  dueDate: dueDateSchema.optional(),
+  completed: z.boolean().optional(),
+  // Confirm an AI-suggested item as a real follow-up
+  confirmed: z.literal(true).optional(),
+});
+
+export type CreateActionItemInput = z.infer<typeof createActionItemSchema>;
+export type UpdateActionItemInput = z.infer<typeof updateActionItemSchema>;
+
+// ===========================================
+// Filters
+// ===========================================
+
+export type ActionItemStatus = "open" | "completed" | "all";
+
+/**
+ * Parse the `status` query parameter, defaulting to all items
+ */
+export function parseActionItemStatus(value: string | null): ActionItemStatus {
+  return value === "open" || value === "completed" ? value : "all";
+}
+
+/**
+ * Convert an optional due date string into a Date (or null to clear it)
+ */
+export function toDueDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  return new Date(value);
+}
+
+/**
+ * An AI-suggested item stays a suggestion until a person confirms it.
+ * Regenerating the summary replaces pending suggestions.
+ */
+export function isPendingSuggestion(
+  item: Pick<ActionItem, "aiSuggested"> & { confirmedAt: Date | string | null }
+): boolean {
+  return item.aiSuggested && !item.confirmedAt;
+}
+
+/**
+ * When an update confirms an action item or decision. Editing a suggestion
+ * accepts it just like confirming it, so regenerating the summary keeps it.
+ *
+ * @param changes - The fields being updated
+ * @returns The confirmation time, or undefined if the update leaves it alone
+ */
+export function getConfirmedAt(
+  changes: object,
+  confirmed: boolean | undefined,
+  now: Date = new Date()
+): Date | undefined {
+  return confirmed || Object.keys(changes).length > 0 ? now : undefined;
+}
+
+/**
+ * An action item is overdue when it is still open and its due date has passed
+ */
+export function isOverdue(
+  item: Pick<ActionItem, "completed"> & { dueDate: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  if (item.completed || !item.dueDate) return false;
+  return new Date(item.dueDate).getTime() < now.getTime();
+}
+
+// ===========================================
+// Response Types
+// ===========================================
+
+/**
+ * Action item joined with the title of the meeting it came from
+ */
+export type ActionItemWithMeeting = ActionItem & {
+  meetingTitle: string | null;
+};
@@ -0,0 +1,156 @@
+import { and, asc, eq, gte, isNotNull, isNull } from "drizzle-orm";
+import type { AgendaItemInput } from "@/lib/agenda";
+import { db } from "@/lib/db";
+import { detectAgendaTopic } from "@/lib/meeting-ai";
+import { getSpeakerNames } from "@/lib/meeting-transcript";
+import { agendaItems, meetings, transcriptSegments, type AgendaItem } from "@/lib/schema";
+import { formatSegmentLine } from "@/lib/transcript-segments";
+
+// How much of the latest conversation is used to tell which topic is on
+const RECENT_TRANSCRIPT_MS = 3 * 60 * 1000;
+
+// Survive module reloads in development so a meeting is only checked once at a time
+const globalForAgenda = globalThis as unknown as {
+  agendaChecks?: Map<number, Promise<AgendaItem[]>>;
+  agendaCheckedSegmentIds?: Map<number, number>;
+};
+const checks = (globalForAgenda.agendaChecks ??= new Map());
+const checkedSegmentIds = (globalForAgenda.agendaCheckedSegmentIds ??= new Map());
+
+/**
+ * List a meeting's agenda in order
+ */
+export async function getAgenda(meetingId: number): Promise<AgendaItem[]> {
+  return db
+    .select()
+    .from(agendaItems)
+    .where(eq(agendaItems.meetingId, meetingId))
+    .orderBy(asc(agendaItems.position));
+}
+
+/**
+ * Replace a meeting's agenda. While the meeting is running the first topic
+ * starts right away.
+ *
+ * @param startedAt - When the first topic starts, or null for a meeting that has ended
+ */
+export async function replaceAgenda(
+  meetingId: number,
+  items: AgendaItemInput[],
+  startedAt: Date | null
+): Promise<AgendaItem[]> {
+  await db.delete(agendaItems).where(eq(agendaItems.meetingId, meetingId));
+  checkedSegmentIds.delete(meetingId);
+  if (items.length === 0) return [];
+
+  return db
+    .insert(agendaItems)
+    .values(
+      items.map((item, position) => ({
+        meetingId,
+        position,
+        topic: item.topic,
+        durationMinutes: item.durationMinutes,
+        startedAt: position === 0 ? startedAt : null,
+      }))
+    )
+    .returning();
+}
+
+/**
+ * Move a running meeting on to another agenda topic. Topics that have
+ * already been discussed and moved on from are not reopened.
+ *
+ * @returns The updated agenda, or null if the topic isn't on it
+ */
+export async function moveToAgendaItem(
+  meetingId: number,
+  itemId: number,
+  at: Date = new Date()
+): Promise<AgendaItem[] | null> {
+  const agenda = await getAgenda(meetingId);
+  const target = agenda.find((item) => item.id === itemId);
+  if (!target) return null;
+  // Already under discussion, or finished with
+  if (target.startedAt) return agenda;
+
+  await closeAgenda(meetingId, at);
+  await db.update(agendaItems).set({ startedAt: at }).where(eq(agendaItems.id, itemId));
+
+  return getAgenda(meetingId);
+}
+
+/**
+ * Mark the topic being discussed as finished, e.g. when the meeting ends
+ */
+export async function closeAgenda(meetingId: number, at: Date = new Date()): Promise<void> {
+  await db
+    .update(agendaItems)
+    .set({ endedAt: at })
+    .where(
+      and(
+        eq(agendaItems.meetingId, meetingId),
+        isNotNull(agendaItems.startedAt),
+        isNull(agendaItems.endedAt)
+      )
+    );
+}
+
+/**
+ * Check the latest conversation of a running meeting for a move to another
+ * agenda topic. Only runs when something new has been said since the last
+ * check.
+ *
+ * @returns The agenda, or null if the meeting doesn't exist
+ */
+export async function trackAgenda(meetingId: number): Promise<AgendaItem[] | null> {
+  // Share a check that is already running instead of starting another
+  const running = checks.get(meetingId);
+  if (running) return running;
+
+  const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+  if (!meeting) return null;
+
+  const agenda = await getAgenda(meetingId);
+  if (agenda.length === 0 || meeting.endedAt) return agenda;
+
+  const check = (async () => {
+    const sinceMs = Date.now() - meeting.startedAt.getTime() - RECENT_TRANSCRIPT_MS;
+    const recent = await db
+      .select()
+      .from(transcriptSegments)
+      .where(
+        and(
+          eq(transcriptSegments.meetingId, meetingId),
+          gte(transcriptSegments.startMs, Math.max(0, sinceMs))
+        )
+      )
+      .orderBy(asc(transcriptSegments.startMs), asc(transcriptSegments.id));
+
+    const lastSegmentId = Math.max(0, ...recent.map((segment) => segment.id));
+    if (recent.length === 0 || lastSegmentId <= (checkedSegmentIds.get(meetingId) ?? 0)) {
+      return agenda;
+    }
+    checkedSegmentIds.set(meetingId, lastSegmentId);
+
+    const names = await getSpeakerNames(meetingId);
+    const currentIndex = agenda.findIndex((item) => item.startedAt && !item.endedAt);
+    const detected = await detectAgendaTopic(
+      agenda.map((item) => item.topic),
+      currentIndex,
+      recent.map((segment) => formatSegmentLine(segment, names)).join("\n")
+    );
+
+    const target = detected !== null ? agenda[detected] : undefined;
+    if (!target || detected === currentIndex) return agenda;
+
+    return (await moveToAgendaItem(meetingId, target.id)) ?? agenda;
+  })();
+
+  checks.set(meetingId, check);
+  try {
+    return await check;
+  } finally {
+    checks.delete(meetingId);
+  }
+}
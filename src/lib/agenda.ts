@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { AgendaItem } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const agendaItemSchema = z.object({
+  topic: z.string().trim().min(1, "Topic is required").max(255, "Topic too long"),
+  durationMinutes: z.number().int().min(1, "At least 1 minute").max(480, "At most 8 hours"),
+});
+
+export const agendaSchema = z.array(agendaItemSchema).max(30, "At most 30 topics");
+
+export const updateAgendaSchema = z.object({
+  items: agendaSchema,
+});
+
+export const trackAgendaSchema = z.object({
+  // Move to this topic instead of detecting it from the transcript
+  itemId: z.number().int().positive().optional(),
+});
+
+export type AgendaItemInput = z.infer<typeof agendaItemSchema>;
+
+// ===========================================
+// Progress
+// ===========================================
+
+type TimedAgendaItem = Pick<
+  AgendaItem,
+  "id" | "topic" | "durationMinutes" | "startedAt" | "endedAt"
+>;
+
+export interface AgendaProgress {
+  /** The topic being discussed, or null before the agenda starts or after it ends */
+  current: TimedAgendaItem | null;
+  /** Position of the current topic in the agenda */
+  index: number;
+  elapsedMs: number;
+  /** Time left in the current topic's time box; negative once it overruns */
+  remainingMs: number;
+  overrun: boolean;
+}
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+/**
+ * Time spent on a topic so far, or in total once discussion moved on
+ */
+export function getTopicElapsedMs(item: TimedAgendaItem, now: Date = new Date()): number {
+  if (!item.startedAt) return 0;
+  const end = item.endedAt ? toTime(item.endedAt) : now.getTime();
+  return Math.max(0, end - toTime(item.startedAt));
+}
+
+/**
+ * Work out which topic is being discussed and how much of its time box is left
+ */
+export function getAgendaProgress(
+  items: TimedAgendaItem[],
+  now: Date = new Date()
+): AgendaProgress {
+  const index = items.findIndex((item) => item.startedAt && !item.endedAt);
+  const current = items[index];
+  if (!current) {
+    return { current: null, index: -1, elapsedMs: 0, remainingMs: 0, overrun: false };
+  }
+
+  const elapsedMs = getTopicElapsedMs(current, now);
+  const remainingMs = current.durationMinutes * 60 * 1000 - elapsedMs;
+  return { current, index, elapsedMs, remainingMs, overrun: remainingMs < 0 };
+}
+
+/**
+ * Render how the meeting kept to its agenda, one line per topic, for the
+ * end of the meeting summary
+ */
+export function formatAgendaCoverage(items: TimedAgendaItem[]): string {
+  const lines = items.map((item) => {
+    const planned = `${item.durationMinutes} min planned`;
+    if (!item.startedAt) return `- ${item.topic} (${planned}): not covered`;
+
+    const spentMinutes = Math.round(getTopicElapsedMs(item) / 60000);
+    const over = spentMinutes - item.durationMinutes;
+    return `- ${item.topic} (${planned}): ${spentMinutes} min${over > 0 ? `, ${over} min over` : ""}`;
+  });
+
+  const covered = items.filter((item) => item.startedAt).length;
+  return [`Agenda coverage: ${covered} of ${items.length} topics covered`, ...lines].join("\n");
+}
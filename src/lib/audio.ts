@@ -97,6 +97,7 @@ export function chunkAudio(
   while (start < audioData.length) {
     const end = Math.min(start + chunkSize, audioData.length);
     chunks.push(audioData.slice(start, end));
+    if (end === audioData.length) break;
     start = end - overlap;
 
     // Prevent infinite loop if overlap >= chunk size
@@ -255,3 +256,333 @@ export async function findReSpeakerDevice(): Promise<AudioDeviceInfo | null> {
   );
   return respeaker || null;
 }
+
+/**
+ * Decode an audio file (WAV, MP3, WebM, ...) into mono samples at the
+ * given sample rate, ready to be chunked for Whisper
+ */
+export async function decodeAudioFile(
+  file: Blob,
+  sampleRate: number = 16000
+): Promise<Float32Array> {
+  return decodeAudioBytes(await file.arrayBuffer(), sampleRate);
+}
+
+async function decodeAudioBytes(data: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  // An offline context decodes without needing an audio output device
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(data);
+
+  // Average the channels down to mono
+  let mono = buffer.getChannelData(0);
+  if (buffer.numberOfChannels > 1) {
+    mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] = (mono[i] ?? 0) + data[i]! / buffer.numberOfChannels;
+      }
+    }
+  }
+
+  return resampleAudio(mono, buffer.sampleRate, sampleRate);
+}
+
+// MP3 files are decoded this many bytes at a time
+const DECODE_WINDOW_BYTES = 8 * 1024 * 1024;
+
+// How far past the end of a window to look for the next MP3 frame
+const FRAME_SEARCH_BYTES = 64 * 1024;
+
+// Largest file decoded in one go, for formats that can't be read in parts.
+// These are compressed (WebM/Opus, M4A, ...), so this is several hours of
+// speech; decoded at 16 kHz an hour takes about 230 MB.
+export const MAX_WHOLE_DECODE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Raised for a file that would have to be decoded in one go but is too
+ * large to fit in memory once decoded
+ */
+export class AudioFileTooLargeError extends Error {
+  constructor() {
+    super(
+      `Recordings in this format larger than ${MAX_WHOLE_DECODE_BYTES / 1024 / 1024} MB can't be imported. Convert the file to WAV or MP3 first.`
+    );
+    this.name = 'AudioFileTooLargeError';
+  }
+}
+
+/**
+ * An audio file that is read a chunk at a time, so that a long recording
+ * never has to be held in memory in full
+ */
+export interface ChunkedAudioFile {
+  durationMs: number;
+  totalChunks: number;
+  /** Read the recording as mono chunks at the requested sample rate, in order */
+  chunks: () => AsyncGenerator<Float32Array>;
+}
+
+/**
+ * Open an audio file for reading in chunks of chunkMs. PCM WAV files are
+ * read straight from the file, MP3 files are decoded a window at a time,
+ * and other formats are decoded in one go up to MAX_WHOLE_DECODE_BYTES.
+ * The last chunk runs to the end of the recording.
+ *
+ * @param onProgress - Called while the recording is measured, from 0 to 1
+ */
+export async function openChunkedAudioFile(
+  file: Blob,
+  chunkMs: number,
+  sampleRate: number = 16000,
+  onProgress?: (progress: number) => void
+): Promise<ChunkedAudioFile> {
+  const wav = await readWavInfo(file);
+  if (wav) return openWavFile(file, wav, chunkMs, sampleRate);
+
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isMp3 =
+    (header[0] === 0x49 && header[1] === 0x44 && header[2] === 0x33) || // "ID3"
+    findMp3Frame(header, 0) === 0;
+
+  if (!isMp3) {
+    if (file.size > MAX_WHOLE_DECODE_BYTES) throw new AudioFileTooLargeError();
+    const samples = await decodeAudioFile(file, sampleRate);
+    return fromSampleStream(async function* () {
+      yield samples;
+    }, samples.length, chunkMs, sampleRate);
+  }
+
+  // Decode once to measure the recording, then again while it is read
+  let totalSamples = 0;
+  for await (const samples of decodeMp3Windows(file, sampleRate, onProgress)) {
+    totalSamples += samples.length;
+  }
+  return fromSampleStream(() => decodeMp3Windows(file, sampleRate), totalSamples, chunkMs, sampleRate);
+}
+
+/**
+ * Chunk boundaries, in samples, of a recording of the given length
+ */
+function getChunkBounds(totalSamples: number, chunkMs: number, rate: number) {
+  const durationMs = Math.floor((totalSamples / rate) * 1000);
+  const totalChunks = Math.ceil(durationMs / chunkMs);
+  const chunkSamples = Math.round((chunkMs / 1000) * rate);
+  const bounds = (index: number) => ({
+    start: index * chunkSamples,
+    end: index === totalChunks - 1 ? totalSamples : (index + 1) * chunkSamples,
+  });
+  return { durationMs, totalChunks, chunkSamples, bounds };
+}
+
+/**
+ * Re-cut a stream of decoded samples into chunks
+ */
+function fromSampleStream(
+  read: () => AsyncGenerator<Float32Array>,
+  totalSamples: number,
+  chunkMs: number,
+  sampleRate: number
+): ChunkedAudioFile {
+  const { durationMs, totalChunks, chunkSamples } = getChunkBounds(totalSamples, chunkMs, sampleRate);
+
+  return {
+    durationMs,
+    totalChunks,
+    chunks: async function* () {
+      let pending: Float32Array[] = [];
+      let pendingLength = 0;
+      let emitted = 0;
+
+      for await (const samples of read()) {
+        pending.push(samples);
+        pendingLength += samples.length;
+
+        while (emitted < totalChunks - 1 && pendingLength >= chunkSamples) {
+          const merged = mergeAudioChunks(pending);
+          yield merged.slice(0, chunkSamples);
+          pending = [merged.slice(chunkSamples)];
+          pendingLength -= chunkSamples;
+          emitted++;
+        }
+      }
+
+      if (emitted !== totalChunks - 1) {
+        throw new Error('The recording could not be read consistently');
+      }
+      yield mergeAudioChunks(pending);
+    },
+  };
+}
+
+/**
+ * Decode an MP3 file a window at a time. Windows end on a frame boundary
+ * so no frame is split between two of them.
+ */
+async function* decodeMp3Windows(
+  file: Blob,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): AsyncGenerator<Float32Array> {
+  let start = 0;
+  while (start < file.size) {
+    const readEnd = Math.min(start + DECODE_WINDOW_BYTES + FRAME_SEARCH_BYTES, file.size);
+    const bytes = await file.slice(start, readEnd).arrayBuffer();
+
+    let length = bytes.byteLength;
+    if (readEnd < file.size) {
+      const frame = findMp3Frame(new Uint8Array(bytes), DECODE_WINDOW_BYTES);
+      if (frame !== -1) length = frame;
+    }
+
+    yield await decodeAudioBytes(bytes.slice(0, length), sampleRate);
+    start += length;
+    onProgress?.(start / file.size);
+  }
+}
+
+/**
+ * Offset of the first plausible MP3 frame header at or after from, or -1
+ */
+function findMp3Frame(bytes: Uint8Array, from: number): number {
+  for (let i = from; i + 2 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1]! & 0xe0) !== 0xe0) continue;
+    const version = (bytes[i + 1]! >> 3) & 0x03;
+    const layer = (bytes[i + 1]! >> 1) & 0x03;
+    const bitrate = bytes[i + 2]! >> 4;
+    const rate = (bytes[i + 2]! >> 2) & 0x03;
+    if (version !== 1 && layer !== 0 && bitrate !== 0x0f && rate !== 0x03) return i;
+  }
+  return -1;
+}
+
+interface WavInfo {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+/**
+ * Read the format of a PCM or float WAV file, or null if the file is
+ * something else
+ */
+async function readWavInfo(file: Blob): Promise<WavInfo | null> {
+  const header = new DataView(await file.slice(0, 12).arrayBuffer());
+  if (
+    header.byteLength < 12 ||
+    header.getUint32(0, false) !== 0x52494646 || // "RIFF"
+    header.getUint32(8, false) !== 0x57415645 // "WAVE"
+  ) {
+    return null;
+  }
+
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const chunk = new DataView(await file.slice(offset, offset + 8).arrayBuffer());
+    const id = chunk.getUint32(0, false);
+    const size = chunk.getUint32(4, true);
+
+    if (id === 0x666d7420) {
+      // "fmt "
+      const fmt = new DataView(await file.slice(offset + 8, offset + 8 + size).arrayBuffer());
+      if (fmt.byteLength < 16) return null;
+      let code = fmt.getUint16(0, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the actual format in its sub-format
+      if (code === 0xfffe && fmt.byteLength >= 26) code = fmt.getUint16(24, true);
+      format = {
+        format: code,
+        channels: fmt.getUint16(2, true),
+        sampleRate: fmt.getUint32(4, true),
+        blockAlign: fmt.getUint16(12, true),
+        bitsPerSample: fmt.getUint16(14, true),
+      };
+    } else if (id === 0x64617461) {
+      // "data"; recorders that were cut off can leave its size unset
+      if (!format) return null;
+      const dataOffset = offset + 8;
+      const available = file.size - dataOffset;
+      const dataLength = size === 0 || size > available ? available : size;
+
+      const supported =
+        (format.format === 1 && [8, 16, 24, 32].includes(format.bitsPerSample)) ||
+        (format.format === 3 && format.bitsPerSample === 32);
+      if (!supported || format.channels === 0 || format.sampleRate === 0) return null;
+      if (format.blockAlign !== format.channels * (format.bitsPerSample / 8)) return null;
+
+      return { ...format, dataOffset, dataLength };
+    }
+
+    offset += 8 + size + (size & 1);
+  }
+
+  return null;
+}
+
+/**
+ * Read a WAV file a chunk at a time, straight from its sample data
+ */
+function openWavFile(
+  file: Blob,
+  wav: WavInfo,
+  chunkMs: number,
+  sampleRate: number
+): ChunkedAudioFile {
+  const totalFrames = Math.floor(wav.dataLength / wav.blockAlign);
+  const { durationMs, totalChunks, bounds } = getChunkBounds(totalFrames, chunkMs, wav.sampleRate);
+
+  return {
+    durationMs,
+    totalChunks,
+    chunks: async function* () {
+      for (let index = 0; index < totalChunks; index++) {
+        const { start, end } = bounds(index);
+        const bytes = await file
+          .slice(wav.dataOffset + start * wav.blockAlign, wav.dataOffset + end * wav.blockAlign)
+          .arrayBuffer();
+        yield resampleAudio(readWavFrames(new DataView(bytes), wav), wav.sampleRate, sampleRate);
+      }
+    },
+  };
+}
+
+/**
+ * Convert interleaved WAV frames to mono samples
+ */
+function readWavFrames(view: DataView, wav: WavInfo): Float32Array {
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const frames = Math.floor(view.byteLength / wav.blockAlign);
+  const mono = new Float32Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < wav.channels; channel++) {
+      const offset = frame * wav.blockAlign + channel * bytesPerSample;
+      sum += readWavSample(view, offset, wav);
+    }
+    mono[frame] = sum / wav.channels;
+  }
+
+  return mono;
+}
+
+function readWavSample(view: DataView, offset: number, wav: WavInfo): number {
+  if (wav.format === 3) return view.getFloat32(offset, true);
+  switch (wav.bitsPerSample) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 0x8000;
+    case 24: {
+      const value =
+        view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 0x800000;
+    }
+    default:
+      return view.getInt32(offset, true) / 0x80000000;
+  }
+}
@@ -1,5 +1,14 @@
 import { ChromaClient, Collection, Metadata } from "chromadb";
 import mammoth from "mammoth";
+import {
+  extractTextFromCSV,
+  extractTextFromEPUB,
+  extractTextFromHTML,
+  extractTextFromODT,
+  extractTextFromPPTX,
+  extractTextFromRTF,
+  extractTextFromXLSX,
+} from "@/lib/document-extractors";
 
 // ChromaDB client configuration
 const client = new ChromaClient({
@@ -76,6 +85,21 @@ export async function extractText(
     case "text/plain":
     case "text/markdown":
       return extractTextFromTXT(buffer);
+    case "text/html":
+      return extractTextFromHTML(buffer.toString("utf-8"));
+    case "text/csv":
+      return extractTextFromCSV(buffer);
+    case "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+      return extractTextFromXLSX(buffer);
+    case "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+      return extractTextFromPPTX(buffer);
+    case "application/vnd.oasis.opendocument.text":
+      return extractTextFromODT(buffer);
+    case "application/rtf":
+    case "text/rtf":
+      return extractTextFromRTF(buffer);
+    case "application/epub+zip":
+      return extractTextFromEPUB(buffer);
     default:
       throw new Error(`Unsupported file type: ${mimeType}`);
   }
@@ -152,21 +176,24 @@ export interface DocumentMetadata {
 }
 
 /**
- * Add a document to ChromaDB
+ * Add a document to ChromaDB. Large documents can be added in batches by
+ * passing the index of the first chunk and the document's total chunk count.
  */
 export async function addDocument(
   documentId: string,
   filename: string,
-  chunks: string[]
+  chunks: string[],
+  startIndex = 0,
+  totalChunks = chunks.length
 ): Promise<void> {
   const col = await getCollection();
 
-  const ids = chunks.map((_, i) => `${documentId}_chunk_${i}`);
+  const ids = chunks.map((_, i) => `${documentId}_chunk_${startIndex + i}`);
   const metadatas: Metadata[] = chunks.map((_, i) => ({
     documentId,
     filename,
-    chunkIndex: i,
-    totalChunks: chunks.length,
+    chunkIndex: startIndex + i,
+    totalChunks,
   }));
 
   await col.add({
@@ -236,6 +263,138 @@ export async function queryDocuments(
   });
 }
 
+// ===========================================
+// Meeting Transcripts
+// ===========================================
+
+let meetingCollection: Collection | null = null;
+
+// Kept apart from uploaded documents so each source can be searched on its own
+const MEETING_COLLECTION_NAME = "meeting_transcripts";
+
+/**
+ * A piece of a meeting to embed. Transcript chunks carry the offsets of
+ * the segments they cover so answers can cite a timestamp; decision chunks
+ * are entries from the decision log.
+ */
+export interface MeetingChunk {
+  kind: "summary" | "transcript" | "decision";
+  text: string;
+  startMs?: number | undefined;
+  endMs?: number | undefined;
+}
+
+export interface MeetingChunkMetadata {
+  meetingId: number;
+  title: string;
+  startedAt: string;
+  kind: MeetingChunk["kind"];
+  chunkIndex: number;
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface MeetingQueryResult {
+  text: string;
+  meetingId: number;
+  title: string;
+  startedAt: string;
+  kind: MeetingChunk["kind"];
+  /** Offset from the meeting start, for transcript chunks */
+  startMs: number | null;
+  distance: number;
+}
+
+/**
+ * Get or create the meeting transcripts collection
+ */
+export async function getMeetingCollection(): Promise<Collection> {
+  if (!meetingCollection) {
+    meetingCollection = await client.getOrCreateCollection({
+      name: MEETING_COLLECTION_NAME,
+      metadata: { "hnsw:space": "cosine" },
+    });
+  }
+  return meetingCollection;
+}
+
+/**
+ * Replace the stored chunks of a meeting
+ */
+export async function setMeetingChunks(
+  meeting: { id: number; title: string; startedAt: Date },
+  chunks: MeetingChunk[]
+): Promise<void> {
+  await deleteMeetingChunks(meeting.id);
+  if (chunks.length === 0) return;
+
+  const col = await getMeetingCollection();
+  const metadatas: Metadata[] = chunks.map((chunk, i) => ({
+    meetingId: meeting.id,
+    title: meeting.title,
+    startedAt: meeting.startedAt.toISOString(),
+    kind: chunk.kind,
+    chunkIndex: i,
+    ...(chunk.startMs !== undefined && { startMs: chunk.startMs }),
+    ...(chunk.endMs !== undefined && { endMs: chunk.endMs }),
+  }));
+
+  await col.add({
+    ids: chunks.map((_, i) => `meeting_${meeting.id}_chunk_${i}`),
+    documents: chunks.map((chunk) => chunk.text),
+    metadatas,
+  });
+}
+
+/**
+ * Delete a meeting's chunks from ChromaDB
+ */
+export async function deleteMeetingChunks(meetingId: number): Promise<void> {
+  const col = await getMeetingCollection();
+
+  const results = await col.get({
+    where: { meetingId },
+  });
+
+  if (results.ids.length > 0) {
+    await col.delete({
+      ids: results.ids,
+    });
+  }
+}
+
+/**
+ * Query past meetings for relevant transcript and summary chunks
+ */
+export async function queryMeetings(
+  query: string,
+  nResults: number = 5
+): Promise<MeetingQueryResult[]> {
+  const col = await getMeetingCollection();
+
+  const results = await col.query({
+    queryTexts: [query],
+    nResults,
+  });
+
+  if (!results.documents[0] || !results.metadatas[0] || !results.distances?.[0]) {
+    return [];
+  }
+
+  return results.documents[0].map((doc, i) => {
+    const metadata = results.metadatas[0]?.[i] as MeetingChunkMetadata | undefined;
+    return {
+      text: doc || "",
+      meetingId: metadata?.meetingId ?? 0,
+      title: metadata?.title ?? "Untitled Meeting",
+      startedAt: metadata?.startedAt ?? "",
+      kind: metadata?.kind ?? "transcript",
+      startMs: metadata?.startMs ?? null,
+      distance: results.distances?.[0]?.[i] ?? 0,
+    };
+  });
+}
+
 /**
  * Check if ChromaDB is available
  */
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { Decision } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const createDecisionSchema = z.object({
+  decision: z.string().trim().min(1, "Decision is required").max(2000, "Decision too long"),
+  rationale: z.string().trim().max(4000, "Rationale too long").nullable().optional(),
+});
+
+export const updateDecisionSchema = z.object({
+  decision: z
+    .string()
+    .trim()
+    .min(1, "Decision is required")
+    .max(2000, "Decision too long")
+    .optional(),
+  rationale: z.string().trim().max(4000, "Rationale too long").nullable().optional(),
+  // Confirm an AI-suggested decision for the log
+  confirmed: z.literal(true).optional(),
+});
+
+export type CreateDecisionInput = z.infer<typeof createDecisionSchema>;
+export type UpdateDecisionInput = z.infer<typeof updateDecisionSchema>;
+
+// ===========================================
+// Response Types
+// ===========================================
+
+/**
+ * Decision joined with the meeting it was made in and who took part
+ */
+export type DecisionWithMeeting = Decision & {
+  meetingTitle: string | null;
+  meetingStartedAt: Date | string | null;
+  /** Attendees and speakers heard in the meeting, by display name */
+  participants: string[];
+};
+
+/**
+ * Describe a decision as a self-contained entry for search and chat:
+ * what was decided, why, when, in which meeting and who was there
+ */
+export function formatDecisionEntry(
+  decision: Pick<Decision, "decision" | "rationale">,
+  meeting: { title: string; startedAt: Date },
+  participants: string[]
+): string {
+  const date = meeting.startedAt.toISOString().slice(0, 10);
+  return [
+    `Decision: ${decision.decision}`,
+    decision.rationale && `Rationale: ${decision.rationale}`,
+    `Decided on ${date} in "${meeting.title}".`,
+    participants.length > 0 && `Present: ${participants.join(", ")}.`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
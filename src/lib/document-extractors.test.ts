@@ -0,0 +1,122 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  extractTextFromCSV,
+  extractTextFromEPUB,
+  extractTextFromHTML,
+  extractTextFromODT,
+  extractTextFromPPTX,
+  extractTextFromRTF,
+  extractTextFromXLSX,
+} from "@/lib/document-extractors";
+
+function readFixture(name: string): Buffer {
+  return readFileSync(join(__dirname, "__fixtures__", "documents", name));
+}
+
+describe("extractTextFromHTML", () => {
+  it("keeps the title and readable text, one line per table row", () => {
+    const text = extractTextFromHTML(readFixture("agenda.html").toString("utf-8"));
+
+    expect(text).toBe(
+      [
+        "Planning Agenda",
+        "",
+        "Review the Q3 goals & risks.",
+        "",
+        "- Hiring plan",
+        "",
+        "- Budget",
+        "",
+        "Owner | Topic",
+        "",
+        "Ana | Launch",
+      ].join("\n")
+    );
+    expect(text).not.toContain("not text");
+    expect(text).not.toContain("color: red");
+  });
+});
+
+describe("extractTextFromCSV", () => {
+  it("labels each value with its column and numbers rows as in the file", () => {
+    const text = extractTextFromCSV(readFixture("attendees.csv"));
+
+    expect(text.split("\n")).toEqual([
+      "Columns: Name, Role, Notes",
+      'Row 2: Name: Ana | Role: Lead | Notes: Owns the "launch"; reports weekly',
+      "Row 4: Name: Ben | Notes: Joined",
+      "in May",
+    ]);
+  });
+});
+
+describe("extractTextFromXLSX", () => {
+  it("writes each sheet under its name with labelled rows", async () => {
+    const text = await extractTextFromXLSX(readFixture("budget.xlsx"));
+
+    expect(text.split("\n\n")).toEqual([
+      [
+        "Sheet: Q1 Budget",
+        "Columns: Team, Amount, Approved",
+        "Row 2: Team: Marketing & Sales | Amount: 12000 | Approved: TRUE",
+        "Row 4: Team: Engineering | Approved: FALSE",
+      ].join("\n"),
+      ["Sheet: Owners", "Columns: Name", "Row 2: Name: Dana"].join("\n"),
+    ]);
+  });
+});
+
+describe("extractTextFromPPTX", () => {
+  it("writes slides in presentation order with their notes", async () => {
+    const text = await extractTextFromPPTX(readFixture("roadmap.pptx"));
+
+    expect(text.split("\n\n")).toEqual([
+      ["Slide 1:", "Product Roadmap", "Launch in <May>", "Notes: Mention the beta first"].join(
+        "\n"
+      ),
+      ["Slide 2:", "Milestones", "Beta | March"].join("\n"),
+    ]);
+  });
+});
+
+describe("extractTextFromODT", () => {
+  it("keeps headings and paragraphs, drops footnotes and joins table cells", async () => {
+    const text = await extractTextFromODT(readFixture("minutes.odt"));
+
+    expect(text.split("\n")).toEqual([
+      "Weekly Minutes",
+      "Budget approved by the board.",
+      "Owner | Task",
+      "Sam | Send the recap",
+    ]);
+  });
+});
+
+describe("extractTextFromRTF", () => {
+  it("decodes escapes, skips font tables and headers, and joins table cells", () => {
+    const text = extractTextFromRTF(readFixture("memo.rtf"));
+
+    expect(text.split("\n")).toEqual([
+      "Project Memo",
+      "Café budget approved – see notes.",
+      "Owner | Task",
+      "Kim | Book venue",
+    ]);
+  });
+});
+
+describe("extractTextFromEPUB", () => {
+  it("starts with the book title and follows the spine", async () => {
+    const text = await extractTextFromEPUB(readFixture("handbook.epub"));
+
+    expect(text.split("\n\n")).toEqual([
+      "Team Handbook",
+      "Chapter 1: Meetings",
+      "Start on time.",
+      "Chapter 2: Notes",
+      "Share notes the same day.",
+    ]);
+  });
+});
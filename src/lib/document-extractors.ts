@@ -0,0 +1,639 @@
+import { posix } from "path";
+import JSZip from "jszip";
+
+// Text extraction for the document formats beyond PDF, DOCX and plain text.
+// Output keeps enough structure (sheet names, slide numbers, table rows)
+// for search results to say where a passage came from.
+
+// Separates the cells of a table row in extracted text
+const CELL_SEPARATOR = " | ";
+
+// ===========================================
+// XML and HTML Helpers
+// ===========================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+};
+
+/**
+ * Decode character references. Unknown named entities are left as they are.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code.startsWith("#")) {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : match;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Text content of an XML fragment, without tags
+ */
+function stripTags(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]*>/g, ""));
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  if (!match) return undefined;
+  return decodeEntities(match[2] ?? match[3] ?? "");
+}
+
+/**
+ * Collapse runs of spaces on each line and runs of blank lines
+ */
+function tidyLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const HTML_BLOCK_TAGS =
+  "address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|thead|tfoot|tr|ul";
+
+/**
+ * Extract readable text from an HTML (or XHTML) document. Scripts, styles
+ * and markup are dropped; each table row becomes one line.
+ */
+export function extractTextFromHTML(html: string): string {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const bodyMatch = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html);
+  let body = bodyMatch?.[1] ?? html;
+
+  body = body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, "")
+    // Table rows on one line, cells separated
+    .replace(/<\/t[dh]>\s*/gi, CELL_SEPARATOR)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(new RegExp(`</?(?:${HTML_BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n");
+
+  const text = tidyLines(stripTags(body))
+    .split("\n")
+    .map((line) => (line.endsWith(CELL_SEPARATOR.trim()) ? line.slice(0, -1).trim() : line))
+    .join("\n");
+
+  const heading = title ? tidyLines(stripTags(title)) : "";
+  return heading && !text.startsWith(heading) ? `${heading}\n\n${text}` : text;
+}
+
+// ===========================================
+// Tables (CSV and Spreadsheets)
+// ===========================================
+
+/**
+ * Write table rows as labelled lines, naming each value after its column
+ * header so a row still makes sense on its own in a search result
+ */
+function formatRows(rows: string[][]): string {
+  // Blank rows are skipped but still counted, so row numbers match the source
+  const numbered = rows
+    .map((row, index) => ({ row, number: index + 1 }))
+    .filter(({ row }) => row.some((cell) => cell.trim()));
+  const [header, ...body] = numbered;
+  if (!header) return "";
+
+  const names = header.row.map((cell) => cell.trim());
+  const lines = [`Columns: ${names.filter(Boolean).join(", ")}`];
+
+  for (const { row, number } of body) {
+    const cells = row
+      .map((cell, column) => {
+        const value = cell.trim();
+        if (!value) return null;
+        const name = names[column];
+        return name ? `${name}: ${value}` : value;
+      })
+      .filter((cell): cell is string => cell !== null);
+    lines.push(`Row ${number}: ${cells.join(CELL_SEPARATOR)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * The delimiter used most on the first line: comma, semicolon or tab
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0]?.delimiter ?? ",";
+}
+
+/**
+ * Parse CSV text, including quoted fields with embedded delimiters,
+ * quotes and line breaks
+ */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Extract a CSV file as one labelled line per row
+ */
+export function extractTextFromCSV(buffer: Buffer): string {
+  const text = buffer.toString("utf-8").replace(/^\uFEFF/, "");
+  return formatRows(parseCSV(text));
+}
+
+// ===========================================
+// Zip-Based Formats
+// ===========================================
+
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async("string") : null;
+}
+
+/**
+ * Targets of the package relationships of a part (Office Open XML), by ID,
+ * resolved to paths within the zip
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const dir = posix.dirname(partPath);
+  const relsPath = posix.join(dir, "_rels", `${posix.basename(partPath)}.rels`);
+  const xml = (await readZipText(zip, relsPath)) ?? "";
+
+  const relationships = new Map<string, string>();
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attributes = match[1] ?? "";
+    const id = getAttribute(attributes, "Id");
+    const target = getAttribute(attributes, "Target");
+    if (!id || !target || getAttribute(attributes, "TargetMode") === "External") continue;
+    relationships.set(
+      id,
+      target.startsWith("/") ? target.slice(1) : posix.normalize(posix.join(dir, target))
+    );
+  }
+  return relationships;
+}
+
+/**
+ * Letters of a cell reference as a zero-based column index ("B3" -> 1)
+ */
+function getColumnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Extract an Excel workbook sheet by sheet, one labelled line per row.
+ * Cells show their stored values; dates appear as Excel serial numbers.
+ */
+export async function extractTextFromXLSX(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const workbookPath = "xl/workbook.xml";
+  const workbook = await readZipText(zip, workbookPath);
+  if (!workbook) throw new Error("Not an Excel workbook");
+
+  const relationships = await readRelationships(zip, workbookPath);
+
+  // Shared strings, with phonetic hints left out
+  const sharedXml = (await readZipText(zip, "xl/sharedStrings.xml")) ?? "";
+  const sharedStrings = [...sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map((match) =>
+    [
+      ...(match[1] ?? "")
+        .replace(/<rPh\b[\s\S]*?<\/rPh>/g, "")
+        .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g),
+    ]
+      .map((text) => decodeEntities(text[1] ?? ""))
+      .join("")
+  );
+
+  const sections: string[] = [];
+  for (const sheet of workbook.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const attributes = sheet[1] ?? "";
+    const name = getAttribute(attributes, "name") ?? "Sheet";
+    const path = relationships.get(getAttribute(attributes, "r:id") ?? "");
+    const xml = path ? await readZipText(zip, path) : null;
+    if (!xml) continue;
+
+    const rows: string[][] = [];
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+      const row: string[] = [];
+      for (const cell of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const cellAttributes = cell[1] ?? "";
+        const content = cell[2] ?? "";
+        const type = getAttribute(cellAttributes, "t");
+        const value = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+        let text: string;
+        if (type === "s") {
+          text = sharedStrings[Number(value)] ?? "";
+        } else if (type === "inlineStr") {
+          text = stripTags(/<is\b[^>]*>([\s\S]*?)<\/is>/.exec(content)?.[1] ?? "");
+        } else if (type === "b") {
+          text = value === "1" ? "TRUE" : "FALSE";
+        } else {
+          text = decodeEntities(value ?? "");
+        }
+
+        const reference = getAttribute(cellAttributes, "r");
+        const column = reference ? getColumnIndex(reference) : row.length;
+        row[column] = text;
+      }
+      // Empty rows are left out of the sheet; "r" keeps the numbering right
+      const number = Number(getAttribute(rowMatch[1] ?? "", "r"));
+      rows[number > 0 ? number - 1 : rows.length] = Array.from(row, (cell) => cell ?? "");
+    }
+
+    const table = formatRows(Array.from(rows, (row) => row ?? []));
+    if (table) sections.push(`Sheet: ${name}\n${table}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Paragraphs of DrawingML text (slides and notes), with each table row on
+ * one line
+ */
+function extractDrawingText(xml: string): string[] {
+  const paragraphText = (paragraph: string) =>
+    [
+      ...paragraph
+        .replace(/<a:br\b[^>]*\/>/g, "<a:t> </a:t>")
+        .matchAll(/<a:t\b[^>]*>([\s\S]*?)<\/a:t>/g),
+    ]
+      .map((match) => decodeEntities(match[1] ?? ""))
+      .join("")
+      .trim();
+
+  const lines: string[] = [];
+  for (const match of xml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>|<a:p\b[^>]*>[\s\S]*?<\/a:p>/g)) {
+    const block = match[0];
+    const line = block.startsWith("<a:tr")
+      ? [...block.matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)]
+          .map((cell) =>
+            [...(cell[1] ?? "").matchAll(/<a:p\b[^>]*>[\s\S]*?<\/a:p>/g)]
+              .map((paragraph) => paragraphText(paragraph[0]))
+              .filter(Boolean)
+              .join(" ")
+          )
+          .join(CELL_SEPARATOR)
+      : paragraphText(block);
+    if (line.replaceAll(CELL_SEPARATOR.trim(), "").trim()) lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Extract a PowerPoint deck slide by slide, in presentation order, with
+ * speaker notes
+ */
+export async function extractTextFromPPTX(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await readZipText(zip, presentationPath);
+  if (!presentation) throw new Error("Not a PowerPoint presentation");
+
+  const relationships = await readRelationships(zip, presentationPath);
+  const slidePaths = [...presentation.matchAll(/<p:sldId\b([^>]*)\/?>/g)]
+    .map((match) => relationships.get(getAttribute(match[1] ?? "", "r:id") ?? ""))
+    .filter((path): path is string => Boolean(path));
+
+  const sections: string[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const xml = await readZipText(zip, slidePath);
+    if (!xml) continue;
+
+    const lines = extractDrawingText(xml);
+
+    // Speaker notes, without the slide number placeholder
+    const slideRelationships = await readRelationships(zip, slidePath);
+    const notesPath = [...slideRelationships.values()].find((path) =>
+      path.includes("notesSlides/")
+    );
+    const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+    const notes = notesXml
+      ? extractDrawingText(
+          notesXml.replace(/<p:sp\b(?:(?!<\/p:sp>)[\s\S])*?type="sldNum"[\s\S]*?<\/p:sp>/g, "")
+        )
+      : [];
+
+    if (lines.length === 0 && notes.length === 0) continue;
+    sections.push(
+      [
+        `Slide ${index + 1}:`,
+        ...lines,
+        ...(notes.length > 0 ? [`Notes: ${notes.join(" ")}`] : []),
+      ].join("\n")
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Text of an OpenDocument paragraph or heading
+ */
+function openDocumentText(xml: string): string {
+  return stripTags(
+    xml
+      .replace(/<text:s\b([^>]*)\/>/g, (_, attributes: string) =>
+        " ".repeat(Number(getAttribute(attributes, "text:c") ?? 1) || 1)
+      )
+      .replace(/<text:tab\b[^>]*\/>/g, "\t")
+      .replace(/<text:line-break\b[^>]*\/>/g, "\n")
+  );
+}
+
+/**
+ * Extract an OpenDocument text file (ODT), with each table row on one line
+ */
+export async function extractTextFromODT(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const content = await readZipText(zip, "content.xml");
+  if (!content) throw new Error("Not an OpenDocument text file");
+
+  const body = (/<office:text\b[^>]*>([\s\S]*)<\/office:text>/.exec(content)?.[1] ?? content)
+    // Footnotes would interrupt the sentence they belong to
+    .replace(/<text:note\b[\s\S]*?<\/text:note>/g, "");
+  const lines: string[] = [];
+
+  const blocks =
+    /<table:table-row\b[\s\S]*?<\/table:table-row>|<text:(h|p)\b[^>]*?(?:\/>|>[\s\S]*?<\/text:\1>)/g;
+  for (const match of body.matchAll(blocks)) {
+    const block = match[0];
+    const line = block.startsWith("<table:table-row")
+      ? [...block.matchAll(/<table:table-cell\b[^>]*?(?:\/>|>([\s\S]*?)<\/table:table-cell>)/g)]
+          .map((cell) =>
+            openDocumentText(cell[1] ?? "")
+              .replace(/\s+/g, " ")
+              .trim()
+          )
+          .filter(Boolean)
+          .join(CELL_SEPARATOR)
+      : openDocumentText(block);
+    if (line.trim()) lines.push(line);
+  }
+
+  return tidyLines(lines.join("\n"));
+}
+
+/**
+ * Extract an EPUB book chapter by chapter, in reading order
+ */
+export async function extractTextFromEPUB(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = (await readZipText(zip, "META-INF/container.xml")) ?? "";
+  const packagePath = getAttribute(
+    /<rootfile\b([^>]*)\/?>/.exec(container)?.[1] ?? "",
+    "full-path"
+  );
+  const packageXml = packagePath ? await readZipText(zip, packagePath) : null;
+  if (!packagePath || !packageXml) throw new Error("Not an EPUB book");
+
+  const dir = posix.dirname(packagePath);
+  const manifest = new Map<string, string>();
+  for (const item of packageXml.matchAll(/<item\b([^>]*)\/?>/g)) {
+    const attributes = item[1] ?? "";
+    const id = getAttribute(attributes, "id");
+    const href = getAttribute(attributes, "href");
+    if (id && href) {
+      manifest.set(
+        id,
+        posix.normalize(posix.join(dir, decodeURIComponent(href.split("#")[0] ?? "")))
+      );
+    }
+  }
+
+  const title = /<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/.exec(packageXml)?.[1];
+  const sections = title ? [tidyLines(stripTags(title))] : [];
+
+  for (const itemref of packageXml.matchAll(/<itemref\b([^>]*)\/?>/g)) {
+    const path = manifest.get(getAttribute(itemref[1] ?? "", "idref") ?? "");
+    const html = path ? await readZipText(zip, path) : null;
+    if (!html) continue;
+
+    const text = extractTextFromHTML(html);
+    if (text) sections.push(text);
+  }
+
+  return sections.join("\n\n");
+}
+
+// ===========================================
+// RTF
+// ===========================================
+
+// Groups whose text is never part of the document body
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "fldinst",
+  "xmlnstbl",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+]);
+
+/**
+ * Extract the text of an RTF document. Table cells are separated and each
+ * row ends its line. Escaped bytes are read as Windows-1252.
+ */
+export function extractTextFromRTF(buffer: Buffer): string {
+  const rtf = buffer.toString("latin1");
+  const decoder = new TextDecoder("windows-1252");
+
+  let output = "";
+  let bytes: number[] = [];
+  // Per group: whether its text is skipped, and how many characters follow a \u escape
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let state = { skip: false, unicodeSkip: 1 };
+  // Fallback characters still to drop after a \u escape
+  let pendingSkip = 0;
+
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    if (!state.skip) output += decoder.decode(new Uint8Array(bytes));
+    bytes = [];
+  };
+  const write = (text: string) => {
+    flushBytes();
+    if (!state.skip) output += text;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      pendingSkip = 0;
+      // Optional destinations ({\*\name ...}) are skipped by readers that don't know them
+      if (rtf.startsWith("\\*", i + 1)) state.skip = true;
+    } else if (char === "}") {
+      flushBytes();
+      state = stack.pop() ?? { skip: false, unicodeSkip: 1 };
+      pendingSkip = 0;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 3;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!isNaN(byte)) {
+          bytes.push(byte);
+        }
+        continue;
+      }
+
+      const word = /^\\([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 40));
+      if (!word) {
+        // Control symbols
+        if (next === "\\" || next === "{" || next === "}") write(next);
+        else if (next === "~") write(" ");
+        else if (next === "_") write("-");
+        else if (next === "\n" || next === "\r") write("\n");
+        i += 1;
+        continue;
+      }
+
+      i += word[0].length - 1;
+      flushBytes();
+      const name = word[1]?.toLowerCase() ?? "";
+      const param = word[2] !== undefined ? Number(word[2]) : undefined;
+
+      if (RTF_SKIPPED_DESTINATIONS.has(name)) {
+        state.skip = true;
+      } else if (name === "uc" && param !== undefined) {
+        state.unicodeSkip = param;
+      } else if (name === "u" && param !== undefined) {
+        write(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pendingSkip = state.unicodeSkip;
+      } else if (
+        name === "par" ||
+        name === "line" ||
+        name === "row" ||
+        name === "sect" ||
+        name === "page"
+      ) {
+        write("\n");
+      } else if (name === "cell") {
+        write(CELL_SEPARATOR);
+      } else if (name === "tab") {
+        write("\t");
+      } else if (name === "emdash") {
+        write("—");
+      } else if (name === "endash") {
+        write("–");
+      } else if (name === "bullet") {
+        write("•");
+      } else if (name === "lquote" || name === "rquote") {
+        write(name === "lquote" ? "‘" : "’");
+      } else if (name === "ldblquote" || name === "rdblquote") {
+        write(name === "ldblquote" ? "“" : "”");
+      }
+    } else if (char === "\n" || char === "\r") {
+      // Line breaks in the source are not part of the text
+    } else if (pendingSkip > 0) {
+      pendingSkip--;
+    } else {
+      write(char ?? "");
+    }
+  }
+  flushBytes();
+
+  return tidyLines(
+    output
+      .split("\n")
+      .map((line) =>
+        line.trimEnd().endsWith(CELL_SEPARATOR.trim()) ? line.trimEnd().slice(0, -1) : line
+      )
+      .join("\n")
+  );
+}
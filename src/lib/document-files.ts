@@ -0,0 +1,71 @@
+import { extractText } from "@/lib/chromadb";
+import type { Document } from "@/lib/schema";
+import { deleteFile, download, upload, type StorageResult } from "@/lib/storage";
+
+// Uploaded documents are kept under this storage folder
+const DOCUMENT_FOLDER = "documents";
+
+// Characters of extracted text returned by a preview
+const PREVIEW_LENGTH = 20_000;
+
+export interface DocumentPreview {
+  text: string;
+  /** Whether the text was cut off at PREVIEW_LENGTH characters */
+  truncated: boolean;
+}
+
+/**
+ * Keep the original file of an uploaded document. Documents are stored
+ * privately and only served by the download route, as attachments, so an
+ * uploaded HTML page never runs on the app's origin.
+ */
+export async function saveDocumentFile(
+  filename: string,
+  buffer: Buffer,
+  maxSize: number
+): Promise<StorageResult> {
+  return upload(buffer, filename, DOCUMENT_FOLDER, { maxSize, private: true });
+}
+
+/**
+ * Delete the stored original of a document, if it has one. Failures are
+ * logged, not thrown, for callers whose document row is already gone.
+ */
+export async function removeDocumentFile(doc: Pick<Document, "storageUrl">): Promise<void> {
+  if (!doc.storageUrl) return;
+
+  try {
+    await deleteFile(doc.storageUrl);
+  } catch (error) {
+    console.error(`Failed to delete document file ${doc.storageUrl}:`, error);
+  }
+}
+
+/**
+ * Read a document's stored original
+ *
+ * @returns The file contents, or null for documents uploaded before files were kept
+ */
+export async function getDocumentFile(
+  doc: Pick<Document, "storageUrl">
+): Promise<Buffer | null> {
+  return doc.storageUrl ? download(doc.storageUrl) : null;
+}
+
+/**
+ * Extract the start of a document's text from its stored original
+ *
+ * @returns The preview, or null for documents uploaded before files were kept
+ */
+export async function getDocumentPreview(
+  doc: Pick<Document, "storageUrl" | "mimeType">
+): Promise<DocumentPreview | null> {
+  const buffer = await getDocumentFile(doc);
+  if (!buffer || !doc.mimeType) return null;
+
+  const text = (await extractText(buffer, doc.mimeType)).trim();
+  return {
+    text: text.slice(0, PREVIEW_LENGTH),
+    truncated: text.length > PREVIEW_LENGTH,
+  };
+}
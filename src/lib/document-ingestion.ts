@@ -0,0 +1,40 @@
+import type { Document, DocumentJob } from "@/lib/schema";
+
+/**
+ * A document as listed by the API, with its ingestion job (null for
+ * documents uploaded before ingestion ran in the background)
+ */
+export type DocumentListItem = Document & { job: DocumentJob | null };
+
+export type DocumentJobStatus =
+  | "queued"
+  | "extracting"
+  | "chunking"
+  | "embedding"
+  | "done"
+  | "failed";
+
+// ===========================================
+// Progress
+// ===========================================
+
+/**
+ * Whether a document is still waiting for or going through ingestion
+ */
+export function isDocumentJobActive(status: string): boolean {
+  return status !== "done" && status !== "failed";
+}
+
+/**
+ * Overall progress of an ingestion job from 0 to 100. Extracting and
+ * chunking count for the first fifth, embedding for the rest.
+ */
+export function getDocumentJobProgress(
+  job: Pick<DocumentJob, "status" | "totalChunks" | "embeddedChunks">
+): number {
+  if (job.status === "done") return 100;
+  if (job.status === "queued") return 0;
+  if (job.status === "extracting") return 5;
+  if (job.status === "chunking" || !job.totalChunks) return 15;
+  return Math.round(20 + (job.embeddedChunks / job.totalChunks) * 80);
+}
@@ -0,0 +1,208 @@
+import { eq, inArray } from "drizzle-orm";
+import { addDocument, chunkText, deleteDocument, extractText } from "@/lib/chromadb";
+import { db } from "@/lib/db";
+import { getDocumentFile } from "@/lib/document-files";
+import {
+  documentJobs,
+  documents,
+  type Document,
+  type DocumentJob,
+  type NewDocumentJob,
+} from "@/lib/schema";
+
+// Attempts per job before the document is marked as failed
+const JOB_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+// Chunks embedded per ChromaDB request; progress is saved after each batch
+const EMBED_BATCH_SIZE = 20;
+
+const ACTIVE_STATUSES = ["queued", "extracting", "chunking", "embedding"];
+
+/**
+ * Raised when a document was deleted while it was being processed
+ */
+class JobCancelledError extends Error {
+  constructor() {
+    super("Document deleted");
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Queue a newly uploaded document for ingestion
+ */
+export async function createDocumentJob(documentId: number): Promise<DocumentJob> {
+  const [job] = await db.insert(documentJobs).values({ documentId }).returning();
+  if (!job) throw new Error("Failed to create document job");
+
+  enqueueDocumentJob(job.id);
+  return job;
+}
+
+/**
+ * Run ingestion of a document again from the start. Only failed jobs, and
+ * documents uploaded before ingestion ran in the background, can be re-run.
+ *
+ * @returns The queued job, or undefined if the document is still being processed
+ */
+export async function retryDocumentJob(documentId: number): Promise<DocumentJob | undefined> {
+  const [existing] = await db
+    .select()
+    .from(documentJobs)
+    .where(eq(documentJobs.documentId, documentId));
+
+  if (existing && existing.status !== "failed") return undefined;
+
+  const reset: Omit<NewDocumentJob, "documentId"> = {
+    status: "queued",
+    attempts: 0,
+    totalChunks: null,
+    embeddedChunks: 0,
+    error: null,
+  };
+  const [job] = existing
+    ? await db
+        .update(documentJobs)
+        .set(reset)
+        .where(eq(documentJobs.id, existing.id))
+        .returning()
+    : await db
+        .insert(documentJobs)
+        .values({ documentId, ...reset })
+        .returning();
+  if (!job) return undefined;
+
+  await db.update(documents).set({ error: null }).where(eq(documents.id, documentId));
+  enqueueDocumentJob(job.id);
+  return job;
+}
+
+// ===========================================
+// Background Processing
+// ===========================================
+
+// Survive module reloads in development so documents are processed one at a time
+const globalForJobs = globalThis as unknown as {
+  documentJobQueue?: Promise<void>;
+  documentJobsQueued?: Set<number>;
+};
+
+/**
+ * Queue a job for processing. Documents are ingested one after another so
+ * a batch of uploads doesn't flood the embedding service.
+ */
+export function enqueueDocumentJob(jobId: number): void {
+  const queued = (globalForJobs.documentJobsQueued ??= new Set());
+  if (queued.has(jobId)) return;
+  queued.add(jobId);
+
+  globalForJobs.documentJobQueue = (globalForJobs.documentJobQueue ?? Promise.resolve())
+    .then(() => processJob(jobId))
+    .catch((error) => console.error(`Document job ${jobId} failed:`, error))
+    .finally(() => queued.delete(jobId));
+}
+
+/**
+ * Re-queue jobs that were interrupted by a server restart
+ */
+export async function resumeDocumentJobs(): Promise<void> {
+  const pending = await db
+    .select({ id: documentJobs.id })
+    .from(documentJobs)
+    .where(inArray(documentJobs.status, ACTIVE_STATUSES))
+    .orderBy(documentJobs.createdAt);
+
+  for (const job of pending) {
+    enqueueDocumentJob(job.id);
+  }
+}
+
+/**
+ * Update a job, stopping processing if its document has been deleted
+ */
+async function updateJob(jobId: number, values: Partial<NewDocumentJob>): Promise<DocumentJob> {
+  const [job] = await db
+    .update(documentJobs)
+    .set(values)
+    .where(eq(documentJobs.id, jobId))
+    .returning();
+  if (!job) throw new JobCancelledError();
+  return job;
+}
+
+/**
+ * Ingest a document, retrying from the start after a failure. Attempts are
+ * counted in the database so a restart doesn't grant extra ones.
+ */
+async function processJob(jobId: number): Promise<void> {
+  const [job] = await db.select().from(documentJobs).where(eq(documentJobs.id, jobId));
+  if (!job || !ACTIVE_STATUSES.includes(job.status)) return;
+
+  let lastError: unknown;
+  try {
+    for (let attempt = job.attempts + 1; attempt <= JOB_ATTEMPTS; attempt++) {
+      await updateJob(jobId, { attempts: attempt, error: null });
+
+      try {
+        await ingestDocument(jobId, job.documentId);
+        return;
+      } catch (error) {
+        if (error instanceof JobCancelledError) throw error;
+        lastError = error;
+        console.error(`Document job ${jobId} attempt ${attempt} failed:`, error);
+
+        // Start the next attempt without the chunks this one stored
+        await deleteDocument(job.documentId.toString()).catch(() => {});
+        if (attempt < JOB_ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+      }
+    }
+
+    const message =
+      lastError instanceof Error ? lastError.message : "Processing was interrupted";
+    await updateJob(jobId, { status: "failed", error: message });
+    await db.update(documents).set({ error: message }).where(eq(documents.id, job.documentId));
+  } catch (error) {
+    if (!(error instanceof JobCancelledError)) throw error;
+    // The document is gone; drop anything stored after it was deleted
+    await deleteDocument(job.documentId.toString()).catch(() => {});
+  }
+}
+
+/**
+ * Extract, chunk and embed a document's stored original
+ */
+async function ingestDocument(jobId: number, documentId: number): Promise<void> {
+  const [doc] = await db.select().from(documents).where(eq(documents.id, documentId));
+  if (!doc) throw new JobCancelledError();
+
+  await updateJob(jobId, { status: "extracting", totalChunks: null, embeddedChunks: 0 });
+  const text = await extractDocumentText(doc);
+
+  await updateJob(jobId, { status: "chunking" });
+  const chunks = chunkText(text);
+
+  await updateJob(jobId, { status: "embedding", totalChunks: chunks.length });
+  const name = doc.originalName ?? doc.filename;
+  for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+    await addDocument(doc.id.toString(), name, batch, start, chunks.length);
+    await updateJob(jobId, { embeddedChunks: start + batch.length });
+  }
+
+  await db
+    .update(documents)
+    .set({ processedAt: new Date(), chunkCount: chunks.length, error: null })
+    .where(eq(documents.id, doc.id));
+  await updateJob(jobId, { status: "done" });
+}
+
+async function extractDocumentText(doc: Document): Promise<string> {
+  const buffer = await getDocumentFile(doc);
+  if (!buffer || !doc.mimeType) {
+    throw new Error("The original file of this document was not kept");
+  }
+  return extractText(buffer, doc.mimeType);
+}
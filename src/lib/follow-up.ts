@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const FOLLOW_UP_TONES = ["friendly", "neutral", "formal"] as const;
+export const FOLLOW_UP_LENGTHS = ["brief", "standard", "detailed"] as const;
+
+export type FollowUpTone = (typeof FOLLOW_UP_TONES)[number];
+export type FollowUpLength = (typeof FOLLOW_UP_LENGTHS)[number];
+
+export const generateFollowUpSchema = z.object({
+  tone: z.enum(FOLLOW_UP_TONES).optional(),
+  length: z.enum(FOLLOW_UP_LENGTHS).optional(),
+});
+
+export type GenerateFollowUpInput = z.infer<typeof generateFollowUpSchema>;
+
+// ===========================================
+// Drafts
+// ===========================================
+
+export interface FollowUpDraft {
+  subject: string;
+  body: string;
+}
+
+/** What a recap is written from */
+export interface FollowUpMaterial {
+  title: string;
+  startedAt: Date;
+  summary: string | null;
+  decisions: { decision: string; rationale: string | null }[];
+  actionItems: { task: string; assignee: string | null; dueDate: Date | null }[];
+  openQuestions: string[];
+}
+
+export function formatFollowUpDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * One line per action item: "- Task (owner: Alex, due Jan 31, 2024)"
+ */
+export function formatFollowUpActionItem(item: FollowUpMaterial["actionItems"][number]): string {
+  const details = [
+    item.assignee && `owner: ${item.assignee}`,
+    item.dueDate && `due ${formatFollowUpDate(item.dueDate)}`,
+  ].filter(Boolean);
+  return `- ${item.task}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * A plain recap with every section, used when the model can't write one
+ */
+export function formatFollowUpTemplate(material: FollowUpMaterial): string {
+  const date = formatFollowUpDate(material.startedAt);
+  const sections = [`Hi all,\n\nThanks for joining "${material.title}" on ${date}. Here is a recap.`];
+
+  if (material.summary) sections.push(`Summary\n${material.summary}`);
+  if (material.decisions.length > 0) {
+    sections.push(
+      `Decisions\n${material.decisions
+        .map((item) => `- ${item.decision}${item.rationale ? ` (${item.rationale})` : ""}`)
+        .join("\n")}`
+    );
+  }
+  if (material.actionItems.length > 0) {
+    sections.push(`Action items\n${material.actionItems.map(formatFollowUpActionItem).join("\n")}`);
+  }
+  if (material.openQuestions.length > 0) {
+    sections.push(
+      `Open questions\n${material.openQuestions.map((question) => `- ${question}`).join("\n")}`
+    );
+  }
+  sections.push("Let me know if I missed anything.");
+
+  return sections.join("\n\n");
+}
+
+// ===========================================
+// Email Files
+// ===========================================
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Encode a header value so non-ASCII characters survive (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+/**
+ * Build an unsent email message (.eml) that mail clients open as a draft
+ */
+export function buildEml(draft: FollowUpDraft, date: Date = new Date()): string {
+  const body = toBase64(draft.body.replace(/\r?\n/g, "\r\n")).replace(/.{1,76}/g, "$&\r\n");
+
+  return [
+    "MIME-Version: 1.0",
+    `Date: ${date.toUTCString()}`,
+    `Subject: ${encodeHeader(draft.subject)}`,
+    "To: ",
+    "X-Unsent: 1",
+    'Content-Type: text/plain; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
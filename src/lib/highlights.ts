@@ -0,0 +1,51 @@
+import { z } from "zod";
+import type { MeetingHighlight } from "@/lib/schema";
+import { formatOffset } from "@/lib/transcript-segments";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const HIGHLIGHT_SOURCES = ["voice", "button"] as const;
+
+export type HighlightSource = (typeof HIGHLIGHT_SOURCES)[number];
+
+export const createHighlightSchema = z.object({
+  // The marked moment; defaults to when the request arrives
+  at: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), "Invalid at timestamp")
+    .optional(),
+  note: z.string().trim().max(2000, "Note too long").nullable().optional(),
+  source: z.enum(HIGHLIGHT_SOURCES).optional(),
+});
+
+export const updateHighlightSchema = z.object({
+  note: z.string().trim().max(2000, "Note too long").nullable(),
+});
+
+export type CreateHighlightInput = z.infer<typeof createHighlightSchema>;
+export type UpdateHighlightInput = z.infer<typeof updateHighlightSchema>;
+
+// ===========================================
+// Formatting
+// ===========================================
+
+type FormattableHighlight = Pick<MeetingHighlight, "atMs" | "quote" | "note">;
+
+/**
+ * One line per highlight: `[12:34] "What was said" (note)`
+ */
+export function formatHighlightLine(highlight: FormattableHighlight): string {
+  const quote = highlight.quote ? `"${highlight.quote.replace(/\s+/g, " ")}"` : "(no transcript)";
+  return `[${formatOffset(highlight.atMs)}] ${quote}${highlight.note ? ` (${highlight.note})` : ""}`;
+}
+
+/**
+ * Render a meeting's highlights for the end of the meeting summary
+ */
+export function formatHighlightsSection(highlights: FormattableHighlight[]): string {
+  return ["Highlights:", ...highlights.map((item) => `- ${formatHighlightLine(item)}`)].join(
+    "\n"
+  );
+}
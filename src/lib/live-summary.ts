@@ -0,0 +1,119 @@
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { updateLiveSummary } from "@/lib/meeting-ai";
+import { getSpeakerNames } from "@/lib/meeting-transcript";
+import { meetings, transcriptSegments, type Meeting } from "@/lib/schema";
+import { getSetting } from "@/lib/settings";
+import { formatSegmentLine } from "@/lib/transcript-segments";
+
+export interface LiveSummary {
+  summary: string | null;
+  updatedAt: Date | null;
+  /** Offset from the meeting start that the summary covers up to */
+  throughMs: number | null;
+}
+
+// Survive module reloads in development so a meeting is only summarized once at a time
+const globalForLiveSummary = globalThis as unknown as {
+  liveSummaryRefreshes?: Map<number, Promise<LiveSummary | null>>;
+};
+const refreshes = (globalForLiveSummary.liveSummaryRefreshes ??= new Map());
+
+function toLiveSummary(meeting: Meeting): LiveSummary {
+  return {
+    summary: meeting.liveSummary,
+    updatedAt: meeting.liveSummaryAt,
+    throughMs: meeting.liveSummaryThroughMs,
+  };
+}
+
+/**
+ * Get the current live summary of a meeting, or null if the meeting doesn't exist
+ */
+export async function getLiveSummary(meetingId: number): Promise<LiveSummary | null> {
+  const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+  return meeting ? toLiveSummary(meeting) : null;
+}
+
+/**
+ * Bring the live summary up to date with the transcript. Without `force`
+ * it only refreshes once `liveSummaryMinutes` of new conversation have
+ * been transcribed; "catch me up" requests force a refresh whenever
+ * anything new was said.
+ *
+ * @returns The live summary, or null if the meeting doesn't exist
+ */
+export async function refreshLiveSummary(
+  meetingId: number,
+  { force = false }: { force?: boolean } = {}
+): Promise<LiveSummary | null> {
+  // Share a refresh that is already running instead of starting another.
+  // It is registered before anything is awaited so two requests can't both
+  // decide the summary is stale.
+  const running = refreshes.get(meetingId);
+  if (running) return running;
+
+  const refresh = runRefresh(meetingId, force);
+  refreshes.set(meetingId, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshes.delete(meetingId);
+  }
+}
+
+async function runRefresh(meetingId: number, force: boolean): Promise<LiveSummary | null> {
+  const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+  if (!meeting) return null;
+  if (meeting.endedAt) return toLiveSummary(meeting);
+
+  const newSegments = await db
+    .select()
+    .from(transcriptSegments)
+    .where(
+      and(
+        eq(transcriptSegments.meetingId, meetingId),
+        gt(transcriptSegments.id, meeting.liveSummarySegmentId ?? 0)
+      )
+    )
+    .orderBy(asc(transcriptSegments.startMs), asc(transcriptSegments.id));
+
+  if (newSegments.length === 0) return toLiveSummary(meeting);
+
+  const throughMs = Math.max(...newSegments.map((segment) => segment.endMs));
+  if (!force) {
+    const intervalMinutes = await getSetting("liveSummaryMinutes");
+    const newMs = throughMs - (meeting.liveSummaryThroughMs ?? 0);
+    if (intervalMinutes === 0 || newMs < intervalMinutes * 60 * 1000) {
+      return toLiveSummary(meeting);
+    }
+  }
+
+  const names = await getSpeakerNames(meetingId);
+  const newTranscript = newSegments
+    .map((segment) => formatSegmentLine(segment, names))
+    .join("\n");
+  const summary = await updateLiveSummary(meeting.liveSummary, newTranscript);
+
+  // Only write over the summary this one was built on, so an older result
+  // never replaces a newer one (e.g. from another server process)
+  const [updated] = await db
+    .update(meetings)
+    .set({
+      liveSummary: summary || meeting.liveSummary,
+      liveSummarySegmentId: Math.max(...newSegments.map((segment) => segment.id)),
+      liveSummaryThroughMs: Math.max(throughMs, meeting.liveSummaryThroughMs ?? 0),
+      liveSummaryAt: new Date(),
+    })
+    .where(
+      and(
+        eq(meetings.id, meetingId),
+        meeting.liveSummarySegmentId === null
+          ? isNull(meetings.liveSummarySegmentId)
+          : eq(meetings.liveSummarySegmentId, meeting.liveSummarySegmentId)
+      )
+    )
+    .returning();
+
+  return updated ? toLiveSummary(updated) : getLiveSummary(meetingId);
+}
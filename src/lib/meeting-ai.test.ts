@@ -0,0 +1,156 @@
+import { generateText } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  extractActionItems,
+  locateQuote,
+  locateQuoteInLines,
+  splitForSummary,
+} from "@/lib/meeting-ai";
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateText: vi.fn(),
+}));
+
+const generateTextMock = vi.mocked(generateText);
+
+function extractionResult(actionItems: unknown[]) {
+  return { output: { actionItems } } as unknown as Awaited<ReturnType<typeof generateText>>;
+}
+
+beforeEach(() => {
+  generateTextMock.mockReset();
+});
+
+describe("locateQuote", () => {
+  it("finds an exact quote", () => {
+    expect(locateQuote("Alex: I'll send the deck.", "send the deck")).toEqual({
+      start: 11,
+      end: 24,
+    });
+  });
+
+  it("tolerates different casing and whitespace", () => {
+    const transcript = "Sam: we  will ship\non Friday";
+    const span = locateQuote(transcript, "We will ship on friday");
+
+    expect(span && transcript.slice(span.start, span.end)).toBe("we  will ship\non Friday");
+  });
+
+  it("returns null for a quote that isn't there", () => {
+    expect(locateQuote("Nothing relevant", "ship on Friday")).toBeNull();
+    expect(locateQuote("Nothing relevant", "  ")).toBeNull();
+  });
+});
+
+describe("locateQuoteInLines", () => {
+  const lines = [
+    { text: "[00:00] Alex: Let's start.", startMs: 0, endMs: 2000 },
+    { text: "[00:05] Sam: I'll send the deck", startMs: 5000, endMs: 7000 },
+    { text: "[00:09] Sam: by Friday.", startMs: 9000, endMs: 10000 },
+  ];
+
+  it("spans the lines the quote covers", () => {
+    expect(locateQuoteInLines(lines, "send the deck")).toEqual({ startMs: 5000, endMs: 7000 });
+    expect(locateQuoteInLines(lines, "I'll send the deck [00:09] Sam: by Friday")).toEqual({
+      startMs: 5000,
+      endMs: 10000,
+    });
+  });
+
+  it("returns null when the quote isn't in the transcript", () => {
+    expect(locateQuoteInLines(lines, "budget review")).toBeNull();
+  });
+});
+
+describe("splitForSummary", () => {
+  it("breaks between lines without exceeding the limit", () => {
+    const pieces = splitForSummary("aaaa\nbbbb\ncccc", 9);
+
+    expect(pieces).toEqual(["aaaa\nbbbb", "cccc"]);
+  });
+
+  it("breaks a long line between words", () => {
+    const pieces = splitForSummary("one two three four five", 10);
+
+    expect(pieces.every((piece) => piece.length <= 10)).toBe(true);
+    expect(pieces.join(" ")).toBe("one two three four five");
+  });
+});
+
+describe("extractActionItems", () => {
+  it("anchors the quote to the transcript text and parses the due date", async () => {
+    generateTextMock.mockResolvedValueOnce(
+      extractionResult([
+        {
+          task: " Send the deck ",
+          assignee: " Sam ",
+          dueDate: "2024-03-08",
+          quote: "i'll SEND the deck",
+        },
+        { task: "Book a room", assignee: null, dueDate: "soon", quote: "not in the transcript" },
+      ])
+    );
+
+    const items = await extractActionItems(
+      "Sam: I'll send the deck by Friday.",
+      new Date("2024-03-01")
+    );
+
+    expect(generateTextMock).toHaveBeenCalledTimes(1);
+    expect(items).toEqual([
+      {
+        task: "Send the deck",
+        assignee: "Sam",
+        dueDate: new Date("2024-03-08"),
+        quote: "I'll send the deck",
+      },
+      { task: "Book a room", assignee: null, dueDate: null, quote: "not in the transcript" },
+    ]);
+  });
+
+  it("fills in the owner and deadline from later parts", async () => {
+    const part = `Sam: I'll send the deck. ${"More discussion. ".repeat(500)}`;
+    generateTextMock
+      .mockResolvedValueOnce(
+        extractionResult([
+          { task: "Send the deck", assignee: null, dueDate: null, quote: "I'll send the deck" },
+        ])
+      )
+      .mockResolvedValue(
+        extractionResult([
+          { task: "send the deck!", assignee: "Sam", dueDate: "2024-03-08", quote: "" },
+        ])
+      );
+
+    const items = await extractActionItems(`${part}\n${part}`);
+
+    expect(generateTextMock.mock.calls.length).toBeGreaterThan(1);
+    expect(items).toEqual([
+      {
+        task: "Send the deck",
+        assignee: "Sam",
+        dueDate: new Date("2024-03-08"),
+        quote: "I'll send the deck",
+      },
+    ]);
+  });
+
+  it("skips a part the model fails on", async () => {
+    const part = `Sam: I'll send the deck. ${"More discussion. ".repeat(500)}`;
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    generateTextMock
+      .mockRejectedValueOnce(new Error("model unavailable"))
+      .mockResolvedValue(
+        extractionResult([
+          { task: "Send the deck", assignee: "Sam", dueDate: null, quote: "I'll send the deck" },
+        ])
+      );
+
+    const items = await extractActionItems(`${part}\n${part}`);
+
+    expect(items.map((item) => item.task)).toEqual(["Send the deck"]);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,810 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import {
+  formatFollowUpActionItem,
+  formatFollowUpDate,
+  formatFollowUpTemplate,
+  type FollowUpDraft,
+  type FollowUpLength,
+  type FollowUpMaterial,
+  type FollowUpTone,
+  type GenerateFollowUpInput,
+} from "@/lib/follow-up";
+import { fastModel } from "@/lib/ollama";
+
+// ===========================================
+// Action Item Extraction
+// ===========================================
+
+const extractedActionItemSchema = z.object({
+  task: z.string().describe("The task to be done, phrased as an instruction"),
+  assignee: z
+    .string()
+    .nullable()
+    .describe("Name of the person responsible, or null if nobody was named"),
+  dueDate: z
+    .string()
+    .nullable()
+    .describe("Due date as YYYY-MM-DD, or null if no deadline was mentioned"),
+  quote: z
+    .string()
+    .describe("The exact sentence from the transcript where the task was mentioned"),
+});
+
+const actionItemExtractionSchema = z.object({
+  actionItems: z.array(extractedActionItemSchema),
+});
+
+export interface ExtractedActionItem {
+  task: string;
+  assignee: string | null;
+  dueDate: Date | null;
+  /** Sentence the item was mentioned in, as it appears in the transcript when it could be found */
+  quote: string | null;
+}
+
+/** A timed line of transcript, such as a formatted segment */
+export interface TimedLine {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Find a quoted span in the transcript.
+ * Tries an exact match first, then a case- and whitespace-insensitive match.
+ */
+export function locateQuote(
+  transcript: string,
+  quote: string
+): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+
+  const exact = transcript.indexOf(trimmed);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  // Build a pattern that tolerates different whitespace and casing
+  const words = trimmed.split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const match = new RegExp(words.join("\\s+"), "i").exec(transcript);
+  if (match) {
+    return { start: match.index, end: match.index + match[0].length };
+  }
+
+  return null;
+}
+
+/**
+ * Find the moment a quote was spoken in a timed transcript. Offsets stay
+ * valid when the transcript text is rebuilt after corrections.
+ *
+ * @returns The span of the lines the quote covers, or null if it isn't there
+ */
+export function locateQuoteInLines(
+  lines: TimedLine[],
+  quote: string
+): { startMs: number; endMs: number } | null {
+  const starts: number[] = [];
+  let length = 0;
+  for (const line of lines) {
+    starts.push(length);
+    length += line.text.length + 1;
+  }
+
+  const span = locateQuote(lines.map((line) => line.text).join("\n"), quote);
+  if (!span) return null;
+
+  // Last line starting at or before each end of the quote
+  const lineAt = (offset: number) => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1]! <= offset) index++;
+    return lines[index]!;
+  };
+  return { startMs: lineAt(span.start).startMs, endMs: lineAt(span.end - 1).endMs };
+}
+
+/**
+ * Key under which extracted items from different transcript parts count as
+ * the same item
+ */
+function toDedupeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Run an extraction prompt over each part of a transcript that is too long
+ * for one prompt. A part the model fails on is skipped; the others still count.
+ *
+ * @returns Results per part, paired with the transcript text they came from
+ */
+async function extractFromParts<T>(
+  transcript: string,
+  extract: (part: string, intro: string) => Promise<T[]>,
+  label: string
+): Promise<Array<{ item: T; part: string }>> {
+  const parts = splitForSummary(transcript);
+  const results: Array<{ item: T; part: string }> = [];
+
+  for (const [index, part] of parts.entries()) {
+    const intro =
+      parts.length > 1 ? `This is part ${index + 1} of ${parts.length} of the transcript. ` : "";
+    try {
+      for (const item of await extract(part, intro)) results.push({ item, part });
+    } catch (error) {
+      console.error(`Error extracting ${label} from transcript part ${index + 1}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Extract structured action items from a meeting transcript. Long
+ * transcripts are processed a part at a time and the results merged, so a
+ * task mentioned in several parts is listed once.
+ * Returns an empty list if the model fails or produces invalid output.
+ *
+ * @param transcript - Full meeting transcript
+ * @param meetingDate - When the meeting took place, used to resolve relative deadlines
+ */
+export async function extractActionItems(
+  transcript: string,
+  meetingDate: Date = new Date()
+): Promise<ExtractedActionItem[]> {
+  const extracted = await extractFromParts(
+    transcript,
+    async (part, intro) => {
+      const { output } = await generateText({
+        model: fastModel,
+        output: Output.object({ schema: actionItemExtractionSchema }),
+        prompt: `${intro}Extract every action item from this meeting transcript. An action item is a concrete task that someone agreed to do or was asked to do.
+
+For each action item provide:
+- task: what needs to be done
+- assignee: who is responsible (null if nobody was named). Lines may start with the speaker's name ("Alex: ..."); when a speaker volunteers for a task ("I'll send it"), they are the assignee.
+- dueDate: the deadline as YYYY-MM-DD (null if none was mentioned). The meeting took place on ${meetingDate.toISOString().slice(0, 10)}; resolve relative dates like "next Friday" from that day.
+- quote: the exact sentence from the transcript that mentions the task
+
+Only include tasks that are actually in the transcript. Return an empty list if there are none.
+
+TRANSCRIPT:
+${part}`,
+      });
+      return output.actionItems;
+    },
+    "action items"
+  );
+
+  const merged = new Map<string, ExtractedActionItem>();
+  for (const { item, part } of extracted) {
+    const key = toDedupeKey(item.task);
+    if (!key) continue;
+
+    const span = locateQuote(part, item.quote);
+    const dueDate =
+      item.dueDate && !isNaN(Date.parse(item.dueDate)) ? new Date(item.dueDate) : null;
+    const existing = merged.get(key);
+
+    // A later mention may name the owner or deadline the first one left out
+    if (existing) {
+      existing.assignee ??= item.assignee?.trim() || null;
+      existing.dueDate ??= dueDate;
+      continue;
+    }
+    merged.set(key, {
+      task: item.task.trim(),
+      assignee: item.assignee?.trim() || null,
+      dueDate,
+      quote: span ? part.slice(span.start, span.end) : item.quote.trim() || null,
+    });
+  }
+
+  return [...merged.values()];
+}
+
+// ===========================================
+// Decision Extraction
+// ===========================================
+
+const decisionExtractionSchema = z.object({
+  decisions: z.array(
+    z.object({
+      decision: z.string().describe("What was decided, as a single statement"),
+      rationale: z
+        .string()
+        .nullable()
+        .describe("Why it was decided, or null if no reason was given"),
+      quote: z
+        .string()
+        .describe("The exact sentence from the transcript where the decision was made"),
+    })
+  ),
+});
+
+export interface ExtractedDecision {
+  decision: string;
+  rationale: string | null;
+  /** Sentence the decision was made in, as it appears in the transcript when it could be found */
+  quote: string | null;
+}
+
+/**
+ * Extract the decisions reached in a meeting transcript. Long transcripts
+ * are processed a part at a time and the results merged.
+ * Returns an empty list if the model fails or produces invalid output.
+ */
+export async function extractDecisions(transcript: string): Promise<ExtractedDecision[]> {
+  const extracted = await extractFromParts(
+    transcript,
+    async (part, intro) => {
+      const { output } = await generateText({
+        model: fastModel,
+        output: Output.object({ schema: decisionExtractionSchema }),
+        prompt: `${intro}Extract every decision made in this meeting transcript. A decision is something the participants agreed on or settled, such as choosing an option, approving a plan or ruling something out. Tasks someone will do are action items, not decisions.
+
+For each decision provide:
+- decision: what was decided, as a single self-contained statement
+- rationale: why it was decided (null if no reason was given)
+- quote: the exact sentence from the transcript where the decision was made
+
+Only include decisions that are actually in the transcript. Return an empty list if there are none.
+
+TRANSCRIPT:
+${part}`,
+      });
+      return output.decisions;
+    },
+    "decisions"
+  );
+
+  const merged = new Map<string, ExtractedDecision>();
+  for (const { item, part } of extracted) {
+    const key = toDedupeKey(item.decision);
+    if (!key) continue;
+
+    const existing = merged.get(key);
+    if (existing) {
+      existing.rationale ??= item.rationale?.trim() || null;
+      continue;
+    }
+
+    const span = locateQuote(part, item.quote);
+    merged.set(key, {
+      decision: item.decision.trim(),
+      rationale: item.rationale?.trim() || null,
+      quote: span ? part.slice(span.start, span.end) : item.quote.trim() || null,
+    });
+  }
+
+  return [...merged.values()];
+}
+
+// ===========================================
+// Summarization
+// ===========================================
+
+// Longest text sent to the model in one prompt, in characters. Around 2,000
+// tokens, which leaves room for instructions and the answer inside the
+// default Ollama context window.
+const SUMMARY_CHUNK_CHARS = parseInt(process.env.SUMMARY_CHUNK_CHARS || "8000") || 8000;
+
+// Length of the transcript excerpt kept when a chunk can't be summarized
+const FALLBACK_EXCERPT_CHARS = 300;
+
+const SUMMARY_FOCUS = `- Key decisions made
+- Action items assigned
+- Important topics discussed
+- Any deadlines or next steps mentioned`;
+
+export interface SummaryProgress {
+  /** "map" while transcript chunks are summarized, "reduce" while notes are merged */
+  stage: "map" | "reduce";
+  completed: number;
+  total: number;
+}
+
+export interface MeetingSummaryResult {
+  summary: string;
+  /** Transcript chunks summarized separately (1 when it fit in one prompt) */
+  chunkCount: number;
+  /** True when part of the summary fell back to transcript excerpts */
+  partial: boolean;
+}
+
+export interface SummarizeOptions {
+  onProgress?: (progress: SummaryProgress) => void;
+}
+
+/**
+ * Split text into pieces of at most `maxChars`, breaking between lines
+ * where possible and between words otherwise
+ */
+export function splitForSummary(text: string, maxChars: number = SUMMARY_CHUNK_CHARS): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  const push = (piece: string) => {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  };
+
+  for (const line of text.split("\n")) {
+    if (line.length <= maxChars) {
+      push(line);
+      continue;
+    }
+
+    // A single line longer than a chunk (e.g. a transcript without line breaks)
+    let rest = line;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(" ", maxChars);
+      const end = cut > maxChars / 2 ? cut : maxChars;
+      push(rest.slice(0, end));
+      rest = rest.slice(end).trimStart();
+    }
+    if (rest) push(rest);
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * Keep the start of a chunk when the model couldn't summarize it
+ */
+function toExcerpt(text: string): string {
+  const flattened = text.replace(/\s+/g, " ").trim();
+  return flattened.length > FALLBACK_EXCERPT_CHARS
+    ? `Excerpt: ${flattened.slice(0, FALLBACK_EXCERPT_CHARS)}...`
+    : `Excerpt: ${flattened}`;
+}
+
+/**
+ * Run a summarization prompt (the AI SDK already retries transient failures)
+ */
+async function generateSummaryText(prompt: string): Promise<string> {
+  const { text } = await generateText({ model: fastModel, prompt });
+  return text.trim();
+}
+
+/**
+ * Summarize one part of a long transcript into notes for the final summary
+ */
+function summarizePart(transcript: string, part: number, total: number): Promise<string> {
+  return generateSummaryText(`This is part ${part} of ${total} of a meeting transcript. Write concise notes on this part, covering:
+${SUMMARY_FOCUS}
+
+Lines may start with the speaker's name ("Alex: ..."). Keep the names of the people who made decisions or took on tasks.
+
+Only include what is in this part. Do not add an introduction.
+
+TRANSCRIPT PART ${part}:
+${transcript}
+
+NOTES:`);
+}
+
+/**
+ * Merge notes from consecutive parts of a meeting into one set of notes
+ */
+function mergeNotes(notes: string[]): Promise<string> {
+  return generateSummaryText(`These are notes from consecutive parts of one meeting. Merge them into a single set of concise notes, removing repetition but keeping every decision, action item (with its owner), deadline and important topic.
+
+${notes.map((note, i) => `NOTES ${i + 1}:\n${note}`).join("\n\n")}
+
+MERGED NOTES:`);
+}
+
+/**
+ * Turn a transcript (or notes covering a whole meeting) into the final summary
+ */
+function summarizeWhole(content: string, fromNotes: boolean): Promise<string> {
+  return generateSummaryText(`Summarize this meeting ${fromNotes ? "from the notes below" : "transcript"} in 3-5 bullet points, focusing on:
+${SUMMARY_FOCUS}
+
+Lines may start with the speaker's name ("Alex: ..."). Attribute decisions and action items to the people who made them.
+
+Be concise and actionable.
+
+${fromNotes ? "NOTES" : "TRANSCRIPT"}:
+${content}
+
+SUMMARY:`);
+}
+
+/**
+ * Group consecutive notes so each group fits in one prompt
+ */
+function groupNotes(notes: string[]): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const note of notes) {
+    if (current.length > 0 && length + note.length > SUMMARY_CHUNK_CHARS) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(note);
+    length += note.length + 2;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Summarize a meeting transcript as a few bullet points.
+ *
+ * Transcripts too long for one prompt are summarized hierarchically: each
+ * chunk is condensed into notes, notes are merged until they fit in a
+ * single prompt, and the merged notes become the summary. Parts the model
+ * fails on are replaced by transcript excerpts instead of failing the
+ * whole summary.
+ */
+export async function generateMeetingSummary(
+  transcript: string,
+  { onProgress }: SummarizeOptions = {}
+): Promise<MeetingSummaryResult> {
+  const chunks = splitForSummary(transcript);
+
+  // Short meetings fit in a single prompt
+  if (chunks.length <= 1) {
+    try {
+      return { summary: await summarizeWhole(transcript, false), chunkCount: 1, partial: false };
+    } catch (error) {
+      console.error("Error generating summary:", error);
+      return { summary: "Summary generation failed.", chunkCount: 1, partial: true };
+    }
+  }
+
+  // Map: condense each chunk into notes
+  let partial = false;
+  let failedParts = 0;
+  let notes: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    try {
+      notes.push(await summarizePart(chunk, index + 1, chunks.length));
+    } catch (error) {
+      console.error(`Error summarizing transcript part ${index + 1}:`, error);
+      notes.push(toExcerpt(chunk));
+      partial = true;
+      failedParts++;
+    }
+    onProgress?.({ stage: "map", completed: index + 1, total: chunks.length });
+  }
+
+  if (failedParts === chunks.length) {
+    return { summary: "Summary generation failed.", chunkCount: chunks.length, partial: true };
+  }
+
+  // Reduce: merge neighbouring notes until they fit in one prompt
+  let reduceSteps = 0;
+  while (notes.join("\n\n").length > SUMMARY_CHUNK_CHARS && notes.length > 1) {
+    const groups = groupNotes(notes);
+    const total = reduceSteps + groups.length + 1;
+    const merged: string[] = [];
+    for (const group of groups) {
+      try {
+        merged.push(group.length > 1 ? await mergeNotes(group) : group[0]!);
+      } catch (error) {
+        console.error("Error merging summary notes:", error);
+        merged.push(group.join("\n"));
+        partial = true;
+      }
+      onProgress?.({ stage: "reduce", completed: ++reduceSteps, total });
+    }
+
+    // Merging made no progress; trim the notes so the final prompt still fits
+    if (merged.length >= notes.length) {
+      const budget = Math.floor(SUMMARY_CHUNK_CHARS / merged.length);
+      notes = merged.map((note) => note.slice(0, budget));
+      partial = true;
+      break;
+    }
+    notes = merged;
+  }
+
+  // The final summary is the last reduce step
+  onProgress?.({ stage: "reduce", completed: reduceSteps, total: reduceSteps + 1 });
+  try {
+    const summary = await summarizeWhole(notes.join("\n\n"), true);
+    return { summary, chunkCount: chunks.length, partial };
+  } catch (error) {
+    // Better to show the notes than nothing at all
+    console.error("Error generating final summary:", error);
+    return {
+      summary: notes.map((note) => note.trim()).join("\n\n"),
+      chunkCount: chunks.length,
+      partial: true,
+    };
+  }
+}
+
+// ===========================================
+// Live Summary
+// ===========================================
+
+/**
+ * Fold newly spoken transcript into the running "catch me up" summary of a
+ * meeting that is still in progress. Only the new part of the transcript is
+ * sent, so each refresh stays small however long the meeting runs.
+ *
+ * @param previous - The summary so far, or null for the first refresh
+ * @param newTranscript - Transcript lines spoken since the previous summary
+ */
+export async function updateLiveSummary(
+  previous: string | null,
+  newTranscript: string
+): Promise<string> {
+  let summary = previous;
+
+  // A long gap between refreshes is folded in a piece at a time
+  for (const part of splitForSummary(newTranscript)) {
+    summary = await generateSummaryText(`You keep a running summary of a meeting that is still in progress, so people who join late can catch up.
+
+${summary ? `SUMMARY SO FAR:\n${summary}` : "Nothing has been summarized yet."}
+
+WHAT WAS SAID SINCE:
+${part}
+
+Write the updated summary as at most 6 short bullet points covering the topics discussed, decisions made, and action items with their owners. Lines may start with the speaker's name ("Alex: ..."). Keep earlier points that still matter, and end with what is being discussed right now.
+
+UPDATED SUMMARY:`);
+  }
+
+  return summary ?? "";
+}
+
+// ===========================================
+// Agenda Tracking
+// ===========================================
+
+const agendaTopicSchema = z.object({
+  topic: z
+    .number()
+    .int()
+    .nullable()
+    .describe("Number of the agenda topic being discussed, or null if none of them"),
+});
+
+/**
+ * Work out which agenda topic the latest stretch of a meeting is about.
+ *
+ * @param topics - Agenda topics in order
+ * @param currentIndex - Topic the meeting was on before, or -1
+ * @param recentTranscript - Transcript lines from the last few minutes
+ * @returns Index of the topic being discussed, or null if it can't be told
+ */
+export async function detectAgendaTopic(
+  topics: string[],
+  currentIndex: number,
+  recentTranscript: string
+): Promise<number | null> {
+  try {
+    const { output } = await generateText({
+      model: fastModel,
+      output: Output.object({ schema: agendaTopicSchema }),
+      prompt: `A meeting is following this agenda:
+${topics.map((topic, i) => `[${i}] ${topic}`).join("\n")}
+
+${currentIndex >= 0 ? `Until now the meeting was on topic [${currentIndex}].` : "The meeting has not started on the agenda yet."}
+
+Which topic is the conversation below about? Only pick a different topic if the participants have clearly moved on to it; brief mentions of another topic don't count. Answer null if the conversation is about none of them.
+
+RECENT CONVERSATION:
+${recentTranscript}`,
+    });
+
+    const topic = output.topic;
+    return topic !== null && topic >= 0 && topic < topics.length ? topic : null;
+  } catch (error) {
+    console.error("Error detecting agenda topic:", error);
+    return null;
+  }
+}
+
+// ===========================================
+// Chapters
+// ===========================================
+
+// Meetings shorter than this aren't split into chapters
+const MIN_CHAPTERED_MEETING_MS = 5 * 60 * 1000;
+
+// Chapters shorter than this are folded into the one before
+const MIN_CHAPTER_MS = 60 * 1000;
+
+const chapterExtractionSchema = z.object({
+  chapters: z.array(
+    z.object({
+      startLine: z.number().int().describe("Number of the line where the topic starts"),
+      title: z.string().describe("Short title for the topic, at most 8 words"),
+      gist: z.string().describe("One sentence on what was said or decided"),
+    })
+  ),
+});
+
+export interface ExtractedChapter {
+  title: string;
+  gist: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Split a timed transcript into topical chapters, each with a title and a
+ * one-line gist. Long transcripts are processed a window at a time; a
+ * window the model fails on continues the chapter before it.
+ *
+ * @returns Chapters in order, or an empty list for short meetings or if
+ *   the model produced nothing usable
+ */
+export async function extractChapters(lines: TimedLine[]): Promise<ExtractedChapter[]> {
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+  if (!first || !last || last.endMs - first.startMs < MIN_CHAPTERED_MEETING_MS) return [];
+
+  // Number the lines so the model can point at topic boundaries
+  const numbered = lines.map((line, i) => `[${i}] ${line.text.replace(/\s+/g, " ")}`);
+  const windows = splitForSummary(numbered.join("\n"));
+
+  const boundaries = new Map<number, { title: string; gist: string }>();
+  let offset = 0;
+  for (const window of windows) {
+    const count = window.split("\n").length;
+    try {
+      const { output } = await generateText({
+        model: fastModel,
+        output: Output.object({ schema: chapterExtractionSchema }),
+        prompt: `Split this part of a meeting transcript into chapters, one per topic discussed. Each line starts with its number in brackets.
+
+For each chapter provide:
+- startLine: the number of the line where the topic starts. The first chapter starts at line ${offset}.
+- title: a short title for the topic (at most 8 words)
+- gist: one sentence on what was said or decided
+
+Only start a new chapter when the conversation moves to a different topic. Most meetings have a handful of chapters, not one per line.
+
+TRANSCRIPT:
+${window}`,
+      });
+
+      for (const chapter of output.chapters) {
+        const start = Math.min(Math.max(chapter.startLine, offset), offset + count - 1);
+        if (chapter.title.trim() && !boundaries.has(start)) {
+          boundaries.set(start, { title: chapter.title.trim(), gist: chapter.gist.trim() });
+        }
+      }
+    } catch (error) {
+      console.error("Error extracting chapters:", error);
+    }
+    offset += count;
+  }
+
+  if (boundaries.size === 0) return [];
+
+  // Turn boundaries into time ranges, folding very short chapters into the previous one
+  const starts = [...boundaries.keys()].sort((a, b) => a - b);
+  const chapters: ExtractedChapter[] = [];
+  for (const [i, start] of starts.entries()) {
+    const lastLine = (starts[i + 1] ?? lines.length) - 1;
+    const previous = chapters[chapters.length - 1];
+    const startLine = previous ? start : 0;
+    const chapter = {
+      ...boundaries.get(start)!,
+      startMs: lines[startLine]!.startMs,
+      endMs: lines[lastLine]!.endMs,
+    };
+
+    if (previous && chapter.endMs - chapter.startMs < MIN_CHAPTER_MS) {
+      previous.endMs = chapter.endMs;
+    } else {
+      chapters.push(chapter);
+    }
+  }
+
+  return chapters;
+}
+
+// ===========================================
+// Follow-up Drafts
+// ===========================================
+
+const openQuestionSchema = z.object({
+  questions: z.array(z.string().describe("A question raised but not answered, as one sentence")),
+});
+
+// Most open questions listed in a recap
+const MAX_OPEN_QUESTIONS = 10;
+
+/**
+ * Find the questions a meeting raised but didn't settle. Long transcripts
+ * are read a part at a time; parts the model fails on are skipped.
+ */
+export async function extractOpenQuestions(transcript: string): Promise<string[]> {
+  const questions = new Map<string, string>();
+
+  for (const part of splitForSummary(transcript)) {
+    try {
+      const { output } = await generateText({
+        model: fastModel,
+        output: Output.object({ schema: openQuestionSchema }),
+        prompt: `List the questions raised in this part of a meeting transcript that were left open: not answered, not decided, or explicitly parked for later. Leave out questions that were answered in the conversation and small talk.
+
+Phrase each as a single self-contained question. Return an empty list if there are none.
+
+TRANSCRIPT:
+${part}`,
+      });
+
+      for (const question of output.questions) {
+        const trimmed = question.trim();
+        if (trimmed) questions.set(trimmed.toLowerCase(), trimmed);
+      }
+    } catch (error) {
+      console.error("Error extracting open questions:", error);
+    }
+  }
+
+  return [...questions.values()].slice(0, MAX_OPEN_QUESTIONS);
+}
+
+const FOLLOW_UP_TONE_GUIDES: Record<FollowUpTone, string> = {
+  friendly: "warm and conversational, as to close colleagues",
+  neutral: "clear and matter-of-fact",
+  formal: "polite and formal, suitable for clients or executives",
+};
+
+const FOLLOW_UP_LENGTH_GUIDES: Record<FollowUpLength, string> = {
+  brief: "Keep it short: a two-sentence summary and one line per item.",
+  standard: "Use a short paragraph for the summary and one line per item.",
+  detailed: "Give a full summary and add context to each decision and action item.",
+};
+
+/**
+ * Write the recap email sent after a meeting. Falls back to a plain
+ * template with the same sections if the model fails.
+ */
+export async function writeFollowUp(
+  material: FollowUpMaterial,
+  { tone = "neutral", length = "standard" }: GenerateFollowUpInput = {}
+): Promise<FollowUpDraft> {
+  const subject = `Recap: ${material.title} (${formatFollowUpDate(material.startedAt)})`;
+
+  try {
+    const text = await generateSummaryText(`Write the follow-up email sent to the participants after a meeting. The tone is ${FOLLOW_UP_TONE_GUIDES[tone]}. ${FOLLOW_UP_LENGTH_GUIDES[length]}
+
+Use these sections in order, as plain text headings: Summary, Decisions, Action items, Open questions. Leave out a section if there is nothing for it. List every action item with its owner and due date when known. Only use the facts below; do not invent names, dates or commitments. Start with a greeting and end with a short sign-off without a name. Write only the email body, without a subject line.
+
+MEETING: ${material.title}, ${formatFollowUpDate(material.startedAt)}
+
+SUMMARY:
+${material.summary || "No summary available."}
+
+DECISIONS:
+${material.decisions.map((item) => `- ${item.decision}${item.rationale ? ` (because ${item.rationale})` : ""}`).join("\n") || "None"}
+
+ACTION ITEMS:
+${material.actionItems.map(formatFollowUpActionItem).join("\n") || "None"}
+
+OPEN QUESTIONS:
+${material.openQuestions.map((question) => `- ${question}`).join("\n") || "None"}
+
+EMAIL BODY:`);
+
+    if (text) return { subject, body: text };
+  } catch (error) {
+    console.error("Error writing follow-up:", error);
+  }
+
+  return { subject, body: formatFollowUpTemplate(material) };
+}
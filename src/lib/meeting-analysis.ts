@@ -0,0 +1,180 @@
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { formatAgendaCoverage } from "@/lib/agenda";
+import { closeAgenda, getAgenda } from "@/lib/agenda-tracker";
+import { db } from "@/lib/db";
+import { formatHighlightsSection } from "@/lib/highlights";
+import {
+  extractActionItems,
+  extractChapters,
+  extractDecisions,
+  generateMeetingSummary,
+  locateQuoteInLines,
+  type SummaryProgress,
+  type TimedLine,
+} from "@/lib/meeting-ai";
+import { getHighlights } from "@/lib/meeting-highlights";
+import { getSegments, getSpeakerNames } from "@/lib/meeting-transcript";
+import { actionItems, decisions, meetingChapters, type MeetingChapter } from "@/lib/schema";
+import { formatSegmentLine } from "@/lib/transcript-segments";
+
+// Survive module reloads in development so progress is visible to every route
+const globalForAnalysis = globalThis as unknown as {
+  summaryProgress?: Map<number, SummaryProgress>;
+};
+const summaryProgress = (globalForAnalysis.summaryProgress ??= new Map());
+
+/**
+ * Progress of the summary currently being generated for a meeting, or
+ * null when none is running. Only long meetings report progress.
+ */
+export function getSummaryProgress(meetingId: number): SummaryProgress | null {
+  return summaryProgress.get(meetingId) ?? null;
+}
+
+/**
+ * List a meeting's chapters in order
+ */
+export async function getChapters(meetingId: number): Promise<MeetingChapter[]> {
+  return db
+    .select()
+    .from(meetingChapters)
+    .where(eq(meetingChapters.meetingId, meetingId))
+    .orderBy(asc(meetingChapters.position));
+}
+
+/**
+ * A meeting's segments as timed transcript lines
+ */
+async function getTimedLines(meetingId: number): Promise<TimedLine[]> {
+  const [segments, names] = await Promise.all([
+    getSegments(meetingId),
+    getSpeakerNames(meetingId),
+  ]);
+
+  return segments.map((segment) => ({
+    text: formatSegmentLine(segment, names),
+    startMs: segment.startMs,
+    endMs: segment.endMs,
+  }));
+}
+
+/**
+ * Split a meeting's timed transcript into chapters, replacing any stored
+ * before. Meetings without timed segments get no chapters.
+ */
+export async function generateChapters(meetingId: number): Promise<MeetingChapter[]> {
+  const chapters = await extractChapters(await getTimedLines(meetingId));
+
+  await db.delete(meetingChapters).where(eq(meetingChapters.meetingId, meetingId));
+  if (chapters.length === 0) return [];
+
+  return db
+    .insert(meetingChapters)
+    .values(
+      chapters.map((chapter, position) => ({
+        meetingId,
+        position,
+        title: chapter.title.slice(0, 255),
+        gist: chapter.gist || null,
+        startMs: chapter.startMs,
+        endMs: chapter.endMs,
+      }))
+    )
+    .returning();
+}
+
+/**
+ * Run the end-of-meeting passes over a transcript: generate the summary and
+ * chapters, and replace unconfirmed action item and decision suggestions
+ * with freshly extracted ones. Meetings with an agenda get its coverage
+ * appended to the summary, followed by the moments bookmarked during it.
+ *
+ * @returns The summary to store on the meeting
+ */
+export async function analyzeMeeting(
+  meetingId: number,
+  transcript: string,
+  meetingDate: Date
+): Promise<{ summary: string }> {
+  const [{ summary, partial }, extractedItems, extractedDecisions] = await Promise.all([
+    generateMeetingSummary(transcript, {
+      onProgress: (progress) => summaryProgress.set(meetingId, progress),
+    }).finally(() => summaryProgress.delete(meetingId)),
+    extractActionItems(transcript, meetingDate),
+    extractDecisions(transcript),
+    // Chapters are a nice-to-have; never fail ending the meeting over them
+    generateChapters(meetingId).catch((error) => {
+      console.error(`Failed to generate chapters for meeting ${meetingId}:`, error);
+    }),
+  ]);
+
+  // Quotes are anchored to when they were spoken; meetings without timed
+  // segments keep the quote alone
+  const lines = await getTimedLines(meetingId);
+  const anchor = (quote: string | null) => {
+    const span = quote ? locateQuoteInLines(lines, quote) : null;
+    return { transcriptStartMs: span?.startMs ?? null, transcriptEndMs: span?.endMs ?? null };
+  };
+
+  if (partial) {
+    console.warn(`Summary for meeting ${meetingId} is incomplete; some parts fell back to excerpts`);
+  }
+
+  // Replace earlier suggestions that nobody has confirmed or edited yet
+  await db
+    .delete(actionItems)
+    .where(
+      and(
+        eq(actionItems.meetingId, meetingId),
+        eq(actionItems.aiSuggested, true),
+        isNull(actionItems.confirmedAt)
+      )
+    );
+
+  if (extractedItems.length > 0) {
+    await db.insert(actionItems).values(
+      extractedItems.map((item) => ({
+        meetingId,
+        task: item.task,
+        assignee: item.assignee,
+        dueDate: item.dueDate,
+        aiSuggested: true,
+        transcriptQuote: item.quote,
+        ...anchor(item.quote),
+      }))
+    );
+  }
+
+  await db
+    .delete(decisions)
+    .where(
+      and(
+        eq(decisions.meetingId, meetingId),
+        eq(decisions.aiSuggested, true),
+        isNull(decisions.confirmedAt)
+      )
+    );
+
+  if (extractedDecisions.length > 0) {
+    await db.insert(decisions).values(
+      extractedDecisions.map((item) => ({
+        meetingId,
+        decision: item.decision,
+        rationale: item.rationale,
+        aiSuggested: true,
+        transcriptQuote: item.quote,
+        ...anchor(item.quote),
+      }))
+    );
+  }
+
+  // The topic under discussion when the meeting ends finishes with it
+  await closeAgenda(meetingId);
+  const [agenda, highlights] = await Promise.all([getAgenda(meetingId), getHighlights(meetingId)]);
+
+  const sections = [summary];
+  if (agenda.length > 0) sections.push(formatAgendaCoverage(agenda));
+  if (highlights.length > 0) sections.push(formatHighlightsSection(highlights));
+
+  return { summary: sections.filter(Boolean).join("\n\n") };
+}
@@ -0,0 +1,135 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { meetingAudioClips, type Meeting, type MeetingAudioClip } from "@/lib/schema";
+import { getSetting } from "@/lib/settings";
+import { deleteFile, upload } from "@/lib/storage";
+
+// Largest clip kept (about 25 minutes of 16 kHz mono audio)
+export const MAX_AUDIO_CLIP_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Whether recorded meeting audio is kept for playback (admin setting)
+ */
+export async function isAudioStorageEnabled(): Promise<boolean> {
+  return getSetting("storeAudio");
+}
+
+/**
+ * Read the duration of a PCM WAV file from its header
+ *
+ * @returns The duration, or null if the buffer isn't a WAV file
+ */
+export function getWavDurationMs(buffer: Buffer): number | null {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    return null;
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+
+    if (id === "fmt " && offset + 20 <= buffer.length) {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (id === "data") {
+      if (!byteRate) return null;
+      // Recorders that stream the file may leave the size unset
+      const dataSize = Math.min(size, buffer.length - offset - 8);
+      return Math.round((dataSize / byteRate) * 1000);
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+}
+
+/**
+ * List a meeting's stored audio in the order it was recorded
+ */
+export async function getAudioClips(meetingId: number): Promise<MeetingAudioClip[]> {
+  return db
+    .select()
+    .from(meetingAudioClips)
+    .where(eq(meetingAudioClips.meetingId, meetingId))
+    .orderBy(asc(meetingAudioClips.startMs));
+}
+
+/**
+ * Store one recording of a meeting as a WAV clip
+ *
+ * @param startMs - Where the recording starts, as an offset from the meeting start
+ * @returns The clip, or null if the audio isn't a WAV file
+ */
+export async function saveAudioClip(
+  meeting: Pick<Meeting, "id">,
+  audio: Buffer,
+  startMs: number
+): Promise<MeetingAudioClip | null> {
+  const durationMs = getWavDurationMs(audio);
+  if (durationMs === null) return null;
+
+  const offset = Math.max(0, Math.round(startMs));
+  const stored = await upload(audio, `${offset}-${Date.now()}.wav`, `meeting-audio/${meeting.id}`, {
+    maxSize: MAX_AUDIO_CLIP_SIZE,
+  });
+
+  const [clip] = await db
+    .insert(meetingAudioClips)
+    .values({
+      meetingId: meeting.id,
+      startMs: offset,
+      durationMs,
+      url: stored.url,
+      pathname: stored.pathname,
+      sizeBytes: audio.length,
+    })
+    .returning();
+
+  return clip ?? null;
+}
+
+/**
+ * Delete stored audio files. Failures are logged, not thrown, for callers
+ * whose clip rows are already gone.
+ */
+export async function removeAudioFiles(clips: Pick<MeetingAudioClip, "url">[]): Promise<void> {
+  for (const clip of clips) {
+    try {
+      await deleteFile(clip.url);
+    } catch (error) {
+      console.error(`Failed to delete audio file ${clip.url}:`, error);
+    }
+  }
+}
+
+/**
+ * Delete the stored audio of meetings, files first so nothing is left
+ * behind if removing one fails
+ *
+ * @returns Number of clips deleted
+ */
+export async function deleteMeetingAudio(meetingIds: number[]): Promise<number> {
+  if (meetingIds.length === 0) return 0;
+
+  const clips = await db
+    .select()
+    .from(meetingAudioClips)
+    .where(inArray(meetingAudioClips.meetingId, meetingIds));
+
+  for (const clip of clips) {
+    await deleteFile(clip.url);
+  }
+
+  if (clips.length > 0) {
+    await db.delete(meetingAudioClips).where(inArray(meetingAudioClips.meetingId, meetingIds));
+  }
+
+  return clips.length;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  meetingDetailsSchema,
+  normalizeTag,
+  parseDateParam,
+  parseMeetingFilters,
+  setMeetingFilterParams,
+  splitList,
+} from "@/lib/meeting-details";
+
+describe("normalizeTag", () => {
+  it("lowercases and hyphenates tags", () => {
+    expect(normalizeTag("  Q3 Planning ")).toBe("q3-planning");
+  });
+});
+
+describe("splitList", () => {
+  it("trims entries and drops blanks and duplicates", () => {
+    expect(splitList("Alex, Sam,,  Alex ,")).toEqual(["Alex", "Sam"]);
+  });
+});
+
+describe("meetingDetailsSchema", () => {
+  it("normalizes and dedupes tags and attendees", () => {
+    const parsed = meetingDetailsSchema.parse({
+      tags: ["Launch", "launch", "Go Live"],
+      attendees: ["Ana", "Ana", "Sam"],
+    });
+
+    expect(parsed).toEqual({ tags: ["launch", "go-live"], attendees: ["Ana", "Sam"] });
+  });
+
+  it("accepts a series ID or null to leave a series", () => {
+    expect(meetingDetailsSchema.parse({ seriesId: 4 })).toEqual({ seriesId: 4 });
+    expect(meetingDetailsSchema.parse({ seriesId: null })).toEqual({ seriesId: null });
+  });
+
+  it.each(["4", 0, -1, 1.5])("rejects the series ID %s", (seriesId) => {
+    const parsed = meetingDetailsSchema.safeParse({ seriesId });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.flatten().fieldErrors).toHaveProperty("seriesId");
+  });
+
+  it("limits the number of tags", () => {
+    const tags = Array.from({ length: 21 }, (_, index) => `tag-${index}`);
+
+    expect(meetingDetailsSchema.safeParse({ tags }).success).toBe(false);
+  });
+});
+
+describe("parseMeetingFilters", () => {
+  it("reads the project, tag and attendee", () => {
+    const params = new URLSearchParams({ project: " Apollo ", tag: "Go Live", attendee: " sam " });
+
+    expect(parseMeetingFilters(params)).toEqual({
+      project: "Apollo",
+      tag: "go-live",
+      attendee: "sam",
+    });
+  });
+
+  it("ignores missing and blank filters", () => {
+    const params = new URLSearchParams({ project: " ", tag: "" });
+
+    expect(parseMeetingFilters(params)).toEqual({
+      project: undefined,
+      tag: undefined,
+      attendee: undefined,
+    });
+  });
+
+  it("round-trips through setMeetingFilterParams", () => {
+    const filters = { project: "Apollo", tag: "go-live", attendee: "Sam" };
+    const params = new URLSearchParams();
+
+    setMeetingFilterParams(params, filters);
+
+    expect(params.toString()).toBe("project=Apollo&tag=go-live&attendee=Sam");
+    expect(parseMeetingFilters(params)).toEqual(filters);
+  });
+});
+
+describe("parseDateParam", () => {
+  it("is undefined when missing and null when invalid", () => {
+    expect(parseDateParam(null, false)).toBeUndefined();
+    expect(parseDateParam("", true)).toBeUndefined();
+    expect(parseDateParam("next week", false)).toBeNull();
+  });
+
+  it("includes the whole day at the end of a date-only range", () => {
+    expect(parseDateParam("2024-01-31", false)).toEqual(new Date("2024-01-31T00:00:00Z"));
+    expect(parseDateParam("2024-01-31", true)).toEqual(new Date("2024-02-01T00:00:00Z"));
+  });
+
+  it("takes full timestamps as they are", () => {
+    expect(parseDateParam("2024-01-31T15:30:00Z", true)).toEqual(new Date("2024-01-31T15:30:00Z"));
+  });
+});
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import type { Meeting } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+const MAX_TAGS = 20;
+const MAX_ATTENDEES = 100;
+
+/**
+ * Tags are compared case-insensitively, so store them lowercased
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Split a comma-separated input ("Alex, Sam") into trimmed, unique entries
+ */
+export function splitList(value: string): string[] {
+  return [...new Set(value.split(",").map((entry) => entry.trim()).filter(Boolean))];
+}
+
+// Other PATCH fields (title, appendTranscript, ...) pass through untouched
+export const meetingDetailsSchema = z.object({
+  seriesId: z.number().int().positive().nullable().optional(),
+  project: z.string().trim().max(255, "Project too long").nullable().optional(),
+  tags: z
+    .array(z.string().trim().min(1).max(50, "Tag too long"))
+    .max(MAX_TAGS, `At most ${MAX_TAGS} tags`)
+    .transform((tags) => [...new Set(tags.map(normalizeTag))])
+    .optional(),
+  attendees: z
+    .array(z.string().trim().min(1).max(255, "Attendee name too long"))
+    .max(MAX_ATTENDEES, `At most ${MAX_ATTENDEES} attendees`)
+    .transform((attendees) => [...new Set(attendees)])
+    .optional(),
+});
+
+export type MeetingDetailsInput = z.input<typeof meetingDetailsSchema>;
+
+// ===========================================
+// Filters
+// ===========================================
+
+/**
+ * Filters shared by the meeting list, search and exports
+ */
+export interface MeetingFilters {
+  /** Exact project name */
+  project?: string | undefined;
+  /** Tag the meeting must have */
+  tag?: string | undefined;
+  /** Case-insensitive partial match on an attendee name */
+  attendee?: string | undefined;
+}
+
+/**
+ * Read meeting filters from query parameters
+ */
+export function parseMeetingFilters(searchParams: URLSearchParams): MeetingFilters {
+  return {
+    project: searchParams.get("project")?.trim() || undefined,
+    tag: searchParams.get("tag")?.trim() ? normalizeTag(searchParams.get("tag")!) : undefined,
+    attendee: searchParams.get("attendee")?.trim() || undefined,
+  };
+}
+
+/**
+ * Add meeting filters to query parameters
+ */
+export function setMeetingFilterParams(params: URLSearchParams, filters: MeetingFilters): void {
+  if (filters.project) params.set("project", filters.project);
+  if (filters.tag) params.set("tag", filters.tag);
+  if (filters.attendee) params.set("attendee", filters.attendee);
+}
+
+// ===========================================
+// Search
+// ===========================================
+
+/**
+ * Keyword search matches words; hybrid search also finds meetings that
+ * say the same thing in other words
+ */
+export const MEETING_SEARCH_MODES = ["keyword", "hybrid"] as const;
+
+export type MeetingSearchMode = (typeof MEETING_SEARCH_MODES)[number];
+
+/** How a search result was found */
+export type MeetingSearchSource = "keyword" | "semantic";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date query parameter. Date-only values ("2024-01-31") used as
+ * the end of a range include the whole day.
+ *
+ * @returns The date, undefined if the parameter is missing, or null if it's invalid
+ */
+export function parseDateParam(value: string | null, endOfRange: boolean): Date | null | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) return null;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(endOfRange && dateOnly ? time + DAY_MS : time);
+}
+
+// ===========================================
+// Response Types
+// ===========================================
+
+/**
+ * A meeting as listed, without its full-text search document
+ */
+export type MeetingListItem = Omit<Meeting, "searchVector">;
+
+/**
+ * A meeting matching a search. `headline` is HTML-escaped text with the
+ * matched words wrapped in <mark> tags.
+ */
+export type MeetingSearchHit = MeetingListItem & {
+  rank: number;
+  headline: string;
+  matchedBy: MeetingSearchSource[];
+};
+
+export interface MeetingSearchResponse {
+  /** Mode the results came from; hybrid falls back to keyword when the vector store is down */
+  mode: MeetingSearchMode;
+  /** Best match first */
+  results: MeetingSearchHit[];
+  /** Matches across all pages */
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Values in use across all meetings, for filter menus and suggestions
+ */
+export interface MeetingFacets {
+  projects: string[];
+  tags: string[];
+  attendees: string[];
+}
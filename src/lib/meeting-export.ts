@@ -0,0 +1,459 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import { asc, eq } from "drizzle-orm";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { db } from "@/lib/db";
+import { formatHighlightLine } from "@/lib/highlights";
+import type { MeetingListItem } from "@/lib/meeting-details";
+import { getHighlights } from "@/lib/meeting-highlights";
+import { meetingListColumns } from "@/lib/meeting-search";
+import { getSegments, getSpeakerNames } from "@/lib/meeting-transcript";
+import {
+  actionItems,
+  meetings,
+  type ActionItem,
+  type MeetingHighlight,
+  type TranscriptSegment,
+} from "@/lib/schema";
+import { formatOffset, formatSegmentLine, type SpeakerNames } from "@/lib/transcript-segments";
+
+// ===========================================
+// Formats
+// ===========================================
+
+export const EXPORT_FORMATS = ["md", "docx", "pdf", "json", "srt", "vtt"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+  json: "application/json; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+/**
+ * Parse the `format` query parameter
+ * @returns the format, or null if it is not supported
+ */
+export function parseExportFormat(
+  value: string | null,
+  fallback: ExportFormat = "md"
+): ExportFormat | null {
+  if (!value) return fallback;
+  return (EXPORT_FORMATS as readonly string[]).includes(value) ? (value as ExportFormat) : null;
+}
+
+/**
+ * Whether a format needs timed transcript segments
+ */
+export function isSubtitleFormat(format: ExportFormat): boolean {
+  return format === "srt" || format === "vtt";
+}
+
+// ===========================================
+// Loading
+// ===========================================
+
+/**
+ * Everything stored for a meeting, as exported
+ */
+export interface MeetingExport {
+  meeting: MeetingListItem;
+  actionItems: ActionItem[];
+  highlights: MeetingHighlight[];
+  segments: TranscriptSegment[];
+  speakerNames: SpeakerNames;
+}
+
+/**
+ * Load a meeting with its action items, highlights, segments and speaker names
+ * @returns null if the meeting does not exist
+ */
+export async function loadMeetingExport(meetingId: number): Promise<MeetingExport | null> {
+  const [meeting] = await db
+    .select(meetingListColumns)
+    .from(meetings)
+    .where(eq(meetings.id, meetingId));
+  if (!meeting) return null;
+
+  const [items, highlights, segments, speakerNames] = await Promise.all([
+    db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.meetingId, meetingId))
+      .orderBy(asc(actionItems.createdAt)),
+    getHighlights(meetingId),
+    getSegments(meetingId),
+    getSpeakerNames(meetingId),
+  ]);
+
+  return { meeting, actionItems: items, highlights, segments, speakerNames };
+}
+
+// ===========================================
+// Shared Helpers
+// ===========================================
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString("en-US", { dateStyle: "full", timeStyle: "short" });
+}
+
+function formatTimeRange(meeting: MeetingListItem): string {
+  const start = formatDateTime(meeting.startedAt);
+  if (!meeting.endedAt) return `${start} (in progress)`;
+  return `${start} - ${meeting.endedAt.toLocaleTimeString("en-US", { timeStyle: "short" })}`;
+}
+
+/**
+ * Project, tags and attendees, one "Label: value" line each
+ */
+function getDetailLines(meeting: MeetingListItem): string[] {
+  return [
+    meeting.project && `Project: ${meeting.project}`,
+    meeting.tags.length > 0 && `Tags: ${meeting.tags.join(", ")}`,
+    meeting.attendees.length > 0 && `Attendees: ${meeting.attendees.join(", ")}`,
+  ].filter((line): line is string => Boolean(line));
+}
+
+function formatActionItem(item: ActionItem): string {
+  const details = [
+    item.assignee ? `@${item.assignee}` : null,
+    item.dueDate ? `due ${item.dueDate.toISOString().slice(0, 10)}` : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${item.task} (${details.join(", ")})` : item.task;
+}
+
+/**
+ * Transcript lines with timestamps when segments exist, otherwise the stored text
+ */
+function getTranscriptLines(data: MeetingExport): string[] {
+  if (data.segments.length > 0) {
+    return data.segments.map(
+      (segment) =>
+        `[${formatOffset(segment.startMs)}] ${formatSegmentLine(segment, data.speakerNames)}`
+    );
+  }
+  return data.meeting.transcript ? data.meeting.transcript.split("\n") : [];
+}
+
+/**
+ * Build a safe file name such as "2024-01-15-weekly-sync-42.md"
+ */
+export function getExportFilename(meeting: MeetingListItem, format: ExportFormat): string {
+  const slug = (meeting.title || "meeting")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${meeting.startedAt.toISOString().slice(0, 10)}-${slug || "meeting"}-${meeting.id}.${format}`;
+}
+
+// ===========================================
+// Renderers
+// ===========================================
+
+/**
+ * Render a meeting as Markdown
+ */
+export function renderMarkdown(data: MeetingExport): string {
+  const { meeting } = data;
+  const lines = [
+    `# ${meeting.title || "Untitled Meeting"}`,
+    "",
+    `*${formatTimeRange(meeting)}*`,
+    "",
+  ];
+
+  const details = getDetailLines(meeting);
+  if (details.length > 0) {
+    lines.push(...details.map((line) => `${line}  `), "");
+  }
+
+  if (meeting.summary) {
+    lines.push("## Summary", "", meeting.summary, "");
+  }
+
+  lines.push("## Action Items", "");
+  if (data.actionItems.length > 0) {
+    for (const item of data.actionItems) {
+      lines.push(`- [${item.completed ? "x" : " "}] ${formatActionItem(item)}`);
+    }
+  } else {
+    lines.push("_None_");
+  }
+  lines.push("");
+
+  if (data.highlights.length > 0) {
+    lines.push("## Highlights", "");
+    lines.push(...data.highlights.map((highlight) => `- ${formatHighlightLine(highlight)}`), "");
+  }
+
+  lines.push("## Transcript", "");
+  const transcript = getTranscriptLines(data);
+  // Trailing double spaces keep each transcript line on its own line
+  lines.push(
+    ...(transcript.length > 0 ? transcript.map((line) => `${line}  `) : ["_No transcript_"])
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render a meeting as a Word document
+ */
+export async function renderDocx(data: MeetingExport): Promise<Buffer> {
+  const { meeting } = data;
+  const children: Paragraph[] = [
+    new Paragraph({ text: meeting.title || "Untitled Meeting", heading: HeadingLevel.TITLE }),
+    new Paragraph({ children: [new TextRun({ text: formatTimeRange(meeting), italics: true })] }),
+    ...getDetailLines(meeting).map((line) => new Paragraph({ text: line })),
+  ];
+
+  if (meeting.summary) {
+    children.push(new Paragraph({ text: "Summary", heading: HeadingLevel.HEADING_1 }));
+    for (const line of meeting.summary.split("\n")) {
+      children.push(new Paragraph({ text: line }));
+    }
+  }
+
+  children.push(new Paragraph({ text: "Action Items", heading: HeadingLevel.HEADING_1 }));
+  if (data.actionItems.length > 0) {
+    for (const item of data.actionItems) {
+      children.push(
+        new Paragraph({
+          text: `${item.completed ? "[x]" : "[ ]"} ${formatActionItem(item)}`,
+          bullet: { level: 0 },
+        })
+      );
+    }
+  } else {
+    children.push(new Paragraph({ children: [new TextRun({ text: "None", italics: true })] }));
+  }
+
+  if (data.highlights.length > 0) {
+    children.push(new Paragraph({ text: "Highlights", heading: HeadingLevel.HEADING_1 }));
+    for (const highlight of data.highlights) {
+      children.push(new Paragraph({ text: formatHighlightLine(highlight), bullet: { level: 0 } }));
+    }
+  }
+
+  children.push(new Paragraph({ text: "Transcript", heading: HeadingLevel.HEADING_1 }));
+  for (const line of getTranscriptLines(data)) {
+    children.push(new Paragraph({ text: line }));
+  }
+
+  const doc = new Document({
+    title: meeting.title || "Meeting",
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+// The standard PDF fonts only cover WinAnsi, so normalize everything else
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/\t/g, "  ")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+/**
+ * Render a meeting as a PDF
+ */
+export async function renderPdf(data: MeetingExport): Promise<Uint8Array> {
+  const { meeting } = data;
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(meeting.title || "Meeting");
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const italic = await pdf.embedFont(StandardFonts.HelveticaOblique);
+
+  const margin = 50;
+  let page: PDFPage = pdf.addPage();
+  let y = page.getHeight() - margin;
+
+  const write = (text: string, font: PDFFont, size: number, gapAfter = 4) => {
+    const maxWidth = page.getWidth() - margin * 2;
+    const lineHeight = size * 1.35;
+
+    // Greedy word wrap
+    const lines: string[] = [];
+    for (const paragraph of toWinAnsi(text).split("\n")) {
+      let current = "";
+      for (const word of paragraph.split(" ")) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(current);
+    }
+
+    for (const line of lines) {
+      if (y - lineHeight < margin) {
+        page = pdf.addPage();
+        y = page.getHeight() - margin;
+      }
+      y -= lineHeight;
+      page.drawText(line, { x: margin, y, size, font, color: rgb(0.1, 0.1, 0.1) });
+    }
+    y -= gapAfter;
+  };
+
+  write(meeting.title || "Untitled Meeting", bold, 20, 6);
+  write(formatTimeRange(meeting), italic, 10, 16);
+
+  const details = getDetailLines(meeting);
+  if (details.length > 0) {
+    for (const line of details) {
+      write(line, regular, 10, 2);
+    }
+    y -= 12;
+  }
+
+  if (meeting.summary) {
+    write("Summary", bold, 14, 6);
+    write(meeting.summary, regular, 10, 16);
+  }
+
+  write("Action Items", bold, 14, 6);
+  if (data.actionItems.length > 0) {
+    for (const item of data.actionItems) {
+      write(`${item.completed ? "[x]" : "[ ]"} ${formatActionItem(item)}`, regular, 10, 2);
+    }
+  } else {
+    write("None", italic, 10);
+  }
+  y -= 12;
+
+  if (data.highlights.length > 0) {
+    write("Highlights", bold, 14, 6);
+    for (const highlight of data.highlights) {
+      write(formatHighlightLine(highlight), regular, 10, 2);
+    }
+    y -= 12;
+  }
+
+  write("Transcript", bold, 14, 6);
+  const transcript = getTranscriptLines(data);
+  if (transcript.length > 0) {
+    for (const line of transcript) {
+      write(line, regular, 9, 2);
+    }
+  } else {
+    write("No transcript", italic, 10);
+  }
+
+  return pdf.save();
+}
+
+/**
+ * Render a full-fidelity JSON archive of a meeting
+ */
+export function renderJson(data: MeetingExport): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      meeting: data.meeting,
+      speakers: data.speakerNames,
+      actionItems: data.actionItems,
+      highlights: data.highlights,
+      segments: data.segments,
+    },
+    null,
+    2
+  );
+}
+
+function formatCueTime(ms: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = String(Math.floor(total / 3600000)).padStart(2, "0");
+  const minutes = String(Math.floor((total % 3600000) / 60000)).padStart(2, "0");
+  const seconds = String(Math.floor((total % 60000) / 1000)).padStart(2, "0");
+  const millis = String(total % 1000).padStart(3, "0");
+  return `${hours}:${minutes}:${seconds}${separator}${millis}`;
+}
+
+// Zero-length segments (e.g. assistant answers) still need a visible cue
+function cueEnd(segment: TranscriptSegment): number {
+  return Math.max(segment.endMs, segment.startMs + 1000);
+}
+
+/**
+ * Render timed segments as SubRip subtitles
+ */
+export function renderSrt(data: MeetingExport): string {
+  return data.segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatCueTime(segment.startMs, ",")} --> ${formatCueTime(cueEnd(segment), ",")}\n${formatSegmentLine(segment, data.speakerNames)}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Escape text for a WebVTT cue payload or voice name. Escaping ">" also
+ * breaks up "-->", which would otherwise be read as a cue timing line, and
+ * blank lines, which would end the cue, are removed.
+ */
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n\s*\n/g, "\n");
+}
+
+/**
+ * Render timed segments as WebVTT subtitles
+ */
+export function renderVtt(data: MeetingExport): string {
+  const cues = data.segments.map((segment) => {
+    const timing = `${formatCueTime(segment.startMs, ".")} --> ${formatCueTime(cueEnd(segment), ".")}`;
+    const speaker = segment.speaker
+      ? (data.speakerNames[segment.speaker] ?? segment.speaker)
+      : null;
+    // WebVTT voice spans carry the speaker name, which can't span lines
+    const text = speaker
+      ? `<v ${escapeVtt(speaker.replace(/\s+/g, " "))}>${escapeVtt(segment.text)}`
+      : escapeVtt(segment.text);
+    return `${timing}\n${text}\n`;
+  });
+  return ["WEBVTT", "", ...cues].join("\n");
+}
+
+/**
+ * Render a meeting in any supported format
+ */
+export async function renderMeetingExport(
+  data: MeetingExport,
+  format: ExportFormat
+): Promise<{ body: string | Uint8Array; contentType: string }> {
+  const contentType = CONTENT_TYPES[format];
+
+  switch (format) {
+    case "md":
+      return { body: renderMarkdown(data), contentType };
+    case "docx":
+      return { body: new Uint8Array(await renderDocx(data)), contentType };
+    case "pdf":
+      return { body: await renderPdf(data), contentType };
+    case "json":
+      return { body: renderJson(data), contentType };
+    case "srt":
+      return { body: renderSrt(data), contentType };
+    case "vtt":
+      return { body: renderVtt(data), contentType };
+  }
+}
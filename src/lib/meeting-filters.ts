@@ -0,0 +1,51 @@
+import { asc, eq, isNotNull, sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { MeetingFacets, MeetingFilters } from "@/lib/meeting-details";
+import { meetings } from "@/lib/schema";
+
+/**
+ * SQL conditions for meeting filters, to combine with `and()`
+ */
+export function getMeetingFilterConditions(filters: MeetingFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.project) {
+    conditions.push(eq(meetings.project, filters.project));
+  }
+
+  if (filters.tag) {
+    conditions.push(sql`${meetings.tags} @> ARRAY[${filters.tag}]::text[]`);
+  }
+
+  if (filters.attendee) {
+    conditions.push(
+      sql`EXISTS (SELECT 1 FROM unnest(${meetings.attendees}) AS attendee WHERE attendee ILIKE ${`%${filters.attendee}%`})`
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Every project, tag and attendee used by at least one meeting
+ */
+export async function getMeetingFacets(): Promise<MeetingFacets> {
+  const tag = sql<string>`unnest(${meetings.tags})`;
+  const attendee = sql<string>`unnest(${meetings.attendees})`;
+
+  const [projects, tags, attendees] = await Promise.all([
+    db
+      .selectDistinct({ value: meetings.project })
+      .from(meetings)
+      .where(isNotNull(meetings.project))
+      .orderBy(asc(meetings.project)),
+    db.selectDistinct({ value: tag }).from(meetings).orderBy(asc(tag)),
+    db.selectDistinct({ value: attendee }).from(meetings).orderBy(asc(attendee)),
+  ]);
+
+  return {
+    projects: projects.flatMap((row) => (row.value ? [row.value] : [])),
+    tags: tags.map((row) => row.value),
+    attendees: attendees.map((row) => row.value),
+  };
+}
@@ -0,0 +1,81 @@
+import { and, asc, desc, eq, gte, lt } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { HighlightSource } from "@/lib/highlights";
+import { getSpeakerNames } from "@/lib/meeting-transcript";
+import {
+  meetingHighlights,
+  transcriptSegments,
+  type Meeting,
+  type MeetingHighlight,
+} from "@/lib/schema";
+import { getSettings } from "@/lib/settings";
+import { formatSegmentLine } from "@/lib/transcript-segments";
+
+/**
+ * List a meeting's highlights in the order they happened
+ */
+export async function getHighlights(meetingId: number): Promise<MeetingHighlight[]> {
+  return db
+    .select()
+    .from(meetingHighlights)
+    .where(eq(meetingHighlights.meetingId, meetingId))
+    .orderBy(asc(meetingHighlights.atMs), asc(meetingHighlights.id));
+}
+
+/**
+ * Save a highlight with the transcript of the last `highlightSeconds`
+ * before the marked moment. Segments that start at or after the moment
+ * (such as the "bookmark that" utterance itself) are left out. When nothing
+ * was said in the window, the last thing said before it is used instead.
+ */
+export async function createHighlight(
+  meeting: Pick<Meeting, "id" | "startedAt">,
+  options: { at?: Date; note?: string | null; source?: HighlightSource } = {}
+): Promise<MeetingHighlight> {
+  const { highlightSeconds } = await getSettings();
+  const at = options.at ?? new Date();
+  const atMs = Math.max(0, at.getTime() - meeting.startedAt.getTime());
+  const startMs = Math.max(0, atMs - highlightSeconds * 1000);
+
+  const beforeMoment = and(
+    eq(transcriptSegments.meetingId, meeting.id),
+    lt(transcriptSegments.startMs, atMs)
+  );
+
+  const [inWindow, names] = await Promise.all([
+    db
+      .select()
+      .from(transcriptSegments)
+      .where(and(beforeMoment, gte(transcriptSegments.endMs, startMs)))
+      .orderBy(asc(transcriptSegments.startMs), asc(transcriptSegments.id)),
+    getSpeakerNames(meeting.id),
+  ]);
+
+  const segments =
+    inWindow.length > 0
+      ? inWindow
+      : await db
+          .select()
+          .from(transcriptSegments)
+          .where(beforeMoment)
+          .orderBy(desc(transcriptSegments.startMs), desc(transcriptSegments.id))
+          .limit(1);
+
+  const [highlight] = await db
+    .insert(meetingHighlights)
+    .values({
+      meetingId: meeting.id,
+      atMs,
+      startMs: Math.min(startMs, segments[0]?.startMs ?? startMs),
+      quote: segments.map((segment) => formatSegmentLine(segment, names)).join("\n"),
+      note: options.note || null,
+      source: options.source ?? "button",
+    })
+    .returning();
+
+  if (!highlight) {
+    throw new Error("Failed to create highlight");
+  }
+
+  return highlight;
+}
@@ -0,0 +1,311 @@
+import { mkdir, readdir, readFile, rm, unlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { analyzeMeeting } from "@/lib/meeting-analysis";
+import { isAudioStorageEnabled, saveAudioClip } from "@/lib/meeting-audio";
+import { reindexMeeting } from "@/lib/meeting-index";
+import { appendSegments } from "@/lib/meeting-transcript";
+import { meetingImports, meetings, type MeetingImport } from "@/lib/schema";
+import type { SegmentInput } from "@/lib/transcript-segments";
+
+const WHISPER_SERVICE_URL = process.env.WHISPER_SERVICE_URL || "http://localhost:8001";
+
+// Uploaded chunks wait here until they have been transcribed
+const IMPORT_DIR = process.env.MEETING_IMPORT_DIR || join(tmpdir(), "meeting-imports");
+
+// Attempts per chunk before the whole import is marked as failed
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  speaker?: string | null;
+}
+
+interface WhisperDetailedResponse {
+  language?: string;
+  segments: WhisperSegment[];
+}
+
+/**
+ * Raised when an import was cancelled while it was being processed
+ */
+class ImportCancelledError extends Error {
+  constructor() {
+    super("Import cancelled");
+    this.name = "ImportCancelledError";
+  }
+}
+
+function getImportDir(importId: number): string {
+  return join(IMPORT_DIR, importId.toString());
+}
+
+function getChunkPath(importId: number, index: number): string {
+  return join(getImportDir(importId), `${index}.wav`);
+}
+
+/**
+ * Store one uploaded chunk of a recording. Once every chunk has arrived
+ * the import is queued for transcription.
+ */
+export async function saveImportChunk(
+  item: MeetingImport,
+  index: number,
+  audio: Buffer
+): Promise<MeetingImport> {
+  const dir = getImportDir(item.id);
+  await mkdir(dir, { recursive: true });
+  await writeFile(getChunkPath(item.id, index), audio);
+
+  // Count files rather than requests so retried uploads are not counted twice
+  const uploadedChunks = (await readdir(dir)).filter((name) => name.endsWith(".wav")).length;
+  const complete = uploadedChunks >= item.totalChunks;
+
+  const [updated] = await db
+    .update(meetingImports)
+    .set({ uploadedChunks, ...(complete && { status: "queued" }) })
+    .where(and(eq(meetingImports.id, item.id), eq(meetingImports.status, "uploading")))
+    .returning();
+
+  if (updated && complete) {
+    enqueueImport(updated.id);
+  }
+
+  return updated ?? item;
+}
+
+/**
+ * Stop an import and remove its uploaded audio. The meeting keeps
+ * whatever was transcribed before the import was cancelled.
+ */
+export async function cancelImport(importId: number): Promise<MeetingImport | undefined> {
+  const [updated] = await db
+    .update(meetingImports)
+    .set({ status: "failed", error: "Cancelled" })
+    .where(
+      and(
+        eq(meetingImports.id, importId),
+        inArray(meetingImports.status, ["uploading", "queued", "transcribing"])
+      )
+    )
+    .returning();
+
+  await removeImportFiles(importId);
+  return updated;
+}
+
+/**
+ * Delete the uploaded chunks of an import
+ */
+export async function removeImportFiles(importId: number): Promise<void> {
+  await rm(getImportDir(importId), { recursive: true, force: true });
+}
+
+// ===========================================
+// Background Processing
+// ===========================================
+
+// Survive module reloads in development so imports are processed one at a time
+const globalForImports = globalThis as unknown as {
+  meetingImportQueue?: Promise<void>;
+  meetingImportsQueued?: Set<number>;
+};
+
+/**
+ * Queue an import for transcription. Imports run one after another so a
+ * long recording doesn't compete with live meetings for the Whisper service.
+ */
+export function enqueueImport(importId: number): void {
+  const queued = (globalForImports.meetingImportsQueued ??= new Set());
+  if (queued.has(importId)) return;
+  queued.add(importId);
+
+  globalForImports.meetingImportQueue = (globalForImports.meetingImportQueue ?? Promise.resolve())
+    .then(() => processImport(importId))
+    .catch((error) => console.error(`Meeting import ${importId} failed:`, error))
+    .finally(() => queued.delete(importId));
+}
+
+/**
+ * Re-queue imports that were interrupted by a server restart
+ */
+export async function resumeMeetingImports(): Promise<void> {
+  const pending = await db
+    .select({ id: meetingImports.id })
+    .from(meetingImports)
+    .where(inArray(meetingImports.status, ["queued", "transcribing", "summarizing"]))
+    .orderBy(meetingImports.createdAt);
+
+  for (const item of pending) {
+    enqueueImport(item.id);
+  }
+}
+
+async function getImport(importId: number): Promise<MeetingImport | undefined> {
+  const [item] = await db.select().from(meetingImports).where(eq(meetingImports.id, importId));
+  return item;
+}
+
+/**
+ * Transcribe every chunk of an import, then summarize the meeting
+ */
+async function processImport(importId: number): Promise<void> {
+  const item = await getImport(importId);
+  if (!item || !["queued", "transcribing", "summarizing"].includes(item.status)) return;
+
+  const [meeting] = await db.select().from(meetings).where(eq(meetings.id, item.meetingId));
+  if (!meeting) return;
+
+  try {
+    if (item.status !== "summarizing") {
+      await db
+        .update(meetingImports)
+        .set({ status: "transcribing", error: null })
+        .where(eq(meetingImports.id, importId));
+
+      const storeAudio = await isAudioStorageEnabled();
+
+      // Resume after the last chunk that was stored
+      for (let index = item.processedChunks; index < item.totalChunks; index++) {
+        const current = await getImport(importId);
+        if (!current || current.status !== "transcribing") throw new ImportCancelledError();
+
+        const segments = await transcribeChunkWithRetry(item, meeting.startedAt, index);
+        await appendSegments(meeting, segments);
+        if (storeAudio) await keepChunkAudio(item, index);
+        await db
+          .update(meetingImports)
+          .set({ processedChunks: index + 1 })
+          .where(eq(meetingImports.id, importId));
+        await unlink(getChunkPath(importId, index)).catch(() => {});
+      }
+
+      await db
+        .update(meetingImports)
+        .set({ status: "summarizing" })
+        .where(eq(meetingImports.id, importId));
+    }
+
+    const [transcribed] = await db
+      .select({ transcript: meetings.transcript })
+      .from(meetings)
+      .where(eq(meetings.id, meeting.id));
+
+    const endedAt = new Date(meeting.startedAt.getTime() + item.durationMs);
+    const summary = transcribed?.transcript
+      ? (await analyzeMeeting(meeting.id, transcribed.transcript, meeting.startedAt)).summary
+      : null;
+
+    await db.update(meetings).set({ endedAt, summary }).where(eq(meetings.id, meeting.id));
+    await db
+      .update(meetingImports)
+      .set({ status: "completed" })
+      .where(eq(meetingImports.id, importId));
+    await removeImportFiles(importId);
+    reindexMeeting(meeting.id);
+  } catch (error) {
+    if (error instanceof ImportCancelledError) return;
+
+    // Keep the reason of an import that was cancelled meanwhile
+    const current = await getImport(importId);
+    if (!current || current.status === "failed") return;
+
+    console.error(`Error processing meeting import ${importId}:`, error);
+    await db
+      .update(meetingImports)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Import failed",
+      })
+      .where(eq(meetingImports.id, importId));
+    await removeImportFiles(importId);
+  }
+}
+
+/**
+ * Keep a transcribed chunk for playback. Losing the audio never fails the import.
+ */
+async function keepChunkAudio(item: MeetingImport, index: number): Promise<void> {
+  try {
+    const audio = await readFile(getChunkPath(item.id, index));
+    await saveAudioClip({ id: item.meetingId }, audio, index * item.chunkDurationMs);
+  } catch (error) {
+    console.error(`Failed to store audio of import ${item.id} chunk ${index + 1}:`, error);
+  }
+}
+
+async function transcribeChunkWithRetry(
+  item: MeetingImport,
+  startedAt: Date,
+  index: number
+): Promise<SegmentInput[]> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+    try {
+      return await transcribeChunk(item, startedAt, index);
+    } catch (error) {
+      // Cancelling removes the chunk files, so the failure may be the cancel itself
+      const current = await getImport(item.id);
+      if (!current || current.status !== "transcribing") throw new ImportCancelledError();
+
+      lastError = error;
+      if (attempt < CHUNK_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+  throw new Error(
+    `Chunk ${index + 1} of ${item.totalChunks} could not be transcribed: ${
+      lastError instanceof Error ? lastError.message : "unknown error"
+    }`
+  );
+}
+
+/**
+ * Send one chunk to the Whisper service and time its segments relative to
+ * the start of the recording
+ */
+async function transcribeChunk(
+  item: MeetingImport,
+  startedAt: Date,
+  index: number
+): Promise<SegmentInput[]> {
+  const audio = await readFile(getChunkPath(item.id, index));
+
+  const formData = new FormData();
+  formData.append("audio", new Blob([new Uint8Array(audio)], { type: "audio/wav" }), "audio.wav");
+  // Chunks of one recording share speaker labels
+  formData.append("diarize", "true");
+  formData.append("session_id", `import-${item.id}`);
+
+  const response = await fetch(`${WHISPER_SERVICE_URL}/transcribe/detailed`, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(`Whisper service returned ${response.status}: ${errorText || response.statusText}`);
+  }
+
+  const result: WhisperDetailedResponse = await response.json();
+  const recordedAt = new Date(startedAt.getTime() + index * item.chunkDurationMs).toISOString();
+
+  return result.segments
+    .filter((segment) => segment.text.trim())
+    .map((segment) => ({
+      text: segment.text.trim(),
+      recordedAt,
+      start: segment.start,
+      end: segment.end,
+      confidence: segment.confidence ?? null,
+      language: result.language ?? null,
+      speaker: segment.speaker ?? null,
+    }));
+}
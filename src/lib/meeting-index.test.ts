@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDb } from "@/lib/__fixtures__/fake-db";
+import { setMeetingChunks } from "@/lib/chromadb";
+import { indexMeeting, startMeetingIndexScheduler } from "@/lib/meeting-index";
+import { getMeetingParticipants, getSegments, getSpeakerNames } from "@/lib/meeting-transcript";
+import type { TranscriptSegment } from "@/lib/schema";
+
+const fake = createFakeDb();
+
+vi.mock("@/lib/db", () => ({
+  get db() {
+    return fake.db;
+  },
+}));
+vi.mock("@/lib/chromadb", () => ({
+  chunkText: (text: string) => [text],
+  setMeetingChunks: vi.fn(),
+}));
+vi.mock("@/lib/meeting-transcript", () => ({
+  getMeetingParticipants: vi.fn(),
+  getSegments: vi.fn(),
+  getSpeakerNames: vi.fn(),
+}));
+
+const startedAt = new Date("2024-03-01T09:00:00Z");
+const meeting = {
+  id: 3,
+  title: "Launch review",
+  startedAt,
+  endedAt: new Date("2024-03-01T10:00:00Z"),
+  summary: "We agreed on a date.",
+  transcript: "Legacy transcript",
+};
+
+function segment(id: number, startMs: number, text: string, speaker: string | null = null) {
+  return { id, meetingId: 3, startMs, endMs: startMs + 1000, text, speaker } as TranscriptSegment;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getSegments).mockResolvedValue([]);
+  vi.mocked(getSpeakerNames).mockResolvedValue({});
+  vi.mocked(getMeetingParticipants).mockResolvedValue(new Map([[3, ["Ana", "Sam"]]]));
+});
+
+describe("indexMeeting", () => {
+  it("stores the summary, each decision and the timed transcript", async () => {
+    vi.mocked(getSegments).mockResolvedValue([
+      segment(1, 0, "Let's begin", "SPEAKER_00"),
+      segment(2, 4000, "Launch in May"),
+    ]);
+    vi.mocked(getSpeakerNames).mockResolvedValue({ SPEAKER_00: "Ana" });
+    fake.reset([meeting], [{ decision: "Launch in May", rationale: null }], undefined);
+
+    const count = await indexMeeting(3);
+
+    expect(count).toBe(3);
+    expect(setMeetingChunks).toHaveBeenCalledWith({ id: 3, title: "Launch review", startedAt }, [
+      { kind: "summary", text: "We agreed on a date." },
+      {
+        kind: "decision",
+        text: 'Decision: Launch in May\nDecided on 2024-03-01 in "Launch review".\nPresent: Ana, Sam.',
+      },
+      { kind: "transcript", text: "Ana: Let's begin\nLaunch in May", startMs: 0, endMs: 5000 },
+    ]);
+    expect(fake.argsOf("set")[0]?.[0]).toHaveProperty("indexedAt");
+  });
+
+  it("falls back to the plain transcript of meetings without segments", async () => {
+    fake.reset([{ ...meeting, summary: null }], [], undefined);
+
+    await indexMeeting(3);
+
+    expect(vi.mocked(setMeetingChunks).mock.calls[0]?.[1]).toEqual([
+      { kind: "transcript", text: "Legacy transcript" },
+    ]);
+  });
+
+  it("leaves meetings that are still running alone", async () => {
+    fake.reset([{ ...meeting, endedAt: null }]);
+
+    expect(await indexMeeting(3)).toBe(0);
+    expect(setMeetingChunks).not.toHaveBeenCalled();
+  });
+});
+
+describe("startMeetingIndexScheduler", () => {
+  const globalForIndex = globalThis as unknown as {
+    meetingIndexTimer?: ReturnType<typeof setInterval>;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    clearInterval(globalForIndex.meetingIndexTimer);
+    delete globalForIndex.meetingIndexTimer;
+    vi.useRealTimers();
+  });
+
+  it("retries a meeting whose indexing failed", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(setMeetingChunks).mockRejectedValueOnce(new Error("ChromaDB down"));
+    // Pending meetings, then the meeting and its decisions; the first attempt fails
+    fake.reset([{ id: 3 }], [meeting], []);
+
+    startMeetingIndexScheduler();
+    await vi.waitFor(() => expect(error).toHaveBeenCalled());
+
+    fake.queue([{ id: 3 }], [meeting], [], undefined);
+    await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+
+    expect(setMeetingChunks).toHaveBeenCalledTimes(2);
+    expect(fake.argsOf("set")).toHaveLength(1);
+    error.mockRestore();
+  });
+
+  it("starts only one retry loop", () => {
+    fake.reset([]);
+
+    startMeetingIndexScheduler();
+    const timer = globalForIndex.meetingIndexTimer;
+    startMeetingIndexScheduler();
+
+    expect(globalForIndex.meetingIndexTimer).toBe(timer);
+  });
+});
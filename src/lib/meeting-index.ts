@@ -0,0 +1,163 @@
+import { and, asc, eq, isNotNull, isNull } from "drizzle-orm";
+import { chunkText, setMeetingChunks, type MeetingChunk } from "@/lib/chromadb";
+import { db } from "@/lib/db";
+import { formatDecisionEntry } from "@/lib/decisions";
+import { getMeetingParticipants, getSegments, getSpeakerNames } from "@/lib/meeting-transcript";
+import { decisions, meetings, type TranscriptSegment } from "@/lib/schema";
+import { formatSegmentLine, type SpeakerNames } from "@/lib/transcript-segments";
+
+// Target length of an embedded transcript chunk, in characters
+const TRANSCRIPT_CHUNK_SIZE = 1000;
+
+// How often meetings whose indexing failed are retried
+const INDEX_RETRY_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Group consecutive segments into chunks of roughly TRANSCRIPT_CHUNK_SIZE
+ * characters, keeping the time span each chunk covers
+ */
+function chunkSegments(segments: TranscriptSegment[], names: SpeakerNames): MeetingChunk[] {
+  const chunks: MeetingChunk[] = [];
+  let lines: string[] = [];
+  let length = 0;
+  let startMs = 0;
+  let endMs = 0;
+
+  const flush = () => {
+    if (lines.length === 0) return;
+    chunks.push({ kind: "transcript", text: lines.join("\n"), startMs, endMs });
+    lines = [];
+    length = 0;
+  };
+
+  for (const segment of segments) {
+    const line = formatSegmentLine(segment, names);
+    if (length > 0 && length + line.length > TRANSCRIPT_CHUNK_SIZE) flush();
+    if (lines.length === 0) startMs = segment.startMs;
+    lines.push(line);
+    length += line.length + 1;
+    endMs = segment.endMs;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Embed an ended meeting's summary, decisions and transcript so chat can
+ * search it. Live meetings are indexed once they end.
+ *
+ * @returns The number of chunks stored
+ */
+export async function indexMeeting(meetingId: number): Promise<number> {
+  const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+  if (!meeting?.endedAt) return 0;
+
+  const [segments, names, meetingDecisions, participants] = await Promise.all([
+    getSegments(meetingId),
+    getSpeakerNames(meetingId),
+    db
+      .select()
+      .from(decisions)
+      .where(eq(decisions.meetingId, meetingId))
+      .orderBy(asc(decisions.id)),
+    getMeetingParticipants([meetingId]),
+  ]);
+  const title = meeting.title || "Untitled Meeting";
+
+  const chunks: MeetingChunk[] = [];
+  if (meeting.summary) {
+    chunks.push(
+      ...chunkText(meeting.summary).map((text) => ({ kind: "summary" as const, text }))
+    );
+  }
+  // One chunk per decision so "when did we decide X?" finds the entry itself
+  chunks.push(
+    ...meetingDecisions.map((decision) => ({
+      kind: "decision" as const,
+      text: formatDecisionEntry(
+        decision,
+        { title, startedAt: meeting.startedAt },
+        participants.get(meetingId) ?? []
+      ),
+    }))
+  );
+  if (segments.length > 0) {
+    chunks.push(...chunkSegments(segments, names));
+  } else if (meeting.transcript) {
+    // Meetings recorded before segments were stored have no timestamps
+    chunks.push(
+      ...chunkText(meeting.transcript).map((text) => ({ kind: "transcript" as const, text }))
+    );
+  }
+
+  await setMeetingChunks({ id: meeting.id, title, startedAt: meeting.startedAt }, chunks);
+  await db.update(meetings).set({ indexedAt: new Date() }).where(eq(meetings.id, meetingId));
+
+  return chunks.length;
+}
+
+/**
+ * Re-embed a meeting in the background after it ends or changes. The
+ * meeting is marked as unindexed first so a failure is retried by the
+ * scheduler (see startMeetingIndexScheduler).
+ */
+export function reindexMeeting(meetingId: number): void {
+  db.update(meetings)
+    .set({ indexedAt: null })
+    .where(eq(meetings.id, meetingId))
+    .then(() => indexMeeting(meetingId))
+    .catch((error) => console.error(`Failed to index meeting ${meetingId}:`, error));
+}
+
+/**
+ * Index every ended meeting that hasn't been indexed yet (meetings from
+ * before search existed, or whose indexing failed)
+ *
+ * @returns The number of meetings indexed
+ */
+export async function indexPendingMeetings(): Promise<number> {
+  const pending = await db
+    .select({ id: meetings.id })
+    .from(meetings)
+    .where(and(isNotNull(meetings.endedAt), isNull(meetings.indexedAt)))
+    .orderBy(asc(meetings.startedAt));
+
+  // Stop at the first failure; ChromaDB is most likely unavailable
+  for (const meeting of pending) {
+    await indexMeeting(meeting.id);
+  }
+
+  return pending.length;
+}
+
+// Survive module reloads in development so only one retry loop runs
+const globalForIndex = globalThis as unknown as {
+  meetingIndexTimer?: ReturnType<typeof setInterval>;
+  meetingIndexRunning?: boolean;
+};
+
+/**
+ * Index pending meetings now and every INDEX_RETRY_INTERVAL_MS after that,
+ * so meetings that failed while ChromaDB was down become searchable once it
+ * is back. Safe to call more than once.
+ */
+export function startMeetingIndexScheduler(): void {
+  if (globalForIndex.meetingIndexTimer) return;
+
+  const run = async () => {
+    // A slow run (many past meetings) mustn't overlap the next one
+    if (globalForIndex.meetingIndexRunning) return;
+    globalForIndex.meetingIndexRunning = true;
+    try {
+      await indexPendingMeetings();
+    } catch (error) {
+      console.error("Failed to index pending meetings:", error);
+    } finally {
+      globalForIndex.meetingIndexRunning = false;
+    }
+  };
+
+  run();
+  globalForIndex.meetingIndexTimer = setInterval(run, INDEX_RETRY_INTERVAL_MS);
+}
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDb } from "@/lib/__fixtures__/fake-db";
+import { queryMeetings, type MeetingQueryResult } from "@/lib/chromadb";
+import { fuseRankings, pickClosestChunks, searchMeetings } from "@/lib/meeting-search";
+
+const fake = createFakeDb();
+
+vi.mock("@/lib/db", () => ({
+  get db() {
+    return fake.db;
+  },
+}));
+vi.mock("@/lib/chromadb", () => ({ queryMeetings: vi.fn() }));
+
+function chunk(
+  meetingId: number,
+  distance: number,
+  text = `Chunk of ${meetingId}`
+): MeetingQueryResult {
+  return {
+    text,
+    meetingId,
+    title: `Meeting ${meetingId}`,
+    startedAt: "2024-03-01T09:00:00.000Z",
+    kind: "transcript",
+    startMs: 0,
+    distance,
+  };
+}
+
+function ids(count: number) {
+  return Array.from({ length: count }, (_, index) => ({ id: index + 1 }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fake.reset();
+});
+
+describe("pickClosestChunks", () => {
+  it("keeps the closest chunk of each meeting within the cutoff", () => {
+    const closest = pickClosestChunks([
+      chunk(1, 0.2, "first"),
+      chunk(2, 0.3),
+      chunk(1, 0.4, "second"),
+      chunk(3, 0.7),
+    ]);
+
+    expect([...closest.keys()]).toEqual([1, 2]);
+    expect(closest.get(1)?.text).toBe("first");
+  });
+
+  it("takes a custom cutoff", () => {
+    expect([...pickClosestChunks([chunk(1, 0.2), chunk(2, 0.3)], 0.25).keys()]).toEqual([1]);
+  });
+});
+
+describe("fuseRankings", () => {
+  it("ranks meetings both lists agree on first", () => {
+    const fused = fuseRankings([
+      { ids: [1, 2, 3], source: "keyword" },
+      { ids: [3, 4], source: "semantic" },
+    ]);
+
+    // Equal scores keep the order the meetings were first ranked in
+    expect(fused.map((entry) => entry.id)).toEqual([3, 1, 2, 4]);
+    expect(fused[0]).toEqual({
+      id: 3,
+      score: 1 / 63 + 1 / 61,
+      matchedBy: ["keyword", "semantic"],
+    });
+    expect(fused[1]).toEqual({ id: 1, score: 1 / 61, matchedBy: ["keyword"] });
+  });
+
+  it("is empty without rankings", () => {
+    expect(fuseRankings([{ ids: [], source: "keyword" }])).toEqual([]);
+  });
+});
+
+describe("searchMeetings in hybrid mode", () => {
+  it("fuses keyword and semantic matches and counts each meeting once", async () => {
+    vi.mocked(queryMeetings).mockResolvedValue([
+      chunk(9, 0.2, "We talked about <budget> cuts"),
+      chunk(2, 0.3),
+      chunk(5, 0.9),
+    ]);
+    fake.queue(
+      // Keyword ranking and its total
+      [{ id: 1 }, { id: 2 }],
+      [{ value: 2 }],
+      // Semantic matches in scope, and whether they match the keywords too
+      [
+        { id: 9, keyword: false },
+        { id: 2, keyword: true },
+      ],
+      // The page
+      [
+        { id: 1, headline: "the \u0002budget\u0003" },
+        { id: 2, headline: "cut the \u0002budget\u0003" },
+        { id: 9, headline: "" },
+      ]
+    );
+
+    const response = await searchMeetings("budget", {}, { mode: "hybrid", limit: 10, offset: 0 });
+
+    expect(response.mode).toBe("hybrid");
+    expect(response.total).toBe(3);
+    expect(
+      response.results.map(({ id, headline, matchedBy }) => ({ id, headline, matchedBy }))
+    ).toEqual([
+      { id: 2, headline: "cut the <mark>budget</mark>", matchedBy: ["keyword", "semantic"] },
+      { id: 1, headline: "the <mark>budget</mark>", matchedBy: ["keyword"] },
+      { id: 9, headline: "We talked about &lt;budget&gt; cuts", matchedBy: ["semantic"] },
+    ]);
+  });
+
+  it("pages past the fused candidates in keyword order", async () => {
+    vi.mocked(queryMeetings).mockResolvedValue([chunk(3, 0.2), chunk(100, 0.3)]);
+    fake.queue(
+      ids(50),
+      [{ value: 52 }],
+      [
+        { id: 3, keyword: true },
+        { id: 100, keyword: false },
+      ],
+      // Keyword matches after the fused candidates
+      [{ id: 51 }, { id: 52 }],
+      [50, 51, 52].map((id) => ({ id, headline: "" }))
+    );
+
+    const response = await searchMeetings("budget", {}, { mode: "hybrid", limit: 5, offset: 50 });
+
+    expect(response.total).toBe(53);
+    expect(response.results.map((result) => result.id)).toEqual([50, 51, 52]);
+    expect(response.results.map((result) => result.rank)).toEqual([1 / 110, 1 / 111, 1 / 112]);
+    expect(fake.argsOf("limit").at(-1)).toEqual([4]);
+    expect(fake.argsOf("offset").at(-1)).toEqual([0]);
+  });
+
+  it("falls back to keyword search when the vector store is down", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(queryMeetings).mockRejectedValue(new Error("ChromaDB down"));
+    fake.queue(
+      [],
+      [{ value: 0 }],
+      [{ id: 1, rank: 0.5, headline: "\u0002budget\u0003" }],
+      [{ value: 1 }]
+    );
+
+    const response = await searchMeetings("budget", {}, { mode: "hybrid", limit: 10, offset: 0 });
+
+    expect(response.mode).toBe("keyword");
+    expect(response.total).toBe(1);
+    expect(response.results[0]?.headline).toBe("<mark>budget</mark>");
+    error.mockRestore();
+  });
+});
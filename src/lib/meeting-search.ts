@@ -0,0 +1,304 @@
+import {
+  and,
+  count,
+  desc,
+  getTableColumns,
+  gte,
+  inArray,
+  lt,
+  notInArray,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { queryMeetings, type MeetingQueryResult } from "@/lib/chromadb";
+import { db } from "@/lib/db";
+import type {
+  MeetingFilters,
+  MeetingSearchHit,
+  MeetingSearchMode,
+  MeetingSearchResponse,
+  MeetingSearchSource,
+} from "@/lib/meeting-details";
+import { getMeetingFilterConditions } from "@/lib/meeting-filters";
+import { meetings } from "@/lib/schema";
+
+// Every meeting column except the search document, which clients never need
+const { searchVector, ...meetingListColumns } = getTableColumns(meetings);
+export { meetingListColumns };
+
+// Control characters can't appear in transcripts, so they mark matches
+// safely until the snippet has been escaped
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+const HEADLINE_OPTIONS = [
+  `StartSel="${MATCH_START}"`,
+  `StopSel="${MATCH_END}"`,
+  "MaxFragments=2",
+  "MaxWords=25",
+  "MinWords=10",
+  'FragmentDelimiter=" ... "',
+].join(", ");
+
+// Transcript chunks fetched for hybrid search; one meeting can have many
+const SEMANTIC_CHUNK_POOL = 100;
+// Chunks further than this cosine distance from the query are unrelated to
+// it; without a cutoff every search would match the nearest meetings
+const MAX_SEMANTIC_DISTANCE = 0.6;
+// Meetings taken from each ranking before they are fused
+const HYBRID_CANDIDATES = 50;
+// Reciprocal-rank fusion constant; keeps one list's top result from
+// outweighing a meeting both lists rank well
+const RRF_K = 60;
+// Length of the passage shown for meetings found by meaning alone
+const EXCERPT_LENGTH = 200;
+
+export interface MeetingSearchOptions {
+  /** Defaults to keyword */
+  mode?: MeetingSearchMode | undefined;
+  /** Only meetings that started at or after this time */
+  from?: Date | undefined;
+  /** Only meetings that started before this time */
+  to?: Date | undefined;
+  limit: number;
+  offset: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Turn a raw ts_headline snippet into escaped HTML with <mark> tags
+ */
+function toHeadlineHtml(headline: string): string {
+  return escapeHtml(headline)
+    .replaceAll(MATCH_START, "<mark>")
+    .replaceAll(MATCH_END, "</mark>");
+}
+
+/**
+ * The start of a matching chunk, cut at a word boundary
+ */
+function toExcerptHtml(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= EXCERPT_LENGTH) return escapeHtml(flat);
+  const cut = flat.slice(0, EXCERPT_LENGTH);
+  return `${escapeHtml(cut.slice(0, cut.lastIndexOf(" ")) || cut)} ...`;
+}
+
+/**
+ * Filter and date range conditions shared by both search modes
+ */
+function getScopeConditions(filters: MeetingFilters, options: MeetingSearchOptions): SQL[] {
+  const conditions = getMeetingFilterConditions(filters);
+  if (options.from) conditions.push(gte(meetings.startedAt, options.from));
+  if (options.to) conditions.push(lt(meetings.startedAt, options.to));
+  return conditions;
+}
+
+function getSearchTerms(query: string) {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  return {
+    match: sql`${meetings.searchVector} @@ ${tsQuery}`,
+    rank: sql<number>`ts_rank(${meetings.searchVector}, ${tsQuery})`,
+    // Postgres only builds snippets for the rows returned, after sorting
+    headline: sql<string>`ts_headline('english', concat_ws(' ', ${meetings.summary}, ${meetings.transcript}), ${tsQuery}, ${HEADLINE_OPTIONS})`,
+  };
+}
+
+/**
+ * Full-text search over meeting titles, summaries and transcripts, best
+ * match first. Accepts web search syntax: "quoted phrases", OR and -exclusions.
+ *
+ * Hybrid mode also looks up embedded meeting chunks by meaning and fuses
+ * both rankings with reciprocal-rank fusion. If the vector store can't be
+ * reached it returns the keyword results.
+ */
+export async function searchMeetings(
+  query: string,
+  filters: MeetingFilters,
+  options: MeetingSearchOptions
+): Promise<MeetingSearchResponse> {
+  if (options.mode === "hybrid") {
+    const results = await searchMeetingsHybrid(query, filters, options);
+    if (results) return results;
+  }
+
+  const terms = getSearchTerms(query);
+  const conditions = [terms.match, ...getScopeConditions(filters, options)];
+
+  const [rows, [total]] = await Promise.all([
+    db
+      .select({ ...meetingListColumns, rank: terms.rank, headline: terms.headline })
+      .from(meetings)
+      .where(and(...conditions))
+      .orderBy(desc(terms.rank), desc(meetings.startedAt))
+      .limit(options.limit)
+      .offset(options.offset),
+    db
+      .select({ value: count() })
+      .from(meetings)
+      .where(and(...conditions)),
+  ]);
+
+  return {
+    mode: "keyword",
+    results: rows.map((row) => ({
+      ...row,
+      headline: toHeadlineHtml(row.headline),
+      matchedBy: ["keyword"],
+    })),
+    total: total?.value ?? 0,
+    limit: options.limit,
+    offset: options.offset,
+  };
+}
+
+/**
+ * Keep the closest chunk of each meeting, dropping chunks too far from the
+ * query to be related to it
+ *
+ * @param chunks - Chunks closest first, as the vector store returns them
+ * @returns Meeting ID to chunk, most similar meeting first
+ */
+export function pickClosestChunks(
+  chunks: MeetingQueryResult[],
+  maxDistance: number = MAX_SEMANTIC_DISTANCE
+): Map<number, MeetingQueryResult> {
+  const closest = new Map<number, MeetingQueryResult>();
+  for (const chunk of chunks) {
+    if (chunk.distance > maxDistance) continue;
+    if (!closest.has(chunk.meetingId)) closest.set(chunk.meetingId, chunk);
+  }
+  return closest;
+}
+
+/**
+ * Reciprocal-rank fusion: each ranking adds 1 / (k + position) to the
+ * meetings in it
+ *
+ * @returns Meetings ordered by fused score, best first
+ */
+export function fuseRankings(
+  rankings: Array<{ ids: number[]; source: MeetingSearchSource }>
+): Array<{ id: number; score: number; matchedBy: MeetingSearchSource[] }> {
+  const fused = new Map<number, { id: number; score: number; matchedBy: MeetingSearchSource[] }>();
+  for (const { ids, source } of rankings) {
+    ids.forEach((id, index) => {
+      const entry = fused.get(id) ?? { id, score: 0, matchedBy: [] };
+      entry.score += 1 / (RRF_K + index + 1);
+      entry.matchedBy.push(source);
+      fused.set(id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Keyword and semantic search fused into one ranking. The best candidates
+ * of both rankings are fused; the remaining keyword matches follow them in
+ * keyword order, so every match can be paged through.
+ *
+ * @returns The results, or null if the vector store is unavailable
+ */
+async function searchMeetingsHybrid(
+  query: string,
+  filters: MeetingFilters,
+  options: MeetingSearchOptions
+): Promise<MeetingSearchResponse | null> {
+  const terms = getSearchTerms(query);
+  const scope = getScopeConditions(filters, options);
+  const keywordConditions = [terms.match, ...scope];
+
+  const [keywordRows, [keywordTotal], chunks] = await Promise.all([
+    db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(and(...keywordConditions))
+      .orderBy(desc(terms.rank), desc(meetings.startedAt))
+      .limit(HYBRID_CANDIDATES),
+    db
+      .select({ value: count() })
+      .from(meetings)
+      .where(and(...keywordConditions)),
+    queryMeetings(query, SEMANTIC_CHUNK_POOL).catch((error) => {
+      console.error("Semantic meeting search failed, using keyword search:", error);
+      return null;
+    }),
+  ]);
+
+  if (!chunks) return null;
+
+  const bestChunks = pickClosestChunks(chunks);
+
+  // The vector store knows nothing of the filters (or of deleted meetings)
+  let semanticIds = [...bestChunks.keys()];
+  // Meetings found by meaning alone count on top of the keyword matches
+  let semanticOnlyCount = 0;
+  if (semanticIds.length > 0) {
+    const inScope = await db
+      .select({ id: meetings.id, keyword: sql<boolean>`${terms.match}` })
+      .from(meetings)
+      .where(and(inArray(meetings.id, semanticIds), ...scope));
+    const inScopeById = new Map(inScope.map((row) => [row.id, row.keyword]));
+    semanticIds = semanticIds.filter((id) => inScopeById.has(id)).slice(0, HYBRID_CANDIDATES);
+    semanticOnlyCount = semanticIds.filter((id) => !inScopeById.get(id)).length;
+  }
+
+  const ranked = fuseRankings([
+    { ids: keywordRows.map((row) => row.id), source: "keyword" },
+    { ids: semanticIds, source: "semantic" },
+  ]);
+  const total = (keywordTotal?.value ?? 0) + semanticOnlyCount;
+
+  const page = ranked.slice(options.offset, options.offset + options.limit);
+  const remaining = options.limit - page.length;
+  if (remaining > 0 && total > ranked.length) {
+    // Keyword matches past the fused candidates, scored by keyword position
+    const tailOffset = Math.max(0, options.offset - ranked.length);
+    const tail = await db
+      .select({ id: meetings.id })
+      .from(meetings)
+      .where(and(...keywordConditions, notInArray(meetings.id, ranked.map((entry) => entry.id))))
+      .orderBy(desc(terms.rank), desc(meetings.startedAt))
+      .limit(remaining)
+      .offset(tailOffset);
+    tail.forEach((row, index) => {
+      const position = keywordRows.length + tailOffset + index;
+      page.push({ id: row.id, score: 1 / (RRF_K + position + 1), matchedBy: ["keyword"] });
+    });
+  }
+
+  const rows =
+    page.length > 0
+      ? await db
+          .select({ ...meetingListColumns, headline: terms.headline })
+          .from(meetings)
+          .where(inArray(meetings.id, page.map((entry) => entry.id)))
+      : [];
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+  const results = page.flatMap((entry): MeetingSearchHit[] => {
+    const row = rowsById.get(entry.id);
+    if (!row) return [];
+
+    // Meetings found by meaning alone have no matched words to show
+    const headline = entry.matchedBy.includes("keyword")
+      ? toHeadlineHtml(row.headline)
+      : toExcerptHtml(bestChunks.get(entry.id)?.text ?? "");
+    return [{ ...row, rank: entry.score, headline, matchedBy: entry.matchedBy }];
+  });
+
+  return {
+    mode: "hybrid",
+    results,
+    total,
+    limit: options.limit,
+    offset: options.offset,
+  };
+}
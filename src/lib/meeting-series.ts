@@ -0,0 +1,44 @@
+import { z } from "zod";
+import type { Meeting, MeetingSeries } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const createSeriesSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255, "Name too long"),
+  description: z.string().trim().max(2000, "Description too long").nullable().optional(),
+});
+
+export const updateSeriesSchema = createSeriesSchema.partial();
+
+export type CreateSeriesInput = z.infer<typeof createSeriesSchema>;
+export type UpdateSeriesInput = z.infer<typeof updateSeriesSchema>;
+
+// ===========================================
+// Response Types
+// ===========================================
+
+/**
+ * Series with how many meetings it has and when the latest one started
+ */
+export type SeriesSummary = MeetingSeries & {
+  meetingCount: number;
+  lastMeetingAt: Date | string | null;
+};
+
+/**
+ * One meeting on a series timeline
+ */
+export type SeriesTimelineEntry = Pick<
+  Meeting,
+  "id" | "title" | "startedAt" | "endedAt" | "summary"
+> & {
+  openActionItems: number;
+};
+
+export interface SeriesTimeline {
+  series: MeetingSeries;
+  /** Meetings in the series, most recent first */
+  meetings: SeriesTimelineEntry[];
+}
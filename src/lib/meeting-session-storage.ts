@@ -0,0 +1,99 @@
+/**
+ * Meeting Session Storage Utilities
+ *
+ * Manages localStorage persistence for the live meeting session so that a
+ * page reload or browser crash can resume the same meeting record instead of
+ * starting a new one. Transcript segments that have not yet been saved to the
+ * server are kept here as well, so nothing said in the room is lost.
+ */
+
+import type { SegmentInput } from '@/lib/transcript-segments';
+
+/** localStorage key for the active meeting ID */
+const ACTIVE_MEETING_KEY = 'meeting:active:id';
+
+/** localStorage key for transcript segments not yet saved to the server */
+const PENDING_TRANSCRIPT_KEY = 'meeting:active:pending';
+
+/**
+ * Get the ID of the meeting currently in progress on this device
+ * @returns the meeting ID or null if no session is active
+ */
+export function getActiveMeetingId(): number | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const value = localStorage.getItem(ACTIVE_MEETING_KEY);
+    if (!value) return null;
+    const id = parseInt(value, 10);
+    return isNaN(id) ? null : id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the meeting currently in progress on this device
+ */
+export function setActiveMeetingId(id: number): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(ACTIVE_MEETING_KEY, String(id));
+  } catch {
+    console.error('Failed to save active meeting');
+  }
+}
+
+/**
+ * Get transcript segments that were captured but not yet saved
+ * @returns the pending segments in the order they were spoken
+ */
+export function getPendingTranscript(): SegmentInput[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const value = localStorage.getItem(PENDING_TRANSCRIPT_KEY);
+    if (!value) return [];
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter(
+      (entry): entry is SegmentInput =>
+        !!entry && typeof entry === 'object' && typeof entry.text === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the list of transcript segments waiting to be saved
+ */
+export function setPendingTranscript(segments: SegmentInput[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (segments.length === 0) {
+      localStorage.removeItem(PENDING_TRANSCRIPT_KEY);
+    } else {
+      localStorage.setItem(PENDING_TRANSCRIPT_KEY, JSON.stringify(segments));
+    }
+  } catch {
+    console.error('Failed to save pending transcript');
+  }
+}
+
+/**
+ * Forget the active meeting and any pending transcript segments
+ */
+export function clearActiveMeeting(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(ACTIVE_MEETING_KEY);
+    localStorage.removeItem(PENDING_TRANSCRIPT_KEY);
+  } catch {
+    console.error('Failed to clear active meeting');
+  }
+}
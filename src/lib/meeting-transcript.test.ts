@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDb } from "@/lib/__fixtures__/fake-db";
+import { deleteSegment, rebuildTranscript, revertSegmentRevision } from "@/lib/meeting-transcript";
+import type { SegmentRevision, TranscriptSegment } from "@/lib/schema";
+
+const fake = createFakeDb();
+
+vi.mock("@/lib/db", () => ({
+  get db() {
+    return fake.db;
+  },
+}));
+
+function segment(id: number, text: string, speaker: string | null = null): TranscriptSegment {
+  return {
+    id,
+    meetingId: 1,
+    startMs: id * 1000,
+    endMs: id * 1000 + 900,
+    text,
+    confidence: null,
+    language: "en",
+    speaker,
+    editedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function revision(overrides: Partial<SegmentRevision>): SegmentRevision {
+  return {
+    id: 20,
+    meetingId: 1,
+    segmentId: 2,
+    action: "edit",
+    previousText: "We ship in June",
+    text: "We ship in May",
+    previousSpeaker: "SPEAKER_01",
+    speaker: "SPEAKER_01",
+    startMs: 2000,
+    endMs: 2900,
+    confidence: 0.9,
+    language: "en",
+    editedBy: "ana@example.com",
+    revertedRevisionId: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Speaker names as stored; rebuildTranscript reads them after the segments
+const names = [{ label: "SPEAKER_00", name: "Ana" }];
+
+function lastTranscript() {
+  return (fake.argsOf("set").at(-1)?.[0] as { transcript?: unknown } | undefined)?.transcript;
+}
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("rebuildTranscript", () => {
+  it("joins the segments with the speakers' display names", async () => {
+    fake.queue(
+      [segment(1, "Hello", "SPEAKER_00"), segment(2, "Hi", "SPEAKER_01")],
+      names,
+      undefined
+    );
+
+    const transcript = await rebuildTranscript(1);
+
+    expect(transcript).toBe("Ana: Hello\nSPEAKER_01: Hi");
+    expect(lastTranscript()).toBe(transcript);
+  });
+
+  it("keeps the transcript of a meeting without segments", async () => {
+    fake.queue([], [], [{ transcript: "Imported transcript" }]);
+
+    expect(await rebuildTranscript(1)).toBe("Imported transcript");
+    expect(fake.argsOf("set")).toEqual([]);
+  });
+
+  it("clears the transcript when asked to and no segments are left", async () => {
+    fake.queue([], [], undefined);
+
+    expect(await rebuildTranscript(1, { clearWhenEmpty: true })).toBe("");
+    expect(lastTranscript()).toBeNull();
+  });
+});
+
+describe("deleteSegment", () => {
+  it("records the deletion and clears the transcript when it was the last segment", async () => {
+    const deleted = segment(2, "Only line");
+    fake.queue([deleted], [revision({ id: 21, action: "delete" })], [], [], undefined);
+
+    const result = await deleteSegment(1, 2, "ana@example.com");
+
+    expect(result?.segment).toEqual(deleted);
+    expect(fake.argsOf("values")[0]?.[0]).toMatchObject({
+      action: "delete",
+      previousText: "Only line",
+      text: "",
+      startMs: 2000,
+      endMs: 2900,
+    });
+    expect(lastTranscript()).toBeNull();
+  });
+
+  it("returns null for a segment of another meeting", async () => {
+    fake.queue([]);
+
+    expect(await deleteSegment(1, 99)).toBeNull();
+    expect(fake.argsOf("values")).toEqual([]);
+  });
+});
+
+describe("revertSegmentRevision", () => {
+  it("puts an edited segment back the way it was", async () => {
+    const current = segment(2, "We ship in May", "SPEAKER_01");
+    const reverted = { ...current, text: "We ship in June" };
+    fake.queue(
+      [revision({})],
+      [current],
+      [reverted],
+      [revision({ id: 22, revertedRevisionId: 20 })],
+      [segment(1, "Hello", "SPEAKER_00"), reverted],
+      names,
+      undefined
+    );
+
+    const result = await revertSegmentRevision(1, 20, "sam@example.com");
+
+    expect(result?.segment.text).toBe("We ship in June");
+    expect(fake.argsOf("set")[0]?.[0]).toMatchObject({ text: "We ship in June" });
+    expect(fake.argsOf("values")[0]?.[0]).toMatchObject({
+      previousText: "We ship in May",
+      text: "We ship in June",
+      editedBy: "sam@example.com",
+      revertedRevisionId: 20,
+    });
+    expect(lastTranscript()).toBe("Ana: Hello\nSPEAKER_01: We ship in June");
+  });
+
+  it("restores a deleted segment under its original ID", async () => {
+    const deletion = revision({ id: 21, action: "delete", text: "" });
+    const restored = segment(2, "We ship in June", "SPEAKER_01");
+    fake.queue(
+      [deletion],
+      [],
+      [restored],
+      [revision({ id: 23, action: "restore" })],
+      [restored],
+      [],
+      undefined
+    );
+
+    const result = await revertSegmentRevision(1, 21);
+
+    expect(result?.segment).toEqual(restored);
+    expect(fake.argsOf("values")[0]?.[0]).toMatchObject({
+      id: 2,
+      meetingId: 1,
+      startMs: 2000,
+      endMs: 2900,
+      text: "We ship in June",
+      speaker: "SPEAKER_01",
+    });
+    expect(fake.argsOf("values")[1]?.[0]).toMatchObject({
+      action: "restore",
+      revertedRevisionId: 21,
+    });
+    expect(lastTranscript()).toBe("SPEAKER_01: We ship in June");
+  });
+
+  it("deletes a restored segment again", async () => {
+    const restore = revision({ id: 23, action: "restore" });
+    fake.queue(
+      [restore],
+      [segment(2, "We ship in June")],
+      [revision({ id: 24, action: "delete" })],
+      [],
+      [],
+      undefined
+    );
+
+    await revertSegmentRevision(1, 23);
+
+    expect(fake.argsOf("values")[0]?.[0]).toMatchObject({
+      action: "delete",
+      segmentId: 2,
+      revertedRevisionId: 23,
+    });
+  });
+
+  it("returns null for a revision of another meeting", async () => {
+    fake.queue([]);
+
+    expect(await revertSegmentRevision(1, 99)).toBeNull();
+  });
+});
@@ -0,0 +1,477 @@
+import { and, asc, count, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  actionItems,
+  meetings,
+  meetingSpeakers,
+  segmentRevisions,
+  transcriptSegments,
+  type Meeting,
+  type SegmentRevision,
+  type TranscriptSegment,
+} from "@/lib/schema";
+import type { SegmentRevisionEntry } from "@/lib/segment-revisions";
+import {
+  formatSegmentLine,
+  resolveSpeaker,
+  type MeetingSpeakerSummary,
+  type SegmentInput,
+  type SpeakerNames,
+  type UpdateSpeakersInput,
+} from "@/lib/transcript-segments";
+
+/**
+ * Store captured segments for a meeting and append their text to the
+ * meeting transcript, which summaries and search still read from.
+ *
+ * @param meeting - Meeting the segments belong to (its start time anchors the offsets)
+ * @param inputs - Segments in the order they were spoken
+ * @param now - Fallback recording time for segments without `recordedAt`
+ */
+export async function appendSegments(
+  meeting: Pick<Meeting, "id" | "startedAt">,
+  inputs: SegmentInput[],
+  now: Date = new Date()
+): Promise<TranscriptSegment[]> {
+  if (inputs.length === 0) return [];
+
+  const meetingStart = meeting.startedAt.getTime();
+  const values = inputs.map((input) => {
+    const recordedAt = input.recordedAt ? new Date(input.recordedAt) : now;
+    const base = Math.max(0, recordedAt.getTime() - meetingStart);
+    const start = input.start ?? 0;
+    const end = Math.max(start, input.end ?? start);
+
+    return {
+      meetingId: meeting.id,
+      startMs: Math.round(base + start * 1000),
+      endMs: Math.round(base + end * 1000),
+      text: input.text,
+      confidence: input.confidence ?? null,
+      language: input.language ?? null,
+      speaker: input.speaker ?? null,
+    };
+  });
+
+  const inserted = await db.insert(transcriptSegments).values(values).returning();
+  const names = await getSpeakerNames(meeting.id);
+  const appended = inserted.map((segment) => formatSegmentLine(segment, names)).join("\n");
+
+  // Append in SQL so concurrent requests never overwrite each other
+  await db
+    .update(meetings)
+    .set({
+      transcript: sql`COALESCE(NULLIF(${meetings.transcript}, '') || E'\\n', '') || ${appended}`,
+    })
+    .where(eq(meetings.id, meeting.id));
+
+  return inserted;
+}
+
+/**
+ * List a meeting's segments in spoken order
+ */
+export async function getSegments(
+  meetingId: number,
+  { limit, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<TranscriptSegment[]> {
+  const query = db
+    .select()
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.meetingId, meetingId))
+    .orderBy(asc(transcriptSegments.startMs), asc(transcriptSegments.id))
+    .offset(offset);
+
+  return limit !== undefined ? query.limit(limit) : query;
+}
+
+/**
+ * Regenerate the meeting transcript from its segments after an edit.
+ *
+ * Imported and older meetings have a transcript but no segments; theirs is
+ * left as it is unless `clearWhenEmpty` is set (the last segment was deleted).
+ */
+export async function rebuildTranscript(
+  meetingId: number,
+  { clearWhenEmpty = false }: { clearWhenEmpty?: boolean } = {}
+): Promise<string> {
+  const [segments, names] = await Promise.all([
+    getSegments(meetingId),
+    getSpeakerNames(meetingId),
+  ]);
+  if (segments.length === 0 && !clearWhenEmpty) {
+    const [meeting] = await db
+      .select({ transcript: meetings.transcript })
+      .from(meetings)
+      .where(eq(meetings.id, meetingId));
+    return meeting?.transcript ?? "";
+  }
+  const transcript = segments.map((segment) => formatSegmentLine(segment, names)).join("\n");
+
+  await db
+    .update(meetings)
+    .set({ transcript: transcript || null })
+    .where(eq(meetings.id, meetingId));
+
+  return transcript;
+}
+
+// ===========================================
+// Corrections
+// ===========================================
+
+/**
+ * Correct the text or speaker of a segment, keeping the previous version
+ * in the revision history. The transcript is rebuilt afterwards.
+ *
+ * @returns The updated segment, or null if it isn't part of the meeting
+ */
+export async function editSegment(
+  meetingId: number,
+  segmentId: number,
+  changes: { text?: string; speaker?: string | null },
+  editedBy: string | null = null,
+  revertedRevisionId: number | null = null
+): Promise<{ segment: TranscriptSegment; revision: SegmentRevision | null } | null> {
+  const [current] = await db
+    .select()
+    .from(transcriptSegments)
+    .where(and(eq(transcriptSegments.id, segmentId), eq(transcriptSegments.meetingId, meetingId)));
+  if (!current) return null;
+
+  const text = changes.text ?? current.text;
+  const speaker = changes.speaker !== undefined ? changes.speaker || null : current.speaker;
+  if (text === current.text && speaker === current.speaker) {
+    return { segment: current, revision: null };
+  }
+
+  const { segment, revision } = await db.transaction(async (tx) => {
+    const [segment] = await tx
+      .update(transcriptSegments)
+      .set({ text, speaker, editedAt: new Date() })
+      .where(eq(transcriptSegments.id, segmentId))
+      .returning();
+    const [revision] = await tx
+      .insert(segmentRevisions)
+      .values({
+        meetingId,
+        segmentId,
+        previousText: current.text,
+        text,
+        previousSpeaker: current.speaker,
+        speaker,
+        startMs: current.startMs,
+        endMs: current.endMs,
+        editedBy,
+        revertedRevisionId,
+      })
+      .returning();
+    return { segment, revision };
+  });
+
+  await rebuildTranscript(meetingId);
+  return segment ? { segment, revision: revision ?? null } : null;
+}
+
+/**
+ * Delete a segment, keeping it in the revision history so the deletion
+ * can be reverted. The transcript is rebuilt afterwards.
+ *
+ * @returns The deleted segment, or null if it isn't part of the meeting
+ */
+export async function deleteSegment(
+  meetingId: number,
+  segmentId: number,
+  editedBy: string | null = null,
+  revertedRevisionId: number | null = null
+): Promise<{ segment: TranscriptSegment; revision: SegmentRevision | null } | null> {
+  const deleted = await db.transaction(async (tx) => {
+    const [segment] = await tx
+      .delete(transcriptSegments)
+      .where(and(eq(transcriptSegments.id, segmentId), eq(transcriptSegments.meetingId, meetingId)))
+      .returning();
+    if (!segment) return null;
+
+    const [revision] = await tx
+      .insert(segmentRevisions)
+      .values({
+        meetingId,
+        segmentId,
+        action: "delete",
+        previousText: segment.text,
+        text: "",
+        previousSpeaker: segment.speaker,
+        speaker: null,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        confidence: segment.confidence,
+        language: segment.language,
+        editedBy,
+        revertedRevisionId,
+      })
+      .returning();
+    return { segment, revision: revision ?? null };
+  });
+
+  if (deleted) await rebuildTranscript(meetingId, { clearWhenEmpty: true });
+  return deleted;
+}
+
+/**
+ * Put a deleted segment back under its original ID, from the revision
+ * that recorded the deletion
+ */
+async function restoreSegment(
+  meetingId: number,
+  deletion: SegmentRevision,
+  editedBy: string | null
+): Promise<{ segment: TranscriptSegment; revision: SegmentRevision | null } | null> {
+  const [existing] = await db
+    .select()
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.id, deletion.segmentId));
+  if (existing) {
+    return existing.meetingId === meetingId ? { segment: existing, revision: null } : null;
+  }
+  const { startMs, endMs } = deletion;
+  if (startMs === null || endMs === null) return null;
+
+  const restored = await db.transaction(async (tx) => {
+    const [segment] = await tx
+      .insert(transcriptSegments)
+      .values({
+        id: deletion.segmentId,
+        meetingId,
+        startMs,
+        endMs,
+        text: deletion.previousText,
+        confidence: deletion.confidence,
+        language: deletion.language,
+        speaker: deletion.previousSpeaker,
+      })
+      .returning();
+    if (!segment) return null;
+
+    const [revision] = await tx
+      .insert(segmentRevisions)
+      .values({
+        meetingId,
+        segmentId: segment.id,
+        action: "restore",
+        previousText: "",
+        text: segment.text,
+        previousSpeaker: null,
+        speaker: segment.speaker,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        editedBy,
+        revertedRevisionId: deletion.id,
+      })
+      .returning();
+    return { segment, revision: revision ?? null };
+  });
+
+  if (restored) await rebuildTranscript(meetingId);
+  return restored;
+}
+
+/**
+ * List the corrections made to a meeting's transcript, newest first
+ */
+export async function getSegmentRevisions(
+  meetingId: number,
+  segmentId?: number
+): Promise<SegmentRevisionEntry[]> {
+  const conditions = [eq(segmentRevisions.meetingId, meetingId)];
+  if (segmentId !== undefined) conditions.push(eq(segmentRevisions.segmentId, segmentId));
+
+  const rows = await db
+    .select({ revision: segmentRevisions, segmentStartMs: transcriptSegments.startMs })
+    .from(segmentRevisions)
+    .leftJoin(transcriptSegments, eq(segmentRevisions.segmentId, transcriptSegments.id))
+    .where(and(...conditions))
+    .orderBy(desc(segmentRevisions.createdAt), desc(segmentRevisions.id));
+
+  // Deleted segments are placed where they were
+  return rows.map((row) => ({
+    ...row.revision,
+    segmentStartMs: row.segmentStartMs ?? row.revision.startMs ?? 0,
+  }));
+}
+
+/**
+ * Undo a correction by putting its segment back the way it was before it.
+ * Later corrections to the same segment are undone too; the revert itself
+ * is recorded as a new revision. Reverting a deletion restores the
+ * segment, and reverting a restore deletes it again.
+ *
+ * @returns The restored segment, or null if the revision isn't part of the meeting
+ */
+export async function revertSegmentRevision(
+  meetingId: number,
+  revisionId: number,
+  editedBy: string | null = null
+): Promise<{ segment: TranscriptSegment; revision: SegmentRevision | null } | null> {
+  const [revision] = await db
+    .select()
+    .from(segmentRevisions)
+    .where(and(eq(segmentRevisions.id, revisionId), eq(segmentRevisions.meetingId, meetingId)));
+  if (!revision) return null;
+
+  if (revision.action === "delete") return restoreSegment(meetingId, revision, editedBy);
+  if (revision.action === "restore") {
+    return deleteSegment(meetingId, revision.segmentId, editedBy, revision.id);
+  }
+
+  return editSegment(
+    meetingId,
+    revision.segmentId,
+    { text: revision.previousText, speaker: revision.previousSpeaker },
+    editedBy,
+    revision.id
+  );
+}
+
+// ===========================================
+// Speakers
+// ===========================================
+
+/**
+ * Get the display names given to a meeting's speaker labels
+ */
+export async function getSpeakerNames(meetingId: number): Promise<SpeakerNames> {
+  const rows = await db
+    .select({ label: meetingSpeakers.label, name: meetingSpeakers.name })
+    .from(meetingSpeakers)
+    .where(eq(meetingSpeakers.meetingId, meetingId));
+
+  return Object.fromEntries(rows.map((row) => [row.label, row.name]));
+}
+
+/**
+ * Who took part in each of the given meetings: the listed attendees plus
+ * the display names of the speakers heard
+ *
+ * @returns Meeting ID -> names, sorted; meetings with nobody known are absent
+ */
+export async function getMeetingParticipants(
+  meetingIds: number[]
+): Promise<Map<number, string[]>> {
+  const participants = new Map<number, string[]>();
+  if (meetingIds.length === 0) return participants;
+
+  const [attendeeRows, speakerRows] = await Promise.all([
+    db
+      .select({ meetingId: meetings.id, attendees: meetings.attendees })
+      .from(meetings)
+      .where(inArray(meetings.id, meetingIds)),
+    db
+      .selectDistinct({
+        meetingId: transcriptSegments.meetingId,
+        label: transcriptSegments.speaker,
+        name: meetingSpeakers.name,
+      })
+      .from(transcriptSegments)
+      .leftJoin(
+        meetingSpeakers,
+        and(
+          eq(meetingSpeakers.meetingId, transcriptSegments.meetingId),
+          eq(meetingSpeakers.label, transcriptSegments.speaker)
+        )
+      )
+      .where(
+        and(
+          inArray(transcriptSegments.meetingId, meetingIds),
+          isNotNull(transcriptSegments.speaker)
+        )
+      ),
+  ]);
+
+  const names = new Map<number, Set<string>>();
+  const add = (meetingId: number, name: string | null) => {
+    if (!name) return;
+    names.set(meetingId, (names.get(meetingId) ?? new Set()).add(name));
+  };
+  for (const row of attendeeRows) {
+    for (const attendee of row.attendees) add(row.meetingId, attendee);
+  }
+  for (const row of speakerRows) {
+    add(row.meetingId, row.name ?? row.label);
+  }
+
+  for (const [meetingId, set] of names) {
+    participants.set(meetingId, [...set].sort((a, b) => a.localeCompare(b)));
+  }
+
+  return participants;
+}
+
+/**
+ * List every speaker heard in a meeting with its display name
+ */
+export async function getMeetingSpeakers(meetingId: number): Promise<MeetingSpeakerSummary[]> {
+  const [labels, names] = await Promise.all([
+    db
+      .select({ label: transcriptSegments.speaker, segmentCount: count() })
+      .from(transcriptSegments)
+      .where(
+        and(eq(transcriptSegments.meetingId, meetingId), isNotNull(transcriptSegments.speaker))
+      )
+      .groupBy(transcriptSegments.speaker)
+      .orderBy(sql`MIN(${transcriptSegments.startMs})`),
+    getSpeakerNames(meetingId),
+  ]);
+
+  return labels.flatMap((row) =>
+    row.label
+      ? [{ label: row.label, name: names[row.label] ?? null, segmentCount: row.segmentCount }]
+      : []
+  );
+}
+
+/**
+ * Give speaker labels display names for one meeting. The transcript is
+ * rebuilt with the new names and action items assigned to the old name
+ * follow the speaker.
+ */
+export async function renameSpeakers(
+  meetingId: number,
+  speakers: UpdateSpeakersInput["speakers"]
+): Promise<MeetingSpeakerSummary[]> {
+  const previousNames = await getSpeakerNames(meetingId);
+
+  for (const { label, name } of speakers) {
+    const previous = resolveSpeaker(label, previousNames) ?? label;
+    const next = name && name !== label ? name : null;
+
+    if (next) {
+      await db
+        .insert(meetingSpeakers)
+        .values({ meetingId, label, name: next })
+        .onConflictDoUpdate({
+          target: [meetingSpeakers.meetingId, meetingSpeakers.label],
+          set: { name: next },
+        });
+    } else {
+      await db
+        .delete(meetingSpeakers)
+        .where(and(eq(meetingSpeakers.meetingId, meetingId), eq(meetingSpeakers.label, label)));
+    }
+
+    const current = next ?? label;
+    if (current !== previous) {
+      await db
+        .update(actionItems)
+        .set({ assignee: current })
+        .where(
+          and(
+            eq(actionItems.meetingId, meetingId),
+            inArray(actionItems.assignee, [previous, label])
+          )
+        );
+    }
+  }
+
+  await rebuildTranscript(meetingId);
+  return getMeetingSpeakers(meetingId);
+}
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { SummaryProgress } from "@/lib/meeting-ai";
+import type { MeetingImport } from "@/lib/schema";
+
+// Recordings are split into chunks of this length before upload
+export const IMPORT_CHUNK_MS = 30 * 1000;
+
+// Longest recording accepted for import (8 hours)
+export const MAX_IMPORT_DURATION_MS = 8 * 60 * 60 * 1000;
+
+// Extensions accepted by the import dialog
+export const IMPORT_FILE_ACCEPT = ".wav,.mp3,.webm,audio/wav,audio/mpeg,audio/webm";
+
+/**
+ * An import as listed by the API, with the title of its meeting and the
+ * summary progress while it is being summarized
+ */
+export type MeetingImportSummary = MeetingImport & {
+  meetingTitle: string | null;
+  summaryProgress?: SummaryProgress | null;
+};
+
+export type ImportStatus =
+  | "uploading"
+  | "queued"
+  | "transcribing"
+  | "summarizing"
+  | "completed"
+  | "failed";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const createImportSchema = z
+  .object({
+    title: z.string().trim().max(255, "Title too long").optional(),
+    fileName: z.string().trim().min(1, "File name is required").max(255),
+    startedAt: z
+      .string()
+      .refine((value) => !isNaN(Date.parse(value)), "Invalid startedAt timestamp"),
+    durationMs: z.number().int().min(1).max(MAX_IMPORT_DURATION_MS, "Recording too long"),
+    chunkDurationMs: z.number().int().min(1000).max(5 * 60 * 1000),
+    totalChunks: z.number().int().min(1),
+  })
+  .refine(
+    (value) => value.totalChunks === Math.ceil(value.durationMs / value.chunkDurationMs),
+    { message: "Chunk count does not match the duration", path: ["totalChunks"] }
+  );
+
+export type CreateImportInput = z.infer<typeof createImportSchema>;
+
+// ===========================================
+// Progress
+// ===========================================
+
+/**
+ * Whether an import is still being uploaded or processed
+ */
+export function isImportActive(status: string): boolean {
+  return status !== "completed" && status !== "failed";
+}
+
+/**
+ * Overall progress of an import from 0 to 100. Uploading counts for the
+ * first fifth, transcription for the rest.
+ */
+export function getImportProgress(
+  item: Pick<MeetingImport, "status" | "totalChunks" | "uploadedChunks" | "processedChunks">
+): number {
+  if (item.status === "completed") return 100;
+  const uploaded = item.uploadedChunks / item.totalChunks;
+  const processed = item.processedChunks / item.totalChunks;
+  if (item.status === "uploading") return Math.round(uploaded * 20);
+  if (item.status === "summarizing") return 95;
+  return Math.round(20 + processed * 75);
+}
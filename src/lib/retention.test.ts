@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeDb } from "@/lib/__fixtures__/fake-db";
+import { deleteMeetingChunks } from "@/lib/chromadb";
+import { deleteMeetingAudio } from "@/lib/meeting-audio";
+import { removeImportFiles } from "@/lib/meeting-import";
+import { getRetentionCutoff, previewRetention, runRetentionPurge } from "@/lib/retention";
+import { getSetting } from "@/lib/settings";
+
+const fake = createFakeDb();
+
+vi.mock("@/lib/db", () => ({
+  get db() {
+    return fake.db;
+  },
+}));
+vi.mock("@/lib/settings", () => ({ getSetting: vi.fn() }));
+vi.mock("@/lib/chromadb", () => ({ deleteDocument: vi.fn(), deleteMeetingChunks: vi.fn() }));
+vi.mock("@/lib/document-files", () => ({ removeDocumentFile: vi.fn() }));
+vi.mock("@/lib/meeting-audio", () => ({ deleteMeetingAudio: vi.fn() }));
+vi.mock("@/lib/meeting-import", () => ({ removeImportFiles: vi.fn() }));
+
+const now = new Date("2024-06-30T12:00:00Z");
+const expiredMeetings = [
+  { id: 1, title: "Kickoff", startedAt: new Date("2024-01-02"), endedAt: new Date("2024-01-02") },
+  { id: 2, title: null, startedAt: new Date("2024-02-03"), endedAt: null },
+];
+const run = { id: 7, retentionDays: 90 };
+
+// Results of the preview queries, in the order previewRetention awaits them
+function previewResults({ actionItems = 5, audioClips = 2 } = {}) {
+  return [expiredMeetings, [{ value: actionItems }], [{ value: audioClips }], []];
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getSetting).mockResolvedValue(90);
+  vi.mocked(deleteMeetingAudio).mockResolvedValue(1);
+});
+
+describe("getRetentionCutoff", () => {
+  it("counts whole days back from now", () => {
+    expect(getRetentionCutoff(90, now)).toEqual(new Date("2024-04-01T12:00:00Z"));
+  });
+});
+
+describe("previewRetention", () => {
+  it("lists the expired meetings with their action item and audio counts", async () => {
+    fake.reset(...previewResults());
+
+    const preview = await previewRetention(now);
+
+    expect(preview).toMatchObject({
+      enabled: true,
+      retentionDays: 90,
+      meetings: expiredMeetings,
+      actionItemCount: 5,
+      audioClipCount: 2,
+      documents: [],
+    });
+  });
+
+  it("skips the counts when nothing has expired", async () => {
+    fake.reset([], []);
+
+    const preview = await previewRetention(now);
+
+    expect(preview.actionItemCount).toBe(0);
+    expect(preview.audioClipCount).toBe(0);
+  });
+
+  it("is disabled when data is kept forever", async () => {
+    vi.mocked(getSetting).mockResolvedValue(0);
+    fake.reset();
+
+    const preview = await previewRetention(now);
+
+    expect(preview).toMatchObject({ enabled: false, cutoff: null, meetings: [] });
+    expect(fake.calls).toEqual([]);
+  });
+});
+
+describe("runRetentionPurge", () => {
+  it("logs the action items the delete removed, not the preview count", async () => {
+    fake.reset(
+      ...previewResults({ actionItems: 5 }),
+      [run],
+      // Meeting 2 was reopened after the preview, so only meeting 1 is deleted
+      [{ id: 1 }],
+      [{ id: 11 }, { id: 12 }],
+      [{ id: 40 }],
+      [{ id: 1 }],
+      undefined,
+      [run]
+    );
+
+    await runRetentionPurge("manual", now);
+
+    expect(fake.argsOf("set").at(-1)?.[0]).toMatchObject({
+      meetingsDeleted: 1,
+      actionItemsDeleted: 2,
+      documentsDeleted: 0,
+      audioClipsDeleted: 2,
+      error: null,
+    });
+  });
+
+  it("removes the uploaded recordings of deleted imports", async () => {
+    fake.reset(
+      ...previewResults(),
+      [run],
+      [{ id: 1 }, { id: 2 }],
+      [],
+      [{ id: 40 }, { id: 41 }],
+      [{ id: 1 }, { id: 2 }],
+      undefined,
+      [run]
+    );
+
+    await runRetentionPurge("scheduled", now);
+
+    expect(vi.mocked(removeImportFiles).mock.calls).toEqual([[40], [41]]);
+  });
+
+  it("keeps a meeting whose search chunks couldn't be deleted", async () => {
+    vi.mocked(deleteMeetingChunks).mockRejectedValueOnce(new Error("ChromaDB down"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    fake.reset(...previewResults(), [run], [{ id: 2 }], [], [], [{ id: 2 }], undefined, [run]);
+
+    await runRetentionPurge("manual", now);
+
+    expect(deleteMeetingAudio).toHaveBeenCalledWith([2]);
+    expect(fake.argsOf("set").at(-1)?.[0]).toMatchObject({
+      meetingsDeleted: 1,
+      error: "Meeting 1: search chunks could not be deleted",
+    });
+    error.mockRestore();
+  });
+});
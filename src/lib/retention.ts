@@ -0,0 +1,309 @@
+import { and, count, desc, eq, inArray, lt, sql } from "drizzle-orm";
+import { deleteDocument, deleteMeetingChunks } from "@/lib/chromadb";
+import { db } from "@/lib/db";
+import { removeDocumentFile } from "@/lib/document-files";
+import { deleteMeetingAudio } from "@/lib/meeting-audio";
+import { removeImportFiles } from "@/lib/meeting-import";
+import {
+  actionItems,
+  documents,
+  meetingAudioClips,
+  meetingImports,
+  meetings,
+  retentionRuns,
+  type RetentionRun,
+} from "@/lib/schema";
+import { getSetting } from "@/lib/settings";
+
+// How often the scheduled purge runs (default: once a day)
+const RETENTION_INTERVAL_MS =
+  parseFloat(process.env.RETENTION_INTERVAL_HOURS || "24") * 60 * 60 * 1000;
+
+// Delay before the first scheduled run so startup isn't slowed down
+const RETENTION_STARTUP_DELAY_MS = 60 * 1000;
+
+export type RetentionTrigger = "scheduled" | "manual";
+
+export interface RetentionPreview {
+  /** False when retentionDays is 0 (keep forever) */
+  enabled: boolean;
+  retentionDays: number;
+  /** Data older than this is purged (null when disabled) */
+  cutoff: Date | null;
+  meetings: Array<{ id: number; title: string | null; startedAt: Date; endedAt: Date | null }>;
+  actionItemCount: number;
+  audioClipCount: number;
+  documents: Array<{ id: number; originalName: string | null; uploadedAt: Date }>;
+}
+
+/**
+ * Compute the cutoff date for a retention period
+ */
+export function getRetentionCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Meetings are aged by when they ended; abandoned meetings by when they started
+function meetingExpiredBefore(cutoff: Date) {
+  return lt(sql`COALESCE(${meetings.endedAt}, ${meetings.startedAt})`, cutoff);
+}
+
+/**
+ * List everything the next purge would delete, without deleting anything
+ */
+export async function previewRetention(now: Date = new Date()): Promise<RetentionPreview> {
+  const retentionDays = await getSetting("retentionDays");
+
+  if (retentionDays === 0) {
+    return {
+      enabled: false,
+      retentionDays,
+      cutoff: null,
+      meetings: [],
+      actionItemCount: 0,
+      audioClipCount: 0,
+      documents: [],
+    };
+  }
+
+  const cutoff = getRetentionCutoff(retentionDays, now);
+
+  const expiredMeetings = await db
+    .select({
+      id: meetings.id,
+      title: meetings.title,
+      startedAt: meetings.startedAt,
+      endedAt: meetings.endedAt,
+    })
+    .from(meetings)
+    .where(meetingExpiredBefore(cutoff))
+    .orderBy(meetings.startedAt);
+
+  const meetingIds = expiredMeetings.map((m) => m.id);
+  const [actionItemTotal] =
+    meetingIds.length > 0
+      ? await db
+          .select({ value: count() })
+          .from(actionItems)
+          .where(inArray(actionItems.meetingId, meetingIds))
+      : [{ value: 0 }];
+  const [audioClipTotal] =
+    meetingIds.length > 0
+      ? await db
+          .select({ value: count() })
+          .from(meetingAudioClips)
+          .where(inArray(meetingAudioClips.meetingId, meetingIds))
+      : [{ value: 0 }];
+
+  const expiredDocuments = await db
+    .select({
+      id: documents.id,
+      originalName: documents.originalName,
+      uploadedAt: documents.uploadedAt,
+    })
+    .from(documents)
+    .where(lt(documents.uploadedAt, cutoff))
+    .orderBy(documents.uploadedAt);
+
+  return {
+    enabled: true,
+    retentionDays,
+    cutoff,
+    meetings: expiredMeetings,
+    actionItemCount: actionItemTotal?.value ?? 0,
+    audioClipCount: audioClipTotal?.value ?? 0,
+    documents: expiredDocuments,
+  };
+}
+
+// Prevent overlapping purges (scheduled run and manual trigger at once)
+let isPurging = false;
+
+/**
+ * Delete meetings (with their action items, stored audio and imported recordings) and
+ * documents older than the configured retention period. Every run is recorded in the purge log.
+ *
+ * @returns The purge log entry, or null if retention is disabled or a purge is already running
+ */
+export async function runRetentionPurge(
+  trigger: RetentionTrigger,
+  now: Date = new Date()
+): Promise<RetentionRun | null> {
+  if (isPurging) return null;
+  isPurging = true;
+
+  try {
+    const preview = await previewRetention(now);
+    if (!preview.enabled || !preview.cutoff) return null;
+
+    const [run] = await db
+      .insert(retentionRuns)
+      .values({
+        retentionDays: preview.retentionDays,
+        cutoff: preview.cutoff,
+        trigger,
+        startedAt: now,
+      })
+      .returning();
+
+    if (!run) {
+      throw new Error("Failed to create retention run");
+    }
+
+    const errors: string[] = [];
+    let meetingsDeleted = 0;
+    let actionItemsDeleted = 0;
+    let documentsDeleted = 0;
+    let audioClipsDeleted = 0;
+
+    try {
+      // Meetings - remove search chunks and stored audio first so nothing is left behind
+      const meetingIds: number[] = [];
+      for (const meeting of preview.meetings) {
+        try {
+          await deleteMeetingChunks(meeting.id);
+        } catch (chromaError) {
+          console.error(`Retention: failed to delete chunks for meeting ${meeting.id}:`, chromaError);
+          errors.push(`Meeting ${meeting.id}: search chunks could not be deleted`);
+          // Keep the meeting so the next run retries the chunks
+          continue;
+        }
+
+        try {
+          audioClipsDeleted += await deleteMeetingAudio([meeting.id]);
+          meetingIds.push(meeting.id);
+        } catch (storageError) {
+          console.error(`Retention: failed to delete audio for meeting ${meeting.id}:`, storageError);
+          errors.push(`Meeting ${meeting.id}: stored audio could not be deleted`);
+          // Keep the meeting so the next run retries the audio
+        }
+      }
+
+      if (meetingIds.length > 0) {
+        const { cutoff } = preview;
+        const deleted = await db.transaction(async (tx) => {
+          const expired = await tx
+            .select({ id: meetings.id })
+            .from(meetings)
+            .where(and(inArray(meetings.id, meetingIds), meetingExpiredBefore(cutoff)))
+            .for("update");
+          const expiredIds = expired.map((m) => m.id);
+          if (expiredIds.length === 0) return { meetingIds: [], actionItemCount: 0, importIds: [] };
+
+          // Removed explicitly, rather than by the cascade, so the log records how many went
+          const items = await tx
+            .delete(actionItems)
+            .where(inArray(actionItems.meetingId, expiredIds))
+            .returning({ id: actionItems.id });
+          // Import rows go with the cascade; their uploaded audio is removed below
+          const imports = await tx
+            .select({ id: meetingImports.id })
+            .from(meetingImports)
+            .where(inArray(meetingImports.meetingId, expiredIds));
+          const removed = await tx
+            .delete(meetings)
+            .where(inArray(meetings.id, expiredIds))
+            .returning({ id: meetings.id });
+
+          return {
+            meetingIds: removed.map((m) => m.id),
+            actionItemCount: items.length,
+            importIds: imports.map((i) => i.id),
+          };
+        });
+        meetingsDeleted = deleted.meetingIds.length;
+        actionItemsDeleted = deleted.actionItemCount;
+
+        for (const importId of deleted.importIds) {
+          try {
+            await removeImportFiles(importId);
+          } catch (storageError) {
+            console.error(`Retention: failed to delete files of import ${importId}:`, storageError);
+          }
+        }
+      }
+
+      // Documents - remove vector chunks first so nothing stays searchable
+      for (const doc of preview.documents) {
+        try {
+          await deleteDocument(doc.id.toString());
+        } catch (chromaError) {
+          console.error(`Retention: failed to delete chunks for document ${doc.id}:`, chromaError);
+          errors.push(`Document ${doc.id}: vector chunks could not be deleted`);
+          // Keep the row so the next run retries the chunks
+          continue;
+        }
+
+        const deleted = await db
+          .delete(documents)
+          .where(eq(documents.id, doc.id))
+          .returning({ id: documents.id, storageUrl: documents.storageUrl });
+        documentsDeleted += deleted.length;
+
+        for (const file of deleted) {
+          await removeDocumentFile(file);
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : "Purge failed");
+      throw error;
+    } finally {
+      // Record what was actually removed, even if the purge failed part way
+      await db
+        .update(retentionRuns)
+        .set({
+          meetingsDeleted,
+          actionItemsDeleted,
+          documentsDeleted,
+          audioClipsDeleted,
+          error: errors.length > 0 ? errors.join("\n") : null,
+          finishedAt: new Date(),
+        })
+        .where(eq(retentionRuns.id, run.id));
+    }
+
+    const [finishedRun] = await db
+      .select()
+      .from(retentionRuns)
+      .where(eq(retentionRuns.id, run.id));
+
+    return finishedRun ?? run;
+  } finally {
+    isPurging = false;
+  }
+}
+
+/**
+ * Get the most recent purge log entries
+ */
+export async function getRetentionRuns(limit: number = 20): Promise<RetentionRun[]> {
+  return db.select().from(retentionRuns).orderBy(desc(retentionRuns.startedAt)).limit(limit);
+}
+
+// Survive module reloads in development so only one scheduler runs
+const globalForRetention = globalThis as unknown as {
+  retentionTimer?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Start the background purge job. Safe to call more than once.
+ */
+export function startRetentionScheduler(): void {
+  if (globalForRetention.retentionTimer || RETENTION_INTERVAL_MS <= 0) return;
+
+  const run = async () => {
+    try {
+      const result = await runRetentionPurge("scheduled");
+      if (result && (result.meetingsDeleted > 0 || result.documentsDeleted > 0)) {
+        console.warn(
+          `Retention purge removed ${result.meetingsDeleted} meetings and ${result.documentsDeleted} documents`
+        );
+      }
+    } catch (error) {
+      console.error("Scheduled retention purge failed:", error);
+    }
+  };
+
+  setTimeout(run, RETENTION_STARTUP_DELAY_MS);
+  globalForRetention.retentionTimer = setInterval(run, RETENTION_INTERVAL_MS);
+}
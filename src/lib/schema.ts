@@ -1,4 +1,6 @@
+import { sql } from "drizzle-orm";
 import {
+  customType,
   pgTable,
   serial,
   varchar,
@@ -6,13 +8,34 @@ import {
   timestamp,
   integer,
   boolean,
+  real,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // ===========================================
 // Meeting Tables
 // ===========================================
 
+// Recurring meetings (weekly standups, sprint reviews) grouped together
+export const meetingSeries = pgTable("meeting_series", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
 export const meetings = pgTable(
   "meetings",
   {
@@ -22,13 +45,39 @@ export const meetings = pgTable(
     endedAt: timestamp("ended_at"),
     transcript: text("transcript"),
     summary: text("summary"),
+    // Grouping and people, edited on the meeting detail page
+    seriesId: integer("series_id").references(() => meetingSeries.id, {
+      onDelete: "set null",
+    }),
+    project: varchar("project", { length: 255 }),
+    tags: text("tags").array().default(sql`'{}'::text[]`).notNull(),
+    attendees: text("attendees").array().default(sql`'{}'::text[]`).notNull(),
+    // Rolling "catch me up" summary while the meeting is running
+    liveSummary: text("live_summary"),
+    // Last segment and offset covered by the live summary
+    liveSummarySegmentId: integer("live_summary_segment_id"),
+    liveSummaryThroughMs: integer("live_summary_through_ms"),
+    liveSummaryAt: timestamp("live_summary_at"),
+    // When the transcript was last embedded for search (null = needs indexing)
+    indexedAt: timestamp("indexed_at"),
+    // Full-text search document kept up to date by Postgres; the title
+    // ranks above the summary, which ranks above the transcript
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(summary, '')), 'B') || setweight(to_tsvector('english', coalesce(transcript, '')), 'C')`
+    ),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
       .$onUpdate(() => new Date())
       .notNull(),
   },
-  (table) => [index("meetings_started_at_idx").on(table.startedAt)]
+  (table) => [
+    index("meetings_started_at_idx").on(table.startedAt),
+    index("meetings_series_id_idx").on(table.seriesId, table.startedAt),
+    index("meetings_project_idx").on(table.project),
+    index("meetings_tags_idx").using("gin", table.tags),
+    index("meetings_search_vector_idx").using("gin", table.searchVector),
+  ]
 );
 
 export const actionItems = pgTable(
@@ -42,6 +91,14 @@ export const actionItems = pgTable(
     task: text("task").notNull(),
     dueDate: timestamp("due_date"),
     completed: boolean("completed").default(false).notNull(),
+    // Set when the item was extracted by the LLM rather than added by a person
+    aiSuggested: boolean("ai_suggested").default(false).notNull(),
+    confirmedAt: timestamp("confirmed_at"),
+    // Transcript passage the item was extracted from; the span is in
+    // milliseconds from the meeting start so it survives transcript edits
+    transcriptQuote: text("transcript_quote"),
+    transcriptStartMs: integer("transcript_start_ms"),
+    transcriptEndMs: integer("transcript_end_ms"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -54,6 +111,221 @@ export const actionItems = pgTable(
   ]
 );
 
+// Decisions reached in meetings, kept as a searchable log
+export const decisions = pgTable(
+  "decisions",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    decision: text("decision").notNull(),
+    rationale: text("rationale"),
+    // Set when the decision was extracted by the LLM rather than added by a person
+    aiSuggested: boolean("ai_suggested").default(false).notNull(),
+    confirmedAt: timestamp("confirmed_at"),
+    // Transcript passage the decision was extracted from; the span is in
+    // milliseconds from the meeting start so it survives transcript edits
+    transcriptQuote: text("transcript_quote"),
+    transcriptStartMs: integer("transcript_start_ms"),
+    transcriptEndMs: integer("transcript_end_ms"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("decisions_meeting_id_idx").on(table.meetingId)]
+);
+
+export const transcriptSegments = pgTable(
+  "transcript_segments",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    // Offsets from the start of the meeting, in milliseconds
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms").notNull(),
+    text: text("text").notNull(),
+    confidence: real("confidence"),
+    language: varchar("language", { length: 10 }),
+    speaker: varchar("speaker", { length: 255 }),
+    // When the text or speaker was last corrected by hand
+    editedAt: timestamp("edited_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("transcript_segments_meeting_id_start_ms_idx").on(table.meetingId, table.startMs),
+  ]
+);
+
+// Hand corrections of transcript segments, kept so they can be reviewed and reverted
+export const segmentRevisions = pgTable(
+  "segment_revisions",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    // Not a foreign key: revisions of a deleted segment are kept so it can be restored
+    segmentId: integer("segment_id").notNull(),
+    // "edit", "delete" or "restore"; a deleted segment has empty text afterwards
+    action: varchar("action", { length: 20 }).notNull().default("edit"),
+    // The segment before and after the change
+    previousText: text("previous_text").notNull(),
+    text: text("text").notNull(),
+    previousSpeaker: varchar("previous_speaker", { length: 255 }),
+    speaker: varchar("speaker", { length: 255 }),
+    // Timing and details of a deleted segment, used to restore it
+    startMs: integer("start_ms"),
+    endMs: integer("end_ms"),
+    confidence: real("confidence"),
+    language: varchar("language", { length: 10 }),
+    // Name the editor gave, if any
+    editedBy: varchar("edited_by", { length: 255 }),
+    // Set when this change undid an earlier revision
+    revertedRevisionId: integer("reverted_revision_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("segment_revisions_meeting_id_idx").on(table.meetingId, table.createdAt),
+    index("segment_revisions_segment_id_idx").on(table.segmentId),
+  ]
+);
+
+// Display names for diarized speaker labels ("Speaker 1" -> "Alex"), per meeting
+export const meetingSpeakers = pgTable(
+  "meeting_speakers",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    label: varchar("label", { length: 255 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("meeting_speakers_meeting_id_label_idx").on(table.meetingId, table.label),
+  ]
+);
+
+// Topical chapters of a meeting transcript, in order
+export const meetingChapters = pgTable(
+  "meeting_chapters",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    position: integer("position").notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    gist: text("gist"),
+    // Offsets from the start of the meeting, in milliseconds
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("meeting_chapters_meeting_id_idx").on(table.meetingId, table.position)]
+);
+
+// Planned topics of a meeting with their time boxes, in order
+export const agendaItems = pgTable(
+  "agenda_items",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    position: integer("position").notNull(),
+    topic: varchar("topic", { length: 255 }).notNull(),
+    durationMinutes: integer("duration_minutes").notNull(),
+    // When discussion of the topic began and moved on (null = not yet)
+    startedAt: timestamp("started_at"),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("agenda_items_meeting_id_idx").on(table.meetingId, table.position)]
+);
+
+// Moments marked as important during a meeting, by voice command or button
+export const meetingHighlights = pgTable(
+  "meeting_highlights",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    // The marked moment and the window of transcript saved with it,
+    // as offsets from the meeting start
+    atMs: integer("at_ms").notNull(),
+    startMs: integer("start_ms").notNull(),
+    quote: text("quote").notNull(),
+    note: text("note"),
+    source: varchar("source", { length: 20 }).default("button").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("meeting_highlights_meeting_id_idx").on(table.meetingId, table.atMs)]
+);
+
+// Recorded audio kept for playback, one clip per recording (only when storeAudio is on)
+export const meetingAudioClips = pgTable(
+  "meeting_audio_clips",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    // Where the clip falls in the meeting, as an offset from its start
+    startMs: integer("start_ms").notNull(),
+    durationMs: integer("duration_ms").notNull(),
+    url: text("url").notNull(),
+    pathname: text("pathname").notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("meeting_audio_clips_meeting_id_idx").on(table.meetingId, table.startMs)]
+);
+
+// Uploaded recordings being transcribed in the background, one per meeting
+export const meetingImports = pgTable(
+  "meeting_imports",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .references(() => meetings.id, { onDelete: "cascade" })
+      .notNull(),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    // "uploading" | "queued" | "transcribing" | "summarizing" | "completed" | "failed"
+    status: varchar("status", { length: 20 }).default("uploading").notNull(),
+    totalChunks: integer("total_chunks").notNull(),
+    uploadedChunks: integer("uploaded_chunks").default(0).notNull(),
+    processedChunks: integer("processed_chunks").default(0).notNull(),
+    chunkDurationMs: integer("chunk_duration_ms").notNull(),
+    durationMs: integer("duration_ms").notNull(),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("meeting_imports_meeting_id_idx").on(table.meetingId),
+    index("meeting_imports_status_idx").on(table.status),
+  ]
+);
+
 // ===========================================
 // Settings Table (Admin Configuration)
 // ===========================================
@@ -83,22 +355,112 @@ export const documents = pgTable(
     uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
     processedAt: timestamp("processed_at"),
     chunkCount: integer("chunk_count"),
+    // Original file in storage (null for documents uploaded before files were kept)
+    storageUrl: text("storage_url"),
+    storagePathname: text("storage_pathname"),
+    // Why the last ingestion failed
+    error: text("error"),
   },
   (table) => [index("documents_uploaded_at_idx").on(table.uploadedAt)]
 );
 
+// Background extraction and embedding of an uploaded document, one per document
+export const documentJobs = pgTable(
+  "document_jobs",
+  {
+    id: serial("id").primaryKey(),
+    documentId: integer("document_id")
+      .references(() => documents.id, { onDelete: "cascade" })
+      .notNull(),
+    // "queued" | "extracting" | "chunking" | "embedding" | "done" | "failed"
+    status: varchar("status", { length: 20 }).default("queued").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    // Known once the text has been chunked
+    totalChunks: integer("total_chunks"),
+    embeddedChunks: integer("embedded_chunks").default(0).notNull(),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("document_jobs_document_id_idx").on(table.documentId),
+    index("document_jobs_status_idx").on(table.status),
+  ]
+);
+
+// ===========================================
+// Retention Runs Table (Purge Log)
+// ===========================================
+
+export const retentionRuns = pgTable(
+  "retention_runs",
+  {
+    id: serial("id").primaryKey(),
+    retentionDays: integer("retention_days").notNull(),
+    cutoff: timestamp("cutoff").notNull(),
+    trigger: varchar("trigger", { length: 20 }).notNull(), // "scheduled" | "manual"
+    meetingsDeleted: integer("meetings_deleted").default(0).notNull(),
+    actionItemsDeleted: integer("action_items_deleted").default(0).notNull(),
+    documentsDeleted: integer("documents_deleted").default(0).notNull(),
+    audioClipsDeleted: integer("audio_clips_deleted").default(0).notNull(),
+    error: text("error"),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [index("retention_runs_started_at_idx").on(table.startedAt)]
+);
+
 // ===========================================
 // Type Exports
 // ===========================================
 
+export type MeetingSeries = typeof meetingSeries.$inferSelect;
+export type NewMeetingSeries = typeof meetingSeries.$inferInsert;
+
 export type Meeting = typeof meetings.$inferSelect;
 export type NewMeeting = typeof meetings.$inferInsert;
 
 export type ActionItem = typeof actionItems.$inferSelect;
 export type NewActionItem = typeof actionItems.$inferInsert;
 
+export type Decision = typeof decisions.$inferSelect;
+export type NewDecision = typeof decisions.$inferInsert;
+
+export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
+export type NewTranscriptSegment = typeof transcriptSegments.$inferInsert;
+
+export type SegmentRevision = typeof segmentRevisions.$inferSelect;
+export type NewSegmentRevision = typeof segmentRevisions.$inferInsert;
+
+export type MeetingSpeaker = typeof meetingSpeakers.$inferSelect;
+export type NewMeetingSpeaker = typeof meetingSpeakers.$inferInsert;
+
+export type MeetingChapter = typeof meetingChapters.$inferSelect;
+export type NewMeetingChapter = typeof meetingChapters.$inferInsert;
+
+export type AgendaItem = typeof agendaItems.$inferSelect;
+export type NewAgendaItem = typeof agendaItems.$inferInsert;
+
+export type MeetingHighlight = typeof meetingHighlights.$inferSelect;
+export type NewMeetingHighlight = typeof meetingHighlights.$inferInsert;
+
+export type MeetingAudioClip = typeof meetingAudioClips.$inferSelect;
+export type NewMeetingAudioClip = typeof meetingAudioClips.$inferInsert;
+
+export type MeetingImport = typeof meetingImports.$inferSelect;
+export type NewMeetingImport = typeof meetingImports.$inferInsert;
+
 export type Setting = typeof settings.$inferSelect;
 export type NewSetting = typeof settings.$inferInsert;
 
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
+
+export type DocumentJob = typeof documentJobs.$inferSelect;
+export type NewDocumentJob = typeof documentJobs.$inferInsert;
+
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+export type NewRetentionRun = typeof retentionRuns.$inferInsert;
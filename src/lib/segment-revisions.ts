@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { SegmentRevision } from "@/lib/schema";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+export const editorNameSchema = z.string().trim().max(255, "Name too long").nullable().optional();
+
+export const revertRevisionSchema = z.object({
+  editedBy: editorNameSchema,
+});
+
+export type RevertRevisionInput = z.infer<typeof revertRevisionSchema>;
+
+// ===========================================
+// Response Types
+// ===========================================
+
+/**
+ * A revision with where its segment sits in the meeting
+ */
+export type SegmentRevisionEntry = SegmentRevision & {
+  segmentStartMs: number;
+};
+
+// ===========================================
+// Diffs
+// ===========================================
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Larger edits are shown as a plain replacement rather than diffed word by word
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff between two versions of a segment's text
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: "removed" as const, text: before },
+      { type: "added" as const, text: after },
+    ].filter((part) => part.text);
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i++]!);
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      push("removed", a[i++]!);
+    } else {
+      push("added", b[j++]!);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]!);
+  while (j < b.length) push("added", b[j++]!);
+
+  return parts;
+}
+
+// ===========================================
+// Editor Name
+// ===========================================
+
+/** localStorage key for the name corrections are recorded under */
+const EDITOR_NAME_KEY = "transcript:editor-name";
+
+/**
+ * Name last used to correct a transcript in this browser
+ */
+export function getEditorName(): string {
+  if (typeof window === "undefined") return "";
+
+  try {
+    return localStorage.getItem(EDITOR_NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Remember the name corrections are recorded under
+ */
+export function saveEditorName(name: string): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    if (name.trim()) {
+      localStorage.setItem(EDITOR_NAME_KEY, name.trim());
+    } else {
+      localStorage.removeItem(EDITOR_NAME_KEY);
+    }
+  } catch {
+    console.error("Failed to save editor name");
+  }
+}
@@ -0,0 +1,97 @@
+import { and, asc, desc, eq, lt, ne } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { actionItems, meetings, meetingSeries, type ActionItem } from "@/lib/schema";
+
+/**
+ * What a meeting carries over from the previous meeting in its series
+ */
+export interface SeriesCarryOver {
+  seriesName: string;
+  previous: {
+    id: number;
+    title: string;
+    startedAt: Date;
+    summary: string | null;
+  };
+  /** Action items from the previous meeting that are still open */
+  openActionItems: ActionItem[];
+}
+
+/**
+ * Load the summary and open action items of the meeting before this one
+ * in its series
+ *
+ * @returns null when the meeting isn't in a series or is the first of it
+ */
+export async function getSeriesCarryOver(meetingId: number): Promise<SeriesCarryOver | null> {
+  const [meeting] = await db
+    .select({
+      startedAt: meetings.startedAt,
+      seriesId: meetings.seriesId,
+      seriesName: meetingSeries.name,
+    })
+    .from(meetings)
+    .innerJoin(meetingSeries, eq(meetings.seriesId, meetingSeries.id))
+    .where(eq(meetings.id, meetingId));
+  if (!meeting?.seriesId) return null;
+
+  const [previous] = await db
+    .select({
+      id: meetings.id,
+      title: meetings.title,
+      startedAt: meetings.startedAt,
+      summary: meetings.summary,
+    })
+    .from(meetings)
+    .where(
+      and(
+        eq(meetings.seriesId, meeting.seriesId),
+        ne(meetings.id, meetingId),
+        lt(meetings.startedAt, meeting.startedAt)
+      )
+    )
+    .orderBy(desc(meetings.startedAt))
+    .limit(1);
+  if (!previous) return null;
+
+  const openActionItems = await db
+    .select()
+    .from(actionItems)
+    .where(and(eq(actionItems.meetingId, previous.id), eq(actionItems.completed, false)))
+    .orderBy(asc(actionItems.createdAt));
+
+  return {
+    seriesName: meeting.seriesName,
+    previous: { ...previous, title: previous.title || "Untitled Meeting" },
+    openActionItems,
+  };
+}
+
+/**
+ * Render carried-over context as a section of the assistant's system prompt
+ */
+export function formatCarryOverPrompt(carryOver: SeriesCarryOver): string {
+  const date = carryOver.previous.startedAt.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  const items = carryOver.openActionItems.map((item) => {
+    const details = [
+      item.assignee ? `@${item.assignee}` : null,
+      item.dueDate ? `due ${item.dueDate.toISOString().slice(0, 10)}` : null,
+    ].filter(Boolean);
+    return `- ${item.task}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+  });
+
+  return `
+
+PREVIOUS MEETING IN THIS SERIES ("${carryOver.seriesName}"): "${carryOver.previous.title}", ${date}
+Summary:
+${carryOver.previous.summary || "No summary was recorded."}
+
+Open action items from that meeting:
+${items.length > 0 ? items.join("\n") : "None"}
+
+This meeting continues the series. Use this to follow up on what was agreed last time, and mention open action items when they are relevant.`;
+}
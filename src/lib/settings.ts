@@ -7,6 +7,9 @@ export interface SettingsValues {
   voiceSpeed: "slow" | "normal" | "fast";
   wakeWord: string;
   retentionDays: number;
+  liveSummaryMinutes: number;
+  highlightSeconds: number;
+  storeAudio: boolean;
   ttsEnabled: boolean;
   autoTranscribe: boolean;
   tourEnabled: boolean;
@@ -18,6 +21,9 @@ export const DEFAULT_SETTINGS: SettingsValues = {
   voiceSpeed: "normal",
   wakeWord: "hey assistant",
   retentionDays: 90,
+  liveSummaryMinutes: 5,
+  highlightSeconds: 30,
+  storeAudio: false,
   ttsEnabled: true,
   autoTranscribe: true,
   tourEnabled: true,
@@ -73,12 +79,32 @@ export async function getSettings(): Promise<SettingsValues> {
           result.wakeWord = value;
           break;
         case "retentionDays": {
+          // 0 means keep data forever
           const days = parseInt(value, 10);
-          if (!isNaN(days) && days > 0) {
+          if (!isNaN(days) && days >= 0) {
             result.retentionDays = days;
           }
           break;
         }
+        case "liveSummaryMinutes": {
+          // 0 turns off automatic refreshes; "catch me up" still works
+          const minutes = parseInt(value, 10);
+          if (!isNaN(minutes) && minutes >= 0) {
+            result.liveSummaryMinutes = minutes;
+          }
+          break;
+        }
+        case "highlightSeconds": {
+          // How much of the conversation before a bookmark is saved with it
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds >= 5 && seconds <= 600) {
+            result.highlightSeconds = seconds;
+          }
+          break;
+        }
+        case "storeAudio":
+          result.storeAudio = value === "true";
+          break;
         case "ttsEnabled":
           result.ttsEnabled = value === "true";
           break;
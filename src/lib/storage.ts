@@ -1,5 +1,5 @@
 import { existsSync } from "fs";
-import { writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { put, del } from "@vercel/blob";
 
@@ -19,6 +19,11 @@ export interface StorageConfig {
   maxSize?: number;
   /** Allowed MIME types (default: images and documents) */
   allowedTypes?: string[];
+  /**
+   * Keep the file out of the public directory, so it can only be read back
+   * through download(). Only affects local storage.
+   */
+  private?: boolean;
 }
 
 /**
@@ -26,6 +31,7 @@ export interface StorageConfig {
  */
 const DEFAULT_CONFIG: Required<StorageConfig> = {
   maxSize: 5 * 1024 * 1024, // 5MB
+  private: false,
   allowedTypes: [
     // Images
     "image/jpeg",
@@ -35,9 +41,19 @@ const DEFAULT_CONFIG: Required<StorageConfig> = {
     "image/svg+xml",
     // Documents
     "application/pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
     "text/plain",
+    "text/markdown",
     "text/csv",
+    "text/html",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/vnd.oasis.opendocument.text",
+    "application/rtf",
+    "application/epub+zip",
     "application/json",
+    // Audio
+    "audio/wav",
   ],
 };
 
@@ -52,11 +68,45 @@ const ALLOWED_EXTENSIONS = new Set([
   ".webp",
   ".svg",
   ".pdf",
+  ".docx",
   ".txt",
+  ".md",
   ".csv",
+  ".html",
+  ".htm",
+  ".xlsx",
+  ".pptx",
+  ".odt",
+  ".rtf",
+  ".epub",
   ".json",
+  ".wav",
 ]);
 
+/**
+ * Extensions that would run as pages on the app's origin if served from
+ * the public directory, so they are only accepted for private files
+ */
+const PRIVATE_ONLY_EXTENSIONS = new Set([".html", ".htm"]);
+
+// Prefix of the URLs of private local files
+const PRIVATE_URL_PREFIX = "private:";
+
+function getPrivateUploadsDir(): string {
+  return process.env.PRIVATE_UPLOADS_DIR || join(process.cwd(), "storage", "uploads");
+}
+
+/**
+ * Where a local file lives, from the URL upload() returned for it
+ */
+function getLocalPath(url: string): string {
+  if (url.startsWith(PRIVATE_URL_PREFIX)) {
+    return join(getPrivateUploadsDir(), url.slice(PRIVATE_URL_PREFIX.length));
+  }
+  // Extract pathname from URL (e.g., /uploads/avatars/avatar.png -> avatars/avatar.png)
+  return join(process.cwd(), "public", "uploads", url.replace(/^\/uploads\//, ""));
+}
+
 /**
  * Sanitize a filename by removing dangerous characters and path traversal attempts
  */
@@ -94,7 +144,7 @@ export function validateFile(
   filename: string,
   config: StorageConfig = {}
 ): { valid: true } | { valid: false; error: string } {
-  const { maxSize } = { ...DEFAULT_CONFIG, ...config };
+  const { maxSize, private: isPrivate } = { ...DEFAULT_CONFIG, ...config };
 
   // Check file size
   if (buffer.length > maxSize) {
@@ -112,6 +162,9 @@ export function validateFile(
       error: `File type not allowed. Allowed extensions: ${Array.from(ALLOWED_EXTENSIONS).join(", ")}`,
     };
   }
+  if (PRIVATE_ONLY_EXTENSIONS.has(ext) && !isPrivate) {
+    return { valid: false, error: "File type not allowed" };
+  }
 
   // Optionally check MIME type if provided
   // Note: For full MIME type validation, consider using a library like 'file-type'
@@ -164,7 +217,9 @@ export async function upload(
     };
   } else {
     // Use local filesystem storage
-    const uploadsDir = join(process.cwd(), "public", "uploads");
+    const uploadsDir = config?.private
+      ? getPrivateUploadsDir()
+      : join(process.cwd(), "public", "uploads");
     const targetDir = folder ? join(uploadsDir, folder) : uploadsDir;
 
     // Ensure the directory exists
@@ -176,9 +231,9 @@ export async function upload(
     const filepath = join(targetDir, sanitizedFilename);
     await writeFile(filepath, buffer);
 
-    // Return local URL
+    // Return local URL; private files have no public one
     const pathname = folder ? `${folder}/${sanitizedFilename}` : sanitizedFilename;
-    const url = `/uploads/${pathname}`;
+    const url = config?.private ? `${PRIVATE_URL_PREFIX}${pathname}` : `/uploads/${pathname}`;
 
     return {
       url,
@@ -187,6 +242,31 @@ export async function upload(
   }
 }
 
+/**
+ * Reads a stored file back
+ *
+ * @param url - The URL returned by upload()
+ * @returns The file contents
+ *
+ * @example
+ * ```ts
+ * const buffer = await download("/uploads/documents/notes.pdf");
+ * ```
+ */
+export async function download(url: string): Promise<Buffer> {
+  const hasVercelBlob = Boolean(process.env.BLOB_READ_WRITE_TOKEN);
+
+  if (hasVercelBlob) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } else {
+    return readFile(getLocalPath(url));
+  }
+}
+
 /**
  * Deletes a file from storage
  * 
@@ -207,9 +287,7 @@ export async function deleteFile(url: string): Promise<void> {
     await del(url);
   } else {
     // Delete from local filesystem
-    // Extract pathname from URL (e.g., /uploads/avatars/avatar.png -> avatars/avatar.png)
-    const pathname = url.replace(/^\/uploads\//, "");
-    const filepath = join(process.cwd(), "public", "uploads", pathname);
+    const filepath = getLocalPath(url);
 
     // Only attempt to delete if file exists
     if (existsSync(filepath)) {
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import type { TranscriptSegment } from "@/lib/schema";
+import { editorNameSchema } from "@/lib/segment-revisions";
+
+// ===========================================
+// Request Validation
+// ===========================================
+
+/**
+ * A segment as captured by the client. `start` and `end` are seconds
+ * relative to `recordedAt` (when the recording began), which the server
+ * converts into offsets from the start of the meeting.
+ */
+export const segmentInputSchema = z.object({
+  text: z.string().trim().min(1, "Text is required").max(20000, "Segment too long"),
+  recordedAt: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), "Invalid recordedAt timestamp")
+    .optional(),
+  start: z.number().min(0).optional(),
+  end: z.number().min(0).optional(),
+  confidence: z.number().min(0).max(1).nullable().optional(),
+  language: z.string().trim().max(10).nullable().optional(),
+  speaker: z.string().trim().max(255).nullable().optional(),
+});
+
+// Most segments accepted by one append request
+export const MAX_SEGMENTS_PER_REQUEST = 500;
+
+export const appendSegmentsSchema = z.object({
+  segments: z
+    .array(segmentInputSchema)
+    .min(1, "At least one segment is required")
+    .max(MAX_SEGMENTS_PER_REQUEST),
+});
+
+export const updateSegmentSchema = z.object({
+  text: z.string().trim().min(1, "Text is required").max(20000, "Segment too long").optional(),
+  speaker: z.string().trim().max(255).nullable().optional(),
+  // Recorded in the revision history
+  editedBy: editorNameSchema,
+});
+
+// The body of a segment deletion is optional; it only names who deleted it
+export const deleteSegmentSchema = z.object({
+  editedBy: editorNameSchema,
+});
+
+// Rename diarized speakers; a null or empty name restores the original label
+export const updateSpeakersSchema = z.object({
+  speakers: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1, "Label is required").max(255),
+        name: z.string().trim().max(255, "Name too long").nullable(),
+      })
+    )
+    .min(1, "At least one speaker is required"),
+});
+
+export type SegmentInput = z.infer<typeof segmentInputSchema>;
+export type UpdateSegmentInput = z.infer<typeof updateSegmentSchema>;
+export type DeleteSegmentInput = z.infer<typeof deleteSegmentSchema>;
+export type UpdateSpeakersInput = z.infer<typeof updateSpeakersSchema>;
+
+// ===========================================
+// Speakers
+// ===========================================
+
+/** Speaker label -> display name for one meeting */
+export type SpeakerNames = Record<string, string>;
+
+/**
+ * A speaker heard in a meeting, with the name it has been given
+ */
+export interface MeetingSpeakerSummary {
+  label: string;
+  name: string | null;
+  segmentCount: number;
+}
+
+/**
+ * Resolve a speaker label to its display name, if one has been set
+ */
+export function resolveSpeaker(label: string | null, names: SpeakerNames = {}): string | null {
+  if (!label) return null;
+  return names[label] ?? label;
+}
+
+// ===========================================
+// Formatting
+// ===========================================
+
+/**
+ * Format a meeting offset as m:ss (or h:mm:ss for long meetings)
+ */
+export function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Render a segment as a plain transcript line ("Speaker: text")
+ */
+export function formatSegmentLine(
+  segment: Pick<TranscriptSegment, "text" | "speaker">,
+  names: SpeakerNames = {}
+): string {
+  const speaker = resolveSpeaker(segment.speaker, names);
+  return speaker ? `${speaker}: ${segment.text}` : segment.text;
+}
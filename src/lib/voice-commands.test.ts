@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseVoiceCommand } from "@/lib/voice-commands";
+
+describe("parseVoiceCommand", () => {
+  it.each([
+    "Catch me up.",
+    "Could you catch me up on this?",
+    "What did I miss?",
+    "Okay, what did I miss so far",
+    "Sorry, what did I miss",
+    "Give me a recap of the meeting",
+    "quick recap so far",
+  ])("asks for a catch-up: %s", (text) => {
+    expect(parseVoiceCommand(text)).toEqual({ type: "catch-up" });
+  });
+
+  it.each([
+    "She asked what did I miss in the report",
+    "Let's recap the budget numbers",
+    "We should catch up with the vendor",
+  ])("leaves ordinary speech alone: %s", (text) => {
+    expect(parseVoiceCommand(text)).toBeNull();
+  });
+
+  it("bookmarks the moment", () => {
+    expect(parseVoiceCommand("Bookmark that.")).toEqual({ type: "bookmark", note: null });
+    expect(parseVoiceCommand("Please save this moment")).toEqual({ type: "bookmark", note: null });
+  });
+
+  it("names a bookmark from what follows it", () => {
+    expect(parseVoiceCommand("Bookmark this, as pricing decision.")).toEqual({
+      type: "bookmark",
+      note: "pricing decision",
+    });
+    expect(parseVoiceCommand("mark that moment note: follow up with legal")).toEqual({
+      type: "bookmark",
+      note: "follow up with legal",
+    });
+  });
+
+  it("doesn't treat \"highlight that\" as a bookmark", () => {
+    expect(parseVoiceCommand("Can you highlight that in the notes?")).toBeNull();
+  });
+});
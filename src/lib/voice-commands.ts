@@ -0,0 +1,41 @@
+/**
+ * Voice commands recognized in meeting utterances, handled by the meeting
+ * room itself instead of being sent to the assistant as a question.
+ */
+
+export type VoiceCommand =
+  | { type: "catch-up" }
+  | { type: "bookmark"; note: string | null };
+
+// Phrases asking for the live summary. "What did I miss" only counts as the
+// start of an utterance, so talking about what someone missed isn't one.
+const CATCH_UP_PATTERNS = [
+  /\bcatch me up\b/i,
+  /^[\s,.]*(?:(?:ok(?:ay)?|so|sorry|hey)[\s,]+)?what did i miss\b/i,
+  /\b(?:give me a |quick )?recap(?: of)? (?:the meeting|so far)\b/i,
+];
+
+// Phrases marking the moment as important. "Highlight that" is left out on
+// purpose: it is too common in ordinary speech.
+const BOOKMARK_PATTERN = /\bbookmark (?:that|this)(?: moment)?\b|\b(?:mark|save) (?:that|this) moment\b/i;
+// "..., as pricing decision" names the bookmark
+const BOOKMARK_NOTE_PATTERN = /^[\s,:-]*(?:as|note)\b[\s:]*(.+?)[.!?]*$/i;
+
+/**
+ * Detect a voice command in a transcribed utterance
+ *
+ * @returns The command, or null if the utterance is ordinary speech
+ */
+export function parseVoiceCommand(text: string): VoiceCommand | null {
+  if (CATCH_UP_PATTERNS.some((pattern) => pattern.test(text))) {
+    return { type: "catch-up" };
+  }
+
+  const bookmark = BOOKMARK_PATTERN.exec(text);
+  if (bookmark) {
+    const rest = text.slice(bookmark.index + bookmark[0].length);
+    return { type: "bookmark", note: BOOKMARK_NOTE_PATTERN.exec(rest)?.[1]?.trim() || null };
+  }
+
+  return null;
+}
@@ -10,6 +10,8 @@ export interface TranscriptionResult {
   language?: string | undefined;
   languageProbability?: number | undefined;
   duration?: number | undefined;
+  /** Timed segments, only present for detailed transcriptions */
+  segments?: TranscriptionSegment[] | undefined;
 }
 
 export interface TranscriptionSegment {
@@ -17,6 +19,10 @@ export interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
+  /** Average token probability for the segment (0-1) */
+  confidence?: number;
+  /** Diarized speaker label ("Speaker 1"), when diarization is enabled */
+  speaker?: string | null;
   words?: Array<{
     word: string;
     start: number;
@@ -36,6 +42,10 @@ export interface TranscribeOptions {
   task?: "transcribe" | "translate" | undefined;
   /** Include detailed segment information */
   detailed?: boolean | undefined;
+  /** Label segments by speaker (requires detailed and diarization on the service) */
+  diarize?: boolean | undefined;
+  /** Clips with the same session ID share speaker labels */
+  sessionId?: string | undefined;
 }
 
 export interface StreamingTranscriptionEvent {
@@ -81,6 +91,14 @@ export async function transcribeAudio(
     formData.append("detailed", "true");
   }
 
+  if (options.diarize) {
+    formData.append("diarize", "true");
+  }
+
+  if (options.sessionId) {
+    formData.append("sessionId", options.sessionId);
+  }
+
   const response = await fetch("/api/transcribe", {
     method: "POST",
     body: formData,
@@ -236,6 +254,7 @@ export async function checkTranscriptionService(): Promise<{
   available: boolean;
   modelSize?: string;
   device?: string;
+  diarization?: boolean;
   error?: string;
 }> {
   try {
@@ -256,6 +275,7 @@ export async function checkTranscriptionService(): Promise<{
       available: health.status === "healthy",
       modelSize: health.model_size,
       device: health.device,
+      diarization: health.diarization === true,
     };
   } catch (error) {
     return {